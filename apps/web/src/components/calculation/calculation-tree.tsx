@@ -1,81 +1,107 @@
 /**
  * Calculation Tree Component
  *
- * Main container that fetches and displays all calculation trees.
+ * Main container that displays the feed of calculation trees.
+ * Roots are loaded a page at a time as the user scrolls, in the order and
+ * with the filters picked in the filter bar.
  */
 
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
 
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { orpc } from "@/utils/orpc";
 import { CreateRootForm } from "./create-root-form";
-import type { OperatorType } from "./operator-badge";
+import {
+	DEFAULT_FEED_FILTERS,
+	FeedFilterBar,
+	type FeedFilters,
+} from "./feed-filter-bar";
 import { RootNode } from "./root-node";
 
-// Type definitions matching the API response
-interface Operation {
-	id: string;
-	parentRootId: string | null;
-	parentOperationId: string | null;
-	operator: OperatorType;
-	operand: number;
-	result: number;
-	userId: string;
-	username?: string;
-	children: Operation[];
-	createdAt: string;
-	updatedAt: string;
-}
-
-interface CalculationRoot {
-	id: string;
-	value: number;
-	userId: string;
-	username?: string;
-	operations: Operation[];
-	createdAt: string;
-	updatedAt: string;
-}
+const PAGE_SIZE = 20;
 
 interface CalculationTreeProps {
 	isAuthenticated: boolean;
+	currentUserId?: string;
+	isAdmin?: boolean;
 }
 
-export function CalculationTree({ isAuthenticated }: CalculationTreeProps) {
+export function CalculationTree({
+	isAuthenticated,
+	currentUserId,
+	isAdmin,
+}: CalculationTreeProps) {
+	const [filters, setFilters] = useState<FeedFilters>(DEFAULT_FEED_FILTERS);
+	const isFiltered = Object.entries(filters).some(
+		([key, value]) => key !== "sort" && value !== undefined,
+	);
 	const {
-		data: trees,
+		data,
 		isLoading,
 		error,
-	} = useQuery(orpc.calculation.getFullTree.queryOptions());
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useInfiniteQuery(
+		orpc.calculation.listRoots.infiniteOptions({
+			input: (cursor: string | undefined) => ({
+				...filters,
+				cursor,
+				limit: PAGE_SIZE,
+			}),
+			initialPageParam: undefined,
+			getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+		}),
+	);
 
-	if (isLoading) {
-		return (
-			<div className="space-y-4">
-				<Skeleton className="h-10 w-full" />
-				<Skeleton className="h-32 w-full" />
-				<Skeleton className="h-32 w-full" />
-			</div>
-		);
-	}
+	// Load the next page when the sentinel below the list scrolls into view
+	const sentinelRef = useRef<HTMLDivElement>(null);
+	useEffect(() => {
+		const sentinel = sentinelRef.current;
+		if (!sentinel || !hasNextPage) return;
 
-	if (error) {
-		return (
-			<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
-				Failed to load calculations: {error.message}
-			</div>
-		);
-	}
+		const observer = new IntersectionObserver((entries) => {
+			if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+				fetchNextPage();
+			}
+		});
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [fetchNextPage, hasNextPage, isFetchingNextPage]);
 
-	// Cast the data to our type (API returns compatible structure)
-	const typedTrees = trees as CalculationRoot[] | undefined;
+	const typedTrees = data?.pages.flatMap((page) => page.roots);
 
 	return (
 		<div className="space-y-4">
 			{/* Create new root form */}
 			{isAuthenticated && <CreateRootForm />}
 
+			<FeedFilterBar filters={filters} onChange={setFilters} />
+
+			{isLoading && (
+				<div className="space-y-4">
+					<Skeleton className="h-32 w-full" />
+					<Skeleton className="h-32 w-full" />
+				</div>
+			)}
+
+			{error && (
+				<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
+					Failed to load calculations: {error.message}
+				</div>
+			)}
+
 			{/* Empty state */}
-			{typedTrees?.length === 0 && (
+			{typedTrees?.length === 0 && isFiltered && (
+				<div className="rounded-lg border border-dashed p-8 text-center">
+					<p className="text-muted-foreground">
+						No calculations match these filters.
+					</p>
+				</div>
+			)}
+			{typedTrees?.length === 0 && !isFiltered && (
 				<div className="rounded-lg border border-dashed p-8 text-center">
 					<p className="text-muted-foreground">No calculations yet.</p>
 					{isAuthenticated ? (
@@ -92,8 +118,28 @@ export function CalculationTree({ isAuthenticated }: CalculationTreeProps) {
 
 			{/* Calculation trees */}
 			{typedTrees?.map((root) => (
-				<RootNode key={root.id} root={root} isAuthenticated={isAuthenticated} />
+				<RootNode
+					key={root.id}
+					root={root}
+					isAuthenticated={isAuthenticated}
+					currentUserId={currentUserId}
+					isAdmin={isAdmin}
+				/>
 			))}
+
+			{/* Infinite scroll */}
+			{hasNextPage && (
+				<div ref={sentinelRef} className="flex justify-center">
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => fetchNextPage()}
+						disabled={isFetchingNextPage}
+					>
+						{isFetchingNextPage ? "Loading..." : "Load more"}
+					</Button>
+				</div>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,139 @@
+/**
+ * Chain Form Component
+ *
+ * Form to add several operations at once by typing them as one
+ * expression, e.g. "+5 *2 -3 /4". Each operation replies to the previous
+ * one. The intermediate results are previewed while typing and the whole
+ * chain is saved in one go (nothing is saved if any step is invalid).
+ */
+
+import {
+	keepPreviousData,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import { useDeferredValue, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatNumber } from "@/lib/format";
+import { orpc } from "@/utils/orpc";
+import { OperatorBadge } from "./operator-badge";
+
+interface ChainFormProps {
+	parentRootId?: string;
+	parentOperationId?: string;
+	onCancel: () => void;
+	/** Shows a button to go back to entering a single operation */
+	onSwitchToSingle?: () => void;
+}
+
+export function ChainForm({
+	parentRootId,
+	parentOperationId,
+	onCancel,
+	onSwitchToSingle,
+}: ChainFormProps) {
+	const [expression, setExpression] = useState("");
+	const deferredExpression = useDeferredValue(expression.trim());
+	const queryClient = useQueryClient();
+
+	const preview = useQuery({
+		...orpc.calculation.previewChain.queryOptions({
+			input: {
+				parentRootId,
+				parentOperationId,
+				expression: deferredExpression,
+			},
+		}),
+		enabled: deferredExpression.length > 0,
+		placeholderData: keepPreviousData,
+		retry: false,
+	});
+	const steps = preview.data;
+
+	const mutation = useMutation(
+		orpc.calculation.createChain.mutationOptions({
+			onSuccess: () => {
+				queryClient.invalidateQueries({
+					queryKey: orpc.calculation.key(),
+				});
+				setExpression("");
+				onCancel();
+			},
+		}),
+	);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!expression.trim()) return;
+		mutation.mutate({
+			parentRootId,
+			parentOperationId,
+			expression: expression.trim(),
+		});
+	};
+
+	const error = mutation.error ?? (expression.trim() ? preview.error : null);
+
+	return (
+		<div className="space-y-1">
+			<form
+				onSubmit={handleSubmit}
+				className="flex flex-wrap items-center gap-2"
+			>
+				<Input
+					placeholder="+5 ×2 −3 ÷4 √"
+					aria-label="Operations"
+					value={expression}
+					onChange={(e) => {
+						setExpression(e.target.value);
+						mutation.reset();
+					}}
+					className="w-64 font-mono"
+					autoFocus
+				/>
+				<Button
+					type="submit"
+					size="sm"
+					disabled={mutation.isPending || !expression.trim()}
+				>
+					{mutation.isPending ? "..." : "Apply all"}
+				</Button>
+				<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+					Cancel
+				</Button>
+				{onSwitchToSingle && (
+					<Button
+						type="button"
+						size="sm"
+						variant="ghost"
+						onClick={onSwitchToSingle}
+					>
+						Single
+					</Button>
+				)}
+			</form>
+			{error ? (
+				<p className="text-destructive text-xs" role="alert">
+					{error.message}
+				</p>
+			) : (
+				expression.trim() &&
+				steps &&
+				steps.length > 0 && (
+					<ol className="flex flex-wrap items-center gap-1.5 font-mono text-muted-foreground text-xs tabular-nums">
+						{steps.map((step) => (
+							<li key={step.id} className="flex items-center gap-1">
+								<OperatorBadge operator={step.operator} />
+								{step.operand !== null && formatNumber(step.operand)}
+								<span>= {formatNumber(step.result)}</span>
+							</li>
+						))}
+					</ol>
+				)
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,9 @@
 /**
  * Create Root Form Component
  *
- * Form to create a new starting number for a calculation thread.
+ * Form to create a new starting number for a calculation thread, or to
+ * import a whole expression such as "(100 + 50) * 2 - 30" as a starting
+ * number with a chain of operations below it.
  */
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -11,28 +13,46 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { orpc } from "@/utils/orpc";
 
+type CreateMode = "number" | "expression";
+
 export function CreateRootForm() {
 	const [value, setValue] = useState("");
 	const [isOpen, setIsOpen] = useState(false);
+	const [mode, setMode] = useState<CreateMode>("number");
 	const queryClient = useQueryClient();
 
+	const onSuccess = () => {
+		queryClient.invalidateQueries({
+			queryKey: orpc.calculation.key(),
+		});
+		setValue("");
+		setIsOpen(false);
+	};
+
 	const createRootMutation = useMutation(
-		orpc.calculation.createRoot.mutationOptions({
-			onSuccess: () => {
-				queryClient.invalidateQueries({
-					queryKey: orpc.calculation.getFullTree.key(),
-				});
-				setValue("");
-				setIsOpen(false);
-			},
-		}),
+		orpc.calculation.createRoot.mutationOptions({ onSuccess }),
 	);
+	const importExpressionMutation = useMutation(
+		orpc.calculation.importExpression.mutationOptions({ onSuccess }),
+	);
+	const mutation =
+		mode === "number" ? createRootMutation : importExpressionMutation;
 
 	const handleSubmit = (e: React.FormEvent) => {
 		e.preventDefault();
-		const numValue = Number.parseFloat(value);
-		if (Number.isNaN(numValue)) return;
-		createRootMutation.mutate({ value: numValue });
+		if (mode === "expression") {
+			importExpressionMutation.mutate({ expression: value.trim() });
+			return;
+		}
+		if (Number.isNaN(Number.parseFloat(value))) return;
+		// Send the raw string so the server receives the exact decimal
+		createRootMutation.mutate({ value: value.trim() });
+	};
+
+	const switchMode = (next: CreateMode) => {
+		setMode(next);
+		setValue("");
+		mutation.reset();
 	};
 
 	if (!isOpen) {
@@ -48,29 +68,75 @@ export function CreateRootForm() {
 	}
 
 	return (
-		<form onSubmit={handleSubmit} className="flex gap-2">
-			<Input
-				type="number"
-				step="any"
-				placeholder="Enter a starting number..."
-				value={value}
-				onChange={(e) => setValue(e.target.value)}
-				className="flex-1"
-				autoFocus
-			/>
-			<Button type="submit" disabled={createRootMutation.isPending || !value}>
-				{createRootMutation.isPending ? "Creating..." : "Create"}
-			</Button>
-			<Button
-				type="button"
-				variant="ghost"
-				onClick={() => {
-					setIsOpen(false);
-					setValue("");
-				}}
-			>
-				Cancel
-			</Button>
-		</form>
+		<div className="space-y-1">
+			<form onSubmit={handleSubmit} className="flex gap-2">
+				<Input
+					key={mode}
+					type={mode === "number" ? "number" : "text"}
+					step={mode === "number" ? "any" : undefined}
+					placeholder={
+						mode === "number"
+							? "Enter a starting number..."
+							: "Enter an expression, e.g. (100 + 50) * 2 - 30"
+					}
+					value={value}
+					onChange={(e) => {
+						setValue(e.target.value);
+						mutation.reset();
+					}}
+					className={mode === "number" ? "flex-1" : "flex-1 font-mono"}
+					autoFocus
+				/>
+				<Button type="submit" disabled={mutation.isPending || !value.trim()}>
+					{mutation.isPending
+						? "Creating..."
+						: mode === "number"
+							? "Create"
+							: "Import"}
+				</Button>
+				<Button
+					type="button"
+					variant="ghost"
+					onClick={() => {
+						setIsOpen(false);
+						setValue("");
+					}}
+				>
+					Cancel
+				</Button>
+			</form>
+			<div className="flex gap-1 text-xs">
+				<button
+					type="button"
+					aria-pressed={mode === "number"}
+					onClick={() => switchMode("number")}
+					className={
+						mode === "number"
+							? "font-medium"
+							: "text-muted-foreground hover:underline"
+					}
+				>
+					Starting number
+				</button>
+				<span className="text-muted-foreground">/</span>
+				<button
+					type="button"
+					aria-pressed={mode === "expression"}
+					onClick={() => switchMode("expression")}
+					className={
+						mode === "expression"
+							? "font-medium"
+							: "text-muted-foreground hover:underline"
+					}
+				>
+					Import expression
+				</button>
+			</div>
+			{mutation.error && (
+				<p className="text-destructive text-xs" role="alert">
+					{mutation.error.message}
+				</p>
+			)}
+		</div>
 	);
 }
@@ -0,0 +1,68 @@
+/**
+ * Delete Button Component
+ *
+ * Deletes a root or operation (with everything below it) after confirmation.
+ * The server refuses when other users have replied, unless the user is an admin.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { orpc } from "@/utils/orpc";
+
+interface DeleteButtonProps {
+	kind: "root" | "operation";
+	id: string;
+	size?: "xs" | "sm";
+	className?: string;
+}
+
+export function DeleteButton({
+	kind,
+	id,
+	size = "xs",
+	className,
+}: DeleteButtonProps) {
+	const queryClient = useQueryClient();
+
+	const options = {
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: orpc.calculation.key(),
+			});
+		},
+		onError: (error: Error) => {
+			toast.error(error.message);
+		},
+	};
+	const deleteRootMutation = useMutation(
+		orpc.calculation.deleteRoot.mutationOptions(options),
+	);
+	const deleteOperationMutation = useMutation(
+		orpc.calculation.deleteOperation.mutationOptions(options),
+	);
+	const mutation =
+		kind === "root" ? deleteRootMutation : deleteOperationMutation;
+
+	const handleClick = () => {
+		const message =
+			kind === "root"
+				? "Delete this calculation and all of its operations?"
+				: "Delete this operation and all of its replies?";
+		if (!window.confirm(message)) return;
+		mutation.mutate({ id });
+	};
+
+	return (
+		<Button
+			variant="destructive"
+			size={size}
+			className={className}
+			disabled={mutation.isPending}
+			onClick={handleClick}
+		>
+			{mutation.isPending ? "..." : "Delete"}
+		</Button>
+	);
+}
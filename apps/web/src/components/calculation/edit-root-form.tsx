@@ -0,0 +1,75 @@
+/**
+ * Edit Root Form Component
+ *
+ * Inline form to change the starting number of a calculation thread.
+ * Every operation below the root is recomputed by the server.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { orpc } from "@/utils/orpc";
+
+interface EditRootFormProps {
+	rootId: string;
+	value: string;
+	onCancel: () => void;
+}
+
+export function EditRootForm({ rootId, value, onCancel }: EditRootFormProps) {
+	const [newValue, setNewValue] = useState(value);
+	const queryClient = useQueryClient();
+
+	const updateRootMutation = useMutation(
+		orpc.calculation.updateRootValue.mutationOptions({
+			onSuccess: () => {
+				queryClient.invalidateQueries({
+					queryKey: orpc.calculation.key(),
+				});
+				onCancel();
+			},
+		}),
+	);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (Number.isNaN(Number.parseFloat(newValue))) return;
+		// Send the raw string so the server receives the exact decimal
+		updateRootMutation.mutate({ id: rootId, value: newValue.trim() });
+	};
+
+	return (
+		<div className="space-y-1">
+			<form onSubmit={handleSubmit} className="flex items-center gap-2">
+				<Input
+					type="number"
+					step="any"
+					value={newValue}
+					onChange={(e) => {
+						setNewValue(e.target.value);
+						updateRootMutation.reset();
+					}}
+					className="w-40"
+					autoFocus
+				/>
+				<Button
+					type="submit"
+					size="sm"
+					disabled={updateRootMutation.isPending || !newValue}
+				>
+					{updateRootMutation.isPending ? "..." : "Save"}
+				</Button>
+				<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+					Cancel
+				</Button>
+			</form>
+			{updateRootMutation.error && (
+				<p className="text-destructive text-xs" role="alert">
+					{updateRootMutation.error.message}
+				</p>
+			)}
+		</div>
+	);
+}
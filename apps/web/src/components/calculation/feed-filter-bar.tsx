@@ -0,0 +1,212 @@
+/**
+ * Feed Filter Bar Component
+ *
+ * Sort and filter controls for the root feed. The order applies as soon
+ * as it is picked; the filters apply when the form is submitted.
+ */
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Orders supported by the listRoots endpoint
+export type RootSort =
+	| "newest"
+	| "oldest"
+	| "most_operations"
+	| "deepest"
+	| "recently_active"
+	| "largest_value"
+	| "smallest_value";
+
+const SORT_LABELS: Record<RootSort, string> = {
+	newest: "Newest",
+	oldest: "Oldest",
+	most_operations: "Most operations",
+	deepest: "Deepest tree",
+	recently_active: "Recently active",
+	largest_value: "Largest value",
+	smallest_value: "Smallest value",
+};
+
+/** Sort and filter parameters passed to listRoots */
+export interface FeedFilters {
+	sort: RootSort;
+	username?: string;
+	minValue?: string;
+	maxValue?: string;
+	createdAfter?: Date;
+	createdBefore?: Date;
+	withoutReplies?: boolean;
+}
+
+export const DEFAULT_FEED_FILTERS: FeedFilters = { sort: "newest" };
+
+interface FeedFilterBarProps {
+	filters: FeedFilters;
+	onChange: (filters: FeedFilters) => void;
+}
+
+/**
+ * Local midnight at the start of a date input's day, optionally moved by
+ * whole days (so an inclusive "to" date becomes an exclusive bound)
+ */
+function parseDateInput(value: string, addDays = 0): Date | undefined {
+	if (!value) return undefined;
+	const date = new Date(`${value}T00:00`);
+	date.setDate(date.getDate() + addDays);
+	return date;
+}
+
+function formatDateInput(date: Date | undefined, addDays = 0): string {
+	if (!date) return "";
+	const shifted = new Date(date);
+	shifted.setDate(shifted.getDate() + addDays);
+	const month = String(shifted.getMonth() + 1).padStart(2, "0");
+	const day = String(shifted.getDate()).padStart(2, "0");
+	return `${shifted.getFullYear()}-${month}-${day}`;
+}
+
+export function FeedFilterBar({ filters, onChange }: FeedFilterBarProps) {
+	const [username, setUsername] = useState(filters.username ?? "");
+	const [minValue, setMinValue] = useState(filters.minValue ?? "");
+	const [maxValue, setMaxValue] = useState(filters.maxValue ?? "");
+	const [fromDate, setFromDate] = useState(
+		formatDateInput(filters.createdAfter),
+	);
+	const [toDate, setToDate] = useState(
+		formatDateInput(filters.createdBefore, -1),
+	);
+	const [withoutReplies, setWithoutReplies] = useState(
+		filters.withoutReplies ?? false,
+	);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		onChange({
+			sort: filters.sort,
+			username: username.trim() || undefined,
+			minValue: minValue.trim() || undefined,
+			maxValue: maxValue.trim() || undefined,
+			createdAfter: parseDateInput(fromDate),
+			createdBefore: parseDateInput(toDate, 1),
+			withoutReplies: withoutReplies || undefined,
+		});
+	};
+
+	const handleClear = () => {
+		setUsername("");
+		setMinValue("");
+		setMaxValue("");
+		setFromDate("");
+		setToDate("");
+		setWithoutReplies(false);
+		onChange({ sort: filters.sort });
+	};
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="space-y-3 rounded-lg border bg-card p-3"
+		>
+			<div className="flex flex-wrap items-end gap-2">
+				<div className="space-y-1">
+					<Label htmlFor="feed-sort" className="text-xs">
+						Sort by
+					</Label>
+					<select
+						id="feed-sort"
+						value={filters.sort}
+						onChange={(e) =>
+							onChange({ ...filters, sort: e.target.value as RootSort })
+						}
+						className="h-9 rounded-md border border-input bg-transparent px-2.5 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30"
+					>
+						{Object.entries(SORT_LABELS).map(([sort, label]) => (
+							<option key={sort} value={sort}>
+								{label}
+							</option>
+						))}
+					</select>
+				</div>
+				<div className="min-w-32 flex-1 space-y-1">
+					<Label htmlFor="feed-username" className="text-xs">
+						Author
+					</Label>
+					<Input
+						id="feed-username"
+						placeholder="Username"
+						value={username}
+						onChange={(e) => setUsername(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="feed-min-value" className="text-xs">
+						Value
+					</Label>
+					<div className="flex items-center gap-1">
+						<Input
+							id="feed-min-value"
+							type="number"
+							step="any"
+							placeholder="Min"
+							value={minValue}
+							onChange={(e) => setMinValue(e.target.value)}
+							className="w-24"
+						/>
+						<span className="text-muted-foreground text-xs">to</span>
+						<Input
+							type="number"
+							step="any"
+							placeholder="Max"
+							aria-label="Maximum value"
+							value={maxValue}
+							onChange={(e) => setMaxValue(e.target.value)}
+							className="w-24"
+						/>
+					</div>
+				</div>
+			</div>
+			<div className="flex flex-wrap items-end gap-2">
+				<div className="space-y-1">
+					<Label htmlFor="feed-from-date" className="text-xs">
+						Created
+					</Label>
+					<div className="flex items-center gap-1">
+						<Input
+							id="feed-from-date"
+							type="date"
+							value={fromDate}
+							onChange={(e) => setFromDate(e.target.value)}
+							className="w-auto"
+						/>
+						<span className="text-muted-foreground text-xs">to</span>
+						<Input
+							type="date"
+							aria-label="Created until"
+							value={toDate}
+							onChange={(e) => setToDate(e.target.value)}
+							className="w-auto"
+						/>
+					</div>
+				</div>
+				<Label className="h-9 text-xs">
+					<Checkbox
+						checked={withoutReplies}
+						onCheckedChange={(checked) => setWithoutReplies(checked)}
+					/>
+					No replies yet
+				</Label>
+				<div className="ml-auto flex gap-2">
+					<Button type="button" variant="ghost" onClick={handleClear}>
+						Clear
+					</Button>
+					<Button type="submit">Apply</Button>
+				</div>
+			</div>
+		</form>
+	);
+}
@@ -0,0 +1,97 @@
+/**
+ * Fork Form Component
+ *
+ * Starts a new tree from an operation's result. The replies below the
+ * operation can be copied along (recomputed from the new root), either as
+ * the user's own or keeping their original authors. Opens the new tree
+ * once it is created.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { formatNumber } from "@/lib/format";
+import { orpc } from "@/utils/orpc";
+
+interface ForkFormProps {
+	operationId: string;
+	/** The operation's result, which becomes the new starting number */
+	result: string;
+	/** Whether the operation has replies that could be copied */
+	hasReplies: boolean;
+	onCancel: () => void;
+}
+
+export function ForkForm({
+	operationId,
+	result,
+	hasReplies,
+	onCancel,
+}: ForkFormProps) {
+	const [includeDescendants, setIncludeDescendants] = useState(false);
+	const [keepAuthors, setKeepAuthors] = useState(false);
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+
+	const mutation = useMutation(
+		orpc.calculation.forkFromNode.mutationOptions({
+			onSuccess: (root) => {
+				queryClient.invalidateQueries({
+					queryKey: orpc.calculation.key(),
+				});
+				onCancel();
+				navigate({ to: "/roots/$rootId", params: { rootId: root.id } });
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		mutation.mutate({
+			operationId,
+			includeDescendants,
+			keepAuthors: includeDescendants && keepAuthors,
+		});
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3">
+			<span className="text-sm">
+				Start a new tree from{" "}
+				<span className="font-medium font-mono">{formatNumber(result)}</span>
+			</span>
+			{hasReplies && (
+				<Label className="font-normal text-xs">
+					<Checkbox
+						checked={includeDescendants}
+						onCheckedChange={(checked) => setIncludeDescendants(checked)}
+					/>
+					Copy replies
+				</Label>
+			)}
+			{hasReplies && includeDescendants && (
+				<Label className="font-normal text-xs">
+					<Checkbox
+						checked={keepAuthors}
+						onCheckedChange={(checked) => setKeepAuthors(checked)}
+					/>
+					Keep original authors
+				</Label>
+			)}
+			<Button type="submit" size="sm" disabled={mutation.isPending}>
+				{mutation.isPending ? "..." : "Fork"}
+			</Button>
+			<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+				Cancel
+			</Button>
+		</form>
+	);
+}
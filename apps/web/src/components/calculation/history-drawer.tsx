@@ -0,0 +1,148 @@
+/**
+ * History Drawer Component
+ *
+ * Side panel listing the recorded changes to a root or operation, newest
+ * first: what its values were before and after, and who changed them
+ * (which may be someone editing a node further up the tree). Fetched when
+ * the drawer is opened.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+	SheetTrigger,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatNumber } from "@/lib/format";
+import { orpc, type RouterOutputs } from "@/utils/orpc";
+import { getOperatorSymbol, isUnaryOperator } from "./operator-badge";
+
+type Revision = RouterOutputs["calculation"]["getHistory"][number];
+type NodeSnapshot = NonNullable<Revision["after"]>;
+
+interface HistoryDrawerProps {
+	nodeId: string;
+	nodeKind: "root" | "operation";
+	size?: "xs" | "sm";
+	className?: string;
+}
+
+const ACTION_LABELS: Record<Revision["action"], string> = {
+	create: "Created",
+	update: "Changed",
+	delete: "Deleted",
+};
+
+export function HistoryDrawer({
+	nodeId,
+	nodeKind,
+	size = "xs",
+	className,
+}: HistoryDrawerProps) {
+	const [isOpen, setIsOpen] = useState(false);
+	const {
+		data: revisions,
+		isLoading,
+		error,
+	} = useQuery({
+		...orpc.calculation.getHistory.queryOptions({ input: { nodeId } }),
+		enabled: isOpen,
+	});
+
+	return (
+		<Sheet open={isOpen} onOpenChange={setIsOpen}>
+			<SheetTrigger
+				render={<Button variant="ghost" size={size} className={className} />}
+			>
+				History
+			</SheetTrigger>
+			<SheetContent>
+				<SheetHeader>
+					<SheetTitle>History</SheetTitle>
+					<SheetDescription>
+						Every change to this {nodeKind === "root" ? "root" : "operation"},
+						newest first
+					</SheetDescription>
+				</SheetHeader>
+
+				<div className="flex-1 overflow-y-auto px-4 pb-4">
+					{isLoading && <Skeleton className="h-20 w-full" />}
+
+					{error && (
+						<p className="text-destructive">
+							Failed to load the history: {error.message}
+						</p>
+					)}
+
+					{revisions?.length === 0 && (
+						<p className="text-muted-foreground">
+							No changes have been recorded yet.
+						</p>
+					)}
+
+					{revisions && revisions.length > 0 && (
+						<ol className="space-y-3">
+							{revisions.map((revision) => (
+								<li key={revision.id} className="rounded-lg border p-3">
+									<div className="flex items-baseline justify-between gap-2">
+										<span className="font-medium">
+											{ACTION_LABELS[revision.action]}
+											{isMove(revision) && " (moved)"}
+										</span>
+										<span className="text-muted-foreground text-xs">
+											{revision.createdAt.toLocaleString()}
+										</span>
+									</div>
+									<p className="font-mono text-sm tabular-nums">
+										{revision.before && (
+											<span className="text-muted-foreground line-through">
+												{describeSnapshot(revision.before)}
+											</span>
+										)}
+										{revision.before && revision.after && " → "}
+										{revision.after && describeSnapshot(revision.after)}
+									</p>
+									{revision.username && (
+										<p className="text-muted-foreground text-xs">
+											by {revision.username}
+										</p>
+									)}
+								</li>
+							))}
+						</ol>
+					)}
+				</div>
+			</SheetContent>
+		</Sheet>
+	);
+}
+
+function describeSnapshot(snapshot: NodeSnapshot): string {
+	if ("value" in snapshot) {
+		return formatNumber(snapshot.value);
+	}
+	const operand =
+		isUnaryOperator(snapshot.operator) || snapshot.operand === null
+			? ""
+			: ` ${formatNumber(snapshot.operand)}`;
+	return `${getOperatorSymbol(snapshot.operator)}${operand} = ${formatNumber(snapshot.result)}`;
+}
+
+function isMove(revision: Revision): boolean {
+	const { before, after } = revision;
+	return (
+		!!before &&
+		!!after &&
+		"result" in before &&
+		"result" in after &&
+		(before.parentRootId !== after.parentRootId ||
+			before.parentOperationId !== after.parentOperationId)
+	);
+}
@@ -1,5 +1,21 @@
 export { CalculationTree } from "./calculation-tree";
+export { ChainForm } from "./chain-form";
 export { CreateRootForm } from "./create-root-form";
+export { DeleteButton } from "./delete-button";
+export { EditRootForm } from "./edit-root-form";
+export {
+	DEFAULT_FEED_FILTERS,
+	FeedFilterBar,
+	type FeedFilters,
+	type RootSort,
+} from "./feed-filter-bar";
+export { ForkForm } from "./fork-form";
+export { HistoryDrawer } from "./history-drawer";
+export {
+	NodeSearchForm,
+	type NodeSearchParams,
+	NodeSearchResults,
+} from "./node-search";
 export { OperationForm } from "./operation-form";
 export { OperationNode } from "./operation-node";
 export {
@@ -8,3 +24,5 @@ export {
 	type OperatorType,
 } from "./operator-badge";
 export { RootNode } from "./root-node";
+export { RootStatsPanel } from "./root-stats-panel";
+export { TimeTravelBar } from "./time-travel-bar";
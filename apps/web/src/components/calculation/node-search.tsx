@@ -0,0 +1,342 @@
+/**
+ * Node Search Components
+ *
+ * Form and results for searching roots and operations across all trees
+ * by value, operand, root value, operator and author. Each result shows
+ * the path from its root down to the matched node.
+ */
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Fragment, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatNumber } from "@/lib/format";
+import { parseValueRange } from "@/lib/search";
+import { orpc } from "@/utils/orpc";
+import { OperatorBadge, type OperatorType } from "./operator-badge";
+
+const SEARCHABLE_OPERATORS: OperatorType[] = [
+	"ADD",
+	"SUBTRACT",
+	"MULTIPLY",
+	"DIVIDE",
+	"POWER",
+	"NTH_ROOT",
+	"MODULO",
+	"NEGATE",
+	"ABS",
+	"SQRT",
+	"SQUARE",
+	"RECIPROCAL",
+	"FLOOR",
+	"CEIL",
+];
+
+const PAGE_SIZE = 20;
+
+/** Search criteria as kept in the page URL */
+export interface NodeSearchParams {
+	/** Result (a root's starting value): "42" or a range like "10..20" */
+	result?: string;
+	/** Operand: "2" or a range like "..0" */
+	operand?: string;
+	/** Value of the root the node belongs to */
+	rootValue?: string;
+	operators?: OperatorType[];
+	username?: string;
+}
+
+// Type definitions matching the API response
+interface RootNode {
+	id: string;
+	value: string;
+	username?: string;
+	createdAt: string;
+}
+
+interface OperationNode {
+	id: string;
+	operator: OperatorType;
+	operand: string | null;
+	result: string;
+	username?: string;
+	createdAt: string;
+}
+
+type SearchHit =
+	| { kind: "root"; node: RootNode }
+	| {
+			kind: "operation";
+			node: OperationNode;
+			root: RootNode;
+			ancestors: OperationNode[];
+	  };
+
+interface SearchPage {
+	hits: SearchHit[];
+	nextCursor: string | null;
+}
+
+interface NodeSearchFormProps {
+	params: NodeSearchParams;
+	onSearch: (params: NodeSearchParams) => void;
+}
+
+export function NodeSearchForm({ params, onSearch }: NodeSearchFormProps) {
+	const [result, setResult] = useState(params.result ?? "");
+	const [operand, setOperand] = useState(params.operand ?? "");
+	const [rootValue, setRootValue] = useState(params.rootValue ?? "");
+	const [username, setUsername] = useState(params.username ?? "");
+	const [operators, setOperators] = useState<OperatorType[]>(
+		params.operators ?? [],
+	);
+
+	const toggleOperator = (operator: OperatorType) => {
+		setOperators((current) =>
+			current.includes(operator)
+				? current.filter((op) => op !== operator)
+				: [...current, operator],
+		);
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		onSearch({
+			result: result.trim() || undefined,
+			operand: operand.trim() || undefined,
+			rootValue: rootValue.trim() || undefined,
+			operators: operators.length > 0 ? operators : undefined,
+			username: username.trim() || undefined,
+		});
+	};
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="space-y-3 rounded-lg border bg-card p-4"
+		>
+			<div className="grid gap-3 sm:grid-cols-2">
+				<div className="space-y-1">
+					<Label htmlFor="search-result">Result</Label>
+					<Input
+						id="search-result"
+						placeholder="42 or 10..20"
+						value={result}
+						onChange={(e) => setResult(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="search-operand">Operand</Label>
+					<Input
+						id="search-operand"
+						placeholder="2 or ..0"
+						value={operand}
+						onChange={(e) => setOperand(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="search-root-value">Starting number</Label>
+					<Input
+						id="search-root-value"
+						placeholder="100 or 1..10"
+						value={rootValue}
+						onChange={(e) => setRootValue(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="search-username">Author</Label>
+					<Input
+						id="search-username"
+						placeholder="Username"
+						value={username}
+						onChange={(e) => setUsername(e.target.value)}
+					/>
+				</div>
+			</div>
+			<div className="space-y-1">
+				<p className="font-medium text-sm">Operators</p>
+				<div className="flex flex-wrap gap-1">
+					{SEARCHABLE_OPERATORS.map((operator) => (
+						<button
+							key={operator}
+							type="button"
+							aria-pressed={operators.includes(operator)}
+							onClick={() => toggleOperator(operator)}
+							className={`rounded p-0.5 transition-opacity ${
+								operators.includes(operator)
+									? "ring-2 ring-ring"
+									: "opacity-50 hover:opacity-100"
+							}`}
+						>
+							<OperatorBadge operator={operator} />
+						</button>
+					))}
+				</div>
+			</div>
+			<div className="flex justify-end">
+				<Button type="submit">Search</Button>
+			</div>
+		</form>
+	);
+}
+
+interface NodeSearchResultsProps {
+	params: NodeSearchParams;
+}
+
+export function NodeSearchResults({ params }: NodeSearchResultsProps) {
+	const result = parseValueRange(params.result);
+	const operand = parseValueRange(params.operand);
+	const rootValue = parseValueRange(params.rootValue);
+	const isValid = result !== null && operand !== null && rootValue !== null;
+	const hasCriteria =
+		!!result ||
+		!!operand ||
+		!!rootValue ||
+		!!params.operators?.length ||
+		!!params.username;
+
+	const {
+		data,
+		isLoading,
+		error,
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useInfiniteQuery({
+		...orpc.calculation.search.infiniteOptions({
+			input: (cursor: string | undefined) => ({
+				result: result ?? undefined,
+				operand: operand ?? undefined,
+				rootValue: rootValue ?? undefined,
+				operators: params.operators?.length ? params.operators : undefined,
+				username: params.username,
+				cursor,
+				limit: PAGE_SIZE,
+			}),
+			initialPageParam: undefined,
+			getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+		}),
+		enabled: isValid && hasCriteria,
+	});
+
+	if (!isValid) {
+		return (
+			<p className="text-destructive text-sm" role="alert">
+				Values must be a number like 42 or a range like 10..20.
+			</p>
+		);
+	}
+
+	if (!hasCriteria) {
+		return (
+			<p className="text-muted-foreground text-sm">
+				Enter a value, operator or author to search every calculation.
+			</p>
+		);
+	}
+
+	if (isLoading) {
+		return (
+			<div className="space-y-2">
+				<Skeleton className="h-16 w-full" />
+				<Skeleton className="h-16 w-full" />
+			</div>
+		);
+	}
+
+	if (error) {
+		return (
+			<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
+				Search failed: {error.message}
+			</div>
+		);
+	}
+
+	// Cast the data to our type (API returns compatible structure)
+	const pages = data?.pages as SearchPage[] | undefined;
+	const hits = pages?.flatMap((page) => page.hits) ?? [];
+
+	if (hits.length === 0) {
+		return (
+			<div className="rounded-lg border border-dashed p-8 text-center">
+				<p className="text-muted-foreground">No matching calculations.</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<ul className="space-y-2">
+				{hits.map((hit) => (
+					<SearchHitItem key={hit.node.id} hit={hit} />
+				))}
+			</ul>
+			{hasNextPage && (
+				<div className="flex justify-center">
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => fetchNextPage()}
+						disabled={isFetchingNextPage}
+					>
+						{isFetchingNextPage ? "Loading..." : "Load more"}
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * A matched node with the path from its root: the starting number, then
+ * each operation down to the match (highlighted)
+ */
+function SearchHitItem({ hit }: { hit: SearchHit }) {
+	const root = hit.kind === "root" ? hit.node : hit.root;
+	const steps = hit.kind === "root" ? [] : [...hit.ancestors, hit.node];
+
+	return (
+		<li className="rounded-lg border bg-card p-3">
+			<div className="flex flex-wrap items-center gap-1.5 font-mono text-sm tabular-nums">
+				<span
+					className={
+						hit.kind === "root"
+							? "rounded bg-primary/15 px-1 font-semibold"
+							: "font-medium"
+					}
+				>
+					{formatNumber(root.value)}
+				</span>
+				{steps.map((step) => (
+					<Fragment key={step.id}>
+						<span className="text-muted-foreground">{"→"}</span>
+						<OperatorBadge operator={step.operator} />
+						{step.operand !== null && (
+							<span className="text-muted-foreground">
+								{formatNumber(step.operand)}
+							</span>
+						)}
+						<span
+							className={
+								step.id === hit.node.id
+									? "rounded bg-primary/15 px-1 font-semibold"
+									: ""
+							}
+						>
+							= {formatNumber(step.result)}
+						</span>
+					</Fragment>
+				))}
+			</div>
+			<p className="mt-1 text-muted-foreground text-xs">
+				{hit.kind === "root" ? "Started" : "Posted"}
+				{hit.node.username && ` by ${hit.node.username}`} on{" "}
+				{new Date(hit.node.createdAt).toLocaleDateString()}
+			</p>
+		</li>
+	);
+}
@@ -0,0 +1,96 @@
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { OperationForm, type RootRules } from "./operation-form";
+
+const mutate = vi.fn();
+
+vi.mock("@/utils/orpc", () => {
+	const mutationOptions = () => ({ mutationFn: mutate });
+	return {
+		orpc: {
+			calculation: {
+				key: () => ["calculation"],
+				createOperation: { mutationOptions },
+				updateOperation: { mutationOptions },
+			},
+		},
+	};
+});
+
+const rules: RootRules = {
+	allowedOperators: null,
+	minOperand: "1",
+	maxOperand: "10",
+	integerOperands: false,
+	maxDepth: null,
+	maxFanOut: null,
+};
+
+const renderForm = (formRules: RootRules | null = rules) =>
+	render(
+		<QueryClientProvider client={new QueryClient()}>
+			<OperationForm
+				parentRootId="root-1"
+				rules={formRules}
+				onCancel={() => {}}
+			/>
+		</QueryClientProvider>,
+	);
+
+const typeOperand = (value: string) =>
+	fireEvent.change(screen.getByPlaceholderText("Operand..."), {
+		target: { value },
+	});
+
+describe("OperationForm", () => {
+	describe("operand range", () => {
+		it("should block operands outside the tree's range", () => {
+			renderForm();
+
+			typeOperand("10.5");
+
+			expect(screen.getByRole("alert").textContent).toBe(
+				"Operands in this tree must be between 1 and 10",
+			);
+			expect(screen.getByRole("button", { name: "Apply" })).toBeDisabled();
+		});
+
+		it("should accept operands at the bounds", () => {
+			renderForm();
+
+			typeOperand("10");
+
+			expect(screen.queryByRole("alert")).toBeNull();
+			expect(screen.getByRole("button", { name: "Apply" })).toBeEnabled();
+		});
+
+		it("should describe a range open on one side", () => {
+			renderForm({ ...rules, maxOperand: null });
+
+			typeOperand("0.5");
+
+			expect(screen.getByRole("alert").textContent).toBe(
+				"Operands in this tree must be at least 1",
+			);
+		});
+
+		it("should not bound trees without an operand range", () => {
+			renderForm(null);
+
+			typeOperand("-1000000");
+
+			expect(screen.queryByRole("alert")).toBeNull();
+			expect(screen.getByRole("button", { name: "Apply" })).toBeEnabled();
+		});
+
+		it("should not submit forms the API rejects", () => {
+			renderForm(null);
+
+			typeOperand("1e5");
+
+			expect(screen.queryByRole("alert")).toBeNull();
+			expect(screen.getByRole("button", { name: "Apply" })).toBeDisabled();
+		});
+	});
+});
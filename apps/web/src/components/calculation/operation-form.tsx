@@ -1,7 +1,13 @@
 /**
  * Operation Form Component
  *
- * Form to add a new operation (reply) to a root or another operation.
+ * Form to add a new operation (reply) to a root or another operation,
+ * or to edit an existing one when `operation` is given.
+ * Unary operators take no operand and are applied with a single click.
+ * New replies can also be typed as a chain of operations (see ChainForm).
+ * Operands are typed as plain decimals, the only form the API accepts.
+ * Operators the tree's rules do not allow are disabled, and the operand
+ * input is bounded by them.
  */
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -9,93 +15,280 @@ import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { compareDecimals, formatNumber, isDecimal } from "@/lib/format";
 import { orpc } from "@/utils/orpc";
-import { getOperatorSymbol, type OperatorType } from "./operator-badge";
+import { ChainForm } from "./chain-form";
+import {
+	type BinaryOperatorType,
+	getOperatorSymbol,
+	isUnaryOperator,
+	type OperatorType,
+	type UnaryOperatorType,
+} from "./operator-badge";
 
-const OPERATORS: OperatorType[] = ["ADD", "SUBTRACT", "MULTIPLY", "DIVIDE"];
+const BINARY_OPERATORS: BinaryOperatorType[] = [
+	"ADD",
+	"SUBTRACT",
+	"MULTIPLY",
+	"DIVIDE",
+	"POWER",
+	"NTH_ROOT",
+	"MODULO",
+];
+
+const UNARY_OPERATORS: UnaryOperatorType[] = [
+	"NEGATE",
+	"ABS",
+	"SQRT",
+	"SQUARE",
+	"RECIPROCAL",
+	"FLOOR",
+	"CEIL",
+];
+
+const unaryLabels: Record<UnaryOperatorType, string> = {
+	NEGATE: "Negate",
+	ABS: "Absolute value",
+	SQRT: "Square root",
+	SQUARE: "Square",
+	RECIPROCAL: "Reciprocal",
+	FLOOR: "Floor",
+	CEIL: "Ceiling",
+};
+
+/** Constraints the root's author set on the operations of the tree */
+export interface RootRules {
+	allowedOperators: OperatorType[] | null;
+	minOperand: string | null;
+	maxOperand: string | null;
+	integerOperands: boolean;
+	maxDepth: number | null;
+	maxFanOut: number | null;
+}
+
+interface EditableOperation {
+	id: string;
+	operator: OperatorType;
+	operand: string | null;
+}
 
 interface OperationFormProps {
 	parentRootId?: string;
 	parentOperationId?: string;
+	/** When set, the form edits this operation instead of adding a reply */
+	operation?: EditableOperation;
+	/** Rules of the tree, if any */
+	rules?: RootRules | null;
 	onCancel: () => void;
 }
 
 export function OperationForm({
 	parentRootId,
 	parentOperationId,
+	operation,
+	rules,
 	onCancel,
 }: OperationFormProps) {
-	const [operator, setOperator] = useState<OperatorType>("ADD");
-	const [operand, setOperand] = useState("");
+	const isAllowed = (op: OperatorType) =>
+		rules?.allowedOperators?.includes(op) ?? true;
+	const allowedBinaryOperators = BINARY_OPERATORS.filter(isAllowed);
+	const [operator, setOperator] = useState<BinaryOperatorType>(
+		operation && !isUnaryOperator(operation.operator)
+			? operation.operator
+			: (allowedBinaryOperators[0] ?? "ADD"),
+	);
+	const [operand, setOperand] = useState(operation?.operand ?? "");
+	const rangeError = describeRangeError(operand.trim(), rules);
+	const isValidOperand = isDecimal(operand.trim()) && !rangeError;
+	const [isChain, setIsChain] = useState(false);
 	const queryClient = useQueryClient();
 
+	const onSuccess = () => {
+		queryClient.invalidateQueries({
+			queryKey: orpc.calculation.key(),
+		});
+		setOperand("");
+		onCancel();
+	};
+
 	const createOperationMutation = useMutation(
-		orpc.calculation.createOperation.mutationOptions({
-			onSuccess: () => {
-				queryClient.invalidateQueries({
-					queryKey: orpc.calculation.getFullTree.key(),
-				});
-				setOperand("");
-				onCancel();
-			},
-		}),
+		orpc.calculation.createOperation.mutationOptions({ onSuccess }),
 	);
+	const updateOperationMutation = useMutation(
+		orpc.calculation.updateOperation.mutationOptions({ onSuccess }),
+	);
+	const mutation = operation
+		? updateOperationMutation
+		: createOperationMutation;
+	const submitLabel = operation ? "Save" : "Apply";
 
-	const handleSubmit = (e: React.FormEvent) => {
-		e.preventDefault();
-		const numOperand = Number.parseFloat(operand);
-		if (Number.isNaN(numOperand)) return;
-
-		// Validate division by zero
-		if (operator === "DIVIDE" && numOperand === 0) {
+	const applyOperation = (op: OperatorType, value: string | null) => {
+		// Send the raw string so the server receives the exact decimal
+		if (operation) {
+			updateOperationMutation.mutate({
+				id: operation.id,
+				operator: op,
+				operand: value,
+			});
 			return;
 		}
-
 		createOperationMutation.mutate({
 			parentRootId,
 			parentOperationId,
-			operator,
-			operand: numOperand,
+			operator: op,
+			operand: value,
 		});
 	};
 
+	if (isChain) {
+		return (
+			<ChainForm
+				parentRootId={parentRootId}
+				parentOperationId={parentOperationId}
+				onCancel={onCancel}
+				onSwitchToSingle={() => setIsChain(false)}
+			/>
+		);
+	}
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!isValidOperand) return;
+		const numOperand = Number(operand);
+
+		// Validate division/modulo by zero and root degree
+		if ((operator === "DIVIDE" || operator === "MODULO") && numOperand === 0) {
+			return;
+		}
+		if (
+			operator === "NTH_ROOT" &&
+			(!Number.isInteger(numOperand) || numOperand <= 0)
+		) {
+			return;
+		}
+
+		applyOperation(operator, operand.trim());
+	};
+
 	return (
-		<form onSubmit={handleSubmit} className="flex items-center gap-2">
-			<div className="flex rounded-md border border-input">
-				{OPERATORS.map((op) => (
-					<button
-						key={op}
+		<div className="space-y-1">
+			<form
+				onSubmit={handleSubmit}
+				className="flex flex-wrap items-center gap-2"
+			>
+				<div className="flex rounded-md border border-input">
+					{BINARY_OPERATORS.map((op, index) => (
+						<button
+							key={op}
+							type="button"
+							disabled={!isAllowed(op)}
+							title={isAllowed(op) ? undefined : "Not allowed in this tree"}
+							onClick={() => setOperator(op)}
+							className={`h-9 w-9 font-bold font-mono text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+								operator === op
+									? "bg-primary text-primary-foreground"
+									: "hover:bg-muted"
+							} ${index === 0 ? "rounded-l-md" : ""} ${index === BINARY_OPERATORS.length - 1 ? "rounded-r-md" : ""}`}
+						>
+							{getOperatorSymbol(op)}
+						</button>
+					))}
+				</div>
+				<Input
+					type="text"
+					inputMode="decimal"
+					pattern={rules?.integerOperands ? "[-+]?\\d+" : undefined}
+					title={rules?.integerOperands ? "Whole numbers only" : undefined}
+					aria-invalid={operand !== "" && !isValidOperand}
+					placeholder={operator === "NTH_ROOT" ? "Degree..." : "Operand..."}
+					value={operand}
+					onChange={(e) => {
+						setOperand(e.target.value);
+						mutation.reset();
+					}}
+					className="w-32"
+					autoFocus
+				/>
+				<Button
+					type="submit"
+					size="sm"
+					disabled={
+						mutation.isPending || !isValidOperand || !isAllowed(operator)
+					}
+				>
+					{mutation.isPending ? "..." : submitLabel}
+				</Button>
+				<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+					Cancel
+				</Button>
+				{!operation && (
+					<Button
 						type="button"
-						onClick={() => setOperator(op)}
-						className={`h-9 w-9 font-bold font-mono text-sm transition-colors ${
-							operator === op
-								? "bg-primary text-primary-foreground"
-								: "hover:bg-muted"
-						} ${op === "ADD" ? "rounded-l-md" : ""} ${op === "DIVIDE" ? "rounded-r-md" : ""}`}
+						size="sm"
+						variant="ghost"
+						title="Type several operations at once, e.g. +5 *2 -3"
+						onClick={() => setIsChain(true)}
 					>
-						{getOperatorSymbol(op)}
-					</button>
-				))}
-			</div>
-			<Input
-				type="number"
-				step="any"
-				placeholder="Operand..."
-				value={operand}
-				onChange={(e) => setOperand(e.target.value)}
-				className="w-32"
-				autoFocus
-			/>
-			<Button
-				type="submit"
-				size="sm"
-				disabled={createOperationMutation.isPending || !operand}
-			>
-				{createOperationMutation.isPending ? "..." : "Apply"}
-			</Button>
-			<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
-				Cancel
-			</Button>
-		</form>
+						Chain
+					</Button>
+				)}
+				<div className="flex rounded-md border border-input">
+					{UNARY_OPERATORS.map((op, index) => (
+						<button
+							key={op}
+							type="button"
+							title={
+								isAllowed(op)
+									? unaryLabels[op]
+									: `${unaryLabels[op]} (not allowed in this tree)`
+							}
+							aria-label={unaryLabels[op]}
+							disabled={mutation.isPending || !isAllowed(op)}
+							onClick={() => applyOperation(op, null)}
+							className={`h-9 min-w-9 px-2 font-bold font-mono text-sm transition-colors hover:bg-muted disabled:opacity-50 ${
+								index === 0 ? "rounded-l-md" : ""
+							} ${index === UNARY_OPERATORS.length - 1 ? "rounded-r-md" : ""}`}
+						>
+							{getOperatorSymbol(op)}
+						</button>
+					))}
+				</div>
+			</form>
+			{rangeError && (
+				<p className="text-destructive text-xs" role="alert">
+					{rangeError}
+				</p>
+			)}
+			{mutation.error && (
+				<p className="text-destructive text-xs" role="alert">
+					{mutation.error.message}
+				</p>
+			)}
+		</div>
 	);
 }
+
+/**
+ * Describe the tree's operand range when a typed operand falls outside it
+ * @returns null for operands within the range (or that are not decimals)
+ */
+function describeRangeError(
+	operand: string,
+	rules?: RootRules | null,
+): string | null {
+	const { minOperand: min, maxOperand: max } = rules ?? {};
+	if (
+		!isDecimal(operand) ||
+		((!min || compareDecimals(operand, min) >= 0) &&
+			(!max || compareDecimals(operand, max) <= 0))
+	) {
+		return null;
+	}
+	const range =
+		min && max
+			? `between ${formatNumber(min)} and ${formatNumber(max)}`
+			: min
+				? `at least ${formatNumber(min)}`
+				: `at most ${formatNumber(max ?? "")}`;
+	return `Operands in this tree must be ${range}`;
+}
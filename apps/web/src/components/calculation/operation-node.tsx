@@ -2,56 +2,124 @@
  * Operation Node Component
  *
  * Displays a calculation operation with recursive children.
- * Supports collapsing and expanding child operations.
+ * Supports collapsing and expanding child operations (replies below the
+ * loaded depth are fetched on expand), and lets the author edit the
+ * operation in place or delete it (admins can always delete). Hovering
+ * the calculation preview shows the full expression from the root as a
+ * tooltip; clicking it pins that path below the operation. Signed-in
+ * users can fork the operation's result into a new tree, and anyone can
+ * open its history of changes. An operand that references another node's
+ * result links to that node's tree. While a tree is replayed, each node
+ * fades in as it appears. In a tree with a target, results reaching it
+ * are marked and the shortest path to it is highlighted.
  */
 
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
 import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
-import { OperationForm } from "./operation-form";
+import { formatNumber } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { orpc, type RouterOutputs } from "@/utils/orpc";
+import { DeleteButton } from "./delete-button";
+import { ForkForm } from "./fork-form";
+import { HistoryDrawer } from "./history-drawer";
+import { OperationForm, type RootRules } from "./operation-form";
 import {
+	formatUnaryExpression,
 	getOperatorSymbol,
+	isUnaryOperator,
 	OperatorBadge,
-	type OperatorType,
 } from "./operator-badge";
 
-interface Operation {
-	id: string;
-	parentRootId: string | null;
-	parentOperationId: string | null;
-	operator: OperatorType;
-	operand: number;
-	result: number;
-	userId: string;
-	username?: string;
+type SubtreeOperation =
+	RouterOutputs["calculation"]["getSubtree"]["operations"][number];
+
+/** An operation with the replies loaded so far */
+export type Operation = Omit<SubtreeOperation, "children" | "childCount"> & {
 	children: Operation[];
-	createdAt: string;
-	updatedAt: string;
-}
+	/** Number of direct replies, when `children` may not all be loaded */
+	childCount?: number;
+};
+
+/** Levels of replies fetched each time unloaded replies are expanded */
+export const SUBTREE_DEPTH = 3;
 
 interface OperationNodeProps {
 	operation: Operation;
-	parentValue: number;
+	parentValue: string;
 	depth?: number;
+	/** Rules of the tree, applied to the edit and reply forms */
+	rules?: RootRules | null;
+	/** IDs of the operations on the shortest path to the tree's target */
+	winningPath?: string[];
 	isAuthenticated: boolean;
+	currentUserId?: string;
+	isAdmin?: boolean;
+	/** Fade the node in when it is added (replaying the tree) */
+	animateIn?: boolean;
 }
 
 export function OperationNode({
 	operation,
 	parentValue,
 	depth = 0,
+	rules,
+	winningPath,
 	isAuthenticated,
+	currentUserId,
+	isAdmin = false,
+	animateIn = false,
 }: OperationNodeProps) {
-	const [isExpanded, setIsExpanded] = useState(true);
+	const isOnWinningPath = winningPath?.includes(operation.id) ?? false;
+	const childCount = operation.childCount ?? operation.children.length;
+	const hasChildren = childCount > 0;
+	const hasUnloadedChildren = operation.children.length < childCount;
+	const [isExpanded, setIsExpanded] = useState(!hasUnloadedChildren);
 	const [isReplying, setIsReplying] = useState(false);
-	const hasChildren = operation.children.length > 0;
+	const [isEditing, setIsEditing] = useState(false);
+	const [isForking, setIsForking] = useState(false);
+	const [wantsPath, setWantsPath] = useState(false);
+	const [showPath, setShowPath] = useState(false);
+	const isAuthor = !!currentUserId && currentUserId === operation.userId;
+
+	// Fetch the next levels when expanding replies that were not loaded
+	const { data: subtree, isFetching: isLoadingChildren } = useQuery({
+		...orpc.calculation.getSubtree.queryOptions({
+			input: { nodeId: operation.id, depth: SUBTREE_DEPTH },
+		}),
+		enabled: isExpanded && hasUnloadedChildren,
+	});
+	const fetchedChildren = subtree?.operations;
+	const children = hasUnloadedChildren
+		? (fetchedChildren ?? [])
+		: operation.children;
+
+	// The path is fetched the first time the preview is hovered or focused
+	const { data: path } = useQuery({
+		...orpc.calculation.getPath.queryOptions({
+			input: { operationId: operation.id },
+		}),
+		enabled: wantsPath,
+	});
 
 	return (
-		<div className="relative">
+		<div
+			className={cn(
+				"relative",
+				animateIn && "fade-in slide-in-from-left-2 animate-in duration-500",
+			)}
+		>
 			{/* Connector line */}
 			<div className="absolute top-0 -left-4 h-5 w-4 border-muted-foreground/20 border-b-2 border-l-2" />
 
-			<div className="group flex items-center gap-2 py-1">
+			<div
+				className={cn(
+					"group flex items-center gap-2 py-1",
+					isOnWinningPath && "-mx-1 rounded bg-emerald-500/10 px-1",
+				)}
+			>
 				{/* Collapse/Expand button */}
 				{hasChildren ? (
 					<button
@@ -67,19 +135,59 @@ export function OperationNode({
 
 				{/* Operation display */}
 				<OperatorBadge operator={operation.operator} />
-				<span className="min-w-12 font-mono text-muted-foreground text-sm tabular-nums">
-					{operation.operand}
-				</span>
+				{operation.operand !== null && (
+					<span className="min-w-12 font-mono text-muted-foreground text-sm tabular-nums">
+						{operation.operandRootId ? (
+							<Link
+								to="/roots/$rootId"
+								params={{ rootId: operation.operandRootId }}
+								title="Starting number of another calculation"
+								className="underline decoration-dotted hover:text-foreground"
+							>
+								{formatNumber(operation.operand)}
+							</Link>
+						) : operation.operandOperationId ? (
+							<Link
+								to="/operations/$operationId"
+								params={{ operationId: operation.operandOperationId }}
+								title="Result of another calculation"
+								className="underline decoration-dotted hover:text-foreground"
+							>
+								{formatNumber(operation.operand)}
+							</Link>
+						) : (
+							formatNumber(operation.operand)
+						)}
+					</span>
+				)}
 				<span className="text-muted-foreground">=</span>
-				<span className="min-w-16 font-medium font-mono text-sm tabular-nums">
+				<span
+					className={cn(
+						"min-w-16 font-medium font-mono text-sm tabular-nums",
+						operation.solvesTarget && "font-bold text-emerald-400",
+					)}
+					title={operation.solvesTarget ? "Reaches the target" : undefined}
+				>
 					{formatNumber(operation.result)}
 				</span>
 
-				{/* Calculation preview */}
-				<span className="min-w-24 text-muted-foreground/60 text-xs tabular-nums">
-					({parentValue} {getOperatorSymbol(operation.operator)}{" "}
-					{operation.operand})
-				</span>
+				{/* Calculation preview (hover for the path from the root) */}
+				<button
+					type="button"
+					title={path?.expression}
+					aria-expanded={showPath}
+					onMouseEnter={() => setWantsPath(true)}
+					onFocus={() => setWantsPath(true)}
+					onClick={() => {
+						setWantsPath(true);
+						setShowPath(!showPath);
+					}}
+					className="min-w-24 text-left text-muted-foreground/60 text-xs tabular-nums hover:underline"
+				>
+					{isUnaryOperator(operation.operator)
+						? `(${formatUnaryExpression(operation.operator, formatNumber(parentValue))})`
+						: `(${formatNumber(parentValue)} ${getOperatorSymbol(operation.operator)} ${formatNumber(operation.operand ?? "")})`}
+				</button>
 
 				{/* Author */}
 				{operation.username && (
@@ -89,7 +197,7 @@ export function OperationNode({
 				)}
 
 				{/* Reply button */}
-				{isAuthenticated && !isReplying && (
+				{isAuthenticated && !isReplying && !isEditing && (
 					<Button
 						variant="ghost"
 						size="xs"
@@ -99,28 +207,109 @@ export function OperationNode({
 						Reply
 					</Button>
 				)}
+
+				{/* Fork button */}
+				{isAuthenticated && !isForking && (
+					<Button
+						variant="ghost"
+						size="xs"
+						className="opacity-0 transition-opacity group-hover:opacity-100"
+						onClick={() => setIsForking(true)}
+					>
+						Fork
+					</Button>
+				)}
+
+				{/* Edit button */}
+				{isAuthor && !isReplying && !isEditing && (
+					<Button
+						variant="ghost"
+						size="xs"
+						className="opacity-0 transition-opacity group-hover:opacity-100"
+						onClick={() => setIsEditing(true)}
+					>
+						Edit
+					</Button>
+				)}
+
+				{/* History drawer */}
+				<HistoryDrawer
+					nodeId={operation.id}
+					nodeKind="operation"
+					className="opacity-0 transition-opacity group-hover:opacity-100"
+				/>
+
+				{/* Delete button */}
+				{(isAuthor || isAdmin) && !isEditing && (
+					<DeleteButton
+						kind="operation"
+						id={operation.id}
+						className="opacity-0 transition-opacity group-hover:opacity-100"
+					/>
+				)}
 			</div>
 
+			{/* Path from the root */}
+			{showPath && (
+				<p className="mb-1 ml-7 font-mono text-muted-foreground text-xs tabular-nums">
+					{path
+						? `${path.expression} = ${formatNumber(operation.result)}`
+						: "Loading..."}
+				</p>
+			)}
+
+			{/* Edit form */}
+			{isEditing && (
+				<div className="mt-1 mb-2 ml-7">
+					<OperationForm
+						operation={operation}
+						rules={rules}
+						onCancel={() => setIsEditing(false)}
+					/>
+				</div>
+			)}
+
 			{/* Reply form */}
 			{isReplying && (
 				<div className="mt-1 mb-2 ml-7">
 					<OperationForm
 						parentOperationId={operation.id}
+						rules={rules}
 						onCancel={() => setIsReplying(false)}
 					/>
 				</div>
 			)}
 
+			{/* Fork form */}
+			{isForking && (
+				<div className="mt-1 mb-2 ml-7">
+					<ForkForm
+						operationId={operation.id}
+						result={operation.result}
+						hasReplies={hasChildren}
+						onCancel={() => setIsForking(false)}
+					/>
+				</div>
+			)}
+
 			{/* Children */}
 			{hasChildren && isExpanded && (
 				<div className="ml-4 border-muted-foreground/20 border-l-2 pl-4">
-					{operation.children.map((child) => (
+					{isLoadingChildren && !fetchedChildren && (
+						<p className="py-1 text-muted-foreground/60 text-xs">Loading...</p>
+					)}
+					{children.map((child) => (
 						<OperationNode
 							key={child.id}
 							operation={child}
 							parentValue={operation.result}
 							depth={depth + 1}
+							rules={rules}
+							winningPath={winningPath}
 							isAuthenticated={isAuthenticated}
+							currentUserId={currentUserId}
+							isAdmin={isAdmin}
+							animateIn={animateIn}
 						/>
 					))}
 				</div>
@@ -128,12 +317,3 @@ export function OperationNode({
 		</div>
 	);
 }
-
-function formatNumber(num: number): string {
-	// Handle very large or very small numbers with scientific notation
-	if (Math.abs(num) > 1e10 || (Math.abs(num) < 1e-6 && num !== 0)) {
-		return num.toExponential(4);
-	}
-	// Round to avoid floating point display issues
-	return Number.parseFloat(num.toFixed(10)).toString();
-}
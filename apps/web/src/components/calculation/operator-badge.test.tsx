@@ -1,9 +1,12 @@
 import { render, screen } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
 import {
+	formatUnaryExpression,
 	getOperatorSymbol,
+	isUnaryOperator,
 	OperatorBadge,
 	type OperatorType,
+	type UnaryOperatorType,
 } from "./operator-badge";
 
 describe("OperatorBadge", () => {
@@ -27,6 +30,31 @@ describe("OperatorBadge", () => {
 			render(<OperatorBadge operator="DIVIDE" />);
 			expect(screen.getByText("\u00f7")).toBeTruthy();
 		});
+
+		it("should render POWER operator with caret symbol", () => {
+			render(<OperatorBadge operator="POWER" />);
+			expect(screen.getByText("^")).toBeTruthy();
+		});
+
+		it("should render NTH_ROOT operator with n-th root symbol", () => {
+			render(<OperatorBadge operator="NTH_ROOT" />);
+			expect(screen.getByText("\u207f\u221a")).toBeTruthy();
+		});
+
+		it("should render MODULO operator with percent symbol", () => {
+			render(<OperatorBadge operator="MODULO" />);
+			expect(screen.getByText("%")).toBeTruthy();
+		});
+
+		it("should render SQRT operator with square root symbol", () => {
+			render(<OperatorBadge operator="SQRT" />);
+			expect(screen.getByText("\u221a")).toBeTruthy();
+		});
+
+		it("should render RECIPROCAL operator with 1/x symbol", () => {
+			render(<OperatorBadge operator="RECIPROCAL" />);
+			expect(screen.getByText("1/x")).toBeTruthy();
+		});
 	});
 
 	describe("styling", () => {
@@ -58,6 +86,34 @@ describe("OperatorBadge", () => {
 			expect(badge?.className).toContain("text-purple-400");
 		});
 
+		it("should apply orange color classes for POWER", () => {
+			const { container } = render(<OperatorBadge operator="POWER" />);
+			const badge = container.querySelector("span");
+			expect(badge?.className).toContain("bg-orange-500/20");
+			expect(badge?.className).toContain("text-orange-400");
+		});
+
+		it("should apply teal color classes for NTH_ROOT", () => {
+			const { container } = render(<OperatorBadge operator="NTH_ROOT" />);
+			const badge = container.querySelector("span");
+			expect(badge?.className).toContain("bg-teal-500/20");
+			expect(badge?.className).toContain("text-teal-400");
+		});
+
+		it("should apply yellow color classes for MODULO", () => {
+			const { container } = render(<OperatorBadge operator="MODULO" />);
+			const badge = container.querySelector("span");
+			expect(badge?.className).toContain("bg-yellow-500/20");
+			expect(badge?.className).toContain("text-yellow-400");
+		});
+
+		it("should apply emerald color classes for SQRT", () => {
+			const { container } = render(<OperatorBadge operator="SQRT" />);
+			const badge = container.querySelector("span");
+			expect(badge?.className).toContain("bg-emerald-500/20");
+			expect(badge?.className).toContain("text-emerald-400");
+		});
+
 		it("should apply custom className", () => {
 			const { container } = render(
 				<OperatorBadge operator="ADD" className="custom-class" />,
@@ -85,7 +141,43 @@ describe("getOperatorSymbol", () => {
 		["SUBTRACT", "-"],
 		["MULTIPLY", "\u00d7"],
 		["DIVIDE", "\u00f7"],
+		["POWER", "^"],
+		["NTH_ROOT", "\u207f\u221a"],
+		["MODULO", "%"],
+		["NEGATE", "\u00b1"],
+		["ABS", "|x|"],
+		["SQRT", "\u221a"],
+		["SQUARE", "x\u00b2"],
+		["RECIPROCAL", "1/x"],
+		["FLOOR", "\u230ax\u230b"],
+		["CEIL", "\u2308x\u2309"],
 	])("should return correct symbol for %s", (operator, expectedSymbol) => {
 		expect(getOperatorSymbol(operator)).toBe(expectedSymbol);
 	});
 });
+
+describe("isUnaryOperator", () => {
+	it("should be true for operators that take no operand", () => {
+		expect(isUnaryOperator("SQRT")).toBe(true);
+		expect(isUnaryOperator("NEGATE")).toBe(true);
+	});
+
+	it("should be false for binary operators", () => {
+		expect(isUnaryOperator("ADD")).toBe(false);
+		expect(isUnaryOperator("NTH_ROOT")).toBe(false);
+	});
+});
+
+describe("formatUnaryExpression", () => {
+	it.each<[UnaryOperatorType, string]>([
+		["NEGATE", "-(16)"],
+		["ABS", "|16|"],
+		["SQRT", "\u221a16"],
+		["SQUARE", "16\u00b2"],
+		["RECIPROCAL", "1/16"],
+		["FLOOR", "\u230a16\u230b"],
+		["CEIL", "\u230816\u2309"],
+	])("should format %s applied to a value", (operator, expected) => {
+		expect(formatUnaryExpression(operator, "16")).toBe(expected);
+	});
+});
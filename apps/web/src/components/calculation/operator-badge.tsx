@@ -6,13 +6,54 @@
 
 import { cn } from "@/lib/utils";
 
-export type OperatorType = "ADD" | "SUBTRACT" | "MULTIPLY" | "DIVIDE";
+export type BinaryOperatorType =
+	| "ADD"
+	| "SUBTRACT"
+	| "MULTIPLY"
+	| "DIVIDE"
+	| "POWER"
+	| "NTH_ROOT"
+	| "MODULO";
+
+/**
+ * Operators that only transform the parent value and take no operand
+ */
+export type UnaryOperatorType =
+	| "NEGATE"
+	| "ABS"
+	| "SQRT"
+	| "SQUARE"
+	| "RECIPROCAL"
+	| "FLOOR"
+	| "CEIL";
+
+export type OperatorType = BinaryOperatorType | UnaryOperatorType;
+
+const unaryOperators: readonly OperatorType[] = [
+	"NEGATE",
+	"ABS",
+	"SQRT",
+	"SQUARE",
+	"RECIPROCAL",
+	"FLOOR",
+	"CEIL",
+];
 
 const operatorSymbols: Record<OperatorType, string> = {
 	ADD: "+",
 	SUBTRACT: "-",
 	MULTIPLY: "\u00d7",
 	DIVIDE: "\u00f7",
+	POWER: "^",
+	NTH_ROOT: "\u207f\u221a",
+	MODULO: "%",
+	NEGATE: "\u00b1",
+	ABS: "|x|",
+	SQRT: "\u221a",
+	SQUARE: "x\u00b2",
+	RECIPROCAL: "1/x",
+	FLOOR: "\u230ax\u230b",
+	CEIL: "\u2308x\u2309",
 };
 
 const operatorColors: Record<OperatorType, string> = {
@@ -20,6 +61,16 @@ const operatorColors: Record<OperatorType, string> = {
 	SUBTRACT: "bg-red-500/20 text-red-400 border-red-500/30",
 	MULTIPLY: "bg-blue-500/20 text-blue-400 border-blue-500/30",
 	DIVIDE: "bg-purple-500/20 text-purple-400 border-purple-500/30",
+	POWER: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+	NTH_ROOT: "bg-teal-500/20 text-teal-400 border-teal-500/30",
+	MODULO: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+	NEGATE: "bg-rose-500/20 text-rose-400 border-rose-500/30",
+	ABS: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30",
+	SQRT: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+	SQUARE: "bg-amber-500/20 text-amber-400 border-amber-500/30",
+	RECIPROCAL: "bg-fuchsia-500/20 text-fuchsia-400 border-fuchsia-500/30",
+	FLOOR: "bg-sky-500/20 text-sky-400 border-sky-500/30",
+	CEIL: "bg-indigo-500/20 text-indigo-400 border-indigo-500/30",
 };
 
 interface OperatorBadgeProps {
@@ -31,7 +82,7 @@ export function OperatorBadge({ operator, className }: OperatorBadgeProps) {
 	return (
 		<span
 			className={cn(
-				"inline-flex h-6 w-6 items-center justify-center rounded border font-bold font-mono text-sm",
+				"inline-flex h-6 min-w-6 items-center justify-center rounded border px-1 font-bold font-mono text-sm",
 				operatorColors[operator],
 				className,
 			)}
@@ -44,3 +95,34 @@ export function OperatorBadge({ operator, className }: OperatorBadgeProps) {
 export function getOperatorSymbol(operator: OperatorType): string {
 	return operatorSymbols[operator];
 }
+
+export function isUnaryOperator(
+	operator: OperatorType,
+): operator is UnaryOperatorType {
+	return unaryOperators.includes(operator);
+}
+
+/**
+ * Format a unary operator applied to a value (e.g. "\u221a16", "|-5|")
+ */
+export function formatUnaryExpression(
+	operator: UnaryOperatorType,
+	value: string,
+): string {
+	switch (operator) {
+		case "NEGATE":
+			return `-(${value})`;
+		case "ABS":
+			return `|${value}|`;
+		case "SQRT":
+			return `\u221a${value}`;
+		case "SQUARE":
+			return `${value}\u00b2`;
+		case "RECIPROCAL":
+			return `1/${value}`;
+		case "FLOOR":
+			return `\u230a${value}\u230b`;
+		case "CEIL":
+			return `\u2308${value}\u2309`;
+	}
+}
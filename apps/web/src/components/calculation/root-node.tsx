@@ -2,50 +2,85 @@
  * Root Node Component
  *
  * Displays a calculation root (starting number) with its operation tree.
- * Supports collapsing and expanding the tree.
+ * Collapsed roots show the feed's preview of their first operations;
+ * expanding loads the first levels of the tree (deeper replies are loaded
+ * by each operation on expand). A stats panel summarizes the tree on
+ * demand, and a drawer lists the changes to the starting number. Forked
+ * roots link back to the tree they were forked from. Lets the author
+ * change the starting number or delete the tree (admins can always
+ * delete). A snapshot of the tree at an earlier moment is shown whole and
+ * read-only, and can be replayed with each operation fading in. Roots
+ * with a target show it, who reached it first, and highlight the shortest
+ * path to it.
  */
 
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
 import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { formatNumber } from "@/lib/format";
+import { orpc, type RouterOutputs } from "@/utils/orpc";
+import { DeleteButton } from "./delete-button";
+import { EditRootForm } from "./edit-root-form";
+import { HistoryDrawer } from "./history-drawer";
 import { OperationForm } from "./operation-form";
-import { OperationNode } from "./operation-node";
-import type { OperatorType } from "./operator-badge";
-
-interface Operation {
-	id: string;
-	parentRootId: string | null;
-	parentOperationId: string | null;
-	operator: OperatorType;
-	operand: number;
-	result: number;
-	userId: string;
-	username?: string;
-	children: Operation[];
-	createdAt: string;
-	updatedAt: string;
-}
+import { OperationNode, SUBTREE_DEPTH } from "./operation-node";
+import { RootStatsPanel } from "./root-stats-panel";
 
-interface CalculationRoot {
-	id: string;
-	value: number;
-	userId: string;
-	username?: string;
-	operations: Operation[];
-	createdAt: string;
-	updatedAt: string;
-}
+/**
+ * A root with a preview of its first direct operations (in the feed) or
+ * its whole tree (on its own page)
+ */
+type CalculationRoot = NonNullable<
+	RouterOutputs["calculation"]["getRootById"]
+> & {
+	/** Number of operations in the whole tree */
+	operationCount: number;
+};
 
 interface RootNodeProps {
 	root: CalculationRoot;
 	isAuthenticated: boolean;
+	currentUserId?: string;
+	isAdmin?: boolean;
+	/** The whole tree as it was at some moment: nothing to load or edit */
+	isSnapshot?: boolean;
+	/** Fade operations in as they are added to the snapshot */
+	isReplaying?: boolean;
 }
 
-export function RootNode({ root, isAuthenticated }: RootNodeProps) {
-	const [isExpanded, setIsExpanded] = useState(true);
+export function RootNode({
+	root,
+	isAuthenticated,
+	currentUserId,
+	isAdmin = false,
+	isSnapshot = false,
+	isReplaying = false,
+}: RootNodeProps) {
+	const [isExpanded, setIsExpanded] = useState(false);
 	const [isReplying, setIsReplying] = useState(false);
-	const hasOperations = root.operations.length > 0;
+	const [isEditing, setIsEditing] = useState(false);
+	const [showStats, setShowStats] = useState(false);
+	const isAuthor =
+		!isSnapshot && !!currentUserId && currentUserId === root.userId;
+	const canReply = !isSnapshot && isAuthenticated;
+	const canDelete = !isSnapshot && (isAuthor || isAdmin);
+	const hasOperations = root.operationCount > 0;
+
+	// The tree is only fetched once the root is expanded
+	const { data: subtree, isFetching: isLoadingTree } = useQuery({
+		...orpc.calculation.getSubtree.queryOptions({
+			input: { nodeId: root.id, depth: SUBTREE_DEPTH },
+		}),
+		enabled: isExpanded && !isSnapshot,
+	});
+	const loadedOperations = subtree?.operations;
+	const operations =
+		isExpanded && loadedOperations ? loadedOperations : root.operations;
+	const hiddenCount = isSnapshot ? 0 : root.operationCount - operations.length;
+	const winningPath = root.solution?.shortestPath;
 
 	return (
 		<Card size="sm">
@@ -53,7 +88,7 @@ export function RootNode({ root, isAuthenticated }: RootNodeProps) {
 				<div className="flex items-center justify-between">
 					<div className="flex items-center gap-3">
 						{/* Collapse/Expand */}
-						{hasOperations && (
+						{hasOperations && !isSnapshot && (
 							<button
 								type="button"
 								onClick={() => setIsExpanded(!isExpanded)}
@@ -64,9 +99,39 @@ export function RootNode({ root, isAuthenticated }: RootNodeProps) {
 						)}
 
 						{/* Starting value */}
-						<span className="font-bold font-mono text-2xl">
-							{formatNumber(root.value)}
-						</span>
+						{isEditing ? (
+							<EditRootForm
+								rootId={root.id}
+								value={root.value}
+								onCancel={() => setIsEditing(false)}
+							/>
+						) : (
+							<span className="font-bold font-mono text-2xl">
+								{formatNumber(root.value)}
+							</span>
+						)}
+
+						{/* Target, and who reached it first */}
+						{root.target && (
+							<span className="font-mono text-muted-foreground text-sm tabular-nums">
+								&rarr; {formatNumber(root.target.value)}
+								{Number(root.target.tolerance) > 0 &&
+									` \u00b1 ${formatNumber(root.target.tolerance)}`}
+							</span>
+						)}
+						{root.target &&
+							(root.solution ? (
+								<span
+									title={`First solved ${root.solution.solvedAt.toLocaleString()}`}
+									className="rounded-full bg-emerald-500/20 px-2 py-0.5 font-medium text-emerald-400 text-xs"
+								>
+									Solved by {root.solution.solvedByUsername ?? "a former user"}
+								</span>
+							) : (
+								<span className="rounded-full bg-muted px-2 py-0.5 text-muted-foreground text-xs">
+									Unsolved
+								</span>
+							))}
 
 						{/* Author */}
 						{root.username && (
@@ -75,48 +140,122 @@ export function RootNode({ root, isAuthenticated }: RootNodeProps) {
 							</span>
 						)}
 
+						{/* Provenance (cleared if the source tree is deleted) */}
+						{root.forkedFromRootId && (
+							<span className="text-muted-foreground text-sm">
+								forked from{" "}
+								<Link
+									to="/roots/$rootId"
+									params={{ rootId: root.forkedFromRootId }}
+									className="underline hover:text-foreground"
+								>
+									another tree
+								</Link>
+							</span>
+						)}
+
 						{/* Timestamp */}
 						<span className="text-muted-foreground/60 text-xs">
 							{formatDate(root.createdAt)}
 						</span>
 					</div>
 
-					{/* Reply button */}
-					{isAuthenticated && !isReplying && (
-						<Button
-							variant="outline"
-							size="sm"
-							onClick={() => setIsReplying(true)}
-						>
-							Add Operation
-						</Button>
-					)}
+					<div className="flex items-center gap-2">
+						{/* Stats toggle */}
+						{!isSnapshot && (
+							<Button
+								variant="ghost"
+								size="sm"
+								aria-pressed={showStats}
+								onClick={() => setShowStats(!showStats)}
+							>
+								Stats
+							</Button>
+						)}
+
+						{/* History drawer */}
+						<HistoryDrawer nodeId={root.id} nodeKind="root" size="sm" />
+
+						{/* Edit button */}
+						{isAuthor && !isEditing && (
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => setIsEditing(true)}
+							>
+								Edit
+							</Button>
+						)}
+
+						{/* Delete button */}
+						{canDelete && !isEditing && (
+							<DeleteButton kind="root" id={root.id} size="sm" />
+						)}
+
+						{/* Reply button */}
+						{canReply && !isReplying && (
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() => setIsReplying(true)}
+							>
+								Add Operation
+							</Button>
+						)}
+					</div>
 				</div>
 
+				{/* Stats panel */}
+				{showStats && (
+					<div className="mt-3">
+						<RootStatsPanel rootId={root.id} />
+					</div>
+				)}
+
 				{/* Reply form */}
 				{isReplying && (
 					<div className="mt-3">
 						<OperationForm
 							parentRootId={root.id}
+							rules={root.rules}
 							onCancel={() => setIsReplying(false)}
 						/>
 					</div>
 				)}
 			</CardHeader>
 
-			{/* Operations tree */}
-			{hasOperations && isExpanded && (
+			{/* Operations tree (or preview while collapsed) */}
+			{hasOperations && (
 				<CardContent className="pt-4">
 					<div className="ml-4 border-muted-foreground/20 border-l-2 pl-4">
-						{root.operations.map((operation) => (
+						{operations.map((operation) => (
 							<OperationNode
 								key={operation.id}
 								operation={operation}
 								parentValue={root.value}
-								isAuthenticated={isAuthenticated}
+								rules={root.rules}
+								winningPath={winningPath}
+								isAuthenticated={canReply}
+								currentUserId={isSnapshot ? undefined : currentUserId}
+								isAdmin={!isSnapshot && isAdmin}
+								animateIn={isReplaying}
 							/>
 						))}
 					</div>
+					{!isExpanded && hiddenCount > 0 && (
+						<button
+							type="button"
+							onClick={() => setIsExpanded(true)}
+							className="mt-2 ml-4 text-muted-foreground text-sm hover:underline"
+						>
+							Show all {root.operationCount} operations
+						</button>
+					)}
+					{isExpanded && isLoadingTree && !loadedOperations && (
+						<p className="mt-2 ml-4 text-muted-foreground/60 text-sm">
+							Loading...
+						</p>
+					)}
 				</CardContent>
 			)}
 
@@ -125,9 +264,10 @@ export function RootNode({ root, isAuthenticated }: RootNodeProps) {
 				<CardContent className="pt-2">
 					<p className="text-muted-foreground/60 text-sm">
 						No operations yet.{" "}
-						{isAuthenticated
-							? "Be the first to add one!"
-							: "Sign in to add operations."}
+						{!isSnapshot &&
+							(isAuthenticated
+								? "Be the first to add one!"
+								: "Sign in to add operations.")}
 					</p>
 				</CardContent>
 			)}
@@ -135,15 +275,7 @@ export function RootNode({ root, isAuthenticated }: RootNodeProps) {
 	);
 }
 
-function formatNumber(num: number): string {
-	if (Math.abs(num) > 1e10 || (Math.abs(num) < 1e-6 && num !== 0)) {
-		return num.toExponential(4);
-	}
-	return Number.parseFloat(num.toFixed(10)).toString();
-}
-
-function formatDate(dateStr: string): string {
-	const date = new Date(dateStr);
+function formatDate(date: Date): string {
 	const now = new Date();
 	const diffMs = now.getTime() - date.getTime();
 	const diffMins = Math.floor(diffMs / 60000);
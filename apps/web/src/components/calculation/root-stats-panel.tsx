@@ -0,0 +1,83 @@
+/**
+ * Root Stats Panel Component
+ *
+ * Summary of one root's tree: size, depth, the spread of its leaf
+ * results (the values at the end of each branch), operator usage and
+ * who contributed. Fetched when the panel is opened.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatNumber } from "@/lib/format";
+import { orpc } from "@/utils/orpc";
+import { OperatorBadge, type OperatorType } from "./operator-badge";
+
+interface RootStatsPanelProps {
+	rootId: string;
+}
+
+export function RootStatsPanel({ rootId }: RootStatsPanelProps) {
+	const {
+		data: stats,
+		isLoading,
+		error,
+	} = useQuery(
+		orpc.calculation.getRootStats.queryOptions({ input: { rootId } }),
+	);
+
+	if (isLoading) {
+		return <Skeleton className="h-20 w-full" />;
+	}
+
+	if (error || !stats) {
+		return (
+			<p className="text-destructive text-sm">
+				Failed to load stats{error ? `: ${error.message}` : ""}
+			</p>
+		);
+	}
+
+	const operators = Object.entries(stats.operatorCounts).sort(
+		([, a], [, b]) => b - a,
+	) as [OperatorType, number][];
+
+	return (
+		<div className="space-y-3 rounded-lg border bg-muted/30 p-3 text-sm">
+			<dl className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-4">
+				<Stat label="Nodes" value={stats.nodeCount} />
+				<Stat label="Depth" value={stats.maxDepth} />
+				<Stat label="Leaves" value={stats.leafCount} />
+				<Stat label="Contributors" value={stats.contributorCount} />
+				<Stat label="Min leaf" value={formatNumber(stats.minLeafResult)} />
+				<Stat label="Max leaf" value={formatNumber(stats.maxLeafResult)} />
+				<Stat label="Mean leaf" value={formatNumber(stats.meanLeafResult)} />
+				<Stat
+					label="Last activity"
+					value={stats.lastActivityAt.toLocaleString()}
+				/>
+			</dl>
+			{operators.length > 0 && (
+				<ul className="flex flex-wrap gap-2">
+					{operators.map(([operator, count]) => (
+						<li key={operator} className="flex items-center gap-1">
+							<OperatorBadge operator={operator} />
+							<span className="text-muted-foreground tabular-nums">
+								×{count}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+	return (
+		<div>
+			<dt className="text-muted-foreground text-xs">{label}</dt>
+			<dd className="font-mono tabular-nums">{value}</dd>
+		</div>
+	);
+}
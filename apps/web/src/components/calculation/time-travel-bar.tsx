@@ -0,0 +1,98 @@
+/**
+ * Time Travel Bar Component
+ *
+ * Slider for viewing a tree as it was at any moment since it was started,
+ * and a button replaying how the shown tree grew. The tree is only
+ * reloaded once the slider comes to rest; dragging it all the way to the
+ * right goes back to the live tree.
+ */
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+
+interface TimeTravelBarProps {
+	/** When the tree was started */
+	from: Date;
+	/** Moment shown (ISO timestamp), or undefined for now */
+	value?: string;
+	onChange: (value: string | undefined) => void;
+	isReplaying: boolean;
+	onReplayChange: (isReplaying: boolean) => void;
+}
+
+/** How long the slider must rest before the tree is reloaded */
+const SCRUB_DELAY_MS = 300;
+
+export function TimeTravelBar({
+	from,
+	value,
+	onChange,
+	isReplaying,
+	onReplayChange,
+}: TimeTravelBarProps) {
+	const [now] = useState(() => Date.now());
+	const start = from.getTime();
+	const end = Math.max(now, start);
+	const shown = value ? new Date(value).getTime() : end;
+	const [position, setPosition] = useState(shown);
+
+	// Follow changes made elsewhere (e.g. back and forward navigation)
+	useEffect(() => {
+		setPosition(shown);
+	}, [shown]);
+
+	useEffect(() => {
+		if (position === shown) return;
+		const timeout = setTimeout(
+			() =>
+				onChange(
+					position >= end ? undefined : new Date(position).toISOString(),
+				),
+			SCRUB_DELAY_MS,
+		);
+		return () => clearTimeout(timeout);
+	}, [position, shown, end, onChange]);
+
+	return (
+		<div className="mb-4 space-y-2 rounded-lg border bg-muted/30 p-3">
+			<div className="flex items-center justify-between gap-2 text-sm">
+				<span className="font-medium">
+					{position >= end
+						? "Now"
+						: `As of ${new Date(position).toLocaleString()}`}
+				</span>
+				<div className="flex items-center gap-2">
+					{value && (
+						<Button
+							variant="ghost"
+							size="xs"
+							onClick={() => onChange(undefined)}
+						>
+							Back to now
+						</Button>
+					)}
+					<Button
+						variant="outline"
+						size="xs"
+						aria-pressed={isReplaying}
+						onClick={() => onReplayChange(!isReplaying)}
+					>
+						{isReplaying ? "Stop" : "Replay"}
+					</Button>
+				</div>
+			</div>
+			<input
+				type="range"
+				aria-label="Moment to show"
+				min={start}
+				max={end}
+				step="any"
+				value={position}
+				disabled={isReplaying}
+				onChange={(e) => setPosition(Number(e.target.value))}
+				className="w-full accent-primary"
+			/>
+		</div>
+	);
+}
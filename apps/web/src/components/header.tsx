@@ -5,6 +5,7 @@ import UserMenu from "./user-menu";
 export default function Header() {
 	const links = [
 		{ to: "/", label: "Home" },
+		{ to: "/search", label: "Search" },
 		{ to: "/about", label: "About" },
 	] as const;
 
@@ -1,8 +1,17 @@
 import { env } from "@ellty-second-round/env/web";
-import { usernameClient } from "better-auth/client/plugins";
+import {
+	inferAdditionalFields,
+	usernameClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 
 export const authClient = createAuthClient({
 	baseURL: env.VITE_SERVER_URL,
-	plugins: [usernameClient()],
+	plugins: [
+		usernameClient(),
+		// Mirrors the server's user.additionalFields
+		inferAdditionalFields({
+			user: { role: { type: "string", required: false, input: false } },
+		}),
+	],
 });
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { compareDecimals, formatNumber, isDecimal } from "./format";
+
+describe("formatNumber", () => {
+	it("should render plain decimals unchanged", () => {
+		expect(formatNumber("150")).toBe("150");
+		expect(formatNumber("-12.5")).toBe("-12.5");
+	});
+
+	it("should keep exact decimals that floats cannot represent", () => {
+		expect(formatNumber("0.3")).toBe("0.3");
+		expect(formatNumber("1234567890.1234567891")).toBe("1234567890.1234567891");
+	});
+
+	it("should strip trailing zeros from database values", () => {
+		expect(formatNumber("150.0000000000")).toBe("150");
+		expect(formatNumber("2.5000000000")).toBe("2.5");
+	});
+
+	it("should strip redundant leading zeros", () => {
+		expect(formatNumber("007.5")).toBe("7.5");
+	});
+
+	it("should render zero without a sign", () => {
+		expect(formatNumber("0")).toBe("0");
+		expect(formatNumber("-0.0000000000")).toBe("0");
+	});
+
+	it("should use scientific notation for very large values", () => {
+		expect(formatNumber("123456789012")).toBe("1.2346e+11");
+		expect(formatNumber("-99999999999.9")).toBe("-1.0000e+11");
+	});
+
+	it("should use scientific notation for very small values", () => {
+		expect(formatNumber("0.0000001234")).toBe("1.2340e-7");
+		expect(formatNumber("0.00000012345")).toBe("1.2345e-7");
+	});
+
+	it("should not use scientific notation at the boundaries", () => {
+		expect(formatNumber("9999999999")).toBe("9999999999");
+		expect(formatNumber("0.000001")).toBe("0.000001");
+	});
+
+	it("should return unparseable input unchanged", () => {
+		expect(formatNumber("abc")).toBe("abc");
+	});
+});
+
+describe("isDecimal", () => {
+	it("should accept plain decimals", () => {
+		expect(isDecimal("150")).toBe(true);
+		expect(isDecimal("-12.5")).toBe(true);
+		expect(isDecimal("+0.001")).toBe(true);
+	});
+
+	it("should reject forms the API does not accept", () => {
+		expect(isDecimal("1e5")).toBe(false);
+		expect(isDecimal(".5")).toBe(false);
+		expect(isDecimal("5.")).toBe(false);
+		expect(isDecimal("")).toBe(false);
+	});
+});
+
+describe("compareDecimals", () => {
+	it("should order decimals exactly", () => {
+		expect(compareDecimals("1.5", "10")).toBeLessThan(0);
+		expect(compareDecimals("-2", "-10")).toBeGreaterThan(0);
+		expect(compareDecimals("0.30000000000000000001", "0.3")).toBeGreaterThan(0);
+	});
+
+	it("should treat trailing zeros and signs as equal", () => {
+		expect(compareDecimals("2.50", "2.5")).toBe(0);
+		expect(compareDecimals("+1", "1.0000000000")).toBe(0);
+		expect(compareDecimals("-0", "0")).toBe(0);
+	});
+});
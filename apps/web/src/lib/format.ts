@@ -0,0 +1,91 @@
+/**
+ * Number formatting helpers
+ *
+ * Calculation values arrive from the API as exact decimal strings.
+ * These helpers work on the string digits directly so that rendering
+ * never goes through a JavaScript float and re-introduces rounding error.
+ */
+
+const DECIMAL_PATTERN = /^([-+]?)(\d+)(?:\.(\d+))?$/;
+
+/** Significant digits shown after the point in scientific notation */
+const SCIENTIFIC_DIGITS = 4;
+
+/**
+ * Whether a string is a plain decimal the API accepts, e.g. "-12.5"
+ * (no exponent such as "1e5", no leading or trailing point)
+ */
+export function isDecimal(value: string): boolean {
+	return DECIMAL_PATTERN.test(value);
+}
+
+/**
+ * Compare two plain decimal strings exactly (see isDecimal)
+ * @returns A negative number, zero or a positive number as `a` is smaller
+ * than, equal to or larger than `b`
+ */
+export function compareDecimals(a: string, b: string): number {
+	const x = DECIMAL_PATTERN.exec(a.trim());
+	const y = DECIMAL_PATTERN.exec(b.trim());
+	if (!x || !y) {
+		throw new Error(`Not a plain decimal: ${x ? b : a}`);
+	}
+	// Scale both to the same number of fraction digits, then compare integers
+	const scale = Math.max(x[3]?.length ?? 0, y[3]?.length ?? 0);
+	const toScaled = (match: RegExpExecArray) =>
+		BigInt(
+			`${match[1] === "-" ? "-" : ""}${match[2]}${(match[3] ?? "").padEnd(scale, "0")}`,
+		);
+	const difference = toScaled(x) - toScaled(y);
+	return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Format a decimal string for display.
+ * Very large (more than 10 integer digits) or very small (below 1e-6)
+ * values are shown in scientific notation, e.g. "1.2346e+12".
+ */
+export function formatNumber(value: string): string {
+	const match = DECIMAL_PATTERN.exec(value.trim());
+	if (!match) {
+		return value;
+	}
+
+	const sign = match[1] === "-" ? "-" : "";
+	const integer = (match[2] ?? "0").replace(/^0+(?=\d)/, "");
+	const fraction = (match[3] ?? "").replace(/0+$/, "");
+
+	if (integer === "0" && fraction === "") {
+		return "0";
+	}
+
+	if (
+		integer.length > 10 ||
+		(integer === "0" && fraction.startsWith("000000"))
+	) {
+		return sign + toScientific(integer, fraction);
+	}
+
+	return `${sign}${integer}${fraction ? `.${fraction}` : ""}`;
+}
+
+function toScientific(integer: string, fraction: string): string {
+	const allDigits = `${integer}${fraction}`;
+	const leadingZeros = allDigits.length - allDigits.replace(/^0+/, "").length;
+	const digits = allDigits.slice(leadingZeros);
+	let exponent = integer.length - 1 - leadingZeros;
+
+	// Round half-up to the number of digits we keep
+	const kept = digits
+		.slice(0, SCIENTIFIC_DIGITS + 1)
+		.padEnd(SCIENTIFIC_DIGITS + 1, "0");
+	const roundUp = (digits[SCIENTIFIC_DIGITS + 1] ?? "0") >= "5";
+	let mantissa = (BigInt(kept) + (roundUp ? 1n : 0n)).toString();
+	if (mantissa.length > SCIENTIFIC_DIGITS + 1) {
+		mantissa = mantissa.slice(0, SCIENTIFIC_DIGITS + 1);
+		exponent += 1;
+	}
+
+	const exponentSign = exponent < 0 ? "-" : "+";
+	return `${mantissa[0]}.${mantissa.slice(1)}e${exponentSign}${Math.abs(exponent)}`;
+}
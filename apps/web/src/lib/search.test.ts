@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { parseValueRange } from "./search";
+
+describe("parseValueRange", () => {
+	it("should treat a single number as an exact value", () => {
+		expect(parseValueRange("42")).toEqual({ equals: "42" });
+		expect(parseValueRange(" -1.5 ")).toEqual({ equals: "-1.5" });
+	});
+
+	it("should parse ranges with both ends", () => {
+		expect(parseValueRange("10..20")).toEqual({ min: "10", max: "20" });
+		expect(parseValueRange("-5 .. 5")).toEqual({ min: "-5", max: "5" });
+	});
+
+	it("should allow either end to be open", () => {
+		expect(parseValueRange("10..")).toEqual({ min: "10", max: undefined });
+		expect(parseValueRange("..0.5")).toEqual({ min: undefined, max: "0.5" });
+	});
+
+	it("should return undefined for empty input", () => {
+		expect(parseValueRange(undefined)).toBeUndefined();
+		expect(parseValueRange("  ")).toBeUndefined();
+	});
+
+	it("should return null for text that is not a number or range", () => {
+		expect(parseValueRange("abc")).toBeNull();
+		expect(parseValueRange("..")).toBeNull();
+		expect(parseValueRange("1..x")).toBeNull();
+		expect(parseValueRange("1e5")).toBeNull();
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * Search helpers
+ *
+ * Value filters on the search page are typed as a single text field:
+ * an exact value ("42") or a range with either end open ("10..20",
+ * "10..", "..20").
+ */
+
+const DECIMAL_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+const RANGE_SEPARATOR = "..";
+
+/** Value filter in the shape the search endpoint expects */
+export interface ValueRange {
+	equals?: string;
+	min?: string;
+	max?: string;
+}
+
+/**
+ * Parse a value filter. Returns undefined for an empty field and null when
+ * the text is not a number or range of numbers.
+ */
+export function parseValueRange(
+	text: string | undefined,
+): ValueRange | null | undefined {
+	const trimmed = text?.trim() ?? "";
+	if (!trimmed) {
+		return undefined;
+	}
+
+	const separatorIndex = trimmed.indexOf(RANGE_SEPARATOR);
+	if (separatorIndex === -1) {
+		return DECIMAL_PATTERN.test(trimmed) ? { equals: trimmed } : null;
+	}
+
+	const min = trimmed.slice(0, separatorIndex).trim();
+	const max = trimmed.slice(separatorIndex + RANGE_SEPARATOR.length).trim();
+	if (
+		(!min && !max) ||
+		(min && !DECIMAL_PATTERN.test(min)) ||
+		(max && !DECIMAL_PATTERN.test(max))
+	) {
+		return null;
+	}
+	return { min: min || undefined, max: max || undefined };
+}
@@ -21,7 +21,11 @@ function HomeComponent() {
 				</p>
 			</header>
 
-			<CalculationTree isAuthenticated={isAuthenticated} />
+			<CalculationTree
+				isAuthenticated={isAuthenticated}
+				currentUserId={session?.user.id}
+				isAdmin={session?.user.role === "admin"}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,16 @@
+import { createFileRoute, redirect } from "@tanstack/react-router";
+
+// Permalink to an operation: opens the tree it belongs to
+export const Route = createFileRoute("/operations/$operationId")({
+	loader: async ({ context, params }) => {
+		const path = await context.queryClient.ensureQueryData(
+			context.orpc.calculation.getPath.queryOptions({
+				input: { operationId: params.operationId },
+			}),
+		);
+		throw redirect({
+			to: "/roots/$rootId",
+			params: { rootId: path.root.id },
+		});
+	},
+});
@@ -0,0 +1,156 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import { z } from "zod";
+
+import { RootNode, TimeTravelBar } from "@/components/calculation";
+import { Skeleton } from "@/components/ui/skeleton";
+import { authClient } from "@/lib/auth-client";
+import { orpc, type RouterOutputs } from "@/utils/orpc";
+
+// getRootById loads the whole tree
+type LoadedRoot = NonNullable<RouterOutputs["calculation"]["getRootById"]>;
+type LoadedOperation = LoadedRoot["operations"][number];
+
+const searchParamsSchema = z.object({
+	/** Show the tree as it was at this moment */
+	asOf: z.iso.datetime().optional(),
+});
+
+/** Delay between each step of a replay */
+const REPLAY_STEP_MS = 700;
+
+export const Route = createFileRoute("/roots/$rootId")({
+	validateSearch: searchParamsSchema,
+	component: RootComponent,
+});
+
+function RootComponent() {
+	const { rootId } = Route.useParams();
+	const { asOf } = Route.useSearch();
+	const navigate = useNavigate({ from: "/roots/$rootId" });
+	const { data: session } = authClient.useSession();
+	const [replayStep, setReplayStep] = useState<number | null>(null);
+
+	// The live tree bounds the slider, even while an earlier moment is shown
+	const { data: live } = useQuery(
+		orpc.calculation.getRootById.queryOptions({ input: { id: rootId } }),
+	);
+	const {
+		data: root,
+		isLoading,
+		error,
+	} = useQuery({
+		...orpc.calculation.getRootById.queryOptions({
+			input: { id: rootId, asOf: asOf ? new Date(asOf) : undefined },
+		}),
+		placeholderData: keepPreviousData,
+	});
+
+	// A replay steps through the moments the shown tree's nodes were created
+	const timeline = root ? creationTimes(root) : [];
+	useEffect(() => {
+		if (replayStep === null) return;
+		const timeout = setTimeout(
+			() =>
+				setReplayStep(replayStep + 1 < timeline.length ? replayStep + 1 : null),
+			REPLAY_STEP_MS,
+		);
+		return () => clearTimeout(timeout);
+	}, [replayStep, timeline.length]);
+	const replayedUntil = replayStep === null ? undefined : timeline[replayStep];
+	const shown =
+		root && replayedUntil !== undefined ? pruneTree(root, replayedUntil) : root;
+
+	return (
+		<div className="container mx-auto max-w-3xl px-4 py-6">
+			<header className="mb-8">
+				<Link to="/" className="text-muted-foreground text-sm hover:underline">
+					&larr; All calculations
+				</Link>
+			</header>
+
+			{live && (
+				<TimeTravelBar
+					from={live.createdAt}
+					value={asOf}
+					onChange={(value) => {
+						setReplayStep(null);
+						navigate({ search: { asOf: value }, replace: true });
+					}}
+					isReplaying={replayStep !== null}
+					onReplayChange={(isReplaying) =>
+						setReplayStep(isReplaying ? 0 : null)
+					}
+				/>
+			)}
+
+			{isLoading && <Skeleton className="h-24 w-full" />}
+
+			{error && (
+				<p className="text-destructive">
+					Failed to load the calculation: {error.message}
+				</p>
+			)}
+
+			{!isLoading && !error && !shown && (
+				<p className="text-muted-foreground">
+					{asOf
+						? "This calculation did not exist yet at that moment."
+						: "This calculation does not exist or has been deleted."}
+				</p>
+			)}
+
+			{shown && (
+				<RootNode
+					key={asOf ?? "now"}
+					root={{
+						...shown,
+						operationCount: countOperations(shown.operations),
+					}}
+					isAuthenticated={!!session?.user}
+					currentUserId={session?.user.id}
+					isAdmin={session?.user.role === "admin"}
+					isSnapshot={!!asOf || replayStep !== null}
+					isReplaying={replayStep !== null}
+				/>
+			)}
+		</div>
+	);
+}
+
+function countOperations(operations: LoadedRoot["operations"]): number {
+	return operations.reduce(
+		(count, operation) => count + 1 + countOperations(operation.children),
+		0,
+	);
+}
+
+/**
+ * The distinct moments the root and its operations were created, in order
+ */
+function creationTimes(root: LoadedRoot): number[] {
+	const times = new Set([root.createdAt.getTime()]);
+	const visit = (operations: LoadedOperation[]) => {
+		for (const operation of operations) {
+			times.add(operation.createdAt.getTime());
+			visit(operation.children);
+		}
+	};
+	visit(root.operations);
+	return [...times].sort((a, b) => a - b);
+}
+
+/**
+ * The tree without the operations created after `until`
+ */
+function pruneTree(root: LoadedRoot, until: number): LoadedRoot {
+	const prune = (operations: LoadedOperation[]): LoadedOperation[] =>
+		operations
+			.filter((operation) => operation.createdAt.getTime() <= until)
+			.map((operation) => ({
+				...operation,
+				children: prune(operation.children),
+			}));
+	return { ...root, operations: prune(root.operations) };
+}
@@ -0,0 +1,66 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { z } from "zod";
+
+import {
+	NodeSearchForm,
+	type NodeSearchParams,
+	NodeSearchResults,
+} from "@/components/calculation";
+
+// Numbers in the URL may be parsed as JSON numbers, so coerce them back
+const searchParamsSchema = z.object({
+	result: z.coerce.string().optional(),
+	operand: z.coerce.string().optional(),
+	rootValue: z.coerce.string().optional(),
+	operators: z
+		.array(
+			z.enum([
+				"ADD",
+				"SUBTRACT",
+				"MULTIPLY",
+				"DIVIDE",
+				"POWER",
+				"NTH_ROOT",
+				"MODULO",
+				"NEGATE",
+				"ABS",
+				"SQRT",
+				"SQUARE",
+				"RECIPROCAL",
+				"FLOOR",
+				"CEIL",
+			]),
+		)
+		.optional(),
+	username: z.string().optional(),
+});
+
+export const Route = createFileRoute("/search")({
+	validateSearch: searchParamsSchema,
+	component: SearchComponent,
+});
+
+function SearchComponent() {
+	const params: NodeSearchParams = Route.useSearch();
+	const navigate = useNavigate({ from: "/search" });
+
+	return (
+		<div className="container mx-auto max-w-3xl px-4 py-6">
+			<header className="mb-8">
+				<h1 className="font-bold text-3xl">Search</h1>
+				<p className="mt-2 text-muted-foreground">
+					Find every calculation that reached a value, used an operator, or was
+					posted by someone.
+				</p>
+			</header>
+
+			<div className="space-y-6">
+				<NodeSearchForm
+					params={params}
+					onSearch={(search) => navigate({ search })}
+				/>
+				<NodeSearchResults params={params} />
+			</div>
+		</div>
+	);
+}
@@ -2,7 +2,7 @@ import type { AppRouter } from "@ellty-second-round/api/routers/index";
 import { env } from "@ellty-second-round/env/web";
 import { createORPCClient } from "@orpc/client";
 import { RPCLink } from "@orpc/client/fetch";
-import type { RouterClient } from "@orpc/server";
+import type { InferRouterOutputs, RouterClient } from "@orpc/server";
 import { createTanstackQueryUtils } from "@orpc/tanstack-query";
 import { QueryCache, QueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
@@ -37,3 +37,6 @@ const getORPCClient = () => {
 export const client: RouterClient<AppRouter> = getORPCClient();
 
 export const orpc = createTanstackQueryUtils(client);
+
+/** What each procedure returns, as received by the client */
+export type RouterOutputs = InferRouterOutputs<AppRouter>;
@@ -1,4 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { InvalidOperationError, NumericOverflowError } from "../errors";
+import { Decimal } from "../value-objects/decimal";
 import { Operator } from "../value-objects/operator";
 import { CalculationOperation } from "./calculation-operation";
 
@@ -29,8 +31,8 @@ describe("CalculationOperation Entity", () => {
 			expect(operation.id).toBe("test-op-uuid-123");
 			expect(operation.parentRootId).toBe("root-123");
 			expect(operation.parentOperationId).toBeNull();
-			expect(operation.operand).toBe(5);
-			expect(operation.result).toBe(15); // 10 + 5
+			expect(operation.operand?.toString()).toBe("5");
+			expect(operation.result.toString()).toBe("15"); // 10 + 5
 			expect(operation.userId).toBe("user-123");
 			expect(operation.username).toBe("testuser");
 			expect(operation.createdAt).toBeInstanceOf(Date);
@@ -49,7 +51,7 @@ describe("CalculationOperation Entity", () => {
 
 			expect(operation.parentRootId).toBeNull();
 			expect(operation.parentOperationId).toBe("op-456");
-			expect(operation.result).toBe(45); // 15 * 3
+			expect(operation.result.toString()).toBe("45"); // 15 * 3
 		});
 
 		it("should throw error when no parent is provided", () => {
@@ -88,6 +90,89 @@ describe("CalculationOperation Entity", () => {
 			).toThrow("Invalid operation: division by zero");
 		});
 
+		it("should throw a typed InvalidOperationError", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("DIVIDE"),
+					operand: 0,
+					parentValue: 10,
+					userId: "user-123",
+				}),
+			).toThrow(InvalidOperationError);
+		});
+
+		it("should throw error for an even root of a negative parent value", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("NTH_ROOT"),
+					operand: 2,
+					parentValue: -16,
+					userId: "user-123",
+				}),
+			).toThrow("Invalid operation: even root of a negative number");
+		});
+
+		it("should throw error for modulo by zero", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("MODULO"),
+					operand: 0,
+					parentValue: 10,
+					userId: "user-123",
+				}),
+			).toThrow("Invalid operation: modulo by zero");
+		});
+
+		it("should create a unary operation without an operand", () => {
+			const operation = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("SQRT"),
+				parentValue: 144,
+				userId: "user-123",
+			});
+
+			expect(operation.operand).toBeNull();
+			expect(operation.result.toString()).toBe("12");
+		});
+
+		it("should throw error when a unary operator is given an operand", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("SQUARE"),
+					operand: 2,
+					parentValue: 10,
+					userId: "user-123",
+				}),
+			).toThrow("Invalid operation: an operand for a unary operator");
+		});
+
+		it("should throw error when a binary operator has no operand", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("ADD"),
+					operand: null,
+					parentValue: 10,
+					userId: "user-123",
+				}),
+			).toThrow("Invalid operation: a missing operand");
+		});
+
+		it("should throw error for the square root of a negative parent value", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("SQRT"),
+					parentValue: -4,
+					userId: "user-123",
+				}),
+			).toThrow(InvalidOperationError);
+		});
+
 		describe("calculations", () => {
 			it("should calculate ADD correctly", () => {
 				const operation = CalculationOperation.create({
@@ -98,7 +183,7 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBe(17);
+				expect(operation.result.toString()).toBe("17");
 			});
 
 			it("should calculate SUBTRACT correctly", () => {
@@ -110,7 +195,7 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBe(7);
+				expect(operation.result.toString()).toBe("7");
 			});
 
 			it("should calculate MULTIPLY correctly", () => {
@@ -122,7 +207,7 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBe(40);
+				expect(operation.result.toString()).toBe("40");
 			});
 
 			it("should calculate DIVIDE correctly", () => {
@@ -134,7 +219,43 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBe(5);
+				expect(operation.result.toString()).toBe("5");
+			});
+
+			it("should calculate POWER correctly", () => {
+				const operation = CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("POWER"),
+					operand: 3,
+					parentValue: 10,
+					userId: "user-123",
+				});
+
+				expect(operation.result.toString()).toBe("1000");
+			});
+
+			it("should calculate NTH_ROOT correctly", () => {
+				const operation = CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("NTH_ROOT"),
+					operand: 2,
+					parentValue: 81,
+					userId: "user-123",
+				});
+
+				expect(operation.result.toString()).toBe("9");
+			});
+
+			it("should calculate MODULO correctly", () => {
+				const operation = CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("MODULO"),
+					operand: 4,
+					parentValue: 10,
+					userId: "user-123",
+				});
+
+				expect(operation.result.toString()).toBe("2");
 			});
 
 			it("should handle negative numbers", () => {
@@ -146,7 +267,7 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBe(5);
+				expect(operation.result.toString()).toBe("5");
 			});
 
 			it("should handle decimal numbers", () => {
@@ -158,7 +279,8 @@ describe("CalculationOperation Entity", () => {
 					userId: "user-123",
 				});
 
-				expect(operation.result).toBeCloseTo(3.3333, 4);
+				// Rounded to the 10 fractional digits the database stores
+				expect(operation.result.toString()).toBe("3.3333333333");
 			});
 		});
 	});
@@ -173,8 +295,8 @@ describe("CalculationOperation Entity", () => {
 				parentRootId: "root-123",
 				parentOperationId: null,
 				operator: "ADD",
-				operand: 5,
-				result: 15,
+				operand: new Decimal(5),
+				result: new Decimal(15),
 				userId: "user-abc",
 				username: "persisteduser",
 				createdAt,
@@ -185,8 +307,8 @@ describe("CalculationOperation Entity", () => {
 			expect(operation.parentRootId).toBe("root-123");
 			expect(operation.parentOperationId).toBeNull();
 			expect(operation.operator.toString()).toBe("ADD");
-			expect(operation.operand).toBe(5);
-			expect(operation.result).toBe(15);
+			expect(operation.operand?.toString()).toBe("5");
+			expect(operation.result.toString()).toBe("15");
 			expect(operation.userId).toBe("user-abc");
 			expect(operation.username).toBe("persisteduser");
 			expect(operation.createdAt).toBe(createdAt);
@@ -199,8 +321,8 @@ describe("CalculationOperation Entity", () => {
 				parentRootId: null,
 				parentOperationId: "parent-op-123",
 				operator: "MULTIPLY",
-				operand: 2,
-				result: 20,
+				operand: new Decimal(2),
+				result: new Decimal(20),
 				userId: "user-abc",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -211,6 +333,200 @@ describe("CalculationOperation Entity", () => {
 		});
 	});
 
+	describe("recalculate", () => {
+		const createStored = () =>
+			CalculationOperation.fromPersistence({
+				id: "op-123",
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "MULTIPLY",
+				operand: new Decimal(2),
+				result: new Decimal(20),
+				userId: "user-123",
+				createdAt: new Date("2024-01-01"),
+				updatedAt: new Date("2024-01-01"),
+			});
+
+		it("should recompute the result against a new parent value", () => {
+			const updated = createStored().recalculate(7);
+
+			expect(updated.id).toBe("op-123");
+			expect(updated.operand?.toString()).toBe("2");
+			expect(updated.result.toString()).toBe("14");
+			expect(updated.createdAt).toEqual(new Date("2024-01-01"));
+			expect(updated.updatedAt.getTime()).toBeGreaterThan(
+				new Date("2024-01-01").getTime(),
+			);
+		});
+
+		it("should apply a new operator and operand", () => {
+			const updated = createStored().recalculate(10, {
+				operator: Operator.fromType("SUBTRACT"),
+				operand: "2.5",
+			});
+
+			expect(updated.operator.toString()).toBe("SUBTRACT");
+			expect(updated.result.toString()).toBe("7.5");
+		});
+
+		it("should not modify the original operation", () => {
+			const stored = createStored();
+			stored.recalculate(7, { operand: 3 });
+
+			expect(stored.operand?.toString()).toBe("2");
+			expect(stored.result.toString()).toBe("20");
+		});
+
+		it("should validate like create", () => {
+			expect(() =>
+				createStored().recalculate(10, {
+					operator: Operator.fromType("DIVIDE"),
+					operand: 0,
+				}),
+			).toThrow(InvalidOperationError);
+			expect(() => createStored().recalculate("9999999999")).toThrow(
+				NumericOverflowError,
+			);
+		});
+	});
+
+	describe("moveTo", () => {
+		const createStored = () =>
+			CalculationOperation.fromPersistence({
+				id: "op-123",
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "MULTIPLY",
+				operand: new Decimal(2),
+				result: new Decimal(20),
+				userId: "user-123",
+				createdAt: new Date("2024-01-01"),
+				updatedAt: new Date("2024-01-01"),
+			});
+
+		it("should reparent the operation and recompute its result", () => {
+			const moved = createStored().moveTo({ parentOperationId: "op-456" }, 7);
+
+			expect(moved.id).toBe("op-123");
+			expect(moved.parentRootId).toBeNull();
+			expect(moved.parentOperationId).toBe("op-456");
+			expect(moved.operator.toString()).toBe("MULTIPLY");
+			expect(moved.result.toString()).toBe("14");
+			expect(moved.createdAt).toEqual(new Date("2024-01-01"));
+		});
+
+		it("should require exactly one parent", () => {
+			expect(() => createStored().moveTo({}, 7)).toThrow(
+				"Operation must have a parent",
+			);
+			expect(() =>
+				createStored().moveTo(
+					{ parentRootId: "root-456", parentOperationId: "op-456" },
+					7,
+				),
+			).toThrow("Operation cannot have both root and operation parent");
+		});
+
+		it("should validate the result against the new parent", () => {
+			expect(() =>
+				createStored().moveTo({ parentRootId: "root-456" }, "9999999999"),
+			).toThrow(NumericOverflowError);
+		});
+	});
+
+	describe("operand references", () => {
+		const createReferencing = () =>
+			CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("MULTIPLY"),
+				operand: 4,
+				operandOperationId: "op-456",
+				parentValue: 10,
+				userId: "user-123",
+			});
+
+		it("should keep the referenced node alongside the resolved operand", () => {
+			const operation = createReferencing();
+
+			expect(operation.operand?.toString()).toBe("4");
+			expect(operation.result.toString()).toBe("40");
+			expect(operation.operandRootId).toBeNull();
+			expect(operation.toJSON().operandOperationId).toBe("op-456");
+		});
+
+		it("should reject a reference for an operator without operand", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("SQRT"),
+					operandRootId: "root-456",
+					parentValue: 9,
+					userId: "user-123",
+				}),
+			).toThrow("a referenced operand requires a binary operator");
+		});
+
+		it("should reject referencing both a root and an operation", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("ADD"),
+					operand: 1,
+					operandRootId: "root-456",
+					operandOperationId: "op-456",
+					parentValue: 9,
+					userId: "user-123",
+				}),
+			).toThrow("cannot reference both");
+		});
+
+		it("should keep the reference unless a new operand is given", () => {
+			const operation = createReferencing();
+
+			expect(operation.recalculate(2).operandOperationId).toBe("op-456");
+			expect(
+				operation.recalculate(2, { operator: Operator.fromType("ADD") })
+					.operandOperationId,
+			).toBe("op-456");
+			expect(
+				operation.moveTo({ parentRootId: "root-789" }, 2).operandOperationId,
+			).toBe("op-456");
+			expect(
+				operation.recalculate(2, { operand: 3 }).operandOperationId,
+			).toBeNull();
+			expect(
+				operation.recalculate(2, { operand: 3, operandRootId: "root-456" })
+					.operandRootId,
+			).toBe("root-456");
+		});
+	});
+
+	describe("flatten", () => {
+		it("should list the operation and its descendants in pre-order", () => {
+			const root = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("ADD"),
+				operand: 1,
+				parentValue: 1,
+				userId: "user-123",
+			});
+			const child = CalculationOperation.fromPersistence({
+				id: "child",
+				parentRootId: null,
+				parentOperationId: root.id,
+				operator: "NEGATE",
+				operand: null,
+				result: new Decimal(-2),
+				userId: "user-123",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+			root.setChildren([child]);
+
+			expect(root.flatten().map((op) => op.id)).toEqual([root.id, "child"]);
+		});
+	});
+
 	describe("children management", () => {
 		it("should start with empty children", () => {
 			const operation = CalculationOperation.create({
@@ -326,6 +642,17 @@ describe("CalculationOperation Entity", () => {
 
 			expect(operation.toDisplayString()).toBe("\u00F7 2 = 5");
 		});
+
+		it("should display unary operations without an operand", () => {
+			const operation = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("SQRT"),
+				parentValue: 144,
+				userId: "user-123",
+			});
+
+			expect(operation.toDisplayString()).toBe("\u221A = 12");
+		});
 	});
 
 	describe("toJSON", () => {
@@ -346,8 +673,11 @@ describe("CalculationOperation Entity", () => {
 				parentRootId: "root-123",
 				parentOperationId: null,
 				operator: "ADD",
-				operand: 5,
-				result: 15,
+				operand: "5",
+				operandRootId: null,
+				operandOperationId: null,
+				result: "15",
+				solvesTarget: false,
 				userId: "user-123",
 				username: "testuser",
 				createdAt: operation.createdAt,
@@ -356,6 +686,18 @@ describe("CalculationOperation Entity", () => {
 			});
 		});
 
+		it("should serialize a unary operation with a null operand", () => {
+			const operation = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("NEGATE"),
+				parentValue: 10,
+				userId: "user-123",
+			});
+
+			expect(operation.toJSON().operand).toBeNull();
+			expect(operation.toJSON().result).toBe("-10");
+		});
+
 		it("should serialize operation with children", () => {
 			const parent = CalculationOperation.create({
 				parentRootId: "root-123",
@@ -378,8 +720,8 @@ describe("CalculationOperation Entity", () => {
 			const json = parent.toJSON();
 
 			expect(json.children).toHaveLength(1);
-			expect(json.children[0]!.operand).toBe(2);
-			expect(json.children[0]!.result).toBe(30); // 15 * 2
+			expect(json.children[0]!.operand).toBe("2");
+			expect(json.children[0]!.result).toBe("30"); // 15 * 2
 		});
 
 		it("should serialize deeply nested children", () => {
@@ -414,7 +756,7 @@ describe("CalculationOperation Entity", () => {
 
 			expect(json.children).toHaveLength(1);
 			expect(json.children[0]!.children).toHaveLength(1);
-			expect(json.children[0]!.children[0]!.result).toBe(20); // 30 - 10
+			expect(json.children[0]!.children[0]!.result).toBe("20"); // 30 - 10
 		});
 	});
 
@@ -438,8 +780,8 @@ describe("CalculationOperation Entity", () => {
 				parentRootId: "root-123",
 				parentOperationId: null,
 				operator: "MULTIPLY",
-				operand: 5,
-				result: 50,
+				operand: new Decimal(5),
+				result: new Decimal(50),
 				userId: "user-123",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -451,16 +793,70 @@ describe("CalculationOperation Entity", () => {
 	});
 
 	describe("edge cases", () => {
-		it("should handle very large numbers", () => {
+		it("should handle large numbers within storage bounds", () => {
 			const operation = CalculationOperation.create({
 				parentRootId: "root-123",
 				operator: Operator.fromType("ADD"),
-				operand: Number.MAX_SAFE_INTEGER,
+				operand: "9999999998.9999999999",
 				parentValue: 1,
 				userId: "user-123",
 			});
 
-			expect(operation.result).toBe(Number.MAX_SAFE_INTEGER + 1);
+			expect(operation.result.toString()).toBe("9999999999.9999999999");
+		});
+
+		it("should reject results with more than 10 integer digits", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("MULTIPLY"),
+					operand: 1e5,
+					parentValue: 1e5,
+					userId: "user-123",
+				}),
+			).toThrow(NumericOverflowError);
+		});
+
+		it("should reject operands with more than 10 integer digits", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("SUBTRACT"),
+					operand: Number.MAX_SAFE_INTEGER,
+					parentValue: 1,
+					userId: "user-123",
+				}),
+			).toThrow(
+				"Operand 9007199254740991 is out of range: at most 10 integer digits are supported",
+			);
+		});
+
+		it("should reject operands with more than 10 decimal places", () => {
+			expect(() =>
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("ADD"),
+					operand: 0.30000000000000004,
+					parentValue: 1,
+					userId: "user-123",
+				}),
+			).toThrow("has too many decimal places: at most 10 are supported");
+		});
+
+		it("should report the overflowing field", () => {
+			try {
+				CalculationOperation.create({
+					parentRootId: "root-123",
+					operator: Operator.fromType("POWER"),
+					operand: 20,
+					parentValue: 10,
+					userId: "user-123",
+				});
+				expect.unreachable();
+			} catch (error) {
+				expect(error).toBeInstanceOf(NumericOverflowError);
+				expect((error as NumericOverflowError).field).toBe("result");
+			}
 		});
 
 		it("should handle very small decimal numbers", () => {
@@ -472,7 +868,38 @@ describe("CalculationOperation Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(operation.result).toBeCloseTo(0.00000001);
+			expect(operation.result.toString()).toBe("0.00000001");
+		});
+
+		it("should round results half-up to 10 fractional digits", () => {
+			const operation = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("DIVIDE"),
+				operand: 3,
+				parentValue: 2,
+				userId: "user-123",
+			});
+
+			expect(operation.result.toString()).toBe("0.6666666667");
+		});
+
+		it("should not drift when chaining decimal additions", () => {
+			const first = CalculationOperation.create({
+				parentRootId: "root-123",
+				operator: Operator.fromType("ADD"),
+				operand: "0.1",
+				parentValue: "0.1",
+				userId: "user-123",
+			});
+			const second = CalculationOperation.create({
+				parentOperationId: first.id,
+				operator: Operator.fromType("ADD"),
+				operand: "0.1",
+				parentValue: first.result,
+				userId: "user-123",
+			});
+
+			expect(second.result.toString()).toBe("0.3");
 		});
 
 		it("should handle zero operand for non-division", () => {
@@ -484,7 +911,7 @@ describe("CalculationOperation Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(operation.result).toBe(10);
+			expect(operation.result.toString()).toBe("10");
 		});
 
 		it("should handle zero parent value", () => {
@@ -496,7 +923,7 @@ describe("CalculationOperation Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(operation.result).toBe(0);
+			expect(operation.result.toString()).toBe("0");
 		});
 	});
 });
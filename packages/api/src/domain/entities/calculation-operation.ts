@@ -5,6 +5,13 @@
  * Forms the nodes of the calculation tree below the root.
  */
 
+import { InvalidOperationError, InvalidReferenceError } from "../errors";
+import {
+	type Decimal,
+	type DecimalInput,
+	ensureStorable,
+	toDecimal,
+} from "../value-objects/decimal";
 import { Operator, type OperatorType } from "../value-objects/operator";
 
 export interface CalculationOperationProps {
@@ -12,37 +19,95 @@ export interface CalculationOperationProps {
 	parentRootId: string | null;
 	parentOperationId: string | null;
 	operator: OperatorType;
-	operand: number;
-	result: number;
+	/** Null for unary operators, which take no operand */
+	operand: Decimal | null;
+	/**
+	 * Root or operation whose result the operand was taken from (at most
+	 * one); null for literal operands
+	 */
+	operandRootId?: string | null;
+	operandOperationId?: string | null;
+	result: Decimal;
+	/** The result reaches the target of the operation's tree, if it has one */
+	solvesTarget?: boolean;
 	userId: string;
 	username?: string;
 	createdAt: Date;
 	updatedAt: Date;
 }
 
-export interface CreateCalculationOperationInput {
+/**
+ * Serialized form - decimals are emitted as strings to preserve precision
+ */
+export interface CalculationOperationJSON
+	extends Omit<
+		CalculationOperationProps,
+		| "operand"
+		| "operandRootId"
+		| "operandOperationId"
+		| "result"
+		| "solvesTarget"
+	> {
+	operand: string | null;
+	operandRootId: string | null;
+	operandOperationId: string | null;
+	result: string;
+	solvesTarget: boolean;
+	children: CalculationOperationJSON[];
+}
+
+/**
+ * The node an operand was taken from: at most one of a root or an operation
+ */
+export interface OperandReference {
+	operandRootId?: string | null;
+	operandOperationId?: string | null;
+}
+
+export interface CreateCalculationOperationInput extends OperandReference {
 	parentRootId?: string;
 	parentOperationId?: string;
 	operator: Operator;
-	operand: number;
-	parentValue: number;
+	/** For a referenced operand, the referenced node's current result */
+	operand?: DecimalInput | null;
+	parentValue: DecimalInput;
 	userId: string;
 	username?: string;
 }
 
+/**
+ * Where an operation replies: exactly one of a root or another operation
+ */
+export type OperationParent = Pick<
+	CreateCalculationOperationInput,
+	"parentRootId" | "parentOperationId"
+>;
+
+/**
+ * Changes applied by an edit. Omitted fields keep their current value,
+ * except that a new operand given without a reference becomes a literal.
+ */
+export interface RecalculateOperationChanges extends OperandReference {
+	operator?: Operator;
+	operand?: DecimalInput | null;
+}
+
 export class CalculationOperation {
 	readonly id: string;
 	readonly parentRootId: string | null;
 	readonly parentOperationId: string | null;
 	readonly operator: Operator;
-	readonly operand: number;
-	readonly result: number;
+	readonly operand: Decimal | null;
+	readonly operandRootId: string | null;
+	readonly operandOperationId: string | null;
+	readonly result: Decimal;
 	readonly userId: string;
 	readonly username: string | undefined;
 	readonly createdAt: Date;
 	readonly updatedAt: Date;
 
 	private _children: CalculationOperation[] = [];
+	private _solvesTarget: boolean;
 
 	private constructor(props: CalculationOperationProps) {
 		this.id = props.id;
@@ -50,7 +115,10 @@ export class CalculationOperation {
 		this.parentOperationId = props.parentOperationId;
 		this.operator = Operator.fromType(props.operator);
 		this.operand = props.operand;
+		this.operandRootId = props.operandRootId ?? null;
+		this.operandOperationId = props.operandOperationId ?? null;
 		this.result = props.result;
+		this._solvesTarget = props.solvesTarget ?? false;
 		this.userId = props.userId;
 		this.username = props.username;
 		this.createdAt = props.createdAt;
@@ -64,25 +132,39 @@ export class CalculationOperation {
 		return this._children;
 	}
 
+	/**
+	 * Whether the result reaches the target of the operation's tree.
+	 * New and recomputed operations are not flagged until the service
+	 * checks them against the target.
+	 */
+	get solvesTarget(): boolean {
+		return this._solvesTarget;
+	}
+
 	/**
 	 * Factory method to create a new CalculationOperation
+	 * @throws InvalidReferenceError if the operation has no parent or both
+	 * @throws InvalidOperationError if the operator is undefined for the values
+	 * @throws NumericOverflowError if the operand or result cannot be stored
 	 */
 	static create(input: CreateCalculationOperationInput): CalculationOperation {
 		// Validate: must have exactly one parent
 		if (!input.parentRootId && !input.parentOperationId) {
-			throw new Error("Operation must have a parent (root or operation)");
+			throw new InvalidReferenceError(
+				"Operation must have a parent (root or operation)",
+			);
 		}
 		if (input.parentRootId && input.parentOperationId) {
-			throw new Error("Operation cannot have both root and operation parent");
+			throw new InvalidReferenceError(
+				"Operation cannot have both root and operation parent",
+			);
 		}
 
-		// Validate: operator must be valid with operand
-		if (!input.operator.isValidWith(input.operand)) {
-			throw new Error("Invalid operation: division by zero");
-		}
-
-		// Calculate result
-		const result = input.operator.calculate(input.parentValue, input.operand);
+		const { operand, result } = CalculationOperation.compute(
+			input.operator,
+			input.operand ?? null,
+			input.parentValue,
+		);
 
 		const now = new Date();
 		return new CalculationOperation({
@@ -90,7 +172,8 @@ export class CalculationOperation {
 			parentRootId: input.parentRootId ?? null,
 			parentOperationId: input.parentOperationId ?? null,
 			operator: input.operator.toString(),
-			operand: input.operand,
+			operand,
+			...CalculationOperation.resolveReference(input, operand),
 			result,
 			userId: input.userId,
 			username: input.username,
@@ -99,6 +182,85 @@ export class CalculationOperation {
 		});
 	}
 
+	/**
+	 * Recompute the result against a (possibly changed) parent value,
+	 * optionally changing the operator and operand at the same time.
+	 * Returns a new entity with the same identity and no children.
+	 * @throws InvalidOperationError if the operator is undefined for the values
+	 * @throws NumericOverflowError if the operand or result cannot be stored
+	 */
+	recalculate(
+		parentValue: DecimalInput,
+		changes: RecalculateOperationChanges = {},
+	): CalculationOperation {
+		const operator = changes.operator ?? this.operator;
+		const { operand, result } = CalculationOperation.compute(
+			operator,
+			changes.operand === undefined ? this.operand : changes.operand,
+			parentValue,
+		);
+		const keepsReference =
+			changes.operand === undefined &&
+			changes.operandRootId === undefined &&
+			changes.operandOperationId === undefined;
+
+		return new CalculationOperation({
+			id: this.id,
+			parentRootId: this.parentRootId,
+			parentOperationId: this.parentOperationId,
+			operator: operator.toString(),
+			operand,
+			...CalculationOperation.resolveReference(
+				keepsReference ? this : changes,
+				operand,
+			),
+			result,
+			userId: this.userId,
+			username: this.username,
+			createdAt: this.createdAt,
+			updatedAt: new Date(),
+		});
+	}
+
+	/**
+	 * Move the operation below another parent and recompute its result
+	 * against that parent's value. Returns a new entity with the same
+	 * identity and no children.
+	 * @throws InvalidOperationError if the operator is undefined for the values
+	 * @throws NumericOverflowError if the result cannot be stored
+	 */
+	moveTo(
+		parent: OperationParent,
+		parentValue: DecimalInput,
+	): CalculationOperation {
+		if (!parent.parentRootId && !parent.parentOperationId) {
+			throw new InvalidReferenceError(
+				"Operation must have a parent (root or operation)",
+			);
+		}
+		if (parent.parentRootId && parent.parentOperationId) {
+			throw new InvalidReferenceError(
+				"Operation cannot have both root and operation parent",
+			);
+		}
+
+		const recalculated = this.recalculate(parentValue);
+		return new CalculationOperation({
+			id: this.id,
+			parentRootId: parent.parentRootId ?? null,
+			parentOperationId: parent.parentOperationId ?? null,
+			operator: this.operator.toString(),
+			operand: recalculated.operand,
+			operandRootId: this.operandRootId,
+			operandOperationId: this.operandOperationId,
+			result: recalculated.result,
+			userId: this.userId,
+			username: this.username,
+			createdAt: this.createdAt,
+			updatedAt: recalculated.updatedAt,
+		});
+	}
+
 	/**
 	 * Reconstitute from persistence layer
 	 */
@@ -108,6 +270,13 @@ export class CalculationOperation {
 		return new CalculationOperation(props);
 	}
 
+	/**
+	 * Get this operation and all of its descendants (depth-first, pre-order)
+	 */
+	flatten(): CalculationOperation[] {
+		return [this, ...this._children.flatMap((child) => child.flatten())];
+	}
+
 	/**
 	 * Add a child operation (for building tree in memory)
 	 */
@@ -123,25 +292,91 @@ export class CalculationOperation {
 	}
 
 	/**
-	 * Get display string for the operation (e.g., "+ 5 = 47")
+	 * Flag whether the result reaches the target of the operation's tree
+	 */
+	setSolvesTarget(solvesTarget: boolean): void {
+		this._solvesTarget = solvesTarget;
+	}
+
+	/**
+	 * Get display string for the operation (e.g., "+ 5 = 47", or "√ = 12"
+	 * for unary operators)
 	 */
 	toDisplayString(): string {
+		if (this.operand === null) {
+			return `${this.operator.displaySymbol} = ${this.result}`;
+		}
 		return `${this.operator.displaySymbol} ${this.operand} = ${this.result}`;
 	}
 
+	/**
+	 * Validate the node an operand was taken from; only operators that take
+	 * an operand can reference one
+	 * @throws InvalidReferenceError if both a root and an operation are given
+	 * @throws InvalidOperationError if the operator takes no operand
+	 */
+	private static resolveReference(
+		reference: OperandReference,
+		operand: Decimal | null,
+	): Required<OperandReference> {
+		const operandRootId = reference.operandRootId ?? null;
+		const operandOperationId = reference.operandOperationId ?? null;
+		if (operandRootId && operandOperationId) {
+			throw new InvalidReferenceError(
+				"An operand cannot reference both a root and an operation",
+			);
+		}
+		if ((operandRootId || operandOperationId) && operand === null) {
+			throw new InvalidOperationError(
+				"a referenced operand requires a binary operator",
+			);
+		}
+		return { operandRootId, operandOperationId };
+	}
+
+	/**
+	 * Validate an operand against a parent value and compute the result,
+	 * rounded to the scale the database stores
+	 */
+	private static compute(
+		operator: Operator,
+		operandInput: DecimalInput | null,
+		parentInput: DecimalInput,
+	): { operand: Decimal | null; result: Decimal } {
+		const operand =
+			operandInput === null
+				? null
+				: ensureStorable(toDecimal(operandInput), "operand");
+		const parentValue = toDecimal(parentInput);
+
+		// Validate: operator must be valid with operand and parent value
+		const validationError = operator.getValidationError(operand, parentValue);
+		if (validationError) {
+			throw new InvalidOperationError(validationError);
+		}
+
+		const result = ensureStorable(
+			operator.calculate(parentValue, operand),
+			"result",
+			{ round: true },
+		);
+		return { operand, result };
+	}
+
 	/**
 	 * Convert to plain object for serialization
 	 */
-	toJSON(): CalculationOperationProps & {
-		children: ReturnType<CalculationOperation["toJSON"]>[];
-	} {
+	toJSON(): CalculationOperationJSON {
 		return {
 			id: this.id,
 			parentRootId: this.parentRootId,
 			parentOperationId: this.parentOperationId,
 			operator: this.operator.toString(),
-			operand: this.operand,
-			result: this.result,
+			operand: this.operand?.toString() ?? null,
+			operandRootId: this.operandRootId,
+			operandOperationId: this.operandOperationId,
+			result: this.result.toString(),
+			solvesTarget: this._solvesTarget,
 			userId: this.userId,
 			username: this.username,
 			createdAt: this.createdAt,
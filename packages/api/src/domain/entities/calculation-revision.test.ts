@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Decimal } from "../value-objects/decimal";
+import { CalculationOperation } from "./calculation-operation";
+import { CalculationRevision } from "./calculation-revision";
+import { CalculationRoot } from "./calculation-root";
+
+// Store original crypto
+const originalRandomUUID = crypto.randomUUID;
+
+const persisted = {
+	userId: "user-123",
+	createdAt: new Date("2024-01-01"),
+	updatedAt: new Date("2024-01-01"),
+};
+
+/**
+ * Builds A: + 50 = 150 -> B: / 3 = 50, below root-123 (100)
+ */
+const createSubtree = () => {
+	const opA = CalculationOperation.fromPersistence({
+		...persisted,
+		id: "op-a",
+		parentRootId: "root-123",
+		parentOperationId: null,
+		operator: "ADD",
+		operand: new Decimal(50),
+		result: new Decimal(150),
+	});
+	const opB = CalculationOperation.fromPersistence({
+		...persisted,
+		id: "op-b",
+		parentRootId: null,
+		parentOperationId: "op-a",
+		operator: "DIVIDE",
+		operand: new Decimal(3),
+		result: new Decimal(50),
+		userId: "user-456",
+	});
+	opA.setChildren([opB]);
+	return opA;
+};
+
+describe("CalculationRevision Entity", () => {
+	beforeEach(() => {
+		crypto.randomUUID = vi.fn(() => "revision-uuid");
+	});
+
+	afterEach(() => {
+		crypto.randomUUID = originalRandomUUID;
+	});
+
+	describe("forRoot", () => {
+		const root = CalculationRoot.fromPersistence({
+			...persisted,
+			id: "root-123",
+			value: new Decimal(100),
+		});
+
+		it("should record a create, an update and a delete", () => {
+			const created = CalculationRevision.forRoot(null, root, "user-123");
+			const updated = CalculationRevision.forRoot(
+				root,
+				root.withValue("12.5"),
+				"user-123",
+			);
+			const deleted = CalculationRevision.forRoot(root, null, "admin-1");
+
+			expect(created.toJSON()).toEqual({
+				id: "revision-uuid",
+				nodeId: "root-123",
+				nodeKind: "root",
+				rootId: "root-123",
+				action: "create",
+				before: null,
+				after: {
+					value: "100",
+					userId: "user-123",
+					forkedFromRootId: null,
+					forkedFromOperationId: null,
+				},
+				userId: "user-123",
+				username: undefined,
+				createdAt: created.createdAt,
+			});
+			expect(updated.action).toBe("update");
+			expect(updated.before).toMatchObject({ value: "100" });
+			expect(updated.after).toMatchObject({ value: "12.5" });
+			expect(deleted.action).toBe("delete");
+			expect(deleted.after).toBeNull();
+			expect(deleted.userId).toBe("admin-1");
+		});
+
+		it("should require the node before or after the change", () => {
+			expect(() => CalculationRevision.forRoot(null, null, "user-123")).toThrow(
+				"A revision needs the node before or after the change",
+			);
+		});
+	});
+
+	describe("forOperations", () => {
+		it("should record created operations", () => {
+			const opA = createSubtree();
+
+			const revisions = CalculationRevision.forOperations(
+				[],
+				opA.flatten(),
+				{ rootId: "root-123" },
+				"user-123",
+			);
+
+			expect(revisions.map((r) => [r.nodeId, r.action])).toEqual([
+				["op-a", "create"],
+				["op-b", "create"],
+			]);
+			expect(revisions[1]?.after).toEqual({
+				parentRootId: null,
+				parentOperationId: "op-a",
+				operator: "DIVIDE",
+				operand: "3",
+				operandRootId: null,
+				operandOperationId: null,
+				result: "50",
+				userId: "user-456",
+			});
+		});
+
+		it("should only record operations whose stored values changed", () => {
+			const existing = createSubtree();
+			const recalculated = (parentValue: number) =>
+				existing.recalculate(new Decimal(parentValue), {
+					operator: existing.operator,
+				});
+
+			const revisions = CalculationRevision.forOperations(
+				existing.flatten(),
+				[recalculated(200), ...existing.children],
+				{ rootId: "root-123" },
+				"user-456",
+			);
+
+			expect(revisions).toHaveLength(1);
+			expect(revisions[0]).toMatchObject({
+				nodeId: "op-a",
+				action: "update",
+				before: { result: "150" },
+				after: { result: "250" },
+				userId: "user-456",
+			});
+			expect(
+				CalculationRevision.forOperations(
+					existing.flatten(),
+					[recalculated(100), ...existing.children],
+					{ rootId: "root-123" },
+					"user-123",
+				),
+			).toEqual([]);
+		});
+
+		it("should record every operation moved to another tree", () => {
+			const existing = createSubtree();
+
+			const revisions = CalculationRevision.forOperations(
+				existing.flatten(),
+				existing.flatten(),
+				{ rootId: "root-456", previousRootId: "root-123" },
+				"user-123",
+			);
+
+			expect(revisions.map((r) => [r.nodeId, r.action, r.rootId])).toEqual([
+				["op-a", "update", "root-456"],
+				["op-b", "update", "root-456"],
+			]);
+		});
+
+		it("should record deleted operations in their previous tree", () => {
+			const revisions = CalculationRevision.forOperations(
+				createSubtree().flatten(),
+				[],
+				{ rootId: "root-123" },
+				"admin-1",
+			);
+
+			expect(revisions.map((r) => [r.nodeId, r.action])).toEqual([
+				["op-a", "delete"],
+				["op-b", "delete"],
+			]);
+			expect(revisions[0]?.before).toMatchObject({ result: "150" });
+			expect(revisions[0]?.after).toBeNull();
+			expect(revisions[0]?.rootId).toBe("root-123");
+		});
+	});
+});
@@ -0,0 +1,234 @@
+/**
+ * CalculationRevision Entity
+ *
+ * An append-only record of one change to a root or operation: who made it,
+ * when, and the node's values before and after. Revisions are never edited
+ * and outlive the nodes they describe, so a deleted node keeps its history.
+ */
+
+import type { CalculationNodeKind } from "../errors";
+import type {
+	CalculationOperation,
+	CalculationOperationJSON,
+} from "./calculation-operation";
+import type { CalculationRoot, CalculationRootJSON } from "./calculation-root";
+
+export type RevisionAction = "create" | "update" | "delete";
+
+/**
+ * The stored values of a root at one point in time
+ */
+export type RootSnapshot = Pick<
+	CalculationRootJSON,
+	"value" | "userId" | "forkedFromRootId" | "forkedFromOperationId"
+>;
+
+/**
+ * The stored values of an operation at one point in time
+ */
+export type OperationSnapshot = Pick<
+	CalculationOperationJSON,
+	| "parentRootId"
+	| "parentOperationId"
+	| "operator"
+	| "operand"
+	| "operandRootId"
+	| "operandOperationId"
+	| "result"
+	| "userId"
+>;
+
+export type NodeSnapshot = RootSnapshot | OperationSnapshot;
+
+export interface CalculationRevisionProps {
+	id: string;
+	nodeId: string;
+	nodeKind: CalculationNodeKind;
+	/** Root of the node's tree when the change was made */
+	rootId: string | null;
+	action: RevisionAction;
+	/** Null for a create */
+	before: NodeSnapshot | null;
+	/** Null for a delete */
+	after: NodeSnapshot | null;
+	/** Who made the change, not necessarily the node's author */
+	userId: string;
+	username?: string;
+	createdAt: Date;
+}
+
+export type CalculationRevisionJSON = CalculationRevisionProps;
+
+export class CalculationRevision {
+	readonly id: string;
+	readonly nodeId: string;
+	readonly nodeKind: CalculationNodeKind;
+	readonly rootId: string | null;
+	readonly action: RevisionAction;
+	readonly before: NodeSnapshot | null;
+	readonly after: NodeSnapshot | null;
+	readonly userId: string;
+	readonly username: string | undefined;
+	readonly createdAt: Date;
+
+	private constructor(props: CalculationRevisionProps) {
+		this.id = props.id;
+		this.nodeId = props.nodeId;
+		this.nodeKind = props.nodeKind;
+		this.rootId = props.rootId;
+		this.action = props.action;
+		this.before = props.before;
+		this.after = props.after;
+		this.userId = props.userId;
+		this.username = props.username;
+		this.createdAt = props.createdAt;
+	}
+
+	/**
+	 * Record a change to a root: a create (no `before`), a delete (no
+	 * `after`) or an update (both)
+	 */
+	static forRoot(
+		before: CalculationRoot | null,
+		after: CalculationRoot | null,
+		userId: string,
+	): CalculationRevision {
+		const root = after ?? before;
+		if (!root) {
+			throw new Error("A revision needs the node before or after the change");
+		}
+		return CalculationRevision.create({
+			nodeId: root.id,
+			nodeKind: "root",
+			rootId: root.id,
+			before: before && CalculationRevision.snapshotRoot(before),
+			after: after && CalculationRevision.snapshotRoot(after),
+			userId,
+		});
+	}
+
+	/**
+	 * Record the changes between two versions of a set of operations (e.g. a
+	 * subtree before and after it was recomputed), matched by ID: operations
+	 * only in `after` were created, operations only in `before` were deleted,
+	 * and operations in both were updated if any stored value changed or
+	 * they moved from `previousRootId` to another tree
+	 */
+	static forOperations(
+		before: readonly CalculationOperation[],
+		after: readonly CalculationOperation[],
+		context: { rootId: string | null; previousRootId?: string | null },
+		userId: string,
+	): CalculationRevision[] {
+		const { rootId, previousRootId = rootId } = context;
+		const previous = new Map(
+			before.map((operation) => [
+				operation.id,
+				CalculationRevision.snapshotOperation(operation),
+			]),
+		);
+		const revisions: CalculationRevision[] = [];
+
+		for (const operation of after) {
+			const snapshot = CalculationRevision.snapshotOperation(operation);
+			const old = previous.get(operation.id) ?? null;
+			previous.delete(operation.id);
+			if (
+				old &&
+				rootId === previousRootId &&
+				JSON.stringify(old) === JSON.stringify(snapshot)
+			) {
+				continue;
+			}
+			revisions.push(
+				CalculationRevision.create({
+					nodeId: operation.id,
+					nodeKind: "operation",
+					rootId,
+					before: old,
+					after: snapshot,
+					userId,
+				}),
+			);
+		}
+
+		for (const [nodeId, snapshot] of previous) {
+			revisions.push(
+				CalculationRevision.create({
+					nodeId,
+					nodeKind: "operation",
+					rootId: previousRootId,
+					before: snapshot,
+					after: null,
+					userId,
+				}),
+			);
+		}
+
+		return revisions;
+	}
+
+	/**
+	 * Reconstitute from persistence layer
+	 */
+	static fromPersistence(props: CalculationRevisionProps): CalculationRevision {
+		return new CalculationRevision(props);
+	}
+
+	/**
+	 * The stored values of a root
+	 */
+	static snapshotRoot(root: CalculationRoot): RootSnapshot {
+		return {
+			value: root.value.toString(),
+			userId: root.userId,
+			forkedFromRootId: root.forkedFromRootId,
+			forkedFromOperationId: root.forkedFromOperationId,
+		};
+	}
+
+	/**
+	 * The stored values of an operation
+	 */
+	static snapshotOperation(operation: CalculationOperation): OperationSnapshot {
+		return {
+			parentRootId: operation.parentRootId,
+			parentOperationId: operation.parentOperationId,
+			operator: operation.operator.toString(),
+			operand: operation.operand?.toString() ?? null,
+			operandRootId: operation.operandRootId,
+			operandOperationId: operation.operandOperationId,
+			result: operation.result.toString(),
+			userId: operation.userId,
+		};
+	}
+
+	private static create(
+		props: Omit<CalculationRevisionProps, "id" | "action" | "createdAt">,
+	): CalculationRevision {
+		return new CalculationRevision({
+			...props,
+			id: crypto.randomUUID(),
+			action: !props.before ? "create" : !props.after ? "delete" : "update",
+			createdAt: new Date(),
+		});
+	}
+
+	/**
+	 * Convert to plain object for serialization
+	 */
+	toJSON(): CalculationRevisionJSON {
+		return {
+			id: this.id,
+			nodeId: this.nodeId,
+			nodeKind: this.nodeKind,
+			rootId: this.rootId,
+			action: this.action,
+			before: this.before,
+			after: this.after,
+			userId: this.userId,
+			username: this.username,
+			createdAt: this.createdAt,
+		};
+	}
+}
@@ -1,5 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NumericOverflowError } from "../errors";
+import { Decimal } from "../value-objects/decimal";
 import { Operator } from "../value-objects/operator";
+import { RootRules } from "../value-objects/root-rules";
+import { RootTarget } from "../value-objects/root-target";
 import { CalculationOperation } from "./calculation-operation";
 import { CalculationRoot } from "./calculation-root";
 
@@ -26,7 +30,7 @@ describe("CalculationRoot Entity", () => {
 			});
 
 			expect(root.id).toBe("test-uuid-123");
-			expect(root.value).toBe(42);
+			expect(root.value.toString()).toBe("42");
 			expect(root.userId).toBe("user-123");
 			expect(root.username).toBe("testuser");
 			expect(root.createdAt).toBeInstanceOf(Date);
@@ -40,7 +44,7 @@ describe("CalculationRoot Entity", () => {
 				userId: "user-456",
 			});
 
-			expect(root.value).toBe(100);
+			expect(root.value.toString()).toBe("100");
 			expect(root.userId).toBe("user-456");
 			expect(root.username).toBeUndefined();
 		});
@@ -51,7 +55,7 @@ describe("CalculationRoot Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(root.value).toBe(-50);
+			expect(root.value.toString()).toBe("-50");
 		});
 
 		it("should create a CalculationRoot with zero value", () => {
@@ -60,7 +64,7 @@ describe("CalculationRoot Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(root.value).toBe(0);
+			expect(root.value.toString()).toBe("0");
 		});
 
 		it("should create a CalculationRoot with decimal value", () => {
@@ -69,7 +73,7 @@ describe("CalculationRoot Entity", () => {
 				userId: "user-123",
 			});
 
-			expect(root.value).toBe(3.14159);
+			expect(root.value.toString()).toBe("3.14159");
 		});
 
 		it("should throw an error for Infinity", () => {
@@ -98,6 +102,26 @@ describe("CalculationRoot Entity", () => {
 				}),
 			).toThrow("Value must be a finite number");
 		});
+
+		it("should throw a NumericOverflowError for values out of storage range", () => {
+			expect(() =>
+				CalculationRoot.create({
+					value: 1e10,
+					userId: "user-123",
+				}),
+			).toThrow(NumericOverflowError);
+		});
+
+		it("should throw for values with more than 10 decimal places", () => {
+			expect(() =>
+				CalculationRoot.create({
+					value: "1.00000000001",
+					userId: "user-123",
+				}),
+			).toThrow(
+				"Value 1.00000000001 has too many decimal places: at most 10 are supported",
+			);
+		});
 	});
 
 	describe("fromPersistence", () => {
@@ -107,7 +131,7 @@ describe("CalculationRoot Entity", () => {
 
 			const root = CalculationRoot.fromPersistence({
 				id: "persisted-id",
-				value: 99,
+				value: new Decimal(99),
 				userId: "user-abc",
 				username: "persisteduser",
 				createdAt,
@@ -115,7 +139,7 @@ describe("CalculationRoot Entity", () => {
 			});
 
 			expect(root.id).toBe("persisted-id");
-			expect(root.value).toBe(99);
+			expect(root.value.toString()).toBe("99");
 			expect(root.userId).toBe("user-abc");
 			expect(root.username).toBe("persisteduser");
 			expect(root.createdAt).toBe(createdAt);
@@ -125,7 +149,7 @@ describe("CalculationRoot Entity", () => {
 		it("should reconstitute with undefined username", () => {
 			const root = CalculationRoot.fromPersistence({
 				id: "persisted-id",
-				value: 100,
+				value: new Decimal(100),
 				userId: "user-123",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -135,6 +159,117 @@ describe("CalculationRoot Entity", () => {
 		});
 	});
 
+	describe("withValue", () => {
+		const createStored = () =>
+			CalculationRoot.fromPersistence({
+				id: "persisted-id",
+				value: new Decimal(99),
+				userId: "user-abc",
+				createdAt: new Date("2024-01-01T00:00:00Z"),
+				updatedAt: new Date("2024-01-01T00:00:00Z"),
+			});
+
+		it("should return a root with the same identity and new value", () => {
+			const stored = createStored();
+			const updated = stored.withValue("12.5");
+
+			expect(updated.id).toBe("persisted-id");
+			expect(updated.value.toString()).toBe("12.5");
+			expect(updated.createdAt).toEqual(stored.createdAt);
+			expect(updated.updatedAt.getTime()).toBeGreaterThan(
+				stored.updatedAt.getTime(),
+			);
+			expect(stored.value.toString()).toBe("99");
+		});
+
+		it("should validate the new value like create", () => {
+			expect(() => createStored().withValue("1e10")).toThrow(
+				NumericOverflowError,
+			);
+			expect(() => createStored().withValue(Number.NaN)).toThrow(
+				"Value must be a finite number",
+			);
+		});
+	});
+
+	describe("withSolutionFrom", () => {
+		const challenge = () =>
+			CalculationRoot.create({
+				value: 7,
+				userId: "user-123",
+				target: RootTarget.create({ value: 100 }),
+			});
+		const candidate = (path: string[], userId = "user-456") => ({
+			path,
+			userId,
+			username: userId === "user-456" ? "solver" : undefined,
+			reachedAt: new Date("2024-01-01"),
+		});
+
+		it("should record the first solver and the shortest path", () => {
+			const root = challenge();
+			const solved = root.withSolutionFrom([
+				candidate(["op-1", "op-2"]),
+				candidate(["op-3"], "user-789"),
+			]);
+
+			expect(solved).not.toBe(root);
+			expect(solved.id).toBe(root.id);
+			expect(solved.updatedAt).toBe(root.updatedAt);
+			expect(solved.solution).toEqual({
+				solvedBy: "user-456",
+				solvedByUsername: "solver",
+				solvedAt: new Date("2024-01-01"),
+				firstOperationId: "op-2",
+				shortestPath: ["op-3"],
+			});
+			expect(root.solution).toBeNull();
+		});
+
+		it("should keep the first solver while their operation reaches the target", () => {
+			const solved = challenge().withSolutionFrom([
+				candidate(["op-1", "op-2"]),
+			]);
+
+			expect(
+				solved.withSolutionFrom([
+					candidate(["op-5"], "user-789"),
+					candidate(["op-1", "op-2"]),
+				]).solution,
+			).toMatchObject({
+				solvedBy: "user-456",
+				firstOperationId: "op-2",
+				shortestPath: ["op-5"],
+			});
+			expect(solved.withSolutionFrom([candidate(["op-1", "op-2"])])).toBe(
+				solved,
+			);
+		});
+
+		it("should move on to the next solver or clear the solution", () => {
+			const solved = challenge().withSolutionFrom([
+				candidate(["op-1"]),
+				candidate(["op-2", "op-3"], "user-789"),
+			]);
+
+			expect(
+				solved.withSolutionFrom([candidate(["op-2", "op-3"], "user-789")])
+					.solution,
+			).toMatchObject({
+				solvedBy: "user-789",
+				firstOperationId: "op-3",
+				shortestPath: ["op-2", "op-3"],
+			});
+			expect(solved.withSolutionFrom([]).solution).toBeNull();
+		});
+
+		it("should ignore solutions to roots without a target", () => {
+			const root = CalculationRoot.create({ value: 7, userId: "user-123" });
+
+			expect(root.withSolutionFrom([candidate(["op-1"])])).toBe(root);
+		});
+	});
+
 	describe("operations management", () => {
 		it("should start with empty operations", () => {
 			const root = CalculationRoot.create({
@@ -321,15 +456,65 @@ describe("CalculationRoot Entity", () => {
 
 			expect(json).toEqual({
 				id: "test-uuid-123",
-				value: 42,
+				value: "42",
 				userId: "user-123",
 				username: "testuser",
+				forkedFromRootId: null,
+				forkedFromOperationId: null,
+				rules: null,
+				target: null,
+				solution: null,
 				createdAt: root.createdAt,
 				updatedAt: root.updatedAt,
 				operations: [],
 			});
 		});
 
+		it("should serialize the rules of the tree", () => {
+			const root = CalculationRoot.create({
+				value: 42,
+				userId: "user-123",
+				rules: RootRules.create({ allowedOperators: ["ADD"], maxDepth: 3 }),
+			});
+
+			expect(root.toJSON().rules).toMatchObject({
+				allowedOperators: ["ADD"],
+				maxDepth: 3,
+				maxFanOut: null,
+			});
+			expect(root.withValue(7).rules).toBe(root.rules);
+		});
+
+		it("should serialize the target and how it was reached", () => {
+			const root = CalculationRoot.create({
+				value: 7,
+				userId: "user-123",
+				target: RootTarget.create({ value: 100, tolerance: "0.5" }),
+			}).withSolutionFrom([
+				{ path: ["op-1"], userId: "user-456", reachedAt: new Date() },
+			]);
+
+			const json = root.toJSON();
+
+			expect(json.target).toEqual({ value: "100", tolerance: "0.5" });
+			expect(json.solution?.shortestPath).toEqual(["op-1"]);
+			expect(root.withValue(8).solution).toBe(root.solution);
+		});
+
+		it("should serialize where a forked root came from", () => {
+			const root = CalculationRoot.create({
+				value: 42,
+				userId: "user-123",
+				forkedFrom: { rootId: "root-1", operationId: "op-1" },
+			});
+
+			const json = root.toJSON();
+
+			expect(json.forkedFromRootId).toBe("root-1");
+			expect(json.forkedFromOperationId).toBe("op-1");
+			expect(root.withValue(7).forkedFromOperationId).toBe("op-1");
+		});
+
 		it("should serialize root with operations", () => {
 			const root = CalculationRoot.create({
 				value: 10,
@@ -349,8 +534,8 @@ describe("CalculationRoot Entity", () => {
 			const json = root.toJSON();
 
 			expect(json.operations).toHaveLength(1);
-			expect(json.operations[0]!.operand).toBe(5);
-			expect(json.operations[0]!.result).toBe(15);
+			expect(json.operations[0]!.operand).toBe("5");
+			expect(json.operations[0]!.result).toBe("15");
 		});
 	});
 
@@ -364,7 +549,7 @@ describe("CalculationRoot Entity", () => {
 			// These properties are readonly at compile time
 			// Verify they exist and are set correctly
 			expect(root.id).toBe("test-uuid-123");
-			expect(root.value).toBe(10);
+			expect(root.value.toString()).toBe("10");
 			expect(root.userId).toBe("user-123");
 		});
 	});
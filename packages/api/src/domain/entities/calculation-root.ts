@@ -3,30 +3,113 @@
  *
  * Represents the starting number of a calculation tree.
  * Analogous to a "post" in social media - it's the root of a discussion.
+ * Its author may set rules that every operation in the tree must follow,
+ * and a target number for others to reach.
  */
 
-import type { CalculationOperation } from "./calculation-operation";
+import {
+	type Decimal,
+	type DecimalInput,
+	ensureStorable,
+	toDecimal,
+} from "../value-objects/decimal";
+import type { RootRules, RootRulesJSON } from "../value-objects/root-rules";
+import type { RootTarget, RootTargetJSON } from "../value-objects/root-target";
+import type {
+	CalculationOperation,
+	CalculationOperationJSON,
+} from "./calculation-operation";
 
 export interface CalculationRootProps {
 	id: string;
-	value: number;
+	value: Decimal;
 	userId: string;
 	username?: string;
+	/** Root this one was forked from (null if not a fork or since deleted) */
+	forkedFromRootId?: string | null;
+	/** Operation whose result this root was forked from */
+	forkedFromOperationId?: string | null;
+	/** Constraints on the tree's operations (null if anything goes) */
+	rules?: RootRules | null;
+	/** Number to reach from the starting number (null if not a challenge) */
+	target?: RootTarget | null;
+	/** How the target was reached (null until it is) */
+	solution?: RootSolution | null;
 	createdAt: Date;
 	updatedAt: Date;
 }
 
+/**
+ * Who reached a root's target first, and the operation that reaches it in
+ * the fewest steps, among the operations that currently reach it
+ */
+export interface RootSolution {
+	/** Author of the operation that has reached the target the longest */
+	solvedBy: string;
+	solvedByUsername?: string;
+	solvedAt: Date;
+	firstOperationId: string;
+	/**
+	 * IDs from the root's direct reply down to the operation that reaches
+	 * the target in the fewest steps
+	 */
+	shortestPath: string[];
+}
+
+/**
+ * An operation in the tree whose result reaches the target
+ */
+export interface SolutionCandidate {
+	/** IDs from the root's direct reply down to the operation */
+	path: string[];
+	userId: string;
+	username?: string;
+	/** When the operation started reaching the target */
+	reachedAt: Date;
+}
+
+/**
+ * Serialized form - decimals are emitted as strings to preserve precision
+ */
+export interface CalculationRootJSON
+	extends Omit<
+		CalculationRootProps,
+		| "value"
+		| "forkedFromRootId"
+		| "forkedFromOperationId"
+		| "rules"
+		| "target"
+		| "solution"
+	> {
+	value: string;
+	forkedFromRootId: string | null;
+	forkedFromOperationId: string | null;
+	rules: RootRulesJSON | null;
+	target: RootTargetJSON | null;
+	solution: RootSolution | null;
+	operations: CalculationOperationJSON[];
+}
+
 export interface CreateCalculationRootInput {
-	value: number;
+	value: DecimalInput;
 	userId: string;
 	username?: string;
+	/** Set when forking from an operation's result */
+	forkedFrom?: { rootId: string; operationId: string };
+	rules?: RootRules;
+	target?: RootTarget;
 }
 
 export class CalculationRoot {
 	readonly id: string;
-	readonly value: number;
+	readonly value: Decimal;
 	readonly userId: string;
 	readonly username: string | undefined;
+	readonly forkedFromRootId: string | null;
+	readonly forkedFromOperationId: string | null;
+	readonly rules: RootRules | null;
+	readonly target: RootTarget | null;
+	readonly solution: RootSolution | null;
 	readonly createdAt: Date;
 	readonly updatedAt: Date;
 
@@ -37,6 +120,11 @@ export class CalculationRoot {
 		this.value = props.value;
 		this.userId = props.userId;
 		this.username = props.username;
+		this.forkedFromRootId = props.forkedFromRootId ?? null;
+		this.forkedFromOperationId = props.forkedFromOperationId ?? null;
+		this.rules = props.rules ?? null;
+		this.target = props.target ?? null;
+		this.solution = props.solution ?? null;
 		this.createdAt = props.createdAt;
 		this.updatedAt = props.updatedAt;
 	}
@@ -50,23 +138,103 @@ export class CalculationRoot {
 
 	/**
 	 * Factory method to create a new CalculationRoot
+	 * @throws NumericOverflowError if the value cannot be stored
 	 */
 	static create(input: CreateCalculationRootInput): CalculationRoot {
-		if (!Number.isFinite(input.value)) {
-			throw new Error("Value must be a finite number");
-		}
+		const value = CalculationRoot.validateValue(input.value);
 
 		const now = new Date();
 		return new CalculationRoot({
 			id: crypto.randomUUID(),
-			value: input.value,
+			value,
 			userId: input.userId,
 			username: input.username,
+			forkedFromRootId: input.forkedFrom?.rootId ?? null,
+			forkedFromOperationId: input.forkedFrom?.operationId ?? null,
+			rules: input.rules ?? null,
+			target: input.target ?? null,
 			createdAt: now,
 			updatedAt: now,
 		});
 	}
 
+	/**
+	 * Change the starting number.
+	 * Returns a new entity with the same identity and no operations;
+	 * the caller is responsible for recomputing the operation tree.
+	 * @throws NumericOverflowError if the value cannot be stored
+	 */
+	withValue(input: DecimalInput): CalculationRoot {
+		return new CalculationRoot({
+			id: this.id,
+			value: CalculationRoot.validateValue(input),
+			userId: this.userId,
+			username: this.username,
+			forkedFromRootId: this.forkedFromRootId,
+			forkedFromOperationId: this.forkedFromOperationId,
+			rules: this.rules,
+			target: this.target,
+			solution: this.solution,
+			createdAt: this.createdAt,
+			updatedAt: new Date(),
+		});
+	}
+
+	/**
+	 * Recompute the solution from the operations that currently reach the
+	 * target, oldest first. The first solver is kept while their operation
+	 * still reaches the target; the solution is cleared when none does.
+	 * Returns a new entity with the same identity and operations, or this
+	 * one if nothing changed.
+	 */
+	withSolutionFrom(candidates: readonly SolutionCandidate[]): CalculationRoot {
+		const first =
+			candidates.find(
+				({ path }) => path.at(-1) === this.solution?.firstOperationId,
+			) ?? candidates[0];
+		const shortest = candidates.reduce<SolutionCandidate | undefined>(
+			(best, candidate) =>
+				best && best.path.length <= candidate.path.length ? best : candidate,
+			undefined,
+		);
+		const firstOperationId = first?.path.at(-1);
+		const solution =
+			this.target && first && firstOperationId && shortest
+				? {
+						solvedBy: first.userId,
+						solvedByUsername: first.username,
+						solvedAt:
+							firstOperationId === this.solution?.firstOperationId
+								? this.solution.solvedAt
+								: first.reachedAt,
+						firstOperationId,
+						shortestPath: [...shortest.path],
+					}
+				: null;
+		if (
+			solution?.firstOperationId === this.solution?.firstOperationId &&
+			solution?.shortestPath.join("/") === this.solution?.shortestPath.join("/")
+		) {
+			return this;
+		}
+
+		const root = new CalculationRoot({
+			id: this.id,
+			value: this.value,
+			userId: this.userId,
+			username: this.username,
+			forkedFromRootId: this.forkedFromRootId,
+			forkedFromOperationId: this.forkedFromOperationId,
+			rules: this.rules,
+			target: this.target,
+			solution,
+			createdAt: this.createdAt,
+			updatedAt: this.updatedAt,
+		});
+		root.setOperations([...this._operations]);
+		return root;
+	}
+
 	/**
 	 * Reconstitute from persistence layer
 	 */
@@ -98,17 +266,31 @@ export class CalculationRoot {
 		return countRecursive(this._operations);
 	}
 
+	private static validateValue(input: DecimalInput): Decimal {
+		const value = toDecimal(input);
+		if (!value.isFinite()) {
+			throw new Error("Value must be a finite number");
+		}
+		return ensureStorable(value, "value");
+	}
+
 	/**
 	 * Convert to plain object for serialization
 	 */
-	toJSON(): CalculationRootProps & {
-		operations: ReturnType<CalculationOperation["toJSON"]>[];
-	} {
+	toJSON(): CalculationRootJSON {
 		return {
 			id: this.id,
-			value: this.value,
+			value: this.value.toString(),
 			userId: this.userId,
 			username: this.username,
+			forkedFromRootId: this.forkedFromRootId,
+			forkedFromOperationId: this.forkedFromOperationId,
+			rules: this.rules?.toJSON() ?? null,
+			target: this.target?.toJSON() ?? null,
+			solution: this.solution && {
+				...this.solution,
+				shortestPath: [...this.solution.shortestPath],
+			},
 			createdAt: this.createdAt,
 			updatedAt: this.updatedAt,
 			operations: this._operations.map((op) => op.toJSON()),
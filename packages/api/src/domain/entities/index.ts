@@ -1,10 +1,26 @@
 export {
 	CalculationOperation,
+	type CalculationOperationJSON,
 	type CalculationOperationProps,
 	type CreateCalculationOperationInput,
+	type OperandReference,
+	type OperationParent,
+	type RecalculateOperationChanges,
 } from "./calculation-operation";
+export {
+	CalculationRevision,
+	type CalculationRevisionJSON,
+	type CalculationRevisionProps,
+	type NodeSnapshot,
+	type OperationSnapshot,
+	type RevisionAction,
+	type RootSnapshot,
+} from "./calculation-revision";
 export {
 	CalculationRoot,
+	type CalculationRootJSON,
 	type CalculationRootProps,
 	type CreateCalculationRootInput,
+	type RootSolution,
+	type SolutionCandidate,
 } from "./calculation-root";
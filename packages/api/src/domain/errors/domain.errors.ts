@@ -0,0 +1,155 @@
+/**
+ * Domain Errors
+ *
+ * Typed errors raised by the domain layer when a business rule is violated.
+ * The API layer maps these to client errors (4xx) instead of opaque 500s.
+ */
+
+/**
+ * Base class for all expected, user-facing domain errors
+ */
+export abstract class DomainError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * An operation is not defined for its operand and parent value
+ * (e.g. division by zero, even root of a negative number)
+ */
+export class InvalidOperationError extends DomainError {
+	constructor(readonly reason: string) {
+		super(`Invalid operation: ${reason}`);
+	}
+}
+
+/**
+ * Which value of a calculation node failed a storage bounds check
+ */
+export type NumericField = "value" | "operand" | "result";
+
+/**
+ * A value does not fit the numeric(20, 10) columns it would be stored in
+ */
+export class NumericOverflowError extends DomainError {
+	constructor(
+		readonly field: NumericField,
+		readonly value: string,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Kind of calculation node referenced by an error
+ */
+export type CalculationNodeKind = "root" | "operation";
+
+/**
+ * A referenced calculation node does not exist
+ */
+export class NotFoundError extends DomainError {
+	constructor(
+		readonly kind: CalculationNodeKind,
+		readonly id: string,
+	) {
+		super(`${kind === "root" ? "Root" : "Operation"} not found: ${id}`);
+	}
+}
+
+/**
+ * A request does not name exactly one calculation node where it must
+ * (e.g. an operation with no parent, or with both a root and an operation)
+ */
+export class InvalidReferenceError extends DomainError {}
+
+/**
+ * The current user is not allowed to modify a calculation node
+ */
+export class ForbiddenError extends DomainError {}
+
+/**
+ * A descendant operation became invalid while recomputing a subtree after
+ * an edit. The whole edit is rejected so the tree is never left half-updated.
+ */
+export class SubtreeRecalculationError extends DomainError {
+	constructor(
+		readonly operationId: string,
+		readonly cause: DomainError,
+	) {
+		super(`Operation ${operationId} would become invalid: ${cause.message}`);
+	}
+}
+
+/**
+ * A pagination cursor was not produced by a previous page
+ */
+export class InvalidCursorError extends DomainError {
+	constructor(readonly cursor: string) {
+		super(`Invalid cursor: ${cursor}`);
+	}
+}
+
+/**
+ * A typed expression could not be parsed
+ */
+export class ExpressionSyntaxError extends DomainError {
+	constructor(
+		/** Zero-based index of the character where parsing failed */
+		readonly position: number,
+		readonly reason: string,
+	) {
+		super(`Invalid expression at character ${position + 1}: ${reason}`);
+	}
+}
+
+/**
+ * The rules given for a new root contradict themselves
+ * (e.g. the smallest allowed operand is larger than the largest)
+ */
+export class InvalidRulesError extends DomainError {
+	constructor(readonly reason: string) {
+		super(`Invalid rules: ${reason}`);
+	}
+}
+
+/**
+ * A rule a root's author set for the tree (see RootRules)
+ */
+export type RootRule =
+	| "allowedOperators"
+	| "operandRange"
+	| "integerOperands"
+	| "maxDepth"
+	| "maxFanOut";
+
+/**
+ * A new operation breaks one of the rules of its tree
+ */
+export class RuleViolationError extends DomainError {
+	constructor(
+		readonly rule: RootRule,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * The target given for a new root cannot be reached by any result
+ * (e.g. a negative tolerance)
+ */
+export class InvalidTargetError extends DomainError {
+	constructor(readonly reason: string) {
+		super(`Invalid target: ${reason}`);
+	}
+}
+
+/**
+ * A change conflicts with the current state of the tree
+ * (e.g. deleting an operation that other users have replied to)
+ */
+export class ConflictError extends DomainError {}
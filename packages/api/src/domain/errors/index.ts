@@ -0,0 +1,18 @@
+export {
+	type CalculationNodeKind,
+	ConflictError,
+	DomainError,
+	ExpressionSyntaxError,
+	ForbiddenError,
+	InvalidCursorError,
+	InvalidOperationError,
+	InvalidReferenceError,
+	InvalidRulesError,
+	InvalidTargetError,
+	NotFoundError,
+	type NumericField,
+	NumericOverflowError,
+	type RootRule,
+	RuleViolationError,
+	SubtreeRecalculationError,
+} from "./domain.errors";
@@ -4,25 +4,133 @@
 // Entities
 export {
 	CalculationOperation,
+	type CalculationOperationJSON,
 	type CalculationOperationProps,
+	CalculationRevision,
+	type CalculationRevisionJSON,
+	type CalculationRevisionProps,
 	CalculationRoot,
+	type CalculationRootJSON,
 	type CalculationRootProps,
 	type CreateCalculationOperationInput,
 	type CreateCalculationRootInput,
+	type NodeSnapshot,
+	type OperandReference,
+	type OperationParent,
+	type OperationSnapshot,
+	type RecalculateOperationChanges,
+	type RevisionAction,
+	type RootSnapshot,
+	type RootSolution,
+	type SolutionCandidate,
 } from "./entities";
+// Errors
+export {
+	type CalculationNodeKind,
+	ConflictError,
+	DomainError,
+	ExpressionSyntaxError,
+	ForbiddenError,
+	InvalidCursorError,
+	InvalidOperationError,
+	InvalidReferenceError,
+	InvalidRulesError,
+	InvalidTargetError,
+	NotFoundError,
+	type NumericField,
+	NumericOverflowError,
+	type RootRule,
+	RuleViolationError,
+	SubtreeRecalculationError,
+} from "./errors";
 // Repository Interfaces
 export {
 	CacheKeys,
 	CacheTTL,
+	type DecimalRange,
+	type FindRootsPageOptions,
 	type ICacheRepository,
 	type ICalculationRepository,
 	type IUnitOfWork,
+	type NodeCursor,
+	type NodeSearchCriteria,
+	ROOT_SORTS,
+	type RootCursor,
+	type RootFilters,
+	type RootSort,
+	type RootStats,
+	type RootSummary,
+	type SearchHit,
+	type SearchNodesOptions,
 } from "./repositories";
 // Services
 export {
 	CalculationService,
+	type CreateChainInput,
 	type CreateOperationInput,
 	type CreateRootInput,
+	type DecimalRangeInput,
+	type DeleteInput,
+	type ForkFromNodeInput,
+	type GetSubtreeInput,
+	type ImportExpressionInput,
+	type ListRootsInput,
+	type MoveOperationInput,
+	type OperationPath,
+	type OperationPathJSON,
+	operationPathToJSON,
+	type PreviewChainInput,
+	ROOT_PAGE_SIZE,
+	ROOT_PREVIEW_SIZE,
+	type RootPage,
+	type RootPageJSON,
+	type RootStatsJSON,
+	type RootSummaryJSON,
+	rootPageToJSON,
+	rootStatsToJSON,
+	SEARCH_PAGE_SIZE,
+	type SearchHitJSON,
+	type SearchInput,
+	type SearchPage,
+	type SearchPageJSON,
+	SUBTREE_DEPTH,
+	type Subtree,
+	type SubtreeJSON,
+	type SubtreeOperationJSON,
+	searchPageToJSON,
+	subtreeToJSON,
+	type UpdateOperationInput,
+	type UpdateRootValueInput,
 } from "./services";
 // Value Objects
-export { OPERATORS, Operator, type OperatorType } from "./value-objects";
+export {
+	ArithmeticExpression,
+	BINARY_OPERATORS,
+	type BinaryOperatorType,
+	type ChainStep,
+	DECIMAL_INTEGER_DIGITS,
+	DECIMAL_PRECISION,
+	DECIMAL_SCALE,
+	Decimal,
+	type DecimalInput,
+	ensureStorable,
+	isUnaryOperator,
+	MAX_CHAIN_LENGTH,
+	MAX_DECIMAL_MAGNITUDE,
+	OPERATORS,
+	OperationChain,
+	Operator,
+	type OperatorType,
+	RootRules,
+	type RootRulesInput,
+	type RootRulesJSON,
+	RootTarget,
+	type RootTargetInput,
+	type RootTargetJSON,
+	type RulePosition,
+	type RuleSubtree,
+	roundToScale,
+	toDecimal,
+	UNARY_OPERATORS,
+	type UnaryOperatorType,
+} from "./value-objects";
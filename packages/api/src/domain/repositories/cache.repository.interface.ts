@@ -45,12 +45,22 @@ export const CacheKeys = {
 	/** List of all root IDs */
 	ROOT_LIST: "calc:roots",
 
+	/** Prefix shared by every cached page of the root feed */
+	ROOT_PAGES: "calc:roots:page:",
+
+	/** A page of the root feed, keyed by page size, order, filters and cursor */
+	ROOT_PAGE: (limit: number, sort: string, filters: string, cursor?: string) =>
+		`calc:roots:page:${sort}:${limit}:${filters}:${cursor ?? "first"}`,
+
 	/** Individual root by ID */
 	ROOT: (id: string) => `calc:root:${id}`,
 
 	/** Operations directly under a root */
 	ROOT_OPERATIONS: (rootId: string) => `calc:root:${rootId}:ops`,
 
+	/** Aggregate statistics of a root's tree */
+	ROOT_STATS: (rootId: string) => `calc:root:${rootId}:stats`,
+
 	/** Individual operation by ID */
 	OPERATION: (id: string) => `calc:op:${id}`,
 
@@ -68,12 +78,18 @@ export const CacheTTL = {
 	/** Root list */
 	ROOT_LIST: 300, // 5 minutes
 
+	/** Root feed pages - dropped on any change, short TTL as a backstop */
+	ROOT_PAGE: 60, // 1 minute
+
 	/** Individual root */
 	ROOT: 600, // 10 minutes
 
 	/** Operations under a root */
 	ROOT_OPERATIONS: 300, // 5 minutes
 
+	/** Tree statistics */
+	ROOT_STATS: 300, // 5 minutes
+
 	/** Individual operation */
 	OPERATION: 600, // 10 minutes
 
@@ -6,7 +6,160 @@
  */
 
 import type { CalculationOperation } from "../entities/calculation-operation";
-import type { CalculationRoot } from "../entities/calculation-root";
+import type { CalculationRevision } from "../entities/calculation-revision";
+import type {
+	CalculationRoot,
+	SolutionCandidate,
+} from "../entities/calculation-root";
+import type { Decimal } from "../value-objects/decimal";
+import type { OperatorType } from "../value-objects/operator";
+
+/**
+ * Orders the root feed can be sorted in. Ties are broken by root ID.
+ * - most_operations: most operations in the tree first
+ * - deepest: deepest tree first
+ * - recently_active: most recently created or edited root or operation first
+ */
+export const ROOT_SORTS = [
+	"newest",
+	"oldest",
+	"most_operations",
+	"deepest",
+	"recently_active",
+	"largest_value",
+	"smallest_value",
+] as const;
+
+export type RootSort = (typeof ROOT_SORTS)[number];
+
+/**
+ * Filters applied to the root feed; every given filter must match
+ */
+export interface RootFilters {
+	/** Only roots by the user with this username */
+	username?: string;
+	/** Only roots whose value is at least this */
+	minValue?: Decimal;
+	/** Only roots whose value is at most this */
+	maxValue?: Decimal;
+	/** Only roots created at or after this time */
+	createdAfter?: Date;
+	/** Only roots created before this time */
+	createdBefore?: Date;
+	/** Only roots without any operations */
+	withoutReplies?: boolean;
+}
+
+/**
+ * Position of a root in the feed, used as a pagination cursor: the root's
+ * value for the field the feed is sorted by (a date for the date orders,
+ * otherwise a number as a string) and its ID
+ */
+export interface RootCursor {
+	sortValue: Date | string;
+	id: string;
+}
+
+export interface FindRootsPageOptions {
+	sort: RootSort;
+	filters?: RootFilters;
+	/** Only return roots that come after this one in the feed */
+	after?: RootCursor;
+	/** Maximum number of roots to return */
+	limit: number;
+	/** Number of direct operations to include with each root */
+	previewSize: number;
+}
+
+/**
+ * A root with a shallow preview of its tree: its first direct operations
+ * (without their replies) and statistics about the whole tree
+ */
+export interface RootSummary {
+	root: CalculationRoot;
+	operationCount: number;
+	/** Depth of the deepest operation (0 when there are none) */
+	treeDepth: number;
+	/** Last time the root or any of its operations was created or edited */
+	lastActivityAt: Date;
+}
+
+/**
+ * Aggregate statistics about a root's tree. Leaves are the nodes without
+ * replies; a root without operations is its tree's only leaf.
+ */
+export interface RootStats {
+	/** Nodes in the tree, including the root */
+	nodeCount: number;
+	/** Depth of the deepest operation (0 when there are none) */
+	maxDepth: number;
+	leafCount: number;
+	minLeafResult: Decimal;
+	maxLeafResult: Decimal;
+	/** Rounded to the stored scale */
+	meanLeafResult: Decimal;
+	/** Operations per operator; operators that are not used are left out */
+	operatorCounts: Partial<Record<OperatorType, number>>;
+	/** Distinct users who created the root or any of its operations */
+	contributorCount: number;
+	/** Last time the root or any of its operations was created or edited */
+	lastActivityAt: Date;
+}
+
+/**
+ * Inclusive bounds on a decimal field; an exact match sets both to the
+ * same value
+ */
+export interface DecimalRange {
+	min?: Decimal;
+	max?: Decimal;
+}
+
+/**
+ * What a node search matches; every given criterion must match.
+ * A root's result is its starting value, and roots never match when
+ * operand or operator criteria are given.
+ */
+export interface NodeSearchCriteria {
+	result?: DecimalRange;
+	operand?: DecimalRange;
+	/** The value of the root the node belongs to */
+	rootValue?: DecimalRange;
+	/** Only operations using one of these operators */
+	operators?: OperatorType[];
+	/** Only nodes by the user with this username */
+	username?: string;
+}
+
+/**
+ * Position of a node in newest-first search results
+ */
+export interface NodeCursor {
+	createdAt: Date;
+	id: string;
+}
+
+export interface SearchNodesOptions {
+	criteria: NodeSearchCriteria;
+	/** Only return nodes that come after this one */
+	after?: NodeCursor;
+	/** Maximum number of nodes to return */
+	limit: number;
+}
+
+/**
+ * A node matched by a search (without children), with where it sits:
+ * its root and the operations between the root and the node
+ */
+export type SearchHit =
+	| { kind: "root"; node: CalculationRoot }
+	| {
+			kind: "operation";
+			node: CalculationOperation;
+			root: CalculationRoot;
+			/** From the root's direct reply down to the node's parent */
+			ancestors: CalculationOperation[];
+	  };
 
 /**
  * Unit of Work interface for transaction management
@@ -42,11 +195,23 @@ export interface ICalculationRepository {
 	 */
 	findAllRootsWithOperations(): Promise<CalculationRoot[]>;
 
+	/**
+	 * Find a page of the roots matching the filters in the given order,
+	 * each with a preview of its operations
+	 */
+	findRootsPage(options: FindRootsPageOptions): Promise<RootSummary[]>;
+
 	/**
 	 * Find a single root by ID (without operations)
 	 */
 	findRootById(id: string): Promise<CalculationRoot | null>;
 
+	/**
+	 * Compute statistics about a root's tree in the database
+	 * (null if the root does not exist)
+	 */
+	findRootStats(rootId: string): Promise<RootStats | null>;
+
 	/**
 	 * Find a single root by ID with its full operation tree
 	 */
@@ -58,17 +223,65 @@ export interface ICalculationRepository {
 	findOperationById(id: string): Promise<CalculationOperation | null>;
 
 	/**
-	 * Find all operations that are direct children of a root
+	 * Find a single operation by ID with all of its descendants as children
+	 */
+	findOperationWithDescendants(
+		id: string,
+	): Promise<CalculationOperation | null>;
+
+	/**
+	 * Find the operations below a root, nested up to `levels` deep
+	 * (only direct children by default)
 	 */
-	findOperationsByRootId(rootId: string): Promise<CalculationOperation[]>;
+	findOperationsByRootId(
+		rootId: string,
+		levels?: number,
+	): Promise<CalculationOperation[]>;
 
 	/**
-	 * Find all operations that are direct children of another operation
+	 * Find the operations below another operation, nested up to `levels`
+	 * deep (only direct children by default)
 	 */
 	findChildOperations(
 		parentOperationId: string,
+		levels?: number,
 	): Promise<CalculationOperation[]>;
 
+	/**
+	 * Find the ancestors of an operation, from the root's direct reply down
+	 * to its immediate parent (empty for direct replies to a root)
+	 */
+	findAncestors(operationId: string): Promise<CalculationOperation[]>;
+
+	/**
+	 * Find the operations of a root's tree flagged as reaching its target,
+	 * by when they started reaching it, oldest first (ties broken by ID)
+	 */
+	findSolutionCandidates(rootId: string): Promise<SolutionCandidate[]>;
+
+	/**
+	 * Find the operations whose operand references one of the given roots
+	 * or operations (without their replies), oldest first
+	 */
+	findReferencingOperations(nodeIds: string[]): Promise<CalculationOperation[]>;
+
+	/**
+	 * Find the roots and operations matching the criteria across all trees,
+	 * newest first (ties broken by ID)
+	 */
+	searchNodes(options: SearchNodesOptions): Promise<SearchHit[]>;
+
+	/**
+	 * Find the recorded changes to a root or operation, newest first
+	 */
+	findRevisions(nodeId: string): Promise<CalculationRevision[]>;
+
+	/**
+	 * Find the recorded changes to every node that has ever been part of
+	 * the given root's tree (including the root), oldest first
+	 */
+	findTreeRevisions(rootId: string): Promise<CalculationRevision[]>;
+
 	// ==========================================
 	// Command Methods (Write)
 	// ==========================================
@@ -83,6 +296,36 @@ export interface ICalculationRepository {
 	 */
 	saveOperation(operation: CalculationOperation): Promise<void>;
 
+	/**
+	 * Persist the value of an existing root
+	 */
+	updateRoot(root: CalculationRoot): Promise<void>;
+
+	/**
+	 * Persist the operator, operand and result of existing operations
+	 * in a single statement
+	 */
+	updateOperations(operations: CalculationOperation[]): Promise<void>;
+
+	/**
+	 * Persist whether existing operations reach the target of their tree
+	 */
+	updateSolvesTarget(operations: CalculationOperation[]): Promise<void>;
+
+	/**
+	 * Persist who reached a root's target first and its shortest solution
+	 * (or that it is unsolved)
+	 */
+	updateRootSolution(root: CalculationRoot): Promise<void>;
+
+	/**
+	 * Move an existing operation, with all of its replies, below its new
+	 * parent (its parentRootId/parentOperationId), updating the tree
+	 * position of the whole subtree and the statistics of both trees.
+	 * Results are left unchanged; persist them with updateOperations.
+	 */
+	moveOperation(operation: CalculationOperation): Promise<void>;
+
 	/**
 	 * Delete a calculation root and all its operations (cascade)
 	 */
@@ -92,4 +335,9 @@ export interface ICalculationRepository {
 	 * Delete a calculation operation and all its child operations (cascade)
 	 */
 	deleteOperation(id: string): Promise<void>;
+
+	/**
+	 * Append revisions to the history (never updated or deleted)
+	 */
+	saveRevisions(revisions: CalculationRevision[]): Promise<void>;
 }
@@ -3,7 +3,19 @@ export {
 	CacheTTL,
 	type ICacheRepository,
 } from "./cache.repository.interface";
-export type {
-	ICalculationRepository,
-	IUnitOfWork,
+export {
+	type DecimalRange,
+	type FindRootsPageOptions,
+	type ICalculationRepository,
+	type IUnitOfWork,
+	type NodeCursor,
+	type NodeSearchCriteria,
+	ROOT_SORTS,
+	type RootCursor,
+	type RootFilters,
+	type RootSort,
+	type RootStats,
+	type RootSummary,
+	type SearchHit,
+	type SearchNodesOptions,
 } from "./calculation.repository.interface";
@@ -1,6 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { CalculationOperation } from "../entities/calculation-operation";
-import { CalculationRoot } from "../entities/calculation-root";
+import {
+	CalculationRevision,
+	type NodeSnapshot,
+} from "../entities/calculation-revision";
+import {
+	CalculationRoot,
+	type SolutionCandidate,
+} from "../entities/calculation-root";
+import {
+	ConflictError,
+	ExpressionSyntaxError,
+	ForbiddenError,
+	InvalidCursorError,
+	InvalidOperationError,
+	InvalidReferenceError,
+	InvalidRulesError,
+	InvalidTargetError,
+	NotFoundError,
+	NumericOverflowError,
+	RuleViolationError,
+	SubtreeRecalculationError,
+} from "../errors";
 import type { ICacheRepository } from "../repositories/cache.repository.interface";
 import {
 	CacheKeys,
@@ -9,8 +30,22 @@ import {
 import type {
 	ICalculationRepository,
 	IUnitOfWork,
+	NodeSearchCriteria,
+	RootFilters,
+	RootStats,
 } from "../repositories/calculation.repository.interface";
-import { CalculationService } from "./calculation.service";
+import { Decimal } from "../value-objects/decimal";
+import type { OperatorType } from "../value-objects/operator";
+import { RootRules } from "../value-objects/root-rules";
+import { RootTarget } from "../value-objects/root-target";
+import {
+	CalculationService,
+	ROOT_PREVIEW_SIZE,
+	type RootPageJSON,
+	type RootStatsJSON,
+	rootStatsToJSON,
+	subtreeToJSON,
+} from "./calculation.service";
 
 // Store original crypto.randomUUID
 const originalRandomUUID = crypto.randomUUID.bind(crypto);
@@ -54,15 +89,30 @@ function createMockFn<T = unknown>(
 type MockedRepository = ICalculationRepository & {
 	_mocks: {
 		findAllRootsWithOperations: MockFn;
+		findRootsPage: MockFn;
 		findRootById: MockFn;
+		findRootStats: MockFn;
 		findRootByIdWithOperations: MockFn;
 		findOperationById: MockFn;
+		findOperationWithDescendants: MockFn;
 		findOperationsByRootId: MockFn;
 		findChildOperations: MockFn;
+		findAncestors: MockFn;
+		findSolutionCandidates: MockFn;
+		findReferencingOperations: MockFn;
+		searchNodes: MockFn;
+		findRevisions: MockFn;
+		findTreeRevisions: MockFn;
 		saveRoot: MockFn;
 		saveOperation: MockFn;
+		updateRoot: MockFn;
+		updateOperations: MockFn;
+		updateSolvesTarget: MockFn;
+		updateRootSolution: MockFn;
+		moveOperation: MockFn;
 		deleteRoot: MockFn;
 		deleteOperation: MockFn;
+		saveRevisions: MockFn;
 	};
 };
 
@@ -88,15 +138,30 @@ type MockedUnitOfWork = IUnitOfWork & {
 function createMockRepository(): MockedRepository {
 	const mocks = {
 		findAllRootsWithOperations: createMockFn(() => Promise.resolve([])),
+		findRootsPage: createMockFn(() => Promise.resolve([])),
 		findRootById: createMockFn(() => Promise.resolve(null)),
+		findRootStats: createMockFn(() => Promise.resolve(null)),
 		findRootByIdWithOperations: createMockFn(() => Promise.resolve(null)),
 		findOperationById: createMockFn(() => Promise.resolve(null)),
+		findOperationWithDescendants: createMockFn(() => Promise.resolve(null)),
 		findOperationsByRootId: createMockFn(() => Promise.resolve([])),
 		findChildOperations: createMockFn(() => Promise.resolve([])),
+		findAncestors: createMockFn(() => Promise.resolve([])),
+		findSolutionCandidates: createMockFn(() => Promise.resolve([])),
+		findReferencingOperations: createMockFn(() => Promise.resolve([])),
+		searchNodes: createMockFn(() => Promise.resolve([])),
+		findRevisions: createMockFn(() => Promise.resolve([])),
+		findTreeRevisions: createMockFn(() => Promise.resolve([])),
 		saveRoot: createMockFn(() => Promise.resolve(undefined)),
 		saveOperation: createMockFn(() => Promise.resolve(undefined)),
+		updateRoot: createMockFn(() => Promise.resolve(undefined)),
+		updateOperations: createMockFn(() => Promise.resolve(undefined)),
+		updateSolvesTarget: createMockFn(() => Promise.resolve(undefined)),
+		updateRootSolution: createMockFn(() => Promise.resolve(undefined)),
+		moveOperation: createMockFn(() => Promise.resolve(undefined)),
 		deleteRoot: createMockFn(() => Promise.resolve(undefined)),
 		deleteOperation: createMockFn(() => Promise.resolve(undefined)),
+		saveRevisions: createMockFn(() => Promise.resolve(undefined)),
 	};
 
 	return {
@@ -137,6 +202,47 @@ function createMockUnitOfWork(repo: ICalculationRepository): MockedUnitOfWork {
 	};
 }
 
+/** Author and timestamps of the persisted nodes built by the tests */
+const persisted = {
+	userId: "user-123",
+	createdAt: new Date("2024-01-01"),
+	updatedAt: new Date("2024-01-01"),
+};
+
+/**
+ * Builds root-123 (100) -> A: + 50 = 150 -> B: / 3 = 50, with B by
+ * user-456 and the rest by user-123
+ */
+function createTree() {
+	const root = CalculationRoot.fromPersistence({
+		...persisted,
+		id: "root-123",
+		value: new Decimal(100),
+	});
+	const opA = CalculationOperation.fromPersistence({
+		...persisted,
+		id: "op-a",
+		parentRootId: "root-123",
+		parentOperationId: null,
+		operator: "ADD",
+		operand: new Decimal(50),
+		result: new Decimal(150),
+	});
+	const opB = CalculationOperation.fromPersistence({
+		...persisted,
+		id: "op-b",
+		parentRootId: null,
+		parentOperationId: "op-a",
+		operator: "DIVIDE",
+		operand: new Decimal(3),
+		result: new Decimal(50),
+		userId: "user-456",
+	});
+	opA.setChildren([opB]);
+	root.setOperations([opA]);
+	return { root, opA, opB };
+}
+
 describe("CalculationService", () => {
 	let service: CalculationService;
 	let mockRepo: MockedRepository;
@@ -183,19 +289,19 @@ describe("CalculationService", () => {
 			const result = await service.getFullTree();
 
 			expect(mockCache._mocks.get.mock.calls.length).toBeGreaterThan(0);
-			expect(mockCache._mocks.get.mock.calls[0]![0]).toBe(CacheKeys.FULL_TREE);
+			expect(mockCache._mocks.get.mock.calls[0]?.[0]).toBe(CacheKeys.FULL_TREE);
 			expect(mockRepo._mocks.findAllRootsWithOperations.mock.calls.length).toBe(
 				0,
 			);
 			expect(result).toHaveLength(1);
-			expect(result[0]!.id).toBe("root-1");
+			expect(result[0]?.id).toBe("root-1");
 		});
 
 		it("should fetch from repository on cache miss", async () => {
 			const roots = [
 				CalculationRoot.fromPersistence({
 					id: "root-1",
-					value: 100,
+					value: new Decimal(100),
 					userId: "user-1",
 					createdAt: new Date(),
 					updatedAt: new Date(),
@@ -209,7 +315,8 @@ describe("CalculationService", () => {
 
 			const result = await service.getFullTree();
 
-			expect(mockCache._mocks.get.mock.calls[0]![0]).toBe(CacheKeys.FULL_TREE);
+			expect(mockCache._mocks.get.mock.calls.length).toBeGreaterThan(0);
+			expect(mockCache._mocks.get.mock.calls[0]?.[0]).toBe(CacheKeys.FULL_TREE);
 			expect(mockRepo._mocks.findAllRootsWithOperations.mock.calls.length).toBe(
 				1,
 			);
@@ -220,7 +327,7 @@ describe("CalculationService", () => {
 			const roots = [
 				CalculationRoot.fromPersistence({
 					id: "root-1",
-					value: 100,
+					value: new Decimal(100),
 					userId: "user-1",
 					createdAt: new Date(),
 					updatedAt: new Date(),
@@ -238,9 +345,9 @@ describe("CalculationService", () => {
 			await new Promise((resolve) => setTimeout(resolve, 0));
 
 			expect(mockCache._mocks.set.mock.calls.length).toBeGreaterThan(0);
-			const setCall = mockCache._mocks.set.mock.calls[0]!;
-			expect(setCall[0]).toBe(CacheKeys.FULL_TREE);
-			expect(setCall[2]).toBe(CacheTTL.FULL_TREE);
+			const [setCall] = mockCache._mocks.set.mock.calls;
+			expect(setCall?.[0]).toBe(CacheKeys.FULL_TREE);
+			expect(setCall?.[2]).toBe(CacheTTL.FULL_TREE);
 		});
 
 		it("should reconstitute entities from cached data", async () => {
@@ -259,7 +366,7 @@ describe("CalculationService", () => {
 							parentOperationId: null,
 							operator: "ADD",
 							operand: 8,
-							result: 50,
+							result: new Decimal(50),
 							userId: "user-1",
 							username: "testuser",
 							createdAt: "2024-01-01T00:00:00.000Z",
@@ -278,7 +385,614 @@ describe("CalculationService", () => {
 
 			expect(result).toHaveLength(1);
 			expect(result[0]).toBeInstanceOf(CalculationRoot);
-			expect(result[0]!.operations).toHaveLength(1);
+			expect(result[0]?.operations).toHaveLength(1);
+		});
+
+		it("should reconstitute unary operations with a null operand", async () => {
+			const cachedData = [
+				{
+					id: "root-1",
+					value: "16",
+					userId: "user-1",
+					createdAt: "2024-01-01T00:00:00.000Z",
+					updatedAt: "2024-01-01T00:00:00.000Z",
+					operations: [
+						{
+							id: "op-1",
+							parentRootId: "root-1",
+							parentOperationId: null,
+							operator: "SQRT",
+							operand: null,
+							result: "4",
+							userId: "user-1",
+							createdAt: "2024-01-01T00:00:00.000Z",
+							updatedAt: "2024-01-01T00:00:00.000Z",
+							children: [],
+						},
+					],
+				},
+			];
+
+			mockCache._mocks.get.mockImplementation(() =>
+				Promise.resolve(cachedData),
+			);
+
+			const result = await service.getFullTree();
+
+			expect(result[0]?.operations[0]?.operand).toBeNull();
+			expect(result[0]?.operations[0]?.toDisplayString()).toBe("\u221A = 4");
+		});
+	});
+
+	describe("listRoots", () => {
+		const createSummaries = (count: number) =>
+			Array.from({ length: count }, (_, i) => ({
+				root: CalculationRoot.fromPersistence({
+					id: `root-${i}`,
+					value: new Decimal(i),
+					userId: "user-1",
+					createdAt: new Date(Date.UTC(2024, 0, 10 - i)),
+					updatedAt: new Date(Date.UTC(2024, 0, 10 - i)),
+				}),
+				operationCount: i * 2,
+				treeDepth: i,
+				lastActivityAt: new Date(Date.UTC(2024, 1, 10 - i)),
+			}));
+
+		it("should fetch one extra root to detect the next page", async () => {
+			mockRepo._mocks.findRootsPage.mockImplementation(() =>
+				Promise.resolve(createSummaries(3)),
+			);
+
+			const page = await service.listRoots({ limit: 2 });
+
+			expect(mockRepo._mocks.findRootsPage.mock.calls[0]?.[0]).toEqual({
+				sort: "newest",
+				filters: {},
+				after: undefined,
+				limit: 3,
+				previewSize: ROOT_PREVIEW_SIZE,
+			});
+			expect(page.roots.map((summary) => summary.root.id)).toEqual([
+				"root-0",
+				"root-1",
+			]);
+			expect(page.nextCursor).toBe("newest|2024-01-09T00:00:00.000Z|root-1");
+		});
+
+		it("should return a null cursor on the last page", async () => {
+			mockRepo._mocks.findRootsPage.mockImplementation(() =>
+				Promise.resolve(createSummaries(2)),
+			);
+
+			const page = await service.listRoots({ limit: 2 });
+
+			expect(page.roots).toHaveLength(2);
+			expect(page.nextCursor).toBeNull();
+		});
+
+		it("should continue after the root in the cursor", async () => {
+			await service.listRoots({
+				cursor: "newest|2024-01-09T00:00:00.000Z|root-1",
+				limit: 2,
+			});
+
+			const options = mockRepo._mocks.findRootsPage.mock.calls[0]?.[0] as {
+				after: { sortValue: Date; id: string };
+			};
+			expect(options.after.sortValue.toISOString()).toBe(
+				"2024-01-09T00:00:00.000Z",
+			);
+			expect(options.after.id).toBe("root-1");
+		});
+
+		it("should encode the sorted field in the cursor", async () => {
+			mockRepo._mocks.findRootsPage.mockImplementation(() =>
+				Promise.resolve(createSummaries(3)),
+			);
+
+			const byOperations = await service.listRoots({
+				limit: 2,
+				sort: "most_operations",
+			});
+			const byValue = await service.listRoots({
+				limit: 2,
+				sort: "smallest_value",
+			});
+
+			expect(byOperations.nextCursor).toBe("most_operations|2|root-1");
+			expect(byValue.nextCursor).toBe("smallest_value|1|root-1");
+		});
+
+		it("should continue after a numeric cursor", async () => {
+			await service.listRoots({ cursor: "deepest|4|root-3", sort: "deepest" });
+
+			expect(mockRepo._mocks.findRootsPage.mock.calls[0]?.[0]).toMatchObject({
+				sort: "deepest",
+				after: { sortValue: "4", id: "root-3" },
+			});
+		});
+
+		it("should reject cursors issued for another order", async () => {
+			await expect(
+				service.listRoots({
+					cursor: "newest|2024-01-09T00:00:00.000Z|root-1",
+					sort: "largest_value",
+				}),
+			).rejects.toBeInstanceOf(InvalidCursorError);
+			await expect(
+				service.listRoots({ cursor: "deepest|deep|root-1", sort: "deepest" }),
+			).rejects.toBeInstanceOf(InvalidCursorError);
+			expect(mockRepo._mocks.findRootsPage.mock.calls.length).toBe(0);
+		});
+
+		it("should pass filters to the repository", async () => {
+			await service.listRoots({
+				username: "alice",
+				minValue: "1.5",
+				maxValue: 10,
+				createdAfter: new Date("2024-01-01"),
+				withoutReplies: true,
+			});
+
+			const options = mockRepo._mocks.findRootsPage.mock.calls[0]?.[0] as {
+				filters: RootFilters;
+			};
+			expect(options.filters.username).toBe("alice");
+			expect(options.filters.minValue?.toString()).toBe("1.5");
+			expect(options.filters.maxValue?.toString()).toBe("10");
+			expect(options.filters.createdAfter).toEqual(new Date("2024-01-01"));
+			expect(options.filters.createdBefore).toBeUndefined();
+			expect(options.filters.withoutReplies).toBe(true);
+		});
+
+		it("should reject malformed cursors", async () => {
+			await expect(
+				service.listRoots({ cursor: "not-a-cursor" }),
+			).rejects.toBeInstanceOf(InvalidCursorError);
+			expect(mockRepo._mocks.findRootsPage.mock.calls.length).toBe(0);
+		});
+
+		it("should cache each page under its size, order, filters and cursor", async () => {
+			mockRepo._mocks.findRootsPage.mockImplementation(() =>
+				Promise.resolve(createSummaries(1)),
+			);
+
+			await service.listRoots({ limit: 5 });
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			const setCall = mockCache._mocks.set.mock.calls[0];
+			expect(setCall?.[0]).toBe(CacheKeys.ROOT_PAGE(5, "newest", "{}"));
+			expect(setCall?.[2]).toBe(CacheTTL.ROOT_PAGE);
+			const cached = setCall?.[1] as RootPageJSON;
+			expect(cached.roots[0]?.operationCount).toBe(0);
+		});
+
+		it("should return cached pages without querying", async () => {
+			const cachedPage: RootPageJSON = {
+				roots: [
+					{
+						id: "root-1",
+						value: "100",
+						userId: "user-1",
+						forkedFromRootId: null,
+						forkedFromOperationId: null,
+						rules: null,
+						target: null,
+						solution: null,
+						createdAt: new Date("2024-01-01"),
+						updatedAt: new Date("2024-01-01"),
+						operations: [],
+						operationCount: 7,
+						treeDepth: 2,
+						lastActivityAt: new Date("2024-01-02"),
+					},
+				],
+				nextCursor: null,
+			};
+			mockCache._mocks.get.mockImplementation(() =>
+				Promise.resolve(cachedPage),
+			);
+
+			const page = await service.listRoots();
+
+			expect(mockRepo._mocks.findRootsPage.mock.calls.length).toBe(0);
+			expect(page.roots[0]?.root.value.toString()).toBe("100");
+			expect(page.roots[0]?.operationCount).toBe(7);
+			expect(page.roots[0]?.lastActivityAt).toEqual(new Date("2024-01-02"));
+		});
+
+		it("should drop cached pages when anything changes", async () => {
+			await service.createRoot({ value: 1, userId: "user-1" });
+
+			expect(
+				mockCache._mocks.invalidateByPrefix.mock.calls.map((call) => call[0]),
+			).toContain(CacheKeys.ROOT_PAGES);
+		});
+	});
+
+	describe("search", () => {
+		const createHits = (count: number) =>
+			Array.from({ length: count }, (_, i) => ({
+				kind: "root" as const,
+				node: CalculationRoot.fromPersistence({
+					id: `root-${i}`,
+					value: new Decimal(42),
+					userId: "user-1",
+					createdAt: new Date(Date.UTC(2024, 0, 10 - i)),
+					updatedAt: new Date(Date.UTC(2024, 0, 10 - i)),
+				}),
+			}));
+
+		it("should turn exact values and bounds into ranges", async () => {
+			await service.search({
+				result: { equals: "42" },
+				operand: { min: 1 },
+				rootValue: { min: "-5", max: "5" },
+				operators: ["ADD", "MULTIPLY"],
+				username: "alice",
+				limit: 10,
+			});
+
+			const options = mockRepo._mocks.searchNodes.mock.calls[0]?.[0] as {
+				criteria: NodeSearchCriteria;
+				limit: number;
+			};
+			expect(options.limit).toBe(11);
+			expect(options.criteria.result?.min?.toString()).toBe("42");
+			expect(options.criteria.result?.max?.toString()).toBe("42");
+			expect(options.criteria.operand?.min?.toString()).toBe("1");
+			expect(options.criteria.operand?.max).toBeUndefined();
+			expect(options.criteria.rootValue?.min?.toString()).toBe("-5");
+			expect(options.criteria.rootValue?.max?.toString()).toBe("5");
+			expect(options.criteria.operators).toEqual(["ADD", "MULTIPLY"]);
+			expect(options.criteria.username).toBe("alice");
+		});
+
+		it("should return a cursor after the last hit when there are more", async () => {
+			mockRepo._mocks.searchNodes.mockImplementation(() =>
+				Promise.resolve(createHits(3)),
+			);
+
+			const page = await service.search({
+				result: { equals: 42 },
+				limit: 2,
+			});
+
+			expect(page.hits.map((hit) => hit.node.id)).toEqual(["root-0", "root-1"]);
+			expect(page.nextCursor).toBe("2024-01-09T00:00:00.000Z|root-1");
+		});
+
+		it("should return a null cursor on the last page", async () => {
+			mockRepo._mocks.searchNodes.mockImplementation(() =>
+				Promise.resolve(createHits(2)),
+			);
+
+			const page = await service.search({ username: "alice", limit: 2 });
+
+			expect(page.nextCursor).toBeNull();
+		});
+
+		it("should continue after the node in the cursor", async () => {
+			await service.search({
+				username: "alice",
+				cursor: "2024-01-09T00:00:00.000Z|root-1",
+			});
+
+			const options = mockRepo._mocks.searchNodes.mock.calls[0]?.[0] as {
+				after: { createdAt: Date; id: string };
+			};
+			expect(options.after.createdAt.toISOString()).toBe(
+				"2024-01-09T00:00:00.000Z",
+			);
+			expect(options.after.id).toBe("root-1");
+		});
+
+		it("should reject malformed cursors", async () => {
+			await expect(
+				service.search({ username: "alice", cursor: "not-a-cursor" }),
+			).rejects.toBeInstanceOf(InvalidCursorError);
+			expect(mockRepo._mocks.searchNodes.mock.calls.length).toBe(0);
+		});
+	});
+
+	describe("getPath", () => {
+		const makeOperation = (
+			id: string,
+			operator: OperatorType,
+			operand: number | null,
+			parent: { parentRootId?: string; parentOperationId?: string },
+		) =>
+			CalculationOperation.fromPersistence({
+				id,
+				parentRootId: parent.parentRootId ?? null,
+				parentOperationId: parent.parentOperationId ?? null,
+				operator,
+				operand: operand === null ? null : new Decimal(operand),
+				result: new Decimal(0),
+				userId: "user-1",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+
+		const root = CalculationRoot.fromPersistence({
+			id: "root-1",
+			value: new Decimal(100),
+			userId: "user-1",
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		});
+
+		it("should return the chain and its parenthesized expression", async () => {
+			const add = makeOperation("op-1", "ADD", 50, { parentRootId: "root-1" });
+			const multiply = makeOperation("op-2", "MULTIPLY", 2, {
+				parentOperationId: "op-1",
+			});
+			const subtract = makeOperation("op-3", "SUBTRACT", 30, {
+				parentOperationId: "op-2",
+			});
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(subtract),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation(() =>
+				Promise.resolve([add, multiply]),
+			);
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(root),
+			);
+
+			const path = await service.getPath("op-3");
+
+			expect(path.root).toBe(root);
+			expect(path.operations.map((op) => op.id)).toEqual([
+				"op-1",
+				"op-2",
+				"op-3",
+			]);
+			expect(path.expression).toBe("((100 + 50) \u00D7 2) \u2212 30");
+		});
+
+		it("should format unary operators and negative operands", async () => {
+			const subtract = makeOperation("op-1", "SUBTRACT", -5, {
+				parentRootId: "root-1",
+			});
+			const sqrt = makeOperation("op-2", "SQRT", null, {
+				parentOperationId: "op-1",
+			});
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(sqrt),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation(() =>
+				Promise.resolve([subtract]),
+			);
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(root),
+			);
+
+			const path = await service.getPath("op-2");
+
+			expect(path.expression).toBe("\u221A(100 \u2212 (-5))");
+		});
+
+		it("should throw NotFoundError for a missing operation", async () => {
+			await expect(service.getPath("missing")).rejects.toBeInstanceOf(
+				NotFoundError,
+			);
+		});
+	});
+
+	describe("getRootStats", () => {
+		const stats: RootStats = {
+			nodeCount: 4,
+			maxDepth: 2,
+			leafCount: 2,
+			minLeafResult: new Decimal(3),
+			maxLeafResult: new Decimal("22.5"),
+			meanLeafResult: new Decimal("12.75"),
+			operatorCounts: { ADD: 2, MULTIPLY: 1 },
+			contributorCount: 2,
+			lastActivityAt: new Date("2024-01-02"),
+		};
+
+		it("should compute stats in the repository and cache them", async () => {
+			mockRepo._mocks.findRootStats.mockImplementation(() =>
+				Promise.resolve(stats),
+			);
+
+			const result = await service.getRootStats("root-1");
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect(result).toBe(stats);
+			const setCall = mockCache._mocks.set.mock.calls[0];
+			expect(setCall?.[0]).toBe(CacheKeys.ROOT_STATS("root-1"));
+			expect(setCall?.[2]).toBe(CacheTTL.ROOT_STATS);
+			expect((setCall?.[1] as RootStatsJSON).maxLeafResult).toBe("22.5");
+		});
+
+		it("should return cached stats without querying", async () => {
+			mockCache._mocks.get.mockImplementation(() =>
+				Promise.resolve(rootStatsToJSON(stats)),
+			);
+
+			const result = await service.getRootStats("root-1");
+
+			expect(mockRepo._mocks.findRootStats.mock.calls.length).toBe(0);
+			expect(result.meanLeafResult.toString()).toBe("12.75");
+			expect(result.operatorCounts).toEqual({ ADD: 2, MULTIPLY: 1 });
+		});
+
+		it("should throw NotFoundError for a missing root", async () => {
+			await expect(service.getRootStats("missing")).rejects.toBeInstanceOf(
+				NotFoundError,
+			);
+		});
+	});
+
+	describe("getSubtree", () => {
+		/**
+		 * Builds a chain of operations: A -> B -> C -> D (each adds 1)
+		 */
+		const createChain = () => {
+			const ids = ["op-a", "op-b", "op-c", "op-d"];
+			const chain = ids.map((id, i) =>
+				CalculationOperation.fromPersistence({
+					id,
+					parentRootId: i === 0 ? "root-123" : null,
+					parentOperationId: i === 0 ? null : (ids[i - 1] ?? null),
+					operator: "ADD",
+					operand: new Decimal(1),
+					result: new Decimal(101 + i),
+					userId: "user-123",
+					createdAt: new Date("2024-01-01"),
+					updatedAt: new Date("2024-01-01"),
+				}),
+			);
+			chain.forEach((op, i) => {
+				const next = chain[i + 1];
+				op.setChildren(next ? [next] : []);
+			});
+			return chain;
+		};
+
+		/**
+		 * Backs the mock cache with a real map so reads see earlier writes
+		 */
+		const useMapCache = () => {
+			const store = new Map<string, unknown>();
+			mockCache._mocks.get.mockImplementation((...args: unknown[]) =>
+				Promise.resolve(store.get(args[0] as string) ?? null),
+			);
+			mockCache._mocks.set.mockImplementation((...args: unknown[]) => {
+				store.set(args[0] as string, structuredClone(args[1]));
+				return Promise.resolve(undefined);
+			});
+			return store;
+		};
+
+		it("should load one extra level to count the last level's replies", async () => {
+			const [opA, opB] = createChain();
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(opA),
+			);
+			// Loaded two levels deep: B and its reply C
+			mockRepo._mocks.findChildOperations.mockImplementation(() =>
+				Promise.resolve([opB]),
+			);
+
+			const subtree = await service.getSubtree({ nodeId: "op-a", depth: 1 });
+
+			expect(mockRepo._mocks.findChildOperations.mock.calls[0]).toEqual([
+				"op-a",
+				2,
+			]);
+			const [json] = subtreeToJSON(subtree).operations;
+			expect(json?.id).toBe("op-b");
+			expect(json?.children).toEqual([]);
+			expect(json?.childCount).toBe(1);
+		});
+
+		it("should load replies of a root", async () => {
+			const [opA] = createChain();
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(
+					CalculationRoot.fromPersistence({
+						id: "root-123",
+						value: new Decimal(100),
+						userId: "user-123",
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					}),
+				),
+			);
+			mockRepo._mocks.findOperationsByRootId.mockImplementation(() =>
+				Promise.resolve([opA]),
+			);
+
+			const subtree = await service.getSubtree({ nodeId: "root-123" });
+
+			expect(mockRepo._mocks.findOperationsByRootId.mock.calls[0]).toEqual([
+				"root-123",
+				4,
+			]);
+			// A -> B -> C returned, D only counted
+			const [json] = subtreeToJSON(subtree).operations;
+			const opC = json?.children[0]?.children[0];
+			expect(opC?.id).toBe("op-c");
+			expect(opC?.children).toEqual([]);
+			expect(opC?.childCount).toBe(1);
+		});
+
+		it("should throw NotFoundError for unknown nodes", async () => {
+			await expect(
+				service.getSubtree({ nodeId: "missing" }),
+			).rejects.toBeInstanceOf(NotFoundError);
+		});
+
+		it("should cache the replies of every fully loaded node", async () => {
+			const store = useMapCache();
+			const [opA] = createChain();
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(
+					CalculationRoot.fromPersistence({
+						id: "root-123",
+						value: new Decimal(100),
+						userId: "user-123",
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					}),
+				),
+			);
+			mockRepo._mocks.findOperationsByRootId.mockImplementation(() =>
+				Promise.resolve([opA]),
+			);
+
+			await service.getSubtree({ nodeId: "root-123", depth: 2 });
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect([...store.keys()].sort()).toEqual(
+				[
+					CacheKeys.ROOT_OPERATIONS("root-123"),
+					CacheKeys.OPERATION_CHILDREN("op-a"),
+					CacheKeys.OPERATION_CHILDREN("op-b"),
+				].sort(),
+			);
+		});
+
+		it("should serve a fully cached subtree without querying", async () => {
+			useMapCache();
+			const [opA, opB] = createChain();
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(opA),
+			);
+			mockRepo._mocks.findChildOperations.mockImplementation(() =>
+				Promise.resolve([opB]),
+			);
+
+			await service.getSubtree({ nodeId: "op-a", depth: 1 });
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			const cached = await service.getSubtree({ nodeId: "op-a", depth: 1 });
+
+			expect(mockRepo._mocks.findChildOperations.mock.calls.length).toBe(1);
+			const [json] = subtreeToJSON(cached).operations;
+			expect(json?.id).toBe("op-b");
+			expect(json?.childCount).toBe(1);
+		});
+
+		it("should query again when a deeper level is not cached", async () => {
+			useMapCache();
+			const [opA, opB] = createChain();
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(opA),
+			);
+			mockRepo._mocks.findChildOperations.mockImplementation(() =>
+				Promise.resolve([opB]),
+			);
+
+			await service.getSubtree({ nodeId: "op-a", depth: 1 });
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			await service.getSubtree({ nodeId: "op-a", depth: 2 });
+
+			expect(mockRepo._mocks.findChildOperations.mock.calls.length).toBe(2);
 		});
 	});
 
@@ -299,7 +1013,8 @@ describe("CalculationService", () => {
 
 			const result = await service.getRootById("root-1");
 
-			expect(mockCache._mocks.get.mock.calls[0]![0]).toBe(
+			expect(mockCache._mocks.get.mock.calls.length).toBeGreaterThan(0);
+			expect(mockCache._mocks.get.mock.calls[0]?.[0]).toBe(
 				CacheKeys.ROOT("root-1"),
 			);
 			expect(mockRepo._mocks.findRootByIdWithOperations.mock.calls.length).toBe(
@@ -311,7 +1026,7 @@ describe("CalculationService", () => {
 		it("should fetch from repository on cache miss", async () => {
 			const root = CalculationRoot.fromPersistence({
 				id: "root-1",
-				value: 100,
+				value: new Decimal(100),
 				userId: "user-1",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -324,9 +1039,12 @@ describe("CalculationService", () => {
 
 			const result = await service.getRootById("root-1");
 
-			expect(mockRepo._mocks.findRootByIdWithOperations.mock.calls[0]![0]).toBe(
-				"root-1",
-			);
+			expect(
+				mockRepo._mocks.findRootByIdWithOperations.mock.calls.length,
+			).toBeGreaterThan(0);
+			expect(
+				mockRepo._mocks.findRootByIdWithOperations.mock.calls[0]?.[0],
+			).toBe("root-1");
 			expect(result).toBe(root);
 		});
 
@@ -344,7 +1062,7 @@ describe("CalculationService", () => {
 		it("should cache fetched root", async () => {
 			const root = CalculationRoot.fromPersistence({
 				id: "root-1",
-				value: 100,
+				value: new Decimal(100),
 				userId: "user-1",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -361,23 +1079,196 @@ describe("CalculationService", () => {
 			await new Promise((resolve) => setTimeout(resolve, 0));
 
 			expect(mockCache._mocks.set.mock.calls.length).toBeGreaterThan(0);
-			const setCall = mockCache._mocks.set.mock.calls[0]!;
-			expect(setCall[0]).toBe(CacheKeys.ROOT("root-1"));
-			expect(setCall[2]).toBe(CacheTTL.ROOT);
+			const [setCall] = mockCache._mocks.set.mock.calls;
+			expect(setCall?.[0]).toBe(CacheKeys.ROOT("root-1"));
+			expect(setCall?.[2]).toBe(CacheTTL.ROOT);
 		});
-	});
 
-	describe("createRoot", () => {
-		it("should create and persist a new root", async () => {
-			const result = await service.createRoot({
-				value: 100,
-				userId: "user-123",
-				username: "testuser",
+		describe("asOf", () => {
+			const at = (minute: number) =>
+				new Date(`2024-01-01T00:${String(minute).padStart(2, "0")}:00Z`);
+			const rootSnapshot = (value: string) => ({
+				value,
+				userId: "user-1",
+				forkedFromRootId: null,
+				forkedFromOperationId: null,
 			});
-
-			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			const operationSnapshot = (
+				parent: { parentRootId?: string; parentOperationId?: string },
+				operator: OperatorType,
+				operand: string,
+				result: string,
+			) => ({
+				parentRootId: parent.parentRootId ?? null,
+				parentOperationId: parent.parentOperationId ?? null,
+				operator,
+				operand,
+				operandRootId: null,
+				operandOperationId: null,
+				result,
+				userId: "user-1",
+			});
+			const revision = (
+				nodeId: string,
+				minute: number,
+				before: NodeSnapshot | null,
+				after: NodeSnapshot | null,
+			) =>
+				CalculationRevision.fromPersistence({
+					id: `rev-${nodeId}-${minute}`,
+					nodeId,
+					nodeKind: nodeId === "root-1" ? "root" : "operation",
+					rootId: "root-1",
+					action: !before ? "create" : !after ? "delete" : "update",
+					before,
+					after,
+					userId: "user-1",
+					username: "alice",
+					createdAt: at(minute),
+				});
+
+			/**
+			 * 01 root 100, 02 A: + 50 = 150, 03 root 10 (A = 60),
+			 * 04 B: × 2 = 120 below A, 05 B deleted. "op-old" (+ 1) predates
+			 * the history: created at 02 with no revisions.
+			 */
+			beforeEach(() => {
+				const root = CalculationRoot.fromPersistence({
+					id: "root-1",
+					value: new Decimal(10),
+					userId: "user-1",
+					username: "alice",
+					createdAt: at(1),
+					updatedAt: at(3),
+				});
+				const author = { userId: "user-1", username: "alice" };
+				root.setOperations([
+					CalculationOperation.fromPersistence({
+						...author,
+						id: "op-a",
+						parentRootId: "root-1",
+						parentOperationId: null,
+						operator: "ADD",
+						operand: new Decimal(50),
+						result: new Decimal(60),
+						createdAt: at(2),
+						updatedAt: at(3),
+					}),
+					CalculationOperation.fromPersistence({
+						...author,
+						id: "op-old",
+						parentRootId: "root-1",
+						parentOperationId: null,
+						operator: "ADD",
+						operand: new Decimal(1),
+						result: new Decimal(11),
+						createdAt: at(2),
+						updatedAt: at(2),
+					}),
+				]);
+				const a = { parentRootId: "root-1" };
+				const b = { parentOperationId: "op-a" };
+				mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+					Promise.resolve(root),
+				);
+				mockRepo._mocks.findTreeRevisions.mockImplementation(() =>
+					Promise.resolve([
+						revision("root-1", 1, null, rootSnapshot("100")),
+						revision("op-a", 2, null, operationSnapshot(a, "ADD", "50", "150")),
+						revision("root-1", 3, rootSnapshot("100"), rootSnapshot("10")),
+						revision(
+							"op-a",
+							3,
+							operationSnapshot(a, "ADD", "50", "150"),
+							operationSnapshot(a, "ADD", "50", "60"),
+						),
+						revision(
+							"op-b",
+							4,
+							null,
+							operationSnapshot(b, "MULTIPLY", "2", "120"),
+						),
+						revision(
+							"op-b",
+							5,
+							operationSnapshot(b, "MULTIPLY", "2", "120"),
+							null,
+						),
+					]),
+				);
+			});
+
+			const summarize = (root: CalculationRoot | null) =>
+				root && {
+					value: root.value.toString(),
+					operations: root.operations.map((op) => [
+						op.id,
+						op.result.toString(),
+						op.children.map((child) => child.id),
+					]),
+				};
+
+			it("should rebuild the values the tree had at that moment", async () => {
+				const root = await service.getRootById("root-1", at(2));
+
+				expect(summarize(root)).toEqual({
+					value: "100",
+					operations: [
+						["op-a", "150", []],
+						["op-old", "11", []],
+					],
+				});
+				expect(mockCache._mocks.get.mock.calls.length).toBe(0);
+				expect(mockRepo._mocks.findTreeRevisions.mock.calls[0]).toEqual([
+					"root-1",
+				]);
+			});
+
+			it("should bring back nodes deleted since", async () => {
+				const root = await service.getRootById("root-1", at(4));
+
+				expect(summarize(root)?.operations[0]).toEqual([
+					"op-a",
+					"60",
+					["op-b"],
+				]);
+				const [opB] = root?.operations[0]?.children ?? [];
+				expect(opB?.username).toBe("alice");
+				expect(opB?.createdAt).toEqual(at(4));
+			});
+
+			it("should rebuild a deleted root from its history", async () => {
+				mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+					Promise.resolve(null),
+				);
+
+				const root = await service.getRootById("root-1", at(2));
+
+				expect(summarize(root)).toEqual({
+					value: "100",
+					operations: [["op-a", "150", []]],
+				});
+			});
+
+			it("should return null before the root existed", async () => {
+				expect(
+					await service.getRootById("root-1", new Date("2023-12-31")),
+				).toBeNull();
+			});
+		});
+	});
+
+	describe("createRoot", () => {
+		it("should create and persist a new root", async () => {
+			const result = await service.createRoot({
+				value: 100,
+				userId: "user-123",
+				username: "testuser",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
 			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(1);
-			expect(result.value).toBe(100);
+			expect(result.value.toString()).toBe("100");
 			expect(result.userId).toBe("user-123");
 			expect(result.username).toBe("testuser");
 		});
@@ -390,7 +1281,7 @@ describe("CalculationService", () => {
 
 			expect(mockCache._mocks.deleteMany.mock.calls.length).toBeGreaterThan(0);
 			const deleteCall = mockCache._mocks.deleteMany.mock
-				.calls[0]![0] as string[];
+				.calls[0]?.[0] as string[];
 			expect(deleteCall).toContain(CacheKeys.ROOT_LIST);
 			expect(deleteCall).toContain(CacheKeys.FULL_TREE);
 		});
@@ -406,7 +1297,7 @@ describe("CalculationService", () => {
 
 			expect(mockCache._mocks.set.mock.calls.length).toBeGreaterThan(0);
 			expect(mockCache._mocks.delete.mock.calls.length).toBeGreaterThan(0);
-			expect(mockCache._mocks.delete.mock.calls[0]![0]).toBe(
+			expect(mockCache._mocks.delete.mock.calls[0]?.[0]).toBe(
 				CacheKeys.FULL_TREE,
 			);
 		});
@@ -442,7 +1333,7 @@ describe("CalculationService", () => {
 			// Set up a root for operations to reference
 			const root = CalculationRoot.fromPersistence({
 				id: "root-123",
-				value: 100,
+				value: new Decimal(100),
 				userId: "user-123",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -465,7 +1356,7 @@ describe("CalculationService", () => {
 			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(1);
 			expect(result.parentRootId).toBe("root-123");
 			expect(result.parentOperationId).toBeNull();
-			expect(result.result).toBe(150); // 100 + 50
+			expect(result.result.toString()).toBe("150"); // 100 + 50
 		});
 
 		it("should create operation with operation parent", async () => {
@@ -474,8 +1365,8 @@ describe("CalculationService", () => {
 				parentRootId: "root-123",
 				parentOperationId: null,
 				operator: "ADD",
-				operand: 50,
-				result: 150,
+				operand: new Decimal(50),
+				result: new Decimal(150),
 				userId: "user-123",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -492,7 +1383,51 @@ describe("CalculationService", () => {
 			});
 
 			expect(result.parentOperationId).toBe("parent-op-123");
-			expect(result.result).toBe(300); // 150 * 2
+			expect(result.result.toString()).toBe("300"); // 150 * 2
+		});
+
+		it("should drop the cached stats of the reply's root", async () => {
+			const parentOp = CalculationOperation.fromPersistence({
+				id: "parent-op-123",
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "ADD",
+				operand: new Decimal(50),
+				result: new Decimal(150),
+				userId: "user-123",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(parentOp),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation(() =>
+				Promise.resolve([parentOp]),
+			);
+
+			await service.createOperation({
+				parentOperationId: "parent-op-123",
+				operator: "MULTIPLY",
+				operand: 2,
+				userId: "user-123",
+			});
+
+			const deletedKeys = mockCache._mocks.deleteMany.mock.calls.flatMap(
+				(call) => call[0] as string[],
+			);
+			expect(deletedKeys).toContain(CacheKeys.ROOT_STATS("root-123"));
+		});
+
+		it("should create a unary operation without an operand", async () => {
+			const result = await service.createOperation({
+				parentRootId: "root-123",
+				operator: "SQRT",
+				userId: "user-123",
+			});
+
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(1);
+			expect(result.operand).toBeNull();
+			expect(result.result.toString()).toBe("10"); // sqrt(100)
 		});
 
 		it("should throw error when no parent provided", async () => {
@@ -502,7 +1437,7 @@ describe("CalculationService", () => {
 					operand: 50,
 					userId: "user-123",
 				}),
-			).rejects.toThrow("Operation must have a parent (root or operation)");
+			).rejects.toBeInstanceOf(InvalidReferenceError);
 		});
 
 		it("should throw error when both parents provided", async () => {
@@ -514,7 +1449,7 @@ describe("CalculationService", () => {
 					operand: 50,
 					userId: "user-123",
 				}),
-			).rejects.toThrow("Operation cannot have both root and operation parent");
+			).rejects.toBeInstanceOf(InvalidReferenceError);
 		});
 
 		it("should throw error when parent root not found", async () => {
@@ -529,7 +1464,7 @@ describe("CalculationService", () => {
 					operand: 50,
 					userId: "user-123",
 				}),
-			).rejects.toThrow("Parent root not found: non-existent-root");
+			).rejects.toBeInstanceOf(NotFoundError);
 		});
 
 		it("should throw error when parent operation not found", async () => {
@@ -544,7 +1479,7 @@ describe("CalculationService", () => {
 					operand: 50,
 					userId: "user-123",
 				}),
-			).rejects.toThrow("Parent operation not found: non-existent-op");
+			).rejects.toBeInstanceOf(NotFoundError);
 		});
 
 		it("should throw error for division by zero", async () => {
@@ -558,6 +1493,18 @@ describe("CalculationService", () => {
 			).rejects.toThrow("Invalid operation: division by zero");
 		});
 
+		it("should reject overflowing results before persisting", async () => {
+			await expect(
+				service.createOperation({
+					parentRootId: "root-123",
+					operator: "MULTIPLY",
+					operand: 1e15,
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NumericOverflowError);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
+
 		it("should invalidate appropriate cache keys for root parent", async () => {
 			await service.createOperation({
 				parentRootId: "root-123",
@@ -566,8 +1513,9 @@ describe("CalculationService", () => {
 				userId: "user-123",
 			});
 
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBeGreaterThan(0);
 			const deleteCall = mockCache._mocks.deleteMany.mock
-				.calls[0]![0] as string[];
+				.calls[0]?.[0] as string[];
 			expect(deleteCall).toContain(CacheKeys.FULL_TREE);
 			expect(deleteCall).toContain(CacheKeys.ROOT("root-123"));
 			expect(deleteCall).toContain(CacheKeys.ROOT_OPERATIONS("root-123"));
@@ -579,8 +1527,8 @@ describe("CalculationService", () => {
 				parentRootId: "root-123",
 				parentOperationId: null,
 				operator: "ADD",
-				operand: 50,
-				result: 150,
+				operand: new Decimal(50),
+				result: new Decimal(150),
 				userId: "user-123",
 				createdAt: new Date(),
 				updatedAt: new Date(),
@@ -596,8 +1544,9 @@ describe("CalculationService", () => {
 				userId: "user-123",
 			});
 
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBeGreaterThan(0);
 			const deleteCall = mockCache._mocks.deleteMany.mock
-				.calls[0]![0] as string[];
+				.calls[0]?.[0] as string[];
 			expect(deleteCall).toContain(CacheKeys.FULL_TREE);
 			expect(deleteCall).toContain(CacheKeys.OPERATION("parent-op-123"));
 			expect(deleteCall).toContain(
@@ -614,7 +1563,7 @@ describe("CalculationService", () => {
 					userId: "user-123",
 				});
 
-				expect(result.result).toBe(125); // 100 + 25
+				expect(result.result.toString()).toBe("125"); // 100 + 25
 			});
 
 			it("should calculate SUBTRACT correctly", async () => {
@@ -625,7 +1574,7 @@ describe("CalculationService", () => {
 					userId: "user-123",
 				});
 
-				expect(result.result).toBe(70); // 100 - 30
+				expect(result.result.toString()).toBe("70"); // 100 - 30
 			});
 
 			it("should calculate MULTIPLY correctly", async () => {
@@ -636,7 +1585,7 @@ describe("CalculationService", () => {
 					userId: "user-123",
 				});
 
-				expect(result.result).toBe(300); // 100 * 3
+				expect(result.result.toString()).toBe("300"); // 100 * 3
 			});
 
 			it("should calculate DIVIDE correctly", async () => {
@@ -647,82 +1596,1958 @@ describe("CalculationService", () => {
 					userId: "user-123",
 				});
 
-				expect(result.result).toBe(25); // 100 / 4
+				expect(result.result.toString()).toBe("25"); // 100 / 4
 			});
 		});
 	});
 
-	describe("transaction handling", () => {
-		it("should run operations within transaction", async () => {
-			await service.createRoot({
-				value: 100,
+	describe("createChain", () => {
+		beforeEach(() => {
+			const root = CalculationRoot.fromPersistence({
+				id: "root-123",
+				value: new Decimal(100),
+				userId: "user-123",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(root),
+			);
+		});
+
+		it("should save each step as a reply to the previous one", async () => {
+			const chain = await service.createChain({
+				parentRootId: "root-123",
+				expression: "+5 *2 -3 /4",
 				userId: "user-123",
 			});
 
 			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(4);
+			expect(chain.map((op) => op.result.toString())).toEqual([
+				"105",
+				"210",
+				"207",
+				"51.75",
+			]);
+			expect(chain[0]?.parentRootId).toBe("root-123");
+			expect(chain[1]?.parentOperationId).toBe(chain[0]?.id);
+			expect(chain[3]?.parentOperationId).toBe(chain[2]?.id);
 		});
 
-		it("should rollback on repository error", async () => {
-			const error = new Error("Database constraint violation");
-			mockRepo._mocks.saveRoot.mockImplementation(() => Promise.reject(error));
+		it("should save nothing when a step is invalid", async () => {
+			await expect(
+				service.createChain({
+					parentRootId: "root-123",
+					expression: "+5 -105 /0",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidOperationError);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
 
+		it("should reject expressions that do not parse", async () => {
 			await expect(
-				service.createRoot({
-					value: 100,
+				service.createChain({
+					parentRootId: "root-123",
+					expression: "+5 *",
 					userId: "user-123",
 				}),
-			).rejects.toThrow("Database constraint violation");
+			).rejects.toBeInstanceOf(ExpressionSyntaxError);
 		});
-	});
 
-	describe("cache-aside pattern", () => {
-		it("should follow cache-aside read pattern", async () => {
-			// First call - cache miss
-			let cacheGetCalled = false;
-			let repoFindCalled = false;
+		it("should reject a missing or ambiguous parent", async () => {
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(null),
+			);
 
-			mockCache._mocks.get.mockImplementation(() => {
-				cacheGetCalled = true;
-				expect(repoFindCalled).toBe(false); // Cache should be checked first
-				return Promise.resolve(null);
+			await expect(
+				service.createChain({
+					parentOperationId: "non-existent-op",
+					expression: "+5",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+			await expect(
+				service.createChain({
+					parentRootId: "root-123",
+					parentOperationId: "op-123",
+					expression: "+5",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidReferenceError);
+		});
+
+		it("should drop the cached entries of the parent", async () => {
+			await service.createChain({
+				parentRootId: "root-123",
+				expression: "+1 +1",
+				userId: "user-123",
 			});
 
-			const roots = [
-				CalculationRoot.fromPersistence({
-					id: "root-1",
-					value: 100,
-					userId: "user-1",
-					createdAt: new Date(),
-					updatedAt: new Date(),
+			const deletedKeys = mockCache._mocks.deleteMany.mock.calls.flatMap(
+				(call) => call[0] as string[],
+			);
+			expect(deletedKeys).toContain(CacheKeys.ROOT_OPERATIONS("root-123"));
+			expect(deletedKeys).toContain(CacheKeys.ROOT_STATS("root-123"));
+		});
+	});
+
+	describe("importExpression", () => {
+		it("should save a root and its chain in one transaction", async () => {
+			const root = await service.importExpression({
+				expression: "(100 + 50) * 2 - 30",
+				userId: "user-123",
+				username: "testuser",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(3);
+			expect(root.value.toString()).toBe("100");
+
+			const [first] = root.operations;
+			expect(first?.parentRootId).toBe(root.id);
+			expect(first?.result.toString()).toBe("150");
+			const last = first?.children[0]?.children[0];
+			expect(last?.result.toString()).toBe("270");
+			expect(last?.username).toBe("testuser");
+		});
+
+		it("should reject expressions that are not left to right", async () => {
+			await expect(
+				service.importExpression({
+					expression: "100 + 50 * 2",
+					userId: "user-123",
 				}),
-			];
-			mockRepo._mocks.findAllRootsWithOperations.mockImplementation(() => {
-				repoFindCalled = true;
-				return Promise.resolve(roots);
+			).rejects.toBeInstanceOf(ExpressionSyntaxError);
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(0);
+		});
+
+		it("should save nothing when a step is invalid", async () => {
+			await expect(
+				service.importExpression({
+					expression: "(1 - 1) / 0",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidOperationError);
+			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(0);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
+	});
+
+	describe("forkFromNode", () => {
+		const makeOperation = (
+			id: string,
+			operand: number,
+			result: number,
+			parent: { parentRootId?: string; parentOperationId?: string },
+			userId = "author-1",
+		) =>
+			CalculationOperation.fromPersistence({
+				id,
+				parentRootId: parent.parentRootId ?? null,
+				parentOperationId: parent.parentOperationId ?? null,
+				operator: "ADD",
+				operand: new Decimal(operand),
+				result: new Decimal(result),
+				userId,
+				username: userId,
+				createdAt: new Date(),
+				updatedAt: new Date(),
 			});
 
-			await service.getFullTree();
+		it("should start a new root from the operation's result", async () => {
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(
+					makeOperation("op-1", 5, 105, { parentRootId: "root-1" }),
+				),
+			);
 
-			// Verify both were called
-			expect(cacheGetCalled).toBe(true);
-			expect(repoFindCalled).toBe(true);
+			const root = await service.forkFromNode({
+				operationId: "op-1",
+				userId: "forker",
+				username: "forker",
+			});
 
-			// Wait for async cache
-			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(root.value.toString()).toBe("105");
+			expect(root.userId).toBe("forker");
+			expect(root.forkedFromRootId).toBe("root-1");
+			expect(root.forkedFromOperationId).toBe("op-1");
+			expect(root.operations).toHaveLength(0);
+			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
 
-			// Verify result was cached
-			expect(mockCache._mocks.set.mock.calls.length).toBeGreaterThan(0);
+		it("should copy the replies with new IDs and recomputed results", async () => {
+			const source = makeOperation("op-1", 5, 105, {
+				parentOperationId: "op-0",
+			});
+			const reply = makeOperation("op-2", 1, 106, {
+				parentOperationId: "op-1",
+			});
+			reply.addChild(
+				makeOperation(
+					"op-3",
+					2,
+					108,
+					{ parentOperationId: "op-2" },
+					"author-2",
+				),
+			);
+			source.addChild(reply);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(source),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation(() =>
+				Promise.resolve([
+					makeOperation("op-0", 0, 100, { parentRootId: "root-1" }),
+				]),
+			);
+
+			const root = await service.forkFromNode({
+				operationId: "op-1",
+				includeDescendants: true,
+				keepAuthors: true,
+				userId: "forker",
+			});
+
+			expect(root.forkedFromRootId).toBe("root-1");
+			const [copy] = root.operations;
+			const [nested] = copy?.children ?? [];
+			expect(copy?.id).not.toBe("op-2");
+			expect(copy?.parentRootId).toBe(root.id);
+			expect(copy?.result.toString()).toBe("106");
+			expect(nested?.parentOperationId).toBe(copy?.id);
+			expect(nested?.result.toString()).toBe("108");
+			expect(nested?.userId).toBe("author-2");
+			const savedIds = mockRepo._mocks.saveOperation.mock.calls.map(
+				(call) => (call[0] as CalculationOperation).id,
+			);
+			expect(savedIds).toEqual([copy?.id, nested?.id]);
 		});
 
-		it("should invalidate related caches on write", async () => {
-			await service.createRoot({
-				value: 100,
+		it("should give copied replies to the forker by default", async () => {
+			const source = makeOperation("op-1", 5, 105, { parentRootId: "root-1" });
+			source.addChild(
+				makeOperation("op-2", 1, 106, { parentOperationId: "op-1" }),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(source),
+			);
+
+			const root = await service.forkFromNode({
+				operationId: "op-1",
+				includeDescendants: true,
+				userId: "forker",
+			});
+
+			expect(root.operations[0]?.userId).toBe("forker");
+		});
+
+		it("should throw NotFoundError for a missing operation", async () => {
+			await expect(
+				service.forkFromNode({ operationId: "missing", userId: "forker" }),
+			).rejects.toBeInstanceOf(NotFoundError);
+			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(0);
+		});
+	});
+
+	describe("previewChain", () => {
+		it("should compute the steps without saving them", async () => {
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(
+					CalculationRoot.fromPersistence({
+						id: "root-123",
+						value: new Decimal(9),
+						userId: "user-123",
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					}),
+				),
+			);
+
+			const chain = await service.previewChain({
+				parentRootId: "root-123",
+				expression: "sqrt x²",
+			});
+
+			expect(chain.map((op) => op.result.toString())).toEqual(["3", "9"]);
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(0);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
+	});
+
+	describe("updateRootValue", () => {
+		/**
+		 * Builds the shared tree with C: * 2 = 200 (by user-456) as a second
+		 * reply to the root
+		 */
+		const createTreeWithSibling = () => {
+			const { root, opA } = createTree();
+			const opC = CalculationOperation.fromPersistence({
+				...persisted,
+				id: "op-c",
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "MULTIPLY",
+				operand: new Decimal(2),
+				result: new Decimal(200),
+				userId: "user-456",
+			});
+			root.setOperations([opA, opC]);
+			return root;
+		};
+
+		beforeEach(() => {
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(createTreeWithSibling()),
+			);
+		});
+
+		it("should recompute every operation in the tree", async () => {
+			const result = await service.updateRootValue({
+				id: "root-123",
+				value: "10",
 				userId: "user-123",
 			});
 
-			// Should invalidate list and full tree caches
+			expect(result.value.toString()).toBe("10");
+			const [opA, opC] = result.operations;
+			expect(opA?.result.toString()).toBe("60"); // 10 + 50
+			expect(opA?.children[0]?.result.toString()).toBe("20"); // 60 / 3
+			expect(opC?.result.toString()).toBe("20"); // 10 * 2
+		});
+
+		it("should persist the root and all operations in one transaction", async () => {
+			await service.updateRootValue({
+				id: "root-123",
+				value: "10",
+				userId: "user-123",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.updateRoot.mock.calls.length).toBe(1);
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(1);
+			const saved = mockRepo._mocks.updateOperations.mock
+				.calls[0]?.[0] as CalculationOperation[];
+			expect(saved.map((op) => op.id)).toEqual(["op-a", "op-b", "op-c"]);
+		});
+
+		it("should throw NotFoundError when the root does not exist", async () => {
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(null),
+			);
+
+			await expect(
+				service.updateRootValue({
+					id: "missing-root",
+					value: 1,
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+		});
+
+		it("should only let the author edit", async () => {
+			await expect(
+				service.updateRootValue({
+					id: "root-123",
+					value: 1,
+					userId: "user-456",
+				}),
+			).rejects.toBeInstanceOf(ForbiddenError);
+			expect(mockRepo._mocks.updateRoot.mock.calls.length).toBe(0);
+		});
+
+		it("should reject the edit when an operation becomes invalid", async () => {
+			// 5000000000 * 2 overflows at op-c
+			const error = await service
+				.updateRootValue({
+					id: "root-123",
+					value: "5000000000",
+					userId: "user-123",
+				})
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(SubtreeRecalculationError);
+			expect((error as SubtreeRecalculationError).operationId).toBe("op-c");
+			expect(mockRepo._mocks.updateRoot.mock.calls.length).toBe(0);
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(0);
+		});
+
+		it("should reject values that cannot be stored", async () => {
+			await expect(
+				service.updateRootValue({
+					id: "root-123",
+					value: "1e12",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NumericOverflowError);
+		});
+
+		it("should invalidate the root, full tree and every operation", async () => {
+			await service.updateRootValue({
+				id: "root-123",
+				value: "10",
+				userId: "user-123",
+			});
+
+			const keys = mockCache._mocks.deleteMany.mock.calls[0]?.[0] as string[];
+			expect(keys).toContain(CacheKeys.FULL_TREE);
+			expect(keys).toContain(CacheKeys.ROOT("root-123"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-a"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-b"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-c"));
+		});
+	});
+
+	describe("updateOperation", () => {
+		/**
+		 * Builds the shared tree with B -> C: * 1000000 below it, returning A
+		 */
+		const createSubtree = () => {
+			const { opA, opB } = createTree();
+			opB.setChildren([
+				CalculationOperation.fromPersistence({
+					...persisted,
+					id: "op-c",
+					parentRootId: null,
+					parentOperationId: "op-b",
+					operator: "MULTIPLY",
+					operand: new Decimal(1000000),
+					result: new Decimal(50000000),
+				}),
+			]);
+			return opA;
+		};
+
+		beforeEach(() => {
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(createTree().root),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(createSubtree()),
+			);
+		});
+
+		it("should recompute the operation and every descendant", async () => {
+			const result = await service.updateOperation({
+				id: "op-a",
+				operand: 200,
+				userId: "user-123",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(result.operator.toString()).toBe("ADD");
+			expect(result.result.toString()).toBe("300"); // 100 + 200
+			const [opB] = result.children;
+			expect(opB?.result.toString()).toBe("100"); // 300 / 3
+			expect(opB?.children[0]?.result.toString()).toBe("100000000");
+			// Persisted with a single bulk update
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(1);
+			const saved = mockRepo._mocks.updateOperations.mock
+				.calls[0]?.[0] as CalculationOperation[];
+			expect(saved.map((op) => op.id)).toEqual(["op-a", "op-b", "op-c"]);
+		});
+
+		it("should change the operator and drop the operand for unary operators", async () => {
+			const result = await service.updateOperation({
+				id: "op-a",
+				operator: "SQRT",
+				userId: "user-123",
+			});
+
+			expect(result.operand).toBeNull();
+			expect(result.result.toString()).toBe("10");
+			expect(result.children[0]?.result.toString()).toBe("3.3333333333");
+		});
+
+		it("should throw NotFoundError when the operation does not exist", async () => {
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(null),
+			);
+
+			await expect(
+				service.updateOperation({
+					id: "missing-op",
+					operand: 1,
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+		});
+
+		it("should only let the author edit", async () => {
+			await expect(
+				service.updateOperation({
+					id: "op-a",
+					operand: 1,
+					userId: "user-456",
+				}),
+			).rejects.toBeInstanceOf(ForbiddenError);
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(0);
+		});
+
+		it("should reject the whole edit when a descendant becomes invalid", async () => {
+			// 100 + 100000 = 100100 -> / 3 -> * 1000000 overflows at op-c
+			const error = await service
+				.updateOperation({
+					id: "op-a",
+					operand: 100000,
+					userId: "user-123",
+				})
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(SubtreeRecalculationError);
+			expect((error as SubtreeRecalculationError).operationId).toBe("op-c");
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(0);
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBe(0);
+		});
+
+		it("should surface errors for the edited operation directly", async () => {
+			await expect(
+				service.updateOperation({
+					id: "op-a",
+					operator: "DIVIDE",
+					operand: 0,
+					userId: "user-123",
+				}),
+			).rejects.toThrow("Invalid operation: division by zero");
+		});
+
+		it("should invalidate cache keys for the root and every node in the subtree", async () => {
+			await service.updateOperation({
+				id: "op-a",
+				operand: 200,
+				userId: "user-123",
+			});
+
+			const keys = mockCache._mocks.deleteMany.mock.calls[0]?.[0] as string[];
+			expect(keys).toContain(CacheKeys.FULL_TREE);
+			expect(keys).toContain(CacheKeys.ROOT("root-123"));
+			expect(keys).toContain(CacheKeys.ROOT_OPERATIONS("root-123"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-a"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-b"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-c"));
+		});
+	});
+
+	describe("moveOperation", () => {
+		/**
+		 * Builds root-123 (100) -> A: − 50 = 50 -> B: 1/x = 0.02
+		 */
+		const createSubtree = () => {
+			const opA = CalculationOperation.fromPersistence({
+				...persisted,
+				id: "op-a",
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "SUBTRACT",
+				operand: new Decimal(50),
+				result: new Decimal(50),
+			});
+			const opB = CalculationOperation.fromPersistence({
+				...persisted,
+				id: "op-b",
+				parentRootId: null,
+				parentOperationId: "op-a",
+				operator: "RECIPROCAL",
+				operand: null,
+				result: new Decimal("0.02"),
+				userId: "user-456",
+			});
+			opA.setChildren([opB]);
+			return opA;
+		};
+
+		beforeEach(() => {
+			// root-456 (50) -> X: + 10 = 60, in another tree
+			const roots = new Map(
+				[
+					{ id: "root-123", value: 100 },
+					{ id: "root-456", value: 50 },
+				].map(({ id, value }) => [
+					id,
+					CalculationRoot.fromPersistence({
+						...persisted,
+						id,
+						value: new Decimal(value),
+					}),
+				]),
+			);
+			const opX = CalculationOperation.fromPersistence({
+				...persisted,
+				id: "op-x",
+				parentRootId: "root-456",
+				parentOperationId: null,
+				operator: "ADD",
+				operand: new Decimal(10),
+				result: new Decimal(60),
+			});
+			mockRepo._mocks.findRootById.mockImplementation((id) =>
+				Promise.resolve(roots.get(id as string) ?? null),
+			);
+			mockRepo._mocks.findOperationById.mockImplementation((id) =>
+				Promise.resolve(id === "op-x" ? opX : null),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(createSubtree()),
+			);
+		});
+
+		it("should reparent the operation and recompute its subtree", async () => {
+			const result = await service.moveOperation({
+				id: "op-a",
+				parentOperationId: "op-x",
+				userId: "user-123",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(result.parentRootId).toBeNull();
+			expect(result.parentOperationId).toBe("op-x");
+			expect(result.result.toString()).toBe("10"); // 60 − 50
+			expect(result.children[0]?.result.toString()).toBe("0.1"); // 1/10
+			expect(mockRepo._mocks.moveOperation.mock.calls[0]?.[0]).toBe(result);
+			const updated = mockRepo._mocks.updateOperations.mock
+				.calls[0]?.[0] as CalculationOperation[];
+			expect(updated.map((op) => op.id)).toEqual(["op-a", "op-b"]);
+		});
+
+		it("should reject moving an operation below itself or its replies", async () => {
+			for (const parentOperationId of ["op-a", "op-b"]) {
+				await expect(
+					service.moveOperation({
+						id: "op-a",
+						parentOperationId,
+						userId: "user-123",
+					}),
+				).rejects.toBeInstanceOf(ConflictError);
+			}
+			expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(0);
+		});
+
+		it("should reject the whole move when a descendant becomes invalid", async () => {
+			// 50 − 50 = 0, so the reciprocal below it is undefined
+			const error = await service
+				.moveOperation({
+					id: "op-a",
+					parentRootId: "root-456",
+					userId: "user-123",
+				})
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(SubtreeRecalculationError);
+			expect((error as SubtreeRecalculationError).operationId).toBe("op-b");
+			expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(0);
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBe(0);
+		});
+
+		it("should only let the author or an admin move", async () => {
+			await expect(
+				service.moveOperation({
+					id: "op-a",
+					parentOperationId: "op-x",
+					userId: "user-456",
+				}),
+			).rejects.toBeInstanceOf(ForbiddenError);
+
+			await service.moveOperation({
+				id: "op-a",
+				parentOperationId: "op-x",
+				userId: "admin-1",
+				isAdmin: true,
+			});
+			expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(1);
+		});
+
+		it("should throw NotFoundError for a missing operation or parent", async () => {
+			await expect(
+				service.moveOperation({
+					id: "op-a",
+					parentRootId: "missing-root",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(null),
+			);
+			await expect(
+				service.moveOperation({
+					id: "missing-op",
+					parentRootId: "root-456",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+		});
+
+		it("should require exactly one new parent", async () => {
+			await expect(
+				service.moveOperation({ id: "op-a", userId: "user-123" }),
+			).rejects.toBeInstanceOf(InvalidReferenceError);
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(0);
+		});
+
+		it("should invalidate the cache of both the old and the new tree", async () => {
+			await service.moveOperation({
+				id: "op-a",
+				parentOperationId: "op-x",
+				userId: "user-123",
+			});
+
+			const keys = mockCache._mocks.deleteMany.mock.calls.flatMap(
+				([batch]) => batch as string[],
+			);
+			expect(keys).toContain(CacheKeys.ROOT("root-123"));
+			expect(keys).toContain(CacheKeys.ROOT_OPERATIONS("root-123"));
+			expect(keys).toContain(CacheKeys.ROOT_STATS("root-123"));
+			expect(keys).toContain(CacheKeys.ROOT("root-456"));
+			expect(keys).toContain(CacheKeys.ROOT_STATS("root-456"));
+			expect(keys).toContain(CacheKeys.OPERATION_CHILDREN("op-x"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-a"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-b"));
+		});
+	});
+
+	describe("operand references", () => {
+		/**
+		 * root-123 (100) -> A: + 50 = 150 -> B: × [result of A] = 22500
+		 * root-456 (2) -> X: × [result of B] = 45000
+		 *              -> Y: ÷ [result of A] = 0.0133333333
+		 */
+		let stored: Map<string, CalculationOperation>;
+
+		const createStored = () => {
+			return new Map(
+				[
+					CalculationOperation.fromPersistence({
+						...persisted,
+						id: "op-a",
+						parentRootId: "root-123",
+						parentOperationId: null,
+						operator: "ADD",
+						operand: new Decimal(50),
+						result: new Decimal(150),
+					}),
+					CalculationOperation.fromPersistence({
+						...persisted,
+						id: "op-b",
+						parentRootId: null,
+						parentOperationId: "op-a",
+						operator: "MULTIPLY",
+						operand: new Decimal(150),
+						operandOperationId: "op-a",
+						result: new Decimal(22500),
+					}),
+					CalculationOperation.fromPersistence({
+						...persisted,
+						id: "op-x",
+						parentRootId: "root-456",
+						parentOperationId: null,
+						operator: "MULTIPLY",
+						operand: new Decimal(22500),
+						operandOperationId: "op-b",
+						result: new Decimal(45000),
+					}),
+					CalculationOperation.fromPersistence({
+						...persisted,
+						id: "op-y",
+						parentRootId: "root-456",
+						parentOperationId: null,
+						operator: "DIVIDE",
+						operand: new Decimal(150),
+						operandOperationId: "op-a",
+						result: new Decimal("0.0133333333"),
+					}),
+				].map((op) => [op.id, op]),
+			);
+		};
+
+		const withDescendants = (id: string) => {
+			const operation = stored.get(id);
+			operation?.setChildren(
+				[...stored.values()]
+					.filter((op) => op.parentOperationId === id)
+					.map((op) => withDescendants(op.id) as CalculationOperation),
+			);
+			return operation ?? null;
+		};
+
+		beforeEach(() => {
+			stored = createStored();
+			const roots = new Map(
+				[
+					{ id: "root-123", value: 100 },
+					{ id: "root-456", value: 2 },
+				].map(({ id, value }) => [
+					id,
+					CalculationRoot.fromPersistence({
+						id,
+						value: new Decimal(value),
+						userId: "user-123",
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					}),
+				]),
+			);
+
+			// Backed by `stored`, so each write is seen by later reads
+			mockRepo._mocks.findRootById.mockImplementation((id) =>
+				Promise.resolve(roots.get(id as string) ?? null),
+			);
+			mockRepo._mocks.findOperationById.mockImplementation((id) =>
+				Promise.resolve(stored.get(id as string) ?? null),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation((id) =>
+				Promise.resolve(withDescendants(id as string)),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation((id) => {
+				const ancestors: CalculationOperation[] = [];
+				let parentId = stored.get(id as string)?.parentOperationId;
+				while (parentId) {
+					const parent = stored.get(parentId) as CalculationOperation;
+					ancestors.unshift(parent);
+					parentId = parent.parentOperationId;
+				}
+				return Promise.resolve(ancestors);
+			});
+			mockRepo._mocks.findReferencingOperations.mockImplementation((ids) =>
+				Promise.resolve(
+					[...stored.values()].filter((op) =>
+						(ids as string[]).includes(
+							op.operandOperationId ?? op.operandRootId ?? "",
+						),
+					),
+				),
+			);
+			mockRepo._mocks.updateOperations.mockImplementation((operations) => {
+				for (const op of operations as CalculationOperation[]) {
+					stored.set(op.id, op);
+				}
+				return Promise.resolve(undefined);
+			});
+		});
+
+		it("should use the referenced node's result as the operand", async () => {
+			const result = await service.createOperation({
+				parentRootId: "root-456",
+				operator: "ADD",
+				operandOperationId: "op-a",
+				userId: "user-123",
+			});
+
+			expect(result.operand?.toString()).toBe("150");
+			expect(result.result.toString()).toBe("152");
+			expect(result.operandOperationId).toBe("op-a");
+			expect(mockRepo._mocks.saveOperation.mock.calls[0]?.[0]).toBe(result);
+		});
+
+		it("should throw NotFoundError for a missing referenced node", async () => {
+			await expect(
+				service.createOperation({
+					parentRootId: "root-456",
+					operator: "ADD",
+					operandRootId: "missing-root",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(NotFoundError);
+		});
+
+		it("should reject referencing both a root and an operation", async () => {
+			await expect(
+				service.createOperation({
+					parentRootId: "root-456",
+					operator: "ADD",
+					operandRootId: "root-123",
+					operandOperationId: "op-a",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidReferenceError);
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
+
+		it("should recompute dependents in every tree when a referenced result changes", async () => {
+			await service.updateOperation({
+				id: "op-a",
+				operand: 0,
+				userId: "user-123",
+			});
+
+			expect(stored.get("op-a")?.result.toString()).toBe("100");
+			expect(stored.get("op-b")?.operand?.toString()).toBe("100");
+			expect(stored.get("op-b")?.result.toString()).toBe("10000");
+			expect(stored.get("op-x")?.result.toString()).toBe("20000");
+			expect(stored.get("op-x")?.operandOperationId).toBe("op-b");
+			expect(stored.get("op-y")?.result.toString()).toBe("0.02");
+
+			const keys = mockCache._mocks.deleteMany.mock.calls.flatMap(
+				([batch]) => batch as string[],
+			);
+			expect(keys).toContain(CacheKeys.ROOT("root-456"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-x"));
+			expect(keys).toContain(CacheKeys.OPERATION("op-y"));
+		});
+
+		it("should recompute dependents when a root value changes", async () => {
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() => {
+				const root = CalculationRoot.fromPersistence({
+					id: "root-123",
+					value: new Decimal(100),
+					userId: "user-123",
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				});
+				root.setOperations([withDescendants("op-a") as CalculationOperation]);
+				return Promise.resolve(root);
+			});
+
+			await service.updateRootValue({
+				id: "root-123",
+				value: 10,
+				userId: "user-123",
+			});
+
+			expect(stored.get("op-b")?.result.toString()).toBe("3600"); // 60 × 60
+			expect(stored.get("op-x")?.result.toString()).toBe("7200");
+		});
+
+		it("should reject the whole edit when a dependent becomes invalid", async () => {
+			// A becomes 0, so Y divides by zero
+			const error = await service
+				.updateOperation({ id: "op-a", operand: -100, userId: "user-123" })
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(SubtreeRecalculationError);
+			expect((error as SubtreeRecalculationError).operationId).toBe("op-y");
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBe(0);
+		});
+
+		it("should reject the whole edit when a dependent's new operand breaks a rule", async () => {
+			// X's tree takes whole operands of at most 30000
+			const restricted = CalculationRoot.fromPersistence({
+				id: "root-456",
+				value: new Decimal(2),
+				rules: RootRules.create({ maxOperand: 30000, integerOperands: true }),
+				userId: "user-123",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+			mockRepo._mocks.findRootById.mockImplementation((id) =>
+				Promise.resolve(
+					id === "root-456"
+						? restricted
+						: CalculationRoot.fromPersistence({
+								id: id as string,
+								value: new Decimal(100),
+								userId: "user-123",
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+				),
+			);
+			const ruleBrokenBy = (operand: number) =>
+				service
+					.updateOperation({ id: "op-a", operand, userId: "user-123" })
+					.then(
+						() => null,
+						(error: unknown) => {
+							expect(error).toBeInstanceOf(SubtreeRecalculationError);
+							const { cause } = error as SubtreeRecalculationError;
+							expect(cause).toBeInstanceOf(RuleViolationError);
+							return (cause as RuleViolationError).rule;
+						},
+					);
+
+			// A = 200, so B = 40000 becomes X's operand
+			expect(await ruleBrokenBy(100)).toBe("operandRange");
+			// A = 100.5, so B = 10100.25 becomes X's operand
+			expect(await ruleBrokenBy(0.5)).toBe("integerOperands");
+			expect(stored.get("op-x")?.operand?.toString()).toBe("22500");
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBe(0);
+		});
+
+		it("should keep the reference when only the operator changes", async () => {
+			const result = await service.updateOperation({
+				id: "op-x",
+				operator: "ADD",
+				userId: "user-123",
+			});
+
+			expect(result.result.toString()).toBe("22502");
+			expect(result.operandOperationId).toBe("op-b");
+		});
+
+		it("should drop the reference when a literal operand is given", async () => {
+			const result = await service.updateOperation({
+				id: "op-x",
+				operand: 3,
+				userId: "user-123",
+			});
+
+			expect(result.result.toString()).toBe("6");
+			expect(result.operandOperationId).toBeNull();
+		});
+
+		it("should reject references that would form a cycle", async () => {
+			// X depends on B through its operand, B on A as a reply
+			for (const [id, operandOperationId] of [
+				["op-b", "op-x"],
+				["op-a", "op-x"],
+				["op-a", "op-b"],
+				["op-x", "op-x"],
+			]) {
+				await expect(
+					service.updateOperation({
+						id: id as string,
+						operandOperationId,
+						userId: "user-123",
+					}),
+				).rejects.toBeInstanceOf(ConflictError);
+			}
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(0);
+		});
+
+		it("should reject moving below a node that depends on the operation", async () => {
+			await expect(
+				service.moveOperation({
+					id: "op-b",
+					parentOperationId: "op-x",
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(ConflictError);
+		});
+	});
+
+	describe("delete", () => {
+		describe("deleteRoot", () => {
+			beforeEach(() => {
+				mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+					Promise.resolve(createTree().root),
+				);
+			});
+
+			it("should refuse when other users replied in the tree", async () => {
+				await expect(
+					service.deleteRoot({ id: "root-123", userId: "user-123" }),
+				).rejects.toBeInstanceOf(ConflictError);
+				expect(mockRepo._mocks.deleteRoot.mock.calls.length).toBe(0);
+			});
+
+			it("should cascade when the tree only has the author's operations", async () => {
+				mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() => {
+					const { root, opA } = createTree();
+					opA.setChildren([]);
+					return Promise.resolve(root);
+				});
+
+				await service.deleteRoot({ id: "root-123", userId: "user-123" });
+
+				expect(mockRepo._mocks.deleteRoot.mock.calls[0]?.[0]).toBe("root-123");
+			});
+
+			it("should let admins delete any tree", async () => {
+				await service.deleteRoot({
+					id: "root-123",
+					userId: "admin-1",
+					isAdmin: true,
+				});
+
+				expect(mockRepo._mocks.deleteRoot.mock.calls.length).toBe(1);
+			});
+
+			it("should only let the author delete", async () => {
+				await expect(
+					service.deleteRoot({ id: "root-123", userId: "user-456" }),
+				).rejects.toBeInstanceOf(ForbiddenError);
+			});
+
+			it("should throw NotFoundError when the root does not exist", async () => {
+				mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+					Promise.resolve(null),
+				);
+
+				await expect(
+					service.deleteRoot({ id: "missing-root", userId: "user-123" }),
+				).rejects.toBeInstanceOf(NotFoundError);
+			});
+
+			it("should invalidate the root list, root and every operation", async () => {
+				await service.deleteRoot({
+					id: "root-123",
+					userId: "admin-1",
+					isAdmin: true,
+				});
+
+				const keys = mockCache._mocks.deleteMany.mock.calls[0]?.[0] as string[];
+				expect(keys).toContain(CacheKeys.ROOT_LIST);
+				expect(keys).toContain(CacheKeys.FULL_TREE);
+				expect(keys).toContain(CacheKeys.ROOT("root-123"));
+				expect(keys).toContain(CacheKeys.OPERATION("op-a"));
+				expect(keys).toContain(CacheKeys.OPERATION("op-b"));
+			});
+		});
+
+		describe("deleteOperation", () => {
+			beforeEach(() => {
+				mockRepo._mocks.findOperationWithDescendants.mockImplementation(
+					(...args: unknown[]) => {
+						const { opA, opB } = createTree();
+						return Promise.resolve(args[0] === "op-b" ? opB : opA);
+					},
+				);
+				mockRepo._mocks.findAncestors.mockImplementation(() =>
+					Promise.resolve([createTree().opA]),
+				);
+			});
+
+			it("should delete an operation without replies from others", async () => {
+				await service.deleteOperation({ id: "op-b", userId: "user-456" });
+
+				expect(mockRepo._mocks.deleteOperation.mock.calls[0]?.[0]).toBe("op-b");
+			});
+
+			it("should refuse when other users replied below it", async () => {
+				await expect(
+					service.deleteOperation({ id: "op-a", userId: "user-123" }),
+				).rejects.toThrow(
+					"Cannot delete this operation: other users have replied to it",
+				);
+				expect(mockRepo._mocks.deleteOperation.mock.calls.length).toBe(0);
+			});
+
+			it("should let admins cascade through other users' replies", async () => {
+				await service.deleteOperation({
+					id: "op-a",
+					userId: "admin-1",
+					isAdmin: true,
+				});
+
+				expect(mockRepo._mocks.deleteOperation.mock.calls.length).toBe(1);
+			});
+
+			it("should only let the author delete", async () => {
+				await expect(
+					service.deleteOperation({ id: "op-b", userId: "user-123" }),
+				).rejects.toBeInstanceOf(ForbiddenError);
+			});
+
+			it("should invalidate the parent, root and deleted operations", async () => {
+				await service.deleteOperation({ id: "op-b", userId: "user-456" });
+
+				const keys = mockCache._mocks.deleteMany.mock.calls[0]?.[0] as string[];
+				expect(keys).toContain(CacheKeys.FULL_TREE);
+				expect(keys).toContain(CacheKeys.ROOT("root-123"));
+				expect(keys).toContain(CacheKeys.OPERATION_CHILDREN("op-a"));
+				expect(keys).toContain(CacheKeys.OPERATION("op-b"));
+			});
+		});
+	});
+
+	describe("root rules", () => {
+		const rules = RootRules.create({
+			allowedOperators: ["MULTIPLY", "DIVIDE"],
+			minOperand: 1,
+			maxOperand: 10,
+			integerOperands: true,
+			maxDepth: 3,
+			maxFanOut: 2,
+		});
+		const createOp = (
+			id: string,
+			parent: { parentRootId?: string; parentOperationId?: string },
+			operator: OperatorType = "MULTIPLY",
+			operand = 2,
+		) =>
+			CalculationOperation.fromPersistence({
+				id,
+				parentRootId: parent.parentRootId ?? null,
+				parentOperationId: parent.parentOperationId ?? null,
+				operator,
+				operand: new Decimal(operand),
+				result: new Decimal(200),
+				userId: "user-123",
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+		const ruleOf = (promise: Promise<unknown>) =>
+			promise.then(
+				() => null,
+				(error: unknown) => {
+					expect(error).toBeInstanceOf(RuleViolationError);
+					return (error as RuleViolationError).rule;
+				},
+			);
+
+		beforeEach(() => {
+			const root = CalculationRoot.fromPersistence({
+				id: "root-123",
+				value: new Decimal(100),
+				userId: "user-123",
+				rules,
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(root),
+			);
+		});
+
+		it("should create roots with validated rules", async () => {
+			const root = await service.createRoot({
+				value: 100,
+				rules: { allowedOperators: ["ADD"], maxDepth: 5 },
+				userId: "user-123",
+			});
+
+			expect(root.rules?.toJSON()).toMatchObject({
+				allowedOperators: ["ADD"],
+				maxDepth: 5,
+			});
+			await expect(
+				service.createRoot({
+					value: 100,
+					rules: { minOperand: 10, maxOperand: 1 },
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidRulesError);
+			expect(mockRepo._mocks.saveRoot.mock.calls.length).toBe(1);
+		});
+
+		it("should reject replies to the root that break a rule", async () => {
+			const reply = (operator: OperatorType, operand: number) =>
+				service.createOperation({
+					parentRootId: "root-123",
+					operator,
+					operand,
+					userId: "user-456",
+				});
+
+			expect(await ruleOf(reply("ADD", 2))).toBe("allowedOperators");
+			expect(await ruleOf(reply("MULTIPLY", 20))).toBe("operandRange");
+			expect(await ruleOf(reply("DIVIDE", 1.5))).toBe("integerOperands");
+			expect(await ruleOf(reply("MULTIPLY", 10))).toBeNull();
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(1);
+		});
+
+		it("should check referenced operands against the range", async () => {
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(createOp("other-op", { parentRootId: "root-456" })),
+			);
+
+			expect(
+				await ruleOf(
+					service.createOperation({
+						parentRootId: "root-123",
+						operator: "MULTIPLY",
+						operandOperationId: "other-op",
+						userId: "user-456",
+					}),
+				),
+			).toBe("operandRange");
+		});
+
+		it("should look up the root of nested replies", async () => {
+			// op-3 is three levels deep, so a reply to it would be four
+			const op1 = createOp("op-1", { parentRootId: "root-123" });
+			const op2 = createOp("op-2", { parentOperationId: "op-1" });
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(createOp("op-3", { parentOperationId: "op-2" })),
+			);
+			mockRepo._mocks.findAncestors.mockImplementation(() =>
+				Promise.resolve([op1, op2]),
+			);
+
+			expect(
+				await ruleOf(
+					service.createOperation({
+						parentOperationId: "op-3",
+						operator: "MULTIPLY",
+						operand: 2,
+						userId: "user-456",
+					}),
+				),
+			).toBe("maxDepth");
+			expect(mockRepo._mocks.findRootById.mock.calls.at(-1)?.[0]).toBe(
+				"root-123",
+			);
+		});
+
+		it("should limit the replies to each node", async () => {
+			mockRepo._mocks.findOperationById.mockImplementation(() =>
+				Promise.resolve(createOp("op-1", { parentRootId: "root-123" })),
+			);
+			mockRepo._mocks.findChildOperations.mockImplementation(() =>
+				Promise.resolve([
+					createOp("reply-1", { parentOperationId: "op-1" }),
+					createOp("reply-2", { parentOperationId: "op-1" }),
+				]),
+			);
+
+			expect(
+				await ruleOf(
+					service.createOperation({
+						parentOperationId: "op-1",
+						operator: "DIVIDE",
+						operand: 2,
+						userId: "user-456",
+					}),
+				),
+			).toBe("maxFanOut");
+			expect(
+				await ruleOf(
+					service.createOperation({
+						parentRootId: "root-123",
+						operator: "DIVIDE",
+						operand: 2,
+						userId: "user-456",
+					}),
+				),
+			).toBeNull();
+		});
+
+		it("should check every step of a chain", async () => {
+			expect(
+				await ruleOf(
+					service.createChain({
+						parentRootId: "root-123",
+						expression: "*2 /2 *3 *4",
+						userId: "user-456",
+					}),
+				),
+			).toBe("maxDepth");
+			expect(
+				await ruleOf(
+					service.previewChain({
+						parentRootId: "root-123",
+						expression: "*2 +3",
+					}),
+				),
+			).toBe("allowedOperators");
+			expect(mockRepo._mocks.saveOperation.mock.calls.length).toBe(0);
+		});
+
+		it("should check the new operator and operand of an edit", async () => {
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(createOp("op-1", { parentRootId: "root-123" })),
+			);
+
+			expect(
+				await ruleOf(
+					service.updateOperation({
+						id: "op-1",
+						operator: "SUBTRACT",
+						userId: "user-123",
+					}),
+				),
+			).toBe("allowedOperators");
+			expect(
+				await ruleOf(
+					service.updateOperation({
+						id: "op-1",
+						operand: 5,
+						userId: "user-123",
+					}),
+				),
+			).toBeNull();
+			expect(mockRepo._mocks.updateOperations.mock.calls.length).toBe(1);
+		});
+
+		describe("moving into a restricted tree", () => {
+			/** op-a, from a tree without rules, with a reply op-b below it */
+			const moveSubtree = (
+				parent: { parentRootId?: string; parentOperationId?: string },
+				reply: { operator?: OperatorType; operand?: number } = {},
+			) => {
+				const opA = createOp("op-a", { parentRootId: "root-456" });
+				opA.setChildren([
+					createOp(
+						"op-b",
+						{ parentOperationId: "op-a" },
+						reply.operator,
+						reply.operand,
+					),
+				]);
+				mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+					Promise.resolve(opA),
+				);
+				return service.moveOperation({
+					id: "op-a",
+					...parent,
+					userId: "user-123",
+				});
+			};
+
+			it("should check the replies that come along", async () => {
+				const toRoot = { parentRootId: "root-123" };
+
+				expect(await ruleOf(moveSubtree(toRoot, { operator: "ADD" }))).toBe(
+					"allowedOperators",
+				);
+				expect(await ruleOf(moveSubtree(toRoot, { operand: 20 }))).toBe(
+					"operandRange",
+				);
+				expect(await ruleOf(moveSubtree(toRoot, { operand: 1.5 }))).toBe(
+					"integerOperands",
+				);
+				expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(0);
+				expect(await ruleOf(moveSubtree(toRoot))).toBeNull();
+				expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(1);
+			});
+
+			it("should count the depth of the whole subtree", async () => {
+				// op-2 is two levels deep, so op-b would end up four levels deep
+				const op1 = createOp("op-1", { parentRootId: "root-123" });
+				mockRepo._mocks.findOperationById.mockImplementation(() =>
+					Promise.resolve(createOp("op-2", { parentOperationId: "op-1" })),
+				);
+				mockRepo._mocks.findAncestors.mockImplementation(() =>
+					Promise.resolve([op1]),
+				);
+
+				expect(await ruleOf(moveSubtree({ parentOperationId: "op-2" }))).toBe(
+					"maxDepth",
+				);
+				expect(mockRepo._mocks.moveOperation.mock.calls.length).toBe(0);
+			});
+
+			it("should limit the replies to the new parent", async () => {
+				mockRepo._mocks.findOperationsByRootId.mockImplementation(() =>
+					Promise.resolve([
+						createOp("reply-1", { parentRootId: "root-123" }),
+						createOp("reply-2", { parentRootId: "root-123" }),
+					]),
+				);
+
+				expect(await ruleOf(moveSubtree({ parentRootId: "root-123" }))).toBe(
+					"maxFanOut",
+				);
+
+				// Moving within the same parent does not add a reply
+				mockRepo._mocks.findOperationsByRootId.mockImplementation(() =>
+					Promise.resolve([
+						createOp("reply-1", { parentRootId: "root-123" }),
+						createOp("op-a", { parentRootId: "root-123" }),
+					]),
+				);
+				expect(
+					await ruleOf(moveSubtree({ parentRootId: "root-123" })),
+				).toBeNull();
+			});
+		});
+
+		it("should not restrict trees without rules", async () => {
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(
+					CalculationRoot.fromPersistence({
+						id: "root-123",
+						value: new Decimal(100),
+						userId: "user-123",
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					}),
+				),
+			);
+
+			const operation = await service.createOperation({
+				parentRootId: "root-123",
+				operator: "ADD",
+				operand: 0.5,
+				userId: "user-456",
+			});
+
+			expect(operation.result.toString()).toBe("100.5");
+			expect(mockRepo._mocks.findOperationsByRootId.mock.calls.length).toBe(0);
+		});
+	});
+
+	describe("target challenge", () => {
+		const challenge = (solution?: { shortestPath: string[] }) =>
+			CalculationRoot.fromPersistence({
+				id: "root-123",
+				value: new Decimal(7),
+				userId: "user-123",
+				target: RootTarget.create({ value: 100 }),
+				solution: solution && {
+					solvedBy: "user-123",
+					solvedAt: new Date("2024-01-01"),
+					firstOperationId: solution.shortestPath.at(-1) ?? "",
+					...solution,
+				},
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
+		const solvingOp = (id: string, result = 100) =>
+			CalculationOperation.fromPersistence({
+				id,
+				parentRootId: "root-123",
+				parentOperationId: null,
+				operator: "ADD",
+				operand: new Decimal(result - 7),
+				result: new Decimal(result),
+				solvesTarget: result === 100,
+				userId: "user-123",
+				createdAt: new Date("2024-01-01"),
+				updatedAt: new Date("2024-01-01"),
+			});
+		const recordedSolution = () =>
+			(
+				mockRepo._mocks.updateRootSolution.mock.calls.at(-1)?.[0] as
+					| CalculationRoot
+					| undefined
+			)?.solution;
+
+		/**
+		 * Operations flagged as reaching the target of root-123, as the
+		 * repository keeps them (paths are only those given here, or the
+		 * operation's own ID once flagged)
+		 */
+		let candidates: SolutionCandidate[];
+		const unflag = (ids: string[]) => {
+			candidates = candidates.filter(
+				({ path }) => !ids.includes(path.at(-1) ?? ""),
+			);
+		};
+
+		beforeEach(() => {
+			candidates = [];
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(challenge()),
+			);
+			mockRepo._mocks.findSolutionCandidates.mockImplementation(() =>
+				Promise.resolve(candidates),
+			);
+			mockRepo._mocks.updateSolvesTarget.mockImplementation((operations) => {
+				const saved = operations as CalculationOperation[];
+				unflag(saved.filter((op) => !op.solvesTarget).map((op) => op.id));
+				const flagged = new Set(candidates.map(({ path }) => path.at(-1)));
+				for (const op of saved) {
+					if (op.solvesTarget && !flagged.has(op.id)) {
+						candidates.push({
+							path: [op.id],
+							userId: op.userId,
+							username: op.username,
+							reachedAt: new Date(),
+						});
+					}
+				}
+				return Promise.resolve();
+			});
+			mockRepo._mocks.deleteOperation.mockImplementation((id) => {
+				unflag([id as string]);
+				return Promise.resolve();
+			});
+		});
+
+		it("should create roots with a validated target", async () => {
+			const root = await service.createRoot({
+				value: 7,
+				target: { value: 100, tolerance: "0.5" },
+				userId: "user-123",
+			});
+
+			expect(root.target?.toJSON()).toEqual({ value: "100", tolerance: "0.5" });
+			await expect(
+				service.createRoot({
+					value: 7,
+					target: { value: 100, tolerance: -1 },
+					userId: "user-123",
+				}),
+			).rejects.toBeInstanceOf(InvalidTargetError);
+		});
+
+		it("should flag a reply reaching the target and record its author", async () => {
+			const operation = await service.createOperation({
+				parentRootId: "root-123",
+				operator: "ADD",
+				operand: 93,
+				userId: "user-456",
+				username: "solver",
+			});
+
+			expect(operation.solvesTarget).toBe(true);
+			expect(mockRepo._mocks.updateSolvesTarget.mock.calls[0]?.[0]).toEqual([
+				operation,
+			]);
+			expect(recordedSolution()).toMatchObject({
+				solvedBy: "user-456",
+				solvedByUsername: "solver",
+				firstOperationId: operation.id,
+				shortestPath: [operation.id],
+			});
+		});
+
+		it("should not record replies missing the target", async () => {
+			const operation = await service.createOperation({
+				parentRootId: "root-123",
+				operator: "ADD",
+				operand: 92,
+				userId: "user-456",
+			});
+
+			expect(operation.solvesTarget).toBe(false);
+			expect(mockRepo._mocks.updateRootSolution.mock.calls.length).toBe(0);
+		});
+
+		it("should keep the first solver but record shorter paths", async () => {
+			const path = ["op-1", "op-2", "op-3"];
+			candidates = [{ path, userId: "user-123", reachedAt: new Date() }];
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(challenge({ shortestPath: path })),
+			);
+
+			const [first, second] = await service.createChain({
+				parentRootId: "root-123",
+				expression: "*10 +30",
+				userId: "user-456",
+			});
+			expect(first?.solvesTarget).toBe(false);
+			expect(second?.solvesTarget).toBe(true);
+			expect(recordedSolution()).toMatchObject({
+				solvedBy: "user-123",
+				firstOperationId: "op-3",
+				shortestPath: [second?.id],
+			});
+		});
+
+		it("should flag recomputed operations when the root value changes", async () => {
+			const existing = challenge();
+			existing.setOperations([solvingOp("op-1", 70)]);
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(existing),
+			);
+
+			// op-1 adds 63, so its result becomes 100
+			const root = await service.updateRootValue({
+				id: "root-123",
+				value: 37,
+				userId: "user-123",
+			});
+
+			expect(root.operations[0]?.solvesTarget).toBe(true);
+			expect(root.solution?.shortestPath).toEqual(["op-1"]);
+			expect(recordedSolution()).toMatchObject({
+				solvedBy: "user-123",
+				shortestPath: ["op-1"],
+			});
+		});
+
+		it("should keep the first solver when the root value changes", async () => {
+			const solvedAt = new Date("2024-01-01");
+			candidates = [
+				{ path: ["op-1"], userId: "user-123", reachedAt: solvedAt },
+				{ path: ["op-2"], userId: "user-456", reachedAt: new Date() },
+			];
+			const tolerant = () =>
+				CalculationRoot.fromPersistence({
+					id: "root-123",
+					value: new Decimal(7),
+					userId: "user-123",
+					target: RootTarget.create({ value: 100, tolerance: 5 }),
+					solution: {
+						solvedBy: "user-123",
+						solvedAt,
+						firstOperationId: "op-1",
+						shortestPath: ["op-1"],
+					},
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				});
+			const existing = tolerant();
+			existing.setOperations([solvingOp("op-2"), solvingOp("op-1")]);
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(existing),
+			);
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(tolerant()),
+			);
+
+			// Every operation in the tree is rewritten, but both still reach 102
+			const root = await service.updateRootValue({
+				id: "root-123",
+				value: 9,
+				userId: "user-123",
+			});
+
+			expect(root.operations.map((op) => op.result.toString())).toEqual([
+				"102",
+				"102",
+			]);
+			expect(candidates.map(({ path }) => path)).toEqual([["op-1"], ["op-2"]]);
+			expect(root.solution).toMatchObject({
+				solvedBy: "user-123",
+				solvedAt,
+				firstOperationId: "op-1",
+			});
+			expect(mockRepo._mocks.updateRootSolution.mock.calls.length).toBe(0);
+		});
+
+		it("should clear the solution when its operation is deleted", async () => {
+			candidates = [
+				{ path: ["op-1"], userId: "user-123", reachedAt: new Date() },
+			];
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(challenge({ shortestPath: ["op-1"] })),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(solvingOp("op-1")),
+			);
+
+			await service.deleteOperation({ id: "op-1", userId: "user-123" });
+
+			expect(mockRepo._mocks.updateRootSolution.mock.calls.length).toBe(1);
+			expect(recordedSolution()).toBeNull();
+		});
+
+		it("should fall back to the remaining solutions after an edit", async () => {
+			candidates = [
+				{ path: ["op-1"], userId: "user-123", reachedAt: new Date() },
+				{
+					path: ["op-2", "op-3"],
+					userId: "user-456",
+					reachedAt: new Date(),
+				},
+			];
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(challenge({ shortestPath: ["op-1"] })),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(solvingOp("op-1")),
+			);
+
+			const updated = await service.updateOperation({
+				id: "op-1",
+				operand: 94,
+				userId: "user-123",
+			});
+
+			expect(updated.solvesTarget).toBe(false);
+			expect(recordedSolution()).toMatchObject({
+				solvedBy: "user-456",
+				firstOperationId: "op-3",
+				shortestPath: ["op-2", "op-3"],
+			});
+		});
+
+		it("should clear the solution of the tree a solving operation leaves", async () => {
+			candidates = [
+				{ path: ["op-1"], userId: "user-123", reachedAt: new Date() },
+			];
+			mockRepo._mocks.findRootById.mockImplementation((id) =>
+				Promise.resolve(
+					id === "root-123"
+						? challenge({ shortestPath: ["op-1"] })
+						: CalculationRoot.fromPersistence({
+								id: id as string,
+								value: new Decimal(7),
+								userId: "user-123",
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+				),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(solvingOp("op-1")),
+			);
+
+			const moved = await service.moveOperation({
+				id: "op-1",
+				parentRootId: "root-456",
+				userId: "user-123",
+			});
+
+			expect(moved.solvesTarget).toBe(false);
+			expect(mockRepo._mocks.updateRootSolution.mock.calls.length).toBe(1);
+			expect(recordedSolution()).toBeNull();
+		});
+	});
+
+	describe("revision history", () => {
+		const savedRevisions = () =>
+			mockRepo._mocks.saveRevisions.mock.calls.flatMap(
+				(call) => call[0] as CalculationRevision[],
+			);
+
+		beforeEach(() => {
+			mockRepo._mocks.findRootById.mockImplementation(() =>
+				Promise.resolve(createTree().root),
+			);
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(createTree().root),
+			);
+			mockRepo._mocks.findOperationWithDescendants.mockImplementation(() =>
+				Promise.resolve(createTree().opA),
+			);
+		});
+
+		it("should record created nodes in the same transaction", async () => {
+			const operation = await service.createOperation({
+				parentRootId: "root-123",
+				operator: "ADD",
+				operand: 5,
+				userId: "user-456",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+			expect(savedRevisions()).toMatchObject([
+				{
+					nodeId: operation.id,
+					nodeKind: "operation",
+					rootId: "root-123",
+					action: "create",
+					before: null,
+					after: { operator: "ADD", operand: "5", result: "105" },
+					userId: "user-456",
+				},
+			]);
+		});
+
+		it("should record every recomputed node, attributed to the editor", async () => {
+			await service.updateRootValue({
+				id: "root-123",
+				value: 40,
+				userId: "user-123",
+			});
+
+			expect(
+				savedRevisions().map(({ nodeId, action, before, after, userId }) => [
+					nodeId,
+					action,
+					before && ("value" in before ? before.value : before.result),
+					after && ("value" in after ? after.value : after.result),
+					userId,
+				]),
+			).toEqual([
+				["root-123", "update", "100", "40", "user-123"],
+				["op-a", "update", "150", "90", "user-123"],
+				["op-b", "update", "50", "30", "user-123"],
+			]);
+		});
+
+		it("should skip nodes an edit leaves unchanged", async () => {
+			await service.updateOperation({
+				id: "op-a",
+				operator: "ADD",
+				userId: "user-123",
+			});
+
+			expect(savedRevisions()).toEqual([]);
+		});
+
+		it("should record every node removed by a cascading delete", async () => {
+			await service.deleteRoot({
+				id: "root-123",
+				userId: "admin-1",
+				isAdmin: true,
+			});
+
+			expect(
+				savedRevisions().map(({ nodeId, action, userId }) => [
+					nodeId,
+					action,
+					userId,
+				]),
+			).toEqual([
+				["root-123", "delete", "admin-1"],
+				["op-a", "delete", "admin-1"],
+				["op-b", "delete", "admin-1"],
+			]);
+		});
+
+		it("should write nothing when the change fails", async () => {
+			mockRepo._mocks.findRootByIdWithOperations.mockImplementation(() =>
+				Promise.resolve(null),
+			);
+
+			await expect(
+				service.deleteRoot({ id: "root-123", userId: "user-123" }),
+			).rejects.toBeInstanceOf(NotFoundError);
+			expect(savedRevisions()).toEqual([]);
+		});
+
+		it("should return a node's history from the repository", async () => {
+			const revisions = [
+				CalculationRevision.forRoot(null, createTree().root, "user-123"),
+			];
+			mockRepo._mocks.findRevisions.mockImplementation(() =>
+				Promise.resolve(revisions),
+			);
+
+			await expect(service.getHistory("root-123")).resolves.toBe(revisions);
+			expect(mockRepo._mocks.findRevisions.mock.calls[0]).toEqual(["root-123"]);
+		});
+	});
+
+	describe("transaction handling", () => {
+		it("should run operations within transaction", async () => {
+			await service.createRoot({
+				value: 100,
+				userId: "user-123",
+			});
+
+			expect(mockUow._mocks.transaction.mock.calls.length).toBe(1);
+		});
+
+		it("should rollback on repository error", async () => {
+			const error = new Error("Database constraint violation");
+			mockRepo._mocks.saveRoot.mockImplementation(() => Promise.reject(error));
+
+			await expect(
+				service.createRoot({
+					value: 100,
+					userId: "user-123",
+				}),
+			).rejects.toThrow("Database constraint violation");
+		});
+	});
+
+	describe("cache-aside pattern", () => {
+		it("should follow cache-aside read pattern", async () => {
+			// First call - cache miss
+			let cacheGetCalled = false;
+			let repoFindCalled = false;
+
+			mockCache._mocks.get.mockImplementation(() => {
+				cacheGetCalled = true;
+				expect(repoFindCalled).toBe(false); // Cache should be checked first
+				return Promise.resolve(null);
+			});
+
+			const roots = [
+				CalculationRoot.fromPersistence({
+					id: "root-1",
+					value: new Decimal(100),
+					userId: "user-1",
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				}),
+			];
+			mockRepo._mocks.findAllRootsWithOperations.mockImplementation(() => {
+				repoFindCalled = true;
+				return Promise.resolve(roots);
+			});
+
+			await service.getFullTree();
+
+			// Verify both were called
+			expect(cacheGetCalled).toBe(true);
+			expect(repoFindCalled).toBe(true);
+
+			// Wait for async cache
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			// Verify result was cached
+			expect(mockCache._mocks.set.mock.calls.length).toBeGreaterThan(0);
+		});
+
+		it("should invalidate related caches on write", async () => {
+			await service.createRoot({
+				value: 100,
+				userId: "user-123",
+			});
+
+			// Should invalidate list and full tree caches
+			expect(mockCache._mocks.deleteMany.mock.calls.length).toBeGreaterThan(0);
 			const deleteCall = mockCache._mocks.deleteMany.mock
-				.calls[0]![0] as string[];
+				.calls[0]?.[0] as string[];
 			expect(deleteCall).toContain(CacheKeys.ROOT_LIST);
 			expect(deleteCall).toContain(CacheKeys.FULL_TREE);
 		});
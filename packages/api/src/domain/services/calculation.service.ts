@@ -6,22 +6,150 @@
  * Uses Cache-Aside pattern with invalidation for caching.
  */
 
-import { CalculationOperation } from "../entities/calculation-operation";
-import { CalculationRoot } from "../entities/calculation-root";
+import {
+	CalculationOperation,
+	type CalculationOperationJSON,
+} from "../entities/calculation-operation";
+import {
+	CalculationRevision,
+	type NodeSnapshot,
+} from "../entities/calculation-revision";
+import {
+	CalculationRoot,
+	type CalculationRootJSON,
+} from "../entities/calculation-root";
+import {
+	type CalculationNodeKind,
+	ConflictError,
+	DomainError,
+	ForbiddenError,
+	InvalidCursorError,
+	InvalidReferenceError,
+	NotFoundError,
+	SubtreeRecalculationError,
+} from "../errors";
 import {
 	CacheKeys,
 	CacheTTL,
 	type ICacheRepository,
 } from "../repositories/cache.repository.interface";
-import type { IUnitOfWork } from "../repositories/calculation.repository.interface";
+import type {
+	DecimalRange,
+	IUnitOfWork,
+	NodeCursor,
+	RootCursor,
+	RootFilters,
+	RootSort,
+	RootStats,
+	RootSummary,
+	SearchHit,
+} from "../repositories/calculation.repository.interface";
+import { ArithmeticExpression } from "../value-objects/arithmetic-expression";
+import {
+	type Decimal,
+	type DecimalInput,
+	toDecimal,
+} from "../value-objects/decimal";
+import {
+	type ChainStep,
+	OperationChain,
+} from "../value-objects/operation-chain";
 import { Operator, type OperatorType } from "../value-objects/operator";
+import {
+	RootRules,
+	type RootRulesInput,
+	type RulePosition,
+} from "../value-objects/root-rules";
+import { RootTarget, type RootTargetInput } from "../value-objects/root-target";
+
+/** Roots per page of the feed when the client does not ask for a size */
+export const ROOT_PAGE_SIZE = 20;
+
+/** Direct operations shown with each root in the feed */
+export const ROOT_PREVIEW_SIZE = 3;
+
+/** Levels of replies loaded by getSubtree when the client does not ask */
+export const SUBTREE_DEPTH = 3;
+
+/** Search hits per page when the client does not ask for a size */
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Most rounds of operand references followed when recomputing dependents.
+ * Cycles are rejected when references are made, so this only guards
+ * against looping forever on inconsistent data.
+ */
+const MAX_DEPENDENCY_ROUNDS = 100;
+
+/**
+ * An operation recomputed (with its replies) because its operand
+ * referenced a changed node, and the root of its tree
+ */
+interface RecalculatedSubtree {
+	operation: CalculationOperation;
+	rootId: string | null;
+}
 
 // ==========================================
 // Input DTOs
 // ==========================================
 
+export interface GetSubtreeInput {
+	/** Root or operation whose replies to load */
+	nodeId: string;
+	/** Levels of replies to load (1 = direct replies only) */
+	depth?: number;
+}
+
+export interface ListRootsInput {
+	/** Cursor from the previous page; omitted for the first page */
+	cursor?: string;
+	limit?: number;
+	/** Feed order; newest first when omitted */
+	sort?: RootSort;
+	/** Only roots by the user with this username */
+	username?: string;
+	minValue?: DecimalInput;
+	maxValue?: DecimalInput;
+	/** Only roots created at or after this time */
+	createdAfter?: Date;
+	/** Only roots created before this time */
+	createdBefore?: Date;
+	/** Only roots without any operations */
+	withoutReplies?: boolean;
+}
+
+/**
+ * Exact value (`equals`) or inclusive bounds (`min` / `max`) to match
+ */
+export interface DecimalRangeInput {
+	equals?: DecimalInput;
+	min?: DecimalInput;
+	max?: DecimalInput;
+}
+
+export interface SearchInput {
+	/** Operation result, or a root's starting value */
+	result?: DecimalRangeInput;
+	/** Operations only */
+	operand?: DecimalRangeInput;
+	/** Value of the root the node belongs to */
+	rootValue?: DecimalRangeInput;
+	/** Operations only */
+	operators?: OperatorType[];
+	/** Author's username */
+	username?: string;
+	/** Cursor from the previous page; omitted for the first page */
+	cursor?: string;
+	limit?: number;
+}
+
 export interface CreateRootInput {
-	value: number;
+	value: DecimalInput;
+	/** Constraints every operation in the tree must follow */
+	rules?: RootRulesInput;
+	/** Number to reach, turning the tree into a challenge */
+	target?: RootTargetInput;
 	userId: string;
 	username?: string;
 }
@@ -30,11 +158,256 @@ export interface CreateOperationInput {
 	parentRootId?: string;
 	parentOperationId?: string;
 	operator: OperatorType;
-	operand: number;
+	/** Omitted (or null) for unary operators */
+	operand?: DecimalInput | null;
+	/**
+	 * Use the current result of this root or operation as the operand
+	 * instead of a literal `operand` (at most one)
+	 */
+	operandRootId?: string;
+	operandOperationId?: string;
 	userId: string;
 	username?: string;
 }
 
+export interface CreateChainInput {
+	parentRootId?: string;
+	parentOperationId?: string;
+	/** Operations applied left to right, e.g. "+5 *2 -3 /4" (see OperationChain) */
+	expression: string;
+	userId: string;
+	username?: string;
+}
+
+export interface ImportExpressionInput {
+	/** Arithmetic expression, e.g. "(100 + 50) * 2 - 30" (see ArithmeticExpression) */
+	expression: string;
+	userId: string;
+	username?: string;
+}
+
+export interface ForkFromNodeInput {
+	/** Operation whose result becomes the new root's value */
+	operationId: string;
+	/** Also copy the operation's replies below the new root */
+	includeDescendants?: boolean;
+	/** Keep the original authors of copied replies instead of the forker */
+	keepAuthors?: boolean;
+	/** The user forking - owns the new root */
+	userId: string;
+	username?: string;
+}
+
+export type PreviewChainInput = Pick<
+	CreateChainInput,
+	"parentRootId" | "parentOperationId" | "expression"
+>;
+
+export interface DeleteInput {
+	id: string;
+	/** The user deleting - must be the author unless an admin */
+	userId: string;
+	/** Admins may delete any node, including other users' replies */
+	isAdmin?: boolean;
+}
+
+export interface UpdateRootValueInput {
+	id: string;
+	value: DecimalInput;
+	/** The user making the edit - must be the author */
+	userId: string;
+}
+
+export interface UpdateOperationInput {
+	id: string;
+	/** Omitted to keep the current operator */
+	operator?: OperatorType;
+	/**
+	 * Omitted to keep the current operand (or to drop it when switching
+	 * to a unary operator); null for unary operators
+	 */
+	operand?: DecimalInput | null;
+	/**
+	 * Use the current result of this root or operation as the operand
+	 * instead of `operand` (at most one)
+	 */
+	operandRootId?: string;
+	operandOperationId?: string;
+	/** The user making the edit - must be the author */
+	userId: string;
+}
+
+export interface MoveOperationInput {
+	id: string;
+	/** New parent: exactly one of a root or another operation */
+	parentRootId?: string;
+	parentOperationId?: string;
+	/** The user moving - must be the author unless an admin */
+	userId: string;
+	/** Admins may move any operation */
+	isAdmin?: boolean;
+}
+
+// ==========================================
+// Output DTOs
+// ==========================================
+
+export interface RootPage {
+	roots: RootSummary[];
+	/** Pass back as `cursor` to fetch the next page; null on the last page */
+	nextCursor: string | null;
+}
+
+export interface SearchPage {
+	hits: SearchHit[];
+	/** Pass back as `cursor` to fetch the next page; null on the last page */
+	nextCursor: string | null;
+}
+
+export interface Subtree {
+	/**
+	 * Direct replies of the requested node, with their own replies nested
+	 * down to the requested depth
+	 */
+	operations: CalculationOperation[];
+	/**
+	 * Number of direct replies of every returned operation, including
+	 * those at the last level whose replies were not loaded
+	 */
+	childCounts: Map<string, number>;
+}
+
+export interface OperationPath {
+	root: CalculationRoot;
+	/** From the root's direct reply down to the requested operation */
+	operations: CalculationOperation[];
+	/** Fully parenthesized expression, e.g. "((100 + 50) × 2) − 30" */
+	expression: string;
+}
+
+export interface SubtreeOperationJSON
+	extends Omit<CalculationOperationJSON, "children"> {
+	childCount: number;
+	children: SubtreeOperationJSON[];
+}
+
+export interface SubtreeJSON {
+	operations: SubtreeOperationJSON[];
+}
+
+/**
+ * Convert a subtree to a plain object for serialization
+ */
+export function subtreeToJSON(subtree: Subtree): SubtreeJSON {
+	const toJSON = (operation: CalculationOperation): SubtreeOperationJSON => ({
+		...operation.toJSON(),
+		childCount: subtree.childCounts.get(operation.id) ?? 0,
+		children: operation.children.map(toJSON),
+	});
+	return { operations: subtree.operations.map(toJSON) };
+}
+
+export interface RootSummaryJSON extends CalculationRootJSON {
+	operationCount: number;
+	treeDepth: number;
+	lastActivityAt: Date;
+}
+
+export interface RootPageJSON {
+	roots: RootSummaryJSON[];
+	nextCursor: string | null;
+}
+
+/**
+ * Convert a page of the root feed to a plain object for serialization
+ */
+export function rootPageToJSON(page: RootPage): RootPageJSON {
+	return {
+		roots: page.roots.map(
+			({ root, operationCount, treeDepth, lastActivityAt }) => ({
+				...root.toJSON(),
+				operationCount,
+				treeDepth,
+				lastActivityAt,
+			}),
+		),
+		nextCursor: page.nextCursor,
+	};
+}
+
+export type SearchHitJSON =
+	| { kind: "root"; node: CalculationRootJSON }
+	| {
+			kind: "operation";
+			node: CalculationOperationJSON;
+			root: CalculationRootJSON;
+			ancestors: CalculationOperationJSON[];
+	  };
+
+export interface SearchPageJSON {
+	hits: SearchHitJSON[];
+	nextCursor: string | null;
+}
+
+/**
+ * Convert a page of search results to a plain object for serialization
+ */
+export function searchPageToJSON(page: SearchPage): SearchPageJSON {
+	return {
+		hits: page.hits.map(
+			(hit): SearchHitJSON =>
+				hit.kind === "root"
+					? { kind: "root", node: hit.node.toJSON() }
+					: {
+							kind: "operation",
+							node: hit.node.toJSON(),
+							root: hit.root.toJSON(),
+							ancestors: hit.ancestors.map((ancestor) => ancestor.toJSON()),
+						},
+		),
+		nextCursor: page.nextCursor,
+	};
+}
+
+export interface OperationPathJSON {
+	root: CalculationRootJSON;
+	operations: CalculationOperationJSON[];
+	expression: string;
+}
+
+/**
+ * Convert an operation's path to a plain object for serialization
+ */
+export function operationPathToJSON(path: OperationPath): OperationPathJSON {
+	return {
+		root: path.root.toJSON(),
+		operations: path.operations.map((operation) => operation.toJSON()),
+		expression: path.expression,
+	};
+}
+
+export interface RootStatsJSON
+	extends Omit<
+		RootStats,
+		"minLeafResult" | "maxLeafResult" | "meanLeafResult"
+	> {
+	minLeafResult: string;
+	maxLeafResult: string;
+	meanLeafResult: string;
+}
+
+/**
+ * Convert root statistics to a plain object for serialization
+ */
+export function rootStatsToJSON(stats: RootStats): RootStatsJSON {
+	return {
+		...stats,
+		minLeafResult: stats.minLeafResult.toString(),
+		maxLeafResult: stats.maxLeafResult.toString(),
+		meanLeafResult: stats.meanLeafResult.toString(),
+	};
+}
+
 // ==========================================
 // Service Implementation
 // ==========================================
@@ -55,9 +428,9 @@ export class CalculationService {
 	 */
 	async getFullTree(): Promise<CalculationRoot[]> {
 		// 1. Try cache first
-		const cached = await this.cache.get<
-			ReturnType<CalculationRoot["toJSON"]>[]
-		>(CacheKeys.FULL_TREE);
+		const cached = await this.cache.get<CalculationRootJSON[]>(
+			CacheKeys.FULL_TREE,
+		);
 
 		if (cached) {
 			// Reconstitute entities from cached data
@@ -75,11 +448,120 @@ export class CalculationService {
 	}
 
 	/**
-	 * Get a single root by ID with its operation tree
+	 * Get a page of the roots matching the filters (newest first unless
+	 * another order is asked for), each with a preview of its first direct
+	 * operations and statistics about its tree.
+	 * Pages are cached individually and dropped whenever anything changes.
+	 * @throws InvalidCursorError if the cursor did not come from a previous
+	 * page in the same order
+	 */
+	async listRoots(input: ListRootsInput = {}): Promise<RootPage> {
+		const limit = input.limit ?? ROOT_PAGE_SIZE;
+		const sort = input.sort ?? "newest";
+		const filters: RootFilters = {
+			username: input.username,
+			minValue:
+				input.minValue === undefined ? undefined : toDecimal(input.minValue),
+			maxValue:
+				input.maxValue === undefined ? undefined : toDecimal(input.maxValue),
+			createdAfter: input.createdAfter,
+			createdBefore: input.createdBefore,
+			withoutReplies: input.withoutReplies,
+		};
+		const cacheKey = CacheKeys.ROOT_PAGE(
+			limit,
+			sort,
+			JSON.stringify(filters),
+			input.cursor,
+		);
+
+		const cached = await this.cache.get<RootPageJSON>(cacheKey);
+		if (cached) {
+			return {
+				roots: cached.roots.map(
+					({ operationCount, treeDepth, lastActivityAt, ...root }) => ({
+						root: this.reconstituteTree(root),
+						operationCount,
+						treeDepth,
+						lastActivityAt: new Date(lastActivityAt),
+					}),
+				),
+				nextCursor: cached.nextCursor,
+			};
+		}
+
+		// Fetch one extra root to find out whether there is a next page
+		const summaries = await this.unitOfWork.calculationRepository.findRootsPage(
+			{
+				sort,
+				filters,
+				after:
+					input.cursor === undefined
+						? undefined
+						: decodeRootCursor(input.cursor, sort),
+				limit: limit + 1,
+				previewSize: ROOT_PREVIEW_SIZE,
+			},
+		);
+
+		const roots = summaries.slice(0, limit);
+		const last = roots.at(-1);
+		const page: RootPage = {
+			roots,
+			nextCursor:
+				summaries.length > limit && last ? encodeRootCursor(last, sort) : null,
+		};
+
+		this.cache
+			.set(cacheKey, rootPageToJSON(page), CacheTTL.ROOT_PAGE)
+			.catch(() => {});
+
+		return page;
+	}
+
+	/**
+	 * Search roots and operations across all trees (newest first), each
+	 * with its root and ancestors so clients can show where it sits.
+	 * Results are not cached, as searches rarely repeat.
+	 * @throws InvalidCursorError if the cursor did not come from a previous page
+	 */
+	async search(input: SearchInput): Promise<SearchPage> {
+		const limit = input.limit ?? SEARCH_PAGE_SIZE;
+
+		// Fetch one extra hit to find out whether there is a next page
+		const hits = await this.unitOfWork.calculationRepository.searchNodes({
+			criteria: {
+				result: toDecimalRange(input.result),
+				operand: toDecimalRange(input.operand),
+				rootValue: toDecimalRange(input.rootValue),
+				operators: input.operators,
+				username: input.username,
+			},
+			after:
+				input.cursor === undefined ? undefined : decodeNodeCursor(input.cursor),
+			limit: limit + 1,
+		});
+
+		const page = hits.slice(0, limit);
+		const last = page.at(-1);
+		return {
+			hits: page,
+			nextCursor:
+				hits.length > limit && last ? encodeNodeCursor(last.node) : null,
+		};
+	}
+
+	/**
+	 * Get a single root by ID with its operation tree, or the tree as it
+	 * was at `asOf` (null if the root did not exist yet or was deleted)
 	 */
-	async getRootById(id: string): Promise<CalculationRoot | null> {
+	async getRootById(id: string, asOf?: Date): Promise<CalculationRoot | null> {
+		if (asOf) {
+			return this.getRootAsOf(id, asOf);
+		}
+
 		// Try cache first
-		const cached = await this.cache.get<ReturnType<CalculationRoot["toJSON"]>>(
+		const cached = await this.cache.get<CalculationRootJSON>(
 			CacheKeys.ROOT(id),
 		);
 
@@ -103,15 +585,167 @@ export class CalculationService {
 		return root;
 	}
 
+	/**
+	 * Rebuild a root's tree as it was at a past moment from its recorded
+	 * history (see rebuildTreeAsOf). Not cached.
+	 */
+	private async getRootAsOf(
+		id: string,
+		asOf: Date,
+	): Promise<CalculationRoot | null> {
+		const repository = this.unitOfWork.calculationRepository;
+		const current = await repository.findRootByIdWithOperations(id);
+		const revisions = await repository.findTreeRevisions(id);
+
+		const tree = rebuildTreeAsOf(id, current, revisions, asOf);
+		return tree && this.reconstituteTree(tree);
+	}
+
+	/**
+	 * Get statistics about a root's tree, computed by the database.
+	 * Cached per root; dropped when an operation in the tree is created,
+	 * edited or deleted, or the root's value changes.
+	 * @throws NotFoundError if the root does not exist
+	 */
+	async getRootStats(rootId: string): Promise<RootStats> {
+		const cacheKey = CacheKeys.ROOT_STATS(rootId);
+
+		const cached = await this.cache.get<RootStatsJSON>(cacheKey);
+		if (cached) {
+			return {
+				...cached,
+				minLeafResult: toDecimal(cached.minLeafResult),
+				maxLeafResult: toDecimal(cached.maxLeafResult),
+				meanLeafResult: toDecimal(cached.meanLeafResult),
+				lastActivityAt: new Date(cached.lastActivityAt),
+			};
+		}
+
+		const stats =
+			await this.unitOfWork.calculationRepository.findRootStats(rootId);
+		if (!stats) {
+			throw new NotFoundError("root", rootId);
+		}
+
+		this.cache
+			.set(cacheKey, rootStatsToJSON(stats), CacheTTL.ROOT_STATS)
+			.catch(() => {});
+
+		return stats;
+	}
+
+	/**
+	 * Get the replies below a root or operation down to a limited depth,
+	 * with reply counts so clients can tell which nodes have more to load.
+	 * Each node's direct replies are cached under its own key
+	 * (ROOT_OPERATIONS / OPERATION_CHILDREN), so the tree is served from
+	 * cache only when every level is cached.
+	 * @throws NotFoundError if no root or operation has the ID
+	 */
+	async getSubtree(input: GetSubtreeInput): Promise<Subtree> {
+		const depth = input.depth ?? SUBTREE_DEPTH;
+
+		const cached = await this.getCachedSubtree(input.nodeId, depth);
+		if (cached) {
+			return cached;
+		}
+
+		// Load one level more than requested so the last level's replies
+		// can be counted (and cached)
+		const repository = this.unitOfWork.calculationRepository;
+		let operations: CalculationOperation[];
+		let nodeKey: string;
+		let nodeTTL: number;
+		if (await repository.findOperationById(input.nodeId)) {
+			operations = await repository.findChildOperations(
+				input.nodeId,
+				depth + 1,
+			);
+			nodeKey = CacheKeys.OPERATION_CHILDREN(input.nodeId);
+			nodeTTL = CacheTTL.OPERATION_CHILDREN;
+		} else if (await repository.findRootById(input.nodeId)) {
+			operations = await repository.findOperationsByRootId(
+				input.nodeId,
+				depth + 1,
+			);
+			nodeKey = CacheKeys.ROOT_OPERATIONS(input.nodeId);
+			nodeTTL = CacheTTL.ROOT_OPERATIONS;
+		} else {
+			throw new NotFoundError("operation", input.nodeId);
+		}
+
+		this.cacheSubtreeLevelsAsync(nodeKey, nodeTTL, operations, depth);
+
+		return this.trimSubtree(operations, depth);
+	}
+
+	/**
+	 * Get the chain from an operation's root down to the operation, with
+	 * the expression it computes
+	 * @throws NotFoundError if the operation does not exist
+	 */
+	async getPath(operationId: string): Promise<OperationPath> {
+		const repository = this.unitOfWork.calculationRepository;
+		const operation = await repository.findOperationById(operationId);
+		if (!operation) {
+			throw new NotFoundError("operation", operationId);
+		}
+
+		const ancestors = await repository.findAncestors(operationId);
+		const operations = [...ancestors, operation];
+		const rootId = operations[0]?.parentRootId;
+		const root = rootId ? await repository.findRootById(rootId) : null;
+		if (!root) {
+			throw new NotFoundError("root", rootId ?? operationId);
+		}
+
+		return {
+			root,
+			operations,
+			expression: buildPathExpression(root.value, operations),
+		};
+	}
+
+	/**
+	 * Get the recorded changes to a root or operation, newest first.
+	 * Deleted nodes keep their history; nodes last changed before history
+	 * was recorded have none.
+	 */
+	async getHistory(nodeId: string): Promise<CalculationRevision[]> {
+		return this.unitOfWork.calculationRepository.findRevisions(nodeId);
+	}
+
+	/**
+	 * Compute the operations a chain would create without saving them,
+	 * so clients can show each intermediate result before submitting
+	 * @throws ExpressionSyntaxError if the expression cannot be parsed
+	 * @throws InvalidOperationError if a step is undefined for its input
+	 * @throws RuleViolationError if a step breaks a rule of the tree
+	 */
+	async previewChain(
+		input: PreviewChainInput,
+	): Promise<CalculationOperation[]> {
+		return this.buildChain(this.unitOfWork, {
+			...input,
+			userId: "",
+		});
+	}
+
 	// ==========================================
 	// Command Methods (with transactions)
 	// ==========================================
 
 	/**
-	 * Create a new calculation root (starting number)
+	 * Create a new calculation root (starting number), optionally with
+	 * rules for the operations in its tree and a target to reach
 	 * Runs in a transaction with cache invalidation
+	 * @throws InvalidRulesError if the rules contradict themselves
+	 * @throws InvalidTargetError if the target tolerance is negative
 	 */
 	async createRoot(input: CreateRootInput): Promise<CalculationRoot> {
+		const rules = input.rules && RootRules.create(input.rules);
+		const target = input.target && RootTarget.create(input.target);
+
 		// Invalidate cache before transaction (optimistic)
 		await this.invalidateCacheForNewRoot();
 
@@ -121,12 +755,17 @@ export class CalculationService {
 				// Create entity
 				const newRoot = CalculationRoot.create({
 					value: input.value,
+					rules,
+					target,
 					userId: input.userId,
 					username: input.username,
 				});
 
 				// Persist
 				await uow.calculationRepository.saveRoot(newRoot);
+				await uow.calculationRepository.saveRevisions([
+					CalculationRevision.forRoot(null, newRoot, input.userId),
+				]);
 
 				return newRoot;
 			});
@@ -145,49 +784,60 @@ export class CalculationService {
 	/**
 	 * Create a new calculation operation (reply)
 	 * Runs in a transaction with cache invalidation
+	 * @throws RuleViolationError if the operation breaks a rule of its tree
 	 */
 	async createOperation(
 		input: CreateOperationInput,
 	): Promise<CalculationOperation> {
 		// Validate input
-		if (!input.parentRootId && !input.parentOperationId) {
-			throw new Error("Operation must have a parent (root or operation)");
-		}
-		if (input.parentRootId && input.parentOperationId) {
-			throw new Error("Operation cannot have both root and operation parent");
-		}
+		validateParent(input);
 
 		// Invalidate cache before transaction (optimistic)
 		await this.invalidateCacheForNewOperation(input);
 
 		try {
 			// Execute in transaction
-			const operation = await this.unitOfWork.transaction(async (uow) => {
-				// Get parent value
-				const parentValue = await this.getParentValue(uow, input);
+			const { operation, rootId } = await this.unitOfWork.transaction(
+				async (uow) => {
+					// Get parent value
+					const parentValue = await this.getParentValue(uow, input);
 
-				// Create operator value object
-				const operator = Operator.create(input.operator);
+					// Create operator value object
+					const operator = Operator.create(input.operator);
 
-				// Create entity (validates and computes result)
-				const newOperation = CalculationOperation.create({
-					parentRootId: input.parentRootId,
-					parentOperationId: input.parentOperationId,
-					operator,
-					operand: input.operand,
-					parentValue,
-					userId: input.userId,
-					username: input.username,
-				});
+					// Create entity (validates and computes result)
+					const newOperation = CalculationOperation.create({
+						parentRootId: input.parentRootId,
+						parentOperationId: input.parentOperationId,
+						operator,
+						operand: await this.resolveOperand(uow, input),
+						operandRootId: input.operandRootId,
+						operandOperationId: input.operandOperationId,
+						parentValue,
+						userId: input.userId,
+						username: input.username,
+					});
+					await this.enforceRootRules(uow, input, [newOperation]);
 
-				// Persist
-				await uow.calculationRepository.saveOperation(newOperation);
+					// Persist
+					await uow.calculationRepository.saveOperation(newOperation);
+					const rootId = await this.findRootId(uow, newOperation);
+					await this.recordSolutions(uow, rootId, [newOperation]);
+					await uow.calculationRepository.saveRevisions(
+						CalculationRevision.forOperations(
+							[],
+							[newOperation],
+							{ rootId },
+							input.userId,
+						),
+					);
 
-				return newOperation;
-			});
+					return { operation: newOperation, rootId };
+				},
+			);
 
 			// Update cache after successful transaction
-			await this.updateCacheAfterOperationCreation(operation);
+			await this.updateCacheAfterOperationCreation(operation, rootId);
 
 			return operation;
 		} catch (error) {
@@ -197,60 +847,954 @@ export class CalculationService {
 		}
 	}
 
-	// ==========================================
-	// Private Helper Methods
-	// ==========================================
+	/**
+	 * Import an arithmetic expression such as "(100 + 50) * 2 - 30" as a
+	 * new root (its first number) with the rest as a chain of operations,
+	 * all saved in one transaction
+	 * @returns The root with the chain nested below it
+	 * @throws ExpressionSyntaxError if the expression cannot be parsed or
+	 * cannot be applied left to right
+	 * @throws InvalidOperationError if a step is undefined for its input
+	 */
+	async importExpression(
+		input: ImportExpressionInput,
+	): Promise<CalculationRoot> {
+		const expression = ArithmeticExpression.parse(input.expression);
 
-	private async getParentValue(
-		uow: IUnitOfWork,
-		input: CreateOperationInput,
-	): Promise<number> {
-		if (input.parentRootId) {
-			const root = await uow.calculationRepository.findRootById(
-				input.parentRootId,
-			);
-			if (!root) {
-				throw new Error(`Parent root not found: ${input.parentRootId}`);
-			}
-			return root.value;
-		}
+		// Invalidate cache before transaction (optimistic)
+		await this.invalidateCacheForNewRoot();
 
-		if (input.parentOperationId) {
-			const operation = await uow.calculationRepository.findOperationById(
-				input.parentOperationId,
-			);
-			if (!operation) {
-				throw new Error(
-					`Parent operation not found: ${input.parentOperationId}`,
+		try {
+			const root = await this.unitOfWork.transaction(async (uow) => {
+				const newRoot = CalculationRoot.create({
+					value: expression.value,
+					userId: input.userId,
+					username: input.username,
+				});
+				const operations = createChainedOperations(
+					expression.steps,
+					{ parentRootId: newRoot.id },
+					newRoot.value,
+					input,
 				);
-			}
-			return operation.result;
-		}
 
-		throw new Error("Must specify parent root or operation");
-	}
+				await uow.calculationRepository.saveRoot(newRoot);
+				for (const operation of operations) {
+					await uow.calculationRepository.saveOperation(operation);
+				}
+				await uow.calculationRepository.saveRevisions([
+					CalculationRevision.forRoot(null, newRoot, input.userId),
+					...CalculationRevision.forOperations(
+						[],
+						operations,
+						{ rootId: newRoot.id },
+						input.userId,
+					),
+				]);
 
-	// ==========================================
-	// Cache Management (Private)
-	// ==========================================
+				// Nest the chain so the returned tree is complete
+				operations.forEach((operation, index) => {
+					const parent = operations[index - 1];
+					if (parent) {
+						parent.addChild(operation);
+					} else {
+						newRoot.addOperation(operation);
+					}
+				});
+				return newRoot;
+			});
 
-	private async invalidateCacheForNewRoot(): Promise<void> {
-		await this.cache
-			.deleteMany([CacheKeys.ROOT_LIST, CacheKeys.FULL_TREE])
-			.catch(() => {});
-	}
+			// Update cache after successful transaction
+			await this.updateCacheAfterRootCreation(root);
 
-	private async updateCacheAfterRootCreation(
-		root: CalculationRoot,
-	): Promise<void> {
-		await Promise.all([
-			this.cache.set(CacheKeys.ROOT(root.id), root.toJSON(), CacheTTL.ROOT),
-			this.cache.delete(CacheKeys.FULL_TREE), // Will rebuild on next read
-		]).catch(() => {});
+			return root;
+		} catch (error) {
+			// On failure, invalidate cache to ensure consistency
+			await this.invalidateCacheForNewRoot();
+			throw error;
+		}
+	}
+
+	/**
+	 * Start a new root from an operation's result, owned by the caller and
+	 * recording where it was forked from. Optionally copies the operation's
+	 * replies below it (new IDs, recomputed results), owned by the caller or
+	 * by their original authors.
+	 * @returns The new root, with the copied replies nested below it
+	 * @throws NotFoundError if the operation does not exist
+	 */
+	async forkFromNode(input: ForkFromNodeInput): Promise<CalculationRoot> {
+		// Invalidate cache before transaction (optimistic)
+		await this.invalidateCacheForNewRoot();
+
+		try {
+			const root = await this.unitOfWork.transaction(async (uow) => {
+				const source = input.includeDescendants
+					? await uow.calculationRepository.findOperationWithDescendants(
+							input.operationId,
+						)
+					: await uow.calculationRepository.findOperationById(
+							input.operationId,
+						);
+				const sourceRootId = source ? await this.findRootId(uow, source) : null;
+				if (!source || !sourceRootId) {
+					throw new NotFoundError("operation", input.operationId);
+				}
+
+				const newRoot = CalculationRoot.create({
+					value: source.result,
+					userId: input.userId,
+					username: input.username,
+					forkedFrom: { rootId: sourceRootId, operationId: source.id },
+				});
+				const copies = input.includeDescendants
+					? copyOperations(
+							source.children,
+							{ parentRootId: newRoot.id },
+							newRoot.value,
+							input.keepAuthors ? undefined : input,
+						)
+					: [];
+
+				await uow.calculationRepository.saveRoot(newRoot);
+				// Pre-order, so every parent is saved before its replies
+				const operations = copies.flatMap((copy) => copy.flatten());
+				for (const operation of operations) {
+					await uow.calculationRepository.saveOperation(operation);
+				}
+				await uow.calculationRepository.saveRevisions([
+					CalculationRevision.forRoot(null, newRoot, input.userId),
+					...CalculationRevision.forOperations(
+						[],
+						operations,
+						{ rootId: newRoot.id },
+						input.userId,
+					),
+				]);
+
+				newRoot.setOperations(copies);
+				return newRoot;
+			});
+
+			// Update cache after successful transaction
+			await this.updateCacheAfterRootCreation(root);
+
+			return root;
+		} catch (error) {
+			// On failure, invalidate cache to ensure consistency
+			await this.invalidateCacheForNewRoot();
+			throw error;
+		}
+	}
+
+	/**
+	 * Create a chain of operations from a typed expression, each replying
+	 * to the previous one. All of them are saved in one transaction, so a
+	 * step that fails leaves nothing behind.
+	 * @returns The created operations, first (the reply to the parent) to last
+	 * @throws ExpressionSyntaxError if the expression cannot be parsed
+	 * @throws InvalidOperationError if a step is undefined for its input
+	 * @throws RuleViolationError if a step breaks a rule of the tree
+	 */
+	async createChain(input: CreateChainInput): Promise<CalculationOperation[]> {
+		validateParent(input);
+
+		// Invalidate cache before transaction (optimistic)
+		await this.invalidateCacheForNewOperation(input);
+
+		try {
+			const { operations, rootId } = await this.unitOfWork.transaction(
+				async (uow) => {
+					const chain = await this.buildChain(uow, input);
+					for (const operation of chain) {
+						await uow.calculationRepository.saveOperation(operation);
+					}
+
+					const [first] = chain;
+					const rootId = first ? await this.findRootId(uow, first) : null;
+					await this.recordSolutions(uow, rootId, chain);
+					await uow.calculationRepository.saveRevisions(
+						CalculationRevision.forOperations(
+							[],
+							chain,
+							{ rootId },
+							input.userId,
+						),
+					);
+					return { operations: chain, rootId };
+				},
+			);
+
+			// Only the parent's entries changed; the new operations are not cached yet
+			const [first] = operations;
+			if (first) {
+				await this.updateCacheAfterOperationCreation(first, rootId);
+			}
+
+			return operations;
+		} catch (error) {
+			// On failure, invalidate cache to ensure consistency
+			await this.invalidateCacheForNewOperation(input);
+			throw error;
+		}
+	}
+
+	/**
+	 * Change the starting number of a root.
+	 * Every operation in the tree is recomputed in a single transaction;
+	 * if any of them becomes invalid nothing is changed.
+	 * @throws NotFoundError if the root does not exist
+	 * @throws ForbiddenError if the user is not the author of the root
+	 * @throws SubtreeRecalculationError if an operation would become invalid
+	 */
+	async updateRootValue(input: UpdateRootValueInput): Promise<CalculationRoot> {
+		const { root, dependents } = await this.unitOfWork.transaction(
+			async (uow) => {
+				const existing =
+					await uow.calculationRepository.findRootByIdWithOperations(input.id);
+				if (!existing) {
+					throw new NotFoundError("root", input.id);
+				}
+				if (existing.userId !== input.userId) {
+					throw new ForbiddenError("Only the author can edit this root");
+				}
+
+				const updated = existing.withValue(input.value);
+				updated.setOperations(
+					this.recalculateChildren(existing.operations, updated.value),
+				);
+
+				const operations = updated.operations.flatMap((op) => op.flatten());
+				await uow.calculationRepository.updateRoot(updated);
+				await uow.calculationRepository.updateOperations(operations);
+				const solved = await this.recordSolutions(uow, updated.id, operations);
+				solved?.setOperations([...updated.operations]);
+				await uow.calculationRepository.saveRevisions([
+					CalculationRevision.forRoot(existing, updated, input.userId),
+					...CalculationRevision.forOperations(
+						existing.operations.flatMap((op) => op.flatten()),
+						operations,
+						{ rootId: updated.id },
+						input.userId,
+					),
+				]);
+
+				return {
+					root: solved ?? updated,
+					dependents: await this.recalculateDependents(
+						uow,
+						[updated.id, ...operations.map((op) => op.id)],
+						input.userId,
+					),
+				};
+			},
+		);
+
+		// Nothing is written on failure, so only a successful edit invalidates
+		await this.invalidateCacheForTree(root);
+		await this.invalidateCacheForDependents(dependents);
+
+		return root;
+	}
+
+	/**
+	 * Change the operator and/or operand of an operation.
+	 * The result of the operation and of every descendant is recomputed in a
+	 * single transaction, along with the operations whose operand references
+	 * any of them; if any node becomes invalid nothing is changed.
+	 * @throws NotFoundError if the operation or a referenced node does not exist
+	 * @throws ForbiddenError if the user is not the author of the operation
+	 * @throws ConflictError if the new operand reference depends on the operation
+	 * @throws RuleViolationError if the new operator or operand breaks a rule
+	 * of the tree
+	 * @throws SubtreeRecalculationError if a descendant would become invalid
+	 */
+	async updateOperation(
+		input: UpdateOperationInput,
+	): Promise<CalculationOperation> {
+		const { operation, rootId, dependents } = await this.unitOfWork.transaction(
+			async (uow) => {
+				const existing =
+					await uow.calculationRepository.findOperationWithDescendants(
+						input.id,
+					);
+				if (!existing) {
+					throw new NotFoundError("operation", input.id);
+				}
+				if (existing.userId !== input.userId) {
+					throw new ForbiddenError("Only the author can edit this operation");
+				}
+				if (
+					input.operandOperationId &&
+					(await this.findDependentIds(uow, existing)).has(
+						input.operandOperationId,
+					)
+				) {
+					throw new ConflictError(
+						"An operation cannot use its own result, or a result that depends on it, as its operand",
+					);
+				}
+
+				const parentValue = await this.getParentValue(uow, {
+					parentRootId: existing.parentRootId ?? undefined,
+					parentOperationId: existing.parentOperationId ?? undefined,
+				});
+
+				const operator = input.operator
+					? Operator.create(input.operator)
+					: existing.operator;
+				// A kept operand keeps its reference, if any
+				const operand =
+					input.operandRootId || input.operandOperationId
+						? await this.resolveOperand(uow, input)
+						: input.operand !== undefined
+							? input.operand
+							: operator.isUnary
+								? null
+								: undefined;
+
+				// Recompute the edited node, then everything below it
+				const updated = existing.recalculate(parentValue, {
+					operator,
+					operand,
+					operandRootId: input.operandRootId,
+					operandOperationId: input.operandOperationId,
+				});
+				updated.setChildren(
+					this.recalculateChildren(existing.children, updated.result),
+				);
+
+				// The operation keeps its place, so only the operator and
+				// operand are checked against the rules of its tree
+				const rootId = await this.findRootId(uow, existing);
+				const root = rootId
+					? await uow.calculationRepository.findRootById(rootId)
+					: null;
+				root?.rules?.checkOperation(updated);
+
+				await uow.calculationRepository.updateOperations(updated.flatten());
+				await this.recordSolutions(uow, rootId, updated.flatten());
+				await uow.calculationRepository.saveRevisions(
+					CalculationRevision.forOperations(
+						existing.flatten(),
+						updated.flatten(),
+						{ rootId },
+						input.userId,
+					),
+				);
+
+				return {
+					operation: updated,
+					rootId,
+					dependents: await this.recalculateDependents(
+						uow,
+						updated.flatten().map((op) => op.id),
+						input.userId,
+					),
+				};
+			},
+		);
+
+		// Nothing is written on failure, so only a successful edit invalidates
+		await this.invalidateCacheForSubtree(operation, rootId);
+		await this.invalidateCacheForDependents(dependents);
+
+		return operation;
+	}
+
+	/**
+	 * Move an operation, with all of its replies, below another root or
+	 * operation, possibly in another tree. The moved operation and every
+	 * descendant are recomputed against the new parent value in a single
+	 * transaction; if any node becomes invalid nothing is changed.
+	 * @throws NotFoundError if the operation or the new parent does not exist
+	 * @throws ForbiddenError if the user is neither the author nor an admin
+	 * @throws ConflictError if the new parent is the operation, one of its
+	 * replies or another node whose result depends on it
+	 * @throws SubtreeRecalculationError if a descendant would become invalid
+	 * @throws RuleViolationError if the operation or one of its replies breaks
+	 * a rule of the new parent's tree
+	 */
+	async moveOperation(
+		input: MoveOperationInput,
+	): Promise<CalculationOperation> {
+		validateParent(input);
+
+		const { existing, moved, fromRootId, toRootId, dependents } =
+			await this.unitOfWork.transaction(async (uow) => {
+				const existing =
+					await uow.calculationRepository.findOperationWithDescendants(
+						input.id,
+					);
+				if (!existing) {
+					throw new NotFoundError("operation", input.id);
+				}
+				if (!input.isAdmin && existing.userId !== input.userId) {
+					throw new ForbiddenError("Only the author can move this operation");
+				}
+				if (
+					input.parentOperationId &&
+					(await this.findDependentIds(uow, existing)).has(
+						input.parentOperationId,
+					)
+				) {
+					throw new ConflictError(
+						"Cannot move an operation below itself or a node that depends on it",
+					);
+				}
+
+				const parent = await this.findNode(uow, {
+					rootId: input.parentRootId,
+					operationId: input.parentOperationId,
+				});
+				const fromRootId = await this.findRootId(uow, existing);
+
+				// Recompute the moved node, then everything below it
+				const moved = existing.moveTo(input, parent.value);
+				moved.setChildren(
+					this.recalculateChildren(existing.children, moved.result),
+				);
+				const placement = await this.findRulePosition(uow, input, existing.id);
+				placement?.rules.checkSubtree(moved, placement.position);
+
+				await uow.calculationRepository.moveOperation(moved);
+				await uow.calculationRepository.updateOperations(moved.flatten());
+				await this.recordSolutions(uow, parent.rootId, moved.flatten());
+				if (fromRootId !== parent.rootId) {
+					await this.refreshSolution(
+						uow,
+						fromRootId
+							? await uow.calculationRepository.findRootById(fromRootId)
+							: null,
+					);
+				}
+				await uow.calculationRepository.saveRevisions(
+					CalculationRevision.forOperations(
+						existing.flatten(),
+						moved.flatten(),
+						{ rootId: parent.rootId, previousRootId: fromRootId },
+						input.userId,
+					),
+				);
+
+				return {
+					existing,
+					moved,
+					fromRootId,
+					toRootId: parent.rootId,
+					dependents: await this.recalculateDependents(
+						uow,
+						moved.flatten().map((op) => op.id),
+						input.userId,
+					),
+				};
+			});
+
+		// Nothing is written on failure, so only a successful move invalidates
+		// both where the subtree was and where it is now
+		await this.invalidateCacheForSubtree(existing, fromRootId);
+		await this.invalidateCacheForSubtree(moved, toRootId);
+		await this.invalidateCacheForDependents(dependents);
+
+		return moved;
+	}
+
+	/**
+	 * Delete a root together with its whole operation tree.
+	 * Authors may only delete trees that contain nothing but their own
+	 * operations; admins may delete any tree.
+	 * @throws NotFoundError if the root does not exist
+	 * @throws ForbiddenError if the user is neither the author nor an admin
+	 * @throws ConflictError if other users have replied in the tree
+	 */
+	async deleteRoot(input: DeleteInput): Promise<void> {
+		const root = await this.unitOfWork.transaction(async (uow) => {
+			const existing =
+				await uow.calculationRepository.findRootByIdWithOperations(input.id);
+			if (!existing) {
+				throw new NotFoundError("root", input.id);
+			}
+			const operations = existing.operations.flatMap((op) => op.flatten());
+			this.ensureCanDelete("root", existing.userId, operations, input);
+
+			await uow.calculationRepository.deleteRoot(input.id);
+			await uow.calculationRepository.saveRevisions([
+				CalculationRevision.forRoot(existing, null, input.userId),
+				...CalculationRevision.forOperations(
+					operations,
+					[],
+					{ rootId: existing.id },
+					input.userId,
+				),
+			]);
+			return existing;
+		});
+
+		await this.invalidateCacheForTree(root, [CacheKeys.ROOT_LIST]);
+	}
+
+	/**
+	 * Delete an operation together with all of its replies.
+	 * Authors may only delete subtrees that contain nothing but their own
+	 * operations; admins may delete any subtree.
+	 * @throws NotFoundError if the operation does not exist
+	 * @throws ForbiddenError if the user is neither the author nor an admin
+	 * @throws ConflictError if other users have replied below the operation
+	 */
+	async deleteOperation(input: DeleteInput): Promise<void> {
+		const { operation, rootId } = await this.unitOfWork.transaction(
+			async (uow) => {
+				const existing =
+					await uow.calculationRepository.findOperationWithDescendants(
+						input.id,
+					);
+				if (!existing) {
+					throw new NotFoundError("operation", input.id);
+				}
+				this.ensureCanDelete(
+					"operation",
+					existing.userId,
+					existing.children.flatMap((child) => child.flatten()),
+					input,
+				);
+
+				const rootId = await this.findRootId(uow, existing);
+				await uow.calculationRepository.deleteOperation(input.id);
+				await this.refreshSolution(
+					uow,
+					rootId ? await uow.calculationRepository.findRootById(rootId) : null,
+				);
+				await uow.calculationRepository.saveRevisions(
+					CalculationRevision.forOperations(
+						existing.flatten(),
+						[],
+						{ rootId },
+						input.userId,
+					),
+				);
+				return { operation: existing, rootId };
+			},
+		);
+
+		await this.invalidateCacheForSubtree(operation, rootId);
+	}
+
+	// ==========================================
+	// Private Helper Methods
+	// ==========================================
+
+	/**
+	 * Deletion policy: admins can delete anything; authors can delete their
+	 * own node only while every reply below it is theirs too
+	 */
+	private ensureCanDelete(
+		kind: CalculationNodeKind,
+		authorId: string,
+		descendants: CalculationOperation[],
+		input: DeleteInput,
+	): void {
+		if (input.isAdmin) {
+			return;
+		}
+		if (authorId !== input.userId) {
+			throw new ForbiddenError(`Only the author can delete this ${kind}`);
+		}
+		if (descendants.some((op) => op.userId !== input.userId)) {
+			throw new ConflictError(
+				`Cannot delete this ${kind}: other users have replied to it`,
+			);
+		}
+	}
+
+	/**
+	 * Recompute operations (and everything below them) against a new
+	 * parent value, returning the recomputed trees
+	 */
+	private recalculateChildren(
+		children: readonly CalculationOperation[],
+		parentValue: Decimal,
+	): CalculationOperation[] {
+		return children.map((child) => {
+			let recalculated: CalculationOperation;
+			try {
+				recalculated = child.recalculate(parentValue);
+			} catch (error) {
+				if (error instanceof DomainError) {
+					throw new SubtreeRecalculationError(child.id, error);
+				}
+				throw error;
+			}
+			recalculated.setChildren(
+				this.recalculateChildren(child.children, recalculated.result),
+			);
+			return recalculated;
+		});
+	}
+
+	/**
+	 * Find the root an operation belongs to from its ancestors
+	 */
+	private async findRootId(
+		uow: IUnitOfWork,
+		operation: CalculationOperation,
+	): Promise<string | null> {
+		if (operation.parentRootId) {
+			return operation.parentRootId;
+		}
+		// The outermost ancestor is the root's direct reply
+		const [outermost] = await uow.calculationRepository.findAncestors(
+			operation.id,
+		);
+		return outermost?.parentRootId ?? null;
+	}
+
+	/**
+	 * Find the value (a root's value or an operation's result) and the root
+	 * of the given root or operation
+	 * @throws NotFoundError if the node does not exist
+	 */
+	private async findNode(
+		uow: IUnitOfWork,
+		node: { rootId?: string | null; operationId?: string | null },
+	): Promise<{ value: Decimal; rootId: string | null }> {
+		if (node.rootId) {
+			const root = await uow.calculationRepository.findRootById(node.rootId);
+			if (!root) {
+				throw new NotFoundError("root", node.rootId);
+			}
+			return { value: root.value, rootId: root.id };
+		}
+
+		if (node.operationId) {
+			const operation = await uow.calculationRepository.findOperationById(
+				node.operationId,
+			);
+			if (!operation) {
+				throw new NotFoundError("operation", node.operationId);
+			}
+			return {
+				value: operation.result,
+				rootId: await this.findRootId(uow, operation),
+			};
+		}
+
+		throw new InvalidReferenceError("Must specify a root or operation");
+	}
+
+	/**
+	 * The operand to use: the current result of the referenced node, if one
+	 * is given, otherwise the literal operand
+	 * @throws NotFoundError if the referenced node does not exist
+	 */
+	private async resolveOperand(
+		uow: IUnitOfWork,
+		input: Pick<
+			CreateOperationInput,
+			"operand" | "operandRootId" | "operandOperationId"
+		>,
+	): Promise<DecimalInput | null | undefined> {
+		if (!input.operandRootId && !input.operandOperationId) {
+			return input.operand;
+		}
+		if (input.operand !== undefined && input.operand !== null) {
+			throw new InvalidReferenceError(
+				"Cannot specify both an operand and an operand reference",
+			);
+		}
+		const node = await this.findNode(uow, {
+			rootId: input.operandRootId,
+			operationId: input.operandOperationId,
+		});
+		return node.value;
+	}
+
+	/**
+	 * Find every operation whose result depends on the given one (loaded
+	 * with its descendants), including itself: its replies, the operations
+	 * whose operand references any of those, their replies, and so on
+	 */
+	private async findDependentIds(
+		uow: IUnitOfWork,
+		operation: CalculationOperation,
+	): Promise<Set<string>> {
+		const ids = new Set<string>();
+		let frontier = operation.flatten();
+		while (frontier.length > 0) {
+			for (const op of frontier) {
+				ids.add(op.id);
+			}
+			const referencing =
+				await uow.calculationRepository.findReferencingOperations(
+					frontier.map((op) => op.id),
+				);
+			frontier = [];
+			for (const dependent of referencing) {
+				if (ids.has(dependent.id)) {
+					continue;
+				}
+				const subtree =
+					await uow.calculationRepository.findOperationWithDescendants(
+						dependent.id,
+					);
+				frontier.push(
+					...(subtree?.flatten() ?? []).filter((op) => !ids.has(op.id)),
+				);
+			}
+		}
+		return ids;
+	}
+
+	/**
+	 * Recompute the operations whose operand references one of the changed
+	 * nodes (and everything below them), then the operations referencing
+	 * those in turn, until no result changes. Each round is written before
+	 * the next one reads it; cycles are rejected when references are made.
+	 * The revisions are attributed to the user whose change caused them.
+	 * @returns Each recomputed operation (with its replies) and its root
+	 * @throws SubtreeRecalculationError if an operation would become invalid
+	 * or its new operand would break a rule of its tree
+	 */
+	private async recalculateDependents(
+		uow: IUnitOfWork,
+		changedIds: string[],
+		userId: string,
+	): Promise<RecalculatedSubtree[]> {
+		const recalculated: RecalculatedSubtree[] = [];
+		let pending = changedIds;
+		for (let round = 0; pending.length > 0; round++) {
+			if (round >= MAX_DEPENDENCY_ROUNDS) {
+				throw new Error("Operand references are nested too deeply");
+			}
+			const referencing =
+				await uow.calculationRepository.findReferencingOperations(pending);
+			pending = [];
+
+			for (const { id } of referencing) {
+				const existing =
+					await uow.calculationRepository.findOperationWithDescendants(id);
+				if (!existing) {
+					continue;
+				}
+				const { value: operand } = await this.findNode(uow, {
+					rootId: existing.operandRootId,
+					operationId: existing.operandOperationId,
+				});
+				if (existing.operand?.equals(operand)) {
+					continue;
+				}
+
+				const parentValue = await this.getParentValue(uow, {
+					parentRootId: existing.parentRootId ?? undefined,
+					parentOperationId: existing.parentOperationId ?? undefined,
+				});
+				// The new operand must still follow the rules of the dependent's tree
+				const rootId = await this.findRootId(uow, existing);
+				const root = rootId
+					? await uow.calculationRepository.findRootById(rootId)
+					: null;
+				let updated: CalculationOperation;
+				try {
+					updated = existing.recalculate(parentValue, {
+						operand,
+						operandRootId: existing.operandRootId,
+						operandOperationId: existing.operandOperationId,
+					});
+					root?.rules?.checkOperation(updated);
+				} catch (error) {
+					if (error instanceof DomainError) {
+						throw new SubtreeRecalculationError(existing.id, error);
+					}
+					throw error;
+				}
+				updated.setChildren(
+					this.recalculateChildren(existing.children, updated.result),
+				);
+
+				const operations = updated.flatten();
+				await uow.calculationRepository.updateOperations(operations);
+				await this.recordSolutions(uow, rootId, operations);
+				await uow.calculationRepository.saveRevisions(
+					CalculationRevision.forOperations(
+						existing.flatten(),
+						operations,
+						{ rootId },
+						userId,
+					),
+				);
+				pending.push(...operations.map((op) => op.id));
+				recalculated.push({ operation: updated, rootId });
+			}
+		}
+		return recalculated;
+	}
+
+	/**
+	 * Create the operations of a chain, each replying to the previous one
+	 * (the first replies to the given parent). Nothing is saved.
+	 */
+	private async buildChain(
+		uow: IUnitOfWork,
+		input: CreateChainInput,
+	): Promise<CalculationOperation[]> {
+		validateParent(input);
+		const chain = OperationChain.parse(input.expression);
+
+		const parentValue = await this.getParentValue(uow, input);
+		const operations = createChainedOperations(
+			chain.steps,
+			input,
+			parentValue,
+			input,
+		);
+		await this.enforceRootRules(uow, input, operations);
+		return operations;
+	}
+
+	/**
+	 * Check operations about to be added below a parent (a single reply, or
+	 * a chain each replying to the previous one) against the rules of the
+	 * parent's tree
+	 * @throws RuleViolationError if one of them breaks a rule
+	 */
+	private async enforceRootRules(
+		uow: IUnitOfWork,
+		parent: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+		operations: readonly CalculationOperation[],
+	): Promise<void> {
+		const placement = await this.findRulePosition(uow, parent);
+		placement?.rules.check(operations, placement.position);
+	}
+
+	/**
+	 * Find the rules of the parent's tree and where a new reply to the parent
+	 * would sit, not counting the given operation among the parent's replies
+	 * @returns null if the tree has no rules
+	 */
+	private async findRulePosition(
+		uow: IUnitOfWork,
+		parent: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+		excludedId?: string,
+	): Promise<{ rules: RootRules; position: RulePosition } | null> {
+		const repository = uow.calculationRepository;
+		// Direct replies to the root are one level deep
+		let rootId = parent.parentRootId ?? null;
+		let depth = 1;
+		if (parent.parentOperationId) {
+			const ancestors = await repository.findAncestors(
+				parent.parentOperationId,
+			);
+			const outermost =
+				ancestors[0] ??
+				(await repository.findOperationById(parent.parentOperationId));
+			rootId = outermost?.parentRootId ?? null;
+			depth = ancestors.length + 2;
+		}
+
+		const root = rootId ? await repository.findRootById(rootId) : null;
+		if (!root?.rules) {
+			return null;
+		}
+		const replies = parent.parentOperationId
+			? await repository.findChildOperations(parent.parentOperationId)
+			: await repository.findOperationsByRootId(root.id);
+		const replyCount = replies.filter((op) => op.id !== excludedId).length;
+		return { rules: root.rules, position: { depth, replyCount } };
+	}
+
+	/**
+	 * Flag which of the just saved operations reach the target of their
+	 * tree, then recompute the tree's solution. Every operation is flagged,
+	 * so operations moved out of a challenge lose their flag.
+	 * @returns The root (without operations) with its recomputed solution
+	 */
+	private async recordSolutions(
+		uow: IUnitOfWork,
+		rootId: string | null,
+		operations: CalculationOperation[],
+	): Promise<CalculationRoot | null> {
+		const root = rootId
+			? await uow.calculationRepository.findRootById(rootId)
+			: null;
+		for (const operation of operations) {
+			operation.setSolvesTarget(
+				root?.target?.isReachedBy(operation.result) ?? false,
+			);
+		}
+		await uow.calculationRepository.updateSolvesTarget(operations);
+		return this.refreshSolution(uow, root);
+	}
+
+	/**
+	 * Recompute who reached a root's target first and its shortest solution
+	 * from the operations currently flagged as reaching it, after any change
+	 * to the tree (including deletes and moves out of it)
+	 */
+	private async refreshSolution(
+		uow: IUnitOfWork,
+		root: CalculationRoot | null,
+	): Promise<CalculationRoot | null> {
+		if (!root?.target) {
+			return root;
+		}
+		const solved = root.withSolutionFrom(
+			await uow.calculationRepository.findSolutionCandidates(root.id),
+		);
+		if (solved !== root) {
+			await uow.calculationRepository.updateRootSolution(solved);
+		}
+		return solved;
+	}
+
+	private async getParentValue(
+		uow: IUnitOfWork,
+		input: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+	): Promise<Decimal> {
+		if (input.parentRootId) {
+			const root = await uow.calculationRepository.findRootById(
+				input.parentRootId,
+			);
+			if (!root) {
+				throw new NotFoundError("root", input.parentRootId);
+			}
+			return root.value;
+		}
+
+		if (input.parentOperationId) {
+			const operation = await uow.calculationRepository.findOperationById(
+				input.parentOperationId,
+			);
+			if (!operation) {
+				throw new NotFoundError("operation", input.parentOperationId);
+			}
+			return operation.result;
+		}
+
+		throw new InvalidReferenceError("Must specify parent root or operation");
+	}
+
+	// ==========================================
+	// Cache Management (Private)
+	// ==========================================
+
+	private async invalidateCacheForNewRoot(): Promise<void> {
+		await Promise.all([
+			this.cache.deleteMany([CacheKeys.ROOT_LIST, CacheKeys.FULL_TREE]),
+			this.cache.invalidateByPrefix(CacheKeys.ROOT_PAGES),
+		]).catch(() => {});
+	}
+
+	private async updateCacheAfterRootCreation(
+		root: CalculationRoot,
+	): Promise<void> {
+		await Promise.all([
+			this.cache.set(CacheKeys.ROOT(root.id), root.toJSON(), CacheTTL.ROOT),
+			this.cache.delete(CacheKeys.FULL_TREE), // Will rebuild on next read
+			this.cache.invalidateByPrefix(CacheKeys.ROOT_PAGES),
+		]).catch(() => {});
 	}
 
 	private async invalidateCacheForNewOperation(
-		input: CreateOperationInput,
+		input: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
 	): Promise<void> {
 		const keysToInvalidate: string[] = [CacheKeys.FULL_TREE];
 
@@ -258,6 +1802,7 @@ export class CalculationService {
 			keysToInvalidate.push(
 				CacheKeys.ROOT(input.parentRootId),
 				CacheKeys.ROOT_OPERATIONS(input.parentRootId),
+				CacheKeys.ROOT_STATS(input.parentRootId),
 			);
 		}
 
@@ -268,11 +1813,12 @@ export class CalculationService {
 			);
 		}
 
-		await this.cache.deleteMany(keysToInvalidate).catch(() => {});
+		await this.invalidateKeysAndRootPages(keysToInvalidate);
 	}
 
 	private async updateCacheAfterOperationCreation(
 		operation: CalculationOperation,
+		rootId: string | null,
 	): Promise<void> {
 		await Promise.all([
 			this.cache.set(
@@ -280,10 +1826,142 @@ export class CalculationService {
 				operation.toJSON(),
 				CacheTTL.OPERATION,
 			),
-			this.cache.delete(CacheKeys.FULL_TREE), // Will rebuild on next read
+			// Will rebuild on next read; the root may have been solved
+			this.cache.deleteMany(
+				rootId
+					? [
+							CacheKeys.FULL_TREE,
+							CacheKeys.ROOT(rootId),
+							CacheKeys.ROOT_STATS(rootId),
+						]
+					: [CacheKeys.FULL_TREE],
+			),
+			this.cache.invalidateByPrefix(CacheKeys.ROOT_PAGES),
+		]).catch(() => {});
+	}
+
+	/**
+	 * Invalidate everything cached for a root and its operation tree
+	 */
+	private async invalidateCacheForTree(
+		root: CalculationRoot,
+		extraKeys: string[] = [],
+	): Promise<void> {
+		const keysToInvalidate: string[] = [
+			...extraKeys,
+			CacheKeys.FULL_TREE,
+			CacheKeys.ROOT(root.id),
+			CacheKeys.ROOT_OPERATIONS(root.id),
+			CacheKeys.ROOT_STATS(root.id),
+		];
+
+		for (const node of root.operations.flatMap((op) => op.flatten())) {
+			keysToInvalidate.push(
+				CacheKeys.OPERATION(node.id),
+				CacheKeys.OPERATION_CHILDREN(node.id),
+			);
+		}
+
+		await this.invalidateKeysAndRootPages(keysToInvalidate);
+	}
+
+	/**
+	 * Invalidate everything cached for an operation, its parent and root,
+	 * and every operation below it
+	 */
+	private async invalidateCacheForSubtree(
+		operation: CalculationOperation,
+		rootId: string | null,
+	): Promise<void> {
+		const keysToInvalidate: string[] = [CacheKeys.FULL_TREE];
+
+		if (rootId) {
+			keysToInvalidate.push(
+				CacheKeys.ROOT(rootId),
+				CacheKeys.ROOT_STATS(rootId),
+			);
+		}
+		if (operation.parentRootId) {
+			keysToInvalidate.push(CacheKeys.ROOT_OPERATIONS(operation.parentRootId));
+		}
+		if (operation.parentOperationId) {
+			keysToInvalidate.push(
+				CacheKeys.OPERATION_CHILDREN(operation.parentOperationId),
+			);
+		}
+		for (const node of operation.flatten()) {
+			keysToInvalidate.push(
+				CacheKeys.OPERATION(node.id),
+				CacheKeys.OPERATION_CHILDREN(node.id),
+			);
+		}
+
+		await this.invalidateKeysAndRootPages(keysToInvalidate);
+	}
+
+	/**
+	 * Invalidate the subtrees recomputed because their operand referenced
+	 * a changed node (they may be in other trees)
+	 */
+	private async invalidateCacheForDependents(
+		dependents: RecalculatedSubtree[],
+	): Promise<void> {
+		for (const { operation, rootId } of dependents) {
+			await this.invalidateCacheForSubtree(operation, rootId);
+		}
+	}
+
+	/**
+	 * Delete the given keys along with every cached page of the root feed.
+	 * Any change can affect a page (its previews, counts or membership),
+	 * so pages are never invalidated individually.
+	 */
+	private async invalidateKeysAndRootPages(keys: string[]): Promise<void> {
+		await Promise.all([
+			this.cache.deleteMany(keys),
+			this.cache.invalidateByPrefix(CacheKeys.ROOT_PAGES),
 		]).catch(() => {});
 	}
 
+	/**
+	 * Cache the direct replies of the node and of every operation down to
+	 * `depth` levels below it (their reply lists were loaded in full)
+	 */
+	private cacheSubtreeLevelsAsync(
+		nodeKey: string,
+		nodeTTL: number,
+		operations: readonly CalculationOperation[],
+		depth: number,
+	): void {
+		const toShallowJSON = (children: readonly CalculationOperation[]) =>
+			children.map((child) => ({ ...child.toJSON(), children: [] }));
+
+		const writes = [
+			this.cache.set(nodeKey, toShallowJSON(operations), nodeTTL),
+		];
+		const cacheLevel = (
+			level: readonly CalculationOperation[],
+			remaining: number,
+		) => {
+			if (remaining === 0) {
+				return;
+			}
+			for (const operation of level) {
+				writes.push(
+					this.cache.set(
+						CacheKeys.OPERATION_CHILDREN(operation.id),
+						toShallowJSON(operation.children),
+						CacheTTL.OPERATION_CHILDREN,
+					),
+				);
+				cacheLevel(operation.children, remaining - 1);
+			}
+		};
+		cacheLevel(operations, depth);
+
+		Promise.all(writes).catch(() => {});
+	}
+
 	private cacheTreesAsync(trees: CalculationRoot[]): void {
 		this.cache
 			.set(
@@ -294,24 +1972,112 @@ export class CalculationService {
 			.catch(() => {});
 	}
 
+	// ==========================================
+	// Subtree Assembly
+	// ==========================================
+
+	/**
+	 * Assemble a subtree from the per-node reply caches, level by level.
+	 * Returns null if any level is missing.
+	 */
+	private async getCachedSubtree(
+		nodeId: string,
+		depth: number,
+	): Promise<Subtree | null> {
+		const [asOperation, asRoot] = await Promise.all([
+			this.cache.get<CalculationOperationJSON[]>(
+				CacheKeys.OPERATION_CHILDREN(nodeId),
+			),
+			this.cache.get<CalculationOperationJSON[]>(
+				CacheKeys.ROOT_OPERATIONS(nodeId),
+			),
+		]);
+		const topLevel = asOperation ?? asRoot;
+		if (!topLevel) {
+			return null;
+		}
+
+		const operations = topLevel.map((op) => this.reconstituteOperation(op));
+		const childCounts = new Map<string, number>();
+
+		// The last level's reply lists are only read to count them
+		let level = operations;
+		for (let current = 1; current <= depth && level.length > 0; current++) {
+			const replyLists = await Promise.all(
+				level.map((op) =>
+					this.cache.get<CalculationOperationJSON[]>(
+						CacheKeys.OPERATION_CHILDREN(op.id),
+					),
+				),
+			);
+			if (replyLists.some((replies) => replies === null)) {
+				return null;
+			}
+
+			const nextLevel: CalculationOperation[] = [];
+			level.forEach((op, i) => {
+				const replies = replyLists[i] ?? [];
+				childCounts.set(op.id, replies.length);
+				if (current < depth) {
+					const children = replies.map((reply) =>
+						this.reconstituteOperation(reply),
+					);
+					op.setChildren(children);
+					nextLevel.push(...children);
+				}
+			});
+			level = nextLevel;
+		}
+
+		return { operations, childCounts };
+	}
+
+	/**
+	 * Cut a subtree loaded one level deeper than requested back to `depth`
+	 * levels, keeping the reply counts of the last level
+	 */
+	private trimSubtree(
+		operations: readonly CalculationOperation[],
+		depth: number,
+	): Subtree {
+		const childCounts = new Map<string, number>();
+		const trim = (
+			level: readonly CalculationOperation[],
+			remaining: number,
+		): CalculationOperation[] =>
+			level.map((operation) => {
+				childCounts.set(operation.id, operation.children.length);
+				operation.setChildren(
+					remaining > 1 ? trim(operation.children, remaining - 1) : [],
+				);
+				return operation;
+			});
+
+		return { operations: trim(operations, depth), childCounts };
+	}
+
 	// ==========================================
 	// Entity Reconstitution from Cache
 	// ==========================================
 
-	private reconstituteTrees(
-		data: ReturnType<CalculationRoot["toJSON"]>[],
-	): CalculationRoot[] {
+	private reconstituteTrees(data: CalculationRootJSON[]): CalculationRoot[] {
 		return data.map((d) => this.reconstituteTree(d));
 	}
 
-	private reconstituteTree(
-		data: ReturnType<CalculationRoot["toJSON"]>,
-	): CalculationRoot {
+	private reconstituteTree(data: CalculationRootJSON): CalculationRoot {
 		const root = CalculationRoot.fromPersistence({
 			id: data.id,
-			value: data.value,
+			value: toDecimal(data.value),
 			userId: data.userId,
 			username: data.username,
+			forkedFromRootId: data.forkedFromRootId,
+			forkedFromOperationId: data.forkedFromOperationId,
+			rules: data.rules ? RootRules.fromJSON(data.rules) : null,
+			target: data.target ? RootTarget.fromJSON(data.target) : null,
+			solution: data.solution && {
+				...data.solution,
+				solvedAt: new Date(data.solution.solvedAt),
+			},
 			createdAt: new Date(data.createdAt),
 			updatedAt: new Date(data.updatedAt),
 		});
@@ -325,15 +2091,18 @@ export class CalculationService {
 	}
 
 	private reconstituteOperation(
-		data: ReturnType<CalculationOperation["toJSON"]>,
+		data: CalculationOperationJSON,
 	): CalculationOperation {
 		const operation = CalculationOperation.fromPersistence({
 			id: data.id,
 			parentRootId: data.parentRootId,
 			parentOperationId: data.parentOperationId,
 			operator: data.operator,
-			operand: data.operand,
-			result: data.result,
+			operand: data.operand === null ? null : toDecimal(data.operand),
+			operandRootId: data.operandRootId,
+			operandOperationId: data.operandOperationId,
+			result: toDecimal(data.result),
+			solvesTarget: data.solvesTarget,
 			userId: data.userId,
 			username: data.username,
 			createdAt: new Date(data.createdAt),
@@ -348,3 +2117,355 @@ export class CalculationService {
 		return operation;
 	}
 }
+
+/**
+ * Create the operations for chain steps, each replying to the previous
+ * one (the first replies to `parent`, whose value is `parentValue`).
+ * Nothing is saved.
+ */
+function createChainedOperations(
+	steps: readonly ChainStep[],
+	parent: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+	parentValue: Decimal,
+	author: Pick<CreateOperationInput, "userId" | "username">,
+): CalculationOperation[] {
+	let previous: CalculationOperation | null = null;
+	return steps.map(({ operator, operand }) => {
+		const operation = CalculationOperation.create({
+			parentRootId: previous ? undefined : parent.parentRootId,
+			parentOperationId: previous ? previous.id : parent.parentOperationId,
+			operator,
+			operand,
+			parentValue: previous ? previous.result : parentValue,
+			userId: author.userId,
+			username: author.username,
+		});
+		previous = operation;
+		return operation;
+	});
+}
+
+/**
+ * Copy operations and their replies below a new parent (whose value is
+ * `parentValue`) with new IDs and recomputed results, owned by `author`
+ * or, when it is omitted, by the original authors. Referenced operands
+ * are copied as plain numbers. Nothing is saved.
+ */
+function copyOperations(
+	operations: readonly CalculationOperation[],
+	parent: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+	parentValue: Decimal,
+	author?: Pick<CreateOperationInput, "userId" | "username">,
+): CalculationOperation[] {
+	return operations.map((operation) => {
+		const copy = CalculationOperation.create({
+			...parent,
+			operator: operation.operator,
+			operand: operation.operand,
+			parentValue,
+			userId: author ? author.userId : operation.userId,
+			username: author ? author.username : operation.username,
+		});
+		copy.setChildren(
+			copyOperations(
+				operation.children,
+				{ parentOperationId: copy.id },
+				copy.result,
+				author,
+			),
+		);
+		return copy;
+	});
+}
+
+/**
+ * Rebuild a root's tree as it was at `asOf` from its current state and the
+ * revisions of every node that was ever in it (oldest first). A node has
+ * the values of its last revision up to `asOf` (none if that deleted it),
+ * or else those from before its next revision (none if that created it);
+ * nodes without revisions keep their current values if they existed by
+ * then. Operations are placed by their parent IDs at that moment.
+ * @returns The tree in serialized form, or null if the root did not exist
+ */
+function rebuildTreeAsOf(
+	rootId: string,
+	current: CalculationRoot | null,
+	revisions: readonly CalculationRevision[],
+	asOf: Date,
+): CalculationRootJSON | null {
+	const currentNodes = new Map<string, CalculationRoot | CalculationOperation>(
+		current
+			? [current, ...current.operations.flatMap((op) => op.flatten())].map(
+					(node) => [node.id, node],
+				)
+			: [],
+	);
+	const states = new Map<
+		string,
+		{
+			snapshot: NodeSnapshot;
+			username?: string;
+			createdAt: Date;
+			updatedAt: Date;
+		}
+	>();
+	for (const node of currentNodes.values()) {
+		if (node.createdAt <= asOf) {
+			states.set(node.id, {
+				snapshot:
+					node instanceof CalculationRoot
+						? CalculationRevision.snapshotRoot(node)
+						: CalculationRevision.snapshotOperation(node),
+				username: node.username,
+				createdAt: node.createdAt,
+				updatedAt: node.updatedAt,
+			});
+		}
+	}
+
+	const revisionsByNode = new Map<string, CalculationRevision[]>();
+	for (const revision of revisions) {
+		const nodeRevisions = revisionsByNode.get(revision.nodeId) ?? [];
+		nodeRevisions.push(revision);
+		revisionsByNode.set(revision.nodeId, nodeRevisions);
+	}
+	for (const [nodeId, nodeRevisions] of revisionsByNode) {
+		const past = nodeRevisions.filter((r) => r.createdAt <= asOf);
+		const last = past.at(-1);
+		const snapshot = last
+			? last.after
+			: (nodeRevisions[past.length]?.before ?? null);
+		if (!snapshot) {
+			states.delete(nodeId);
+			continue;
+		}
+
+		const node = currentNodes.get(nodeId);
+		const createdAt =
+			nodeRevisions.find((r) => r.action === "create")?.createdAt ??
+			node?.createdAt ??
+			nodeRevisions[0]?.createdAt ??
+			asOf;
+		states.set(nodeId, {
+			snapshot,
+			username:
+				node?.username ??
+				nodeRevisions.find((r) => r.userId === snapshot.userId)?.username,
+			createdAt,
+			updatedAt: last?.createdAt ?? createdAt,
+		});
+	}
+
+	const root = states.get(rootId);
+	if (!root || !("value" in root.snapshot)) {
+		return null;
+	}
+
+	const repliesByParent = new Map<string, CalculationOperationJSON[]>();
+	for (const [id, { snapshot, ...state }] of states) {
+		if ("value" in snapshot) {
+			continue;
+		}
+		const parentId = snapshot.parentRootId ?? snapshot.parentOperationId;
+		if (!parentId) {
+			continue;
+		}
+		const replies = repliesByParent.get(parentId) ?? [];
+		replies.push({
+			...snapshot,
+			...state,
+			id,
+			solvesTarget:
+				current?.target?.isReachedBy(toDecimal(snapshot.result)) ?? false,
+			children: [],
+		});
+		repliesByParent.set(parentId, replies);
+	}
+	// Only operations connected to the root are part of its tree
+	const attachReplies = (parentId: string): CalculationOperationJSON[] =>
+		(repliesByParent.get(parentId) ?? [])
+			.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+			.map((reply) => ({ ...reply, children: attachReplies(reply.id) }));
+	const operations = attachReplies(rootId);
+	const treeIds = new Set<string>();
+	const collectIds = (replies: CalculationOperationJSON[]) => {
+		for (const reply of replies) {
+			treeIds.add(reply.id);
+			collectIds(reply.children);
+		}
+	};
+	collectIds(operations);
+	const solution =
+		current?.solution && current.solution.solvedAt <= asOf
+			? current.solution
+			: null;
+
+	return {
+		...root.snapshot,
+		id: rootId,
+		// Rules are set once, when the root is created
+		rules: current?.rules?.toJSON() ?? null,
+		target: current?.target?.toJSON() ?? null,
+		// Shown once reached, along with the shortest path known now if all
+		// of it was part of the tree by then
+		solution: solution && {
+			...solution,
+			shortestPath: solution.shortestPath.every((id) => treeIds.has(id))
+				? [...solution.shortestPath]
+				: [],
+		},
+		username: root.username,
+		createdAt: root.createdAt,
+		updatedAt: root.updatedAt,
+		operations,
+	};
+}
+
+/**
+ * Ensure a new operation replies to exactly one root or operation
+ */
+function validateParent(
+	input: Pick<CreateOperationInput, "parentRootId" | "parentOperationId">,
+): void {
+	if (!input.parentRootId && !input.parentOperationId) {
+		throw new InvalidReferenceError(
+			"Operation must have a parent (root or operation)",
+		);
+	}
+	if (input.parentRootId && input.parentOperationId) {
+		throw new InvalidReferenceError(
+			"Operation cannot have both root and operation parent",
+		);
+	}
+}
+
+/**
+ * Build the fully parenthesized expression an operation chain computes
+ * from its root value, e.g. "((100 + 50) × 2) − 30". Negative numbers
+ * are parenthesized wherever they are combined with an operator.
+ */
+function buildPathExpression(
+	rootValue: Decimal,
+	operations: CalculationOperation[],
+): string {
+	const literal = (value: Decimal) =>
+		value.isNegative() ? `(${value.toString()})` : value.toString();
+
+	if (operations.length === 0) {
+		return rootValue.toString();
+	}
+	return operations.reduce(
+		(expression, operation, index) =>
+			operation.operator.format(
+				index === 0 ? expression : `(${expression})`,
+				operation.operand && literal(operation.operand),
+			),
+		literal(rootValue),
+	);
+}
+
+/**
+ * Turn an exact value or bounds into the range the repository matches
+ */
+function toDecimalRange(
+	range: DecimalRangeInput | undefined,
+): DecimalRange | undefined {
+	if (!range) {
+		return undefined;
+	}
+	if (range.equals !== undefined) {
+		const value = toDecimal(range.equals);
+		return { min: value, max: value };
+	}
+	return {
+		min: range.min === undefined ? undefined : toDecimal(range.min),
+		max: range.max === undefined ? undefined : toDecimal(range.max),
+	};
+}
+
+// ==========================================
+// Feed Cursors
+// ==========================================
+
+const CURSOR_SEPARATOR = "|";
+
+/**
+ * Encode a node's position in newest-first results as an opaque cursor
+ */
+function encodeNodeCursor(node: { createdAt: Date; id: string }): string {
+	return `${node.createdAt.toISOString()}${CURSOR_SEPARATOR}${node.id}`;
+}
+
+/**
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+function decodeNodeCursor(cursor: string): NodeCursor {
+	const separatorIndex = cursor.indexOf(CURSOR_SEPARATOR);
+	const createdAt = new Date(cursor.slice(0, separatorIndex));
+	const id = cursor.slice(separatorIndex + 1);
+	if (separatorIndex === -1 || Number.isNaN(createdAt.getTime()) || !id) {
+		throw new InvalidCursorError(cursor);
+	}
+	return { createdAt, id };
+}
+
+/** Orders whose cursor holds a date rather than a number */
+const DATE_SORTS: readonly RootSort[] = ["newest", "oldest", "recently_active"];
+
+/**
+ * The value of the field the feed is sorted by for a root
+ */
+function rootSortValue(summary: RootSummary, sort: RootSort): Date | string {
+	switch (sort) {
+		case "newest":
+		case "oldest":
+			return summary.root.createdAt;
+		case "recently_active":
+			return summary.lastActivityAt;
+		case "most_operations":
+			return String(summary.operationCount);
+		case "deepest":
+			return String(summary.treeDepth);
+		case "largest_value":
+		case "smallest_value":
+			return summary.root.value.toFixed();
+	}
+}
+
+/**
+ * Encode a root's feed position in the given order as an opaque cursor
+ * string. The order is included so a cursor cannot be reused with another.
+ */
+function encodeRootCursor(summary: RootSummary, sort: RootSort): string {
+	const value = rootSortValue(summary, sort);
+	return [
+		sort,
+		value instanceof Date ? value.toISOString() : value,
+		summary.root.id,
+	].join(CURSOR_SEPARATOR);
+}
+
+/**
+ * @throws InvalidCursorError if the cursor is malformed or was issued for
+ * another order
+ */
+function decodeRootCursor(cursor: string, sort: RootSort): RootCursor {
+	const [cursorSort, value = "", ...idParts] = cursor.split(CURSOR_SEPARATOR);
+	const id = idParts.join(CURSOR_SEPARATOR);
+	if (cursorSort !== sort || !id) {
+		throw new InvalidCursorError(cursor);
+	}
+
+	if (DATE_SORTS.includes(sort)) {
+		const date = new Date(value);
+		if (Number.isNaN(date.getTime())) {
+			throw new InvalidCursorError(cursor);
+		}
+		return { sortValue: date, id };
+	}
+
+	if (!/^-?\d+(\.\d+)?$/.test(value)) {
+		throw new InvalidCursorError(cursor);
+	}
+	return { sortValue: value, id };
+}
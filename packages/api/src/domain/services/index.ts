@@ -1,5 +1,38 @@
 export {
 	CalculationService,
+	type CreateChainInput,
 	type CreateOperationInput,
 	type CreateRootInput,
+	type DecimalRangeInput,
+	type DeleteInput,
+	type ForkFromNodeInput,
+	type GetSubtreeInput,
+	type ImportExpressionInput,
+	type ListRootsInput,
+	type MoveOperationInput,
+	type OperationPath,
+	type OperationPathJSON,
+	operationPathToJSON,
+	type PreviewChainInput,
+	ROOT_PAGE_SIZE,
+	ROOT_PREVIEW_SIZE,
+	type RootPage,
+	type RootPageJSON,
+	type RootStatsJSON,
+	type RootSummaryJSON,
+	rootPageToJSON,
+	rootStatsToJSON,
+	SEARCH_PAGE_SIZE,
+	type SearchHitJSON,
+	type SearchInput,
+	type SearchPage,
+	type SearchPageJSON,
+	SUBTREE_DEPTH,
+	type Subtree,
+	type SubtreeJSON,
+	type SubtreeOperationJSON,
+	searchPageToJSON,
+	subtreeToJSON,
+	type UpdateOperationInput,
+	type UpdateRootValueInput,
 } from "./calculation.service";
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { ExpressionSyntaxError } from "../errors";
+import { ArithmeticExpression } from "./arithmetic-expression";
+import { MAX_CHAIN_LENGTH } from "./operation-chain";
+
+const summarize = (expression: ArithmeticExpression) => ({
+	value: expression.value.toString(),
+	steps: expression.steps.map(({ operator, operand }) => [
+		operator.toString(),
+		operand?.toString() ?? null,
+	]),
+});
+
+describe("ArithmeticExpression Value Object", () => {
+	describe("parse", () => {
+		it("should read a left-to-right expression as a root and chain", () => {
+			expect(
+				summarize(ArithmeticExpression.parse("(100 + 50) * 2 - 30")),
+			).toEqual({
+				value: "100",
+				steps: [
+					["ADD", "50"],
+					["MULTIPLY", "2"],
+					["SUBTRACT", "30"],
+				],
+			});
+		});
+
+		it("should apply precedence that keeps the chain left to right", () => {
+			expect(summarize(ArithmeticExpression.parse("2 * 3 + 4"))).toEqual({
+				value: "2",
+				steps: [
+					["MULTIPLY", "3"],
+					["ADD", "4"],
+				],
+			});
+		});
+
+		it("should accept display symbols", () => {
+			expect(
+				summarize(ArithmeticExpression.parse("(9 × 2 − 3) ÷ 5 mod 2")),
+			).toEqual({
+				value: "9",
+				steps: [
+					["MULTIPLY", "2"],
+					["SUBTRACT", "3"],
+					["DIVIDE", "5"],
+					["MODULO", "2"],
+				],
+			});
+		});
+
+		it("should read unary operators as functions, brackets and signs", () => {
+			expect(
+				summarize(ArithmeticExpression.parse("-⌊√|sqrt(16) * -2| + 1⌋²")),
+			).toEqual({
+				value: "16",
+				steps: [
+					["SQRT", null],
+					["MULTIPLY", "-2"],
+					["ABS", null],
+					["SQRT", null],
+					["ADD", "1"],
+					["FLOOR", null],
+					["SQUARE", null],
+					["NEGATE", null],
+				],
+			});
+			expect(summarize(ArithmeticExpression.parse("root(27, 3) - 1"))).toEqual({
+				value: "27",
+				steps: [
+					["NTH_ROOT", "3"],
+					["SUBTRACT", "1"],
+				],
+			});
+		});
+
+		it("should keep a minus sign before a number as part of it", () => {
+			expect(summarize(ArithmeticExpression.parse("-5 - -3"))).toEqual({
+				value: "-5",
+				steps: [["SUBTRACT", "-3"]],
+			});
+		});
+
+		it("should negate a parenthesized expression", () => {
+			expect(summarize(ArithmeticExpression.parse("-(5 + 1)"))).toEqual({
+				value: "5",
+				steps: [
+					["ADD", "1"],
+					["NEGATE", null],
+				],
+			});
+		});
+
+		it("should accept a plain number as a root without operations", () => {
+			expect(summarize(ArithmeticExpression.parse(" 42.5 "))).toEqual({
+				value: "42.5",
+				steps: [],
+			});
+		});
+
+		it("should reject a right side that is not a single number", () => {
+			expect(() => ArithmeticExpression.parse("100 + 50 * 2")).toThrow(
+				new ExpressionSyntaxError(
+					4,
+					'the right side of + ("50 * 2") is not a single number, so the expression cannot be applied left to right',
+				),
+			);
+			expect(() => ArithmeticExpression.parse("2 ^ 3 ^ 2")).toThrow(
+				'the right side of ^ ("3 ^ 2")',
+			);
+			expect(() => ArithmeticExpression.parse("1 - (2 - 3)")).toThrow(
+				'the right side of − ("2 - 3")',
+			);
+		});
+
+		it("should reject malformed expressions", () => {
+			expect(() => ArithmeticExpression.parse("(1 + 2")).toThrow(
+				'Invalid expression at character 7: expected ")" before the end',
+			);
+			expect(() => ArithmeticExpression.parse("1 + ")).toThrow(
+				"unexpected end of expression",
+			);
+			expect(() => ArithmeticExpression.parse("1 2")).toThrow(
+				'Invalid expression at character 3: unexpected "2"',
+			);
+			expect(() => ArithmeticExpression.parse("1 & 2")).toThrow(
+				'unexpected character "&"',
+			);
+			expect(() => ArithmeticExpression.parse("cos(1)")).toThrow(
+				'unknown function "cos"',
+			);
+			expect(() => ArithmeticExpression.parse("")).toThrow(
+				ExpressionSyntaxError,
+			);
+		});
+
+		it("should never evaluate the text as code", () => {
+			expect(() => ArithmeticExpression.parse("process.exit(1)")).toThrow(
+				ExpressionSyntaxError,
+			);
+		});
+
+		it("should reject chains longer than the limit", () => {
+			const expression = `1${" + 1".repeat(MAX_CHAIN_LENGTH + 1)}`;
+
+			expect(() => ArithmeticExpression.parse(expression)).toThrow(
+				`at most ${MAX_CHAIN_LENGTH} operations can be imported`,
+			);
+		});
+	});
+});
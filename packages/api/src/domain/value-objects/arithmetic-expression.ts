@@ -0,0 +1,368 @@
+/**
+ * Arithmetic Expression Value Object
+ *
+ * An ordinary arithmetic expression, e.g. "(100 + 50) * 2 - 30", read as
+ * a starting number followed by a chain of operations. Parsed by hand
+ * (never evaluated as code) with the usual precedence: parentheses and
+ * functions, then ^ (right-associative), unary minus, then × ÷ mod, then
+ * + −.
+ *
+ * Only expressions that work left to right can be imported: the right
+ * side of every binary operator must be a single number, applied to the
+ * result so far. "100 + 50 * 2" is rejected because 50 * 2 has to be
+ * worked out first; "(100 + 50) * 2" is accepted.
+ *
+ * Besides the binary operators, the unary operators are written as
+ * functions (sqrt(x), abs(x), floor(x), ceil(x), sqr(x), recip(x),
+ * neg(x)), with their display symbols (√x, |x|, ⌊x⌋, ⌈x⌉, x²) or, for
+ * negation, as a minus sign. root(x, n) takes the n-th root.
+ */
+
+import { ExpressionSyntaxError } from "../errors";
+import { Decimal } from "./decimal";
+import { type ChainStep, MAX_CHAIN_LENGTH } from "./operation-chain";
+import { Operator, type OperatorType } from "./operator";
+
+type Token =
+	| { kind: "number"; text: string; position: number }
+	| { kind: "symbol"; text: string; position: number }
+	| { kind: "name"; text: string; position: number }
+	| { kind: "end"; text: ""; position: number };
+
+type Node =
+	| { kind: "number"; value: Decimal; start: number; end: number }
+	| {
+			kind: "apply";
+			operator: Operator;
+			/** The value the operator is applied to */
+			input: Node;
+			/** Right-hand side of binary operators; null for unary ones */
+			operand: Node | null;
+			/** Where the operator was written, for error messages */
+			position: number;
+			start: number;
+			end: number;
+	  };
+
+const BINARY_SYMBOLS: Record<string, OperatorType> = {
+	"+": "ADD",
+	"-": "SUBTRACT",
+	"−": "SUBTRACT", // minus sign
+	"*": "MULTIPLY",
+	"×": "MULTIPLY", // multiplication sign
+	"/": "DIVIDE",
+	"÷": "DIVIDE", // division sign
+	"%": "MODULO",
+	mod: "MODULO",
+	"^": "POWER",
+};
+
+const ADDITIVE = ["+", "-", "−"];
+const MULTIPLICATIVE = ["*", "×", "/", "÷", "%", "mod"];
+const MINUS_SIGNS = ["-", "−"];
+
+/** Unary operators written as functions, e.g. sqrt(9) */
+const FUNCTIONS: Record<string, OperatorType> = {
+	neg: "NEGATE",
+	abs: "ABS",
+	sqrt: "SQRT",
+	sqr: "SQUARE",
+	recip: "RECIPROCAL",
+	floor: "FLOOR",
+	ceil: "CEIL",
+};
+
+/** Unary operators written as enclosing brackets, e.g. |x| */
+const BRACKETS: Record<string, { close: string; operator: OperatorType }> = {
+	"|": { close: "|", operator: "ABS" },
+	"⌊": { close: "⌋", operator: "FLOOR" },
+	"⌈": { close: "⌉", operator: "CEIL" },
+};
+
+const SQUARE_SIGN = "²";
+const ROOT_SIGN = "√";
+
+const SYMBOLS = new Set([
+	...Object.keys(BINARY_SYMBOLS).filter((symbol) => symbol.length === 1),
+	...Object.entries(BRACKETS).flatMap(([open, { close }]) => [open, close]),
+	"(",
+	")",
+	",",
+	SQUARE_SIGN,
+	ROOT_SIGN,
+]);
+
+export class ArithmeticExpression {
+	private constructor(
+		/** The starting number */
+		readonly value: Decimal,
+		/** Operations applied to it, left to right */
+		readonly steps: readonly ChainStep[],
+	) {}
+
+	/**
+	 * Parse an expression into a starting number and a chain of operations
+	 * @throws ExpressionSyntaxError if the text is not a valid expression,
+	 * or cannot be applied left to right (the reason says why)
+	 */
+	static parse(expression: string): ArithmeticExpression {
+		const parser = new Parser(tokenize(expression));
+		const tree = parser.parseExpression();
+		parser.expectEnd();
+
+		const steps: ChainStep[] = [];
+		const value = linearize(tree, steps, expression);
+		if (steps.length > MAX_CHAIN_LENGTH) {
+			throw new ExpressionSyntaxError(
+				0,
+				`at most ${MAX_CHAIN_LENGTH} operations can be imported`,
+			);
+		}
+		return new ArithmeticExpression(value, steps);
+	}
+}
+
+/**
+ * Flatten a syntax tree into its starting number, pushing the operations
+ * applied to it onto `steps` innermost first
+ */
+function linearize(node: Node, steps: ChainStep[], source: string): Decimal {
+	if (node.kind === "number") {
+		return node.value;
+	}
+
+	const value = linearize(node.input, steps, source);
+	if (node.operand && node.operand.kind !== "number") {
+		const operandText = source.slice(node.operand.start, node.operand.end);
+		throw new ExpressionSyntaxError(
+			node.position,
+			`the right side of ${node.operator.displaySymbol} ("${operandText}") is not a single number, so the expression cannot be applied left to right`,
+		);
+	}
+	steps.push({
+		operator: node.operator,
+		operand: node.operand?.value ?? null,
+	});
+	return value;
+}
+
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	const pattern = /\s*(?:(\d+(?:\.\d+)?)|([a-z]+)|(\S))/iy;
+	let match = pattern.exec(expression);
+	while (match) {
+		const position = pattern.lastIndex - match[0].trimStart().length;
+		const [, number, name, symbol] = match;
+		if (number !== undefined) {
+			tokens.push({ kind: "number", text: number, position });
+		} else if (name !== undefined) {
+			tokens.push({ kind: "name", text: name.toLowerCase(), position });
+		} else if (symbol !== undefined && SYMBOLS.has(symbol)) {
+			tokens.push({ kind: "symbol", text: symbol, position });
+		} else {
+			throw new ExpressionSyntaxError(
+				position,
+				`unexpected character "${symbol}"`,
+			);
+		}
+		match = pattern.exec(expression);
+	}
+	tokens.push({ kind: "end", text: "", position: expression.length });
+	return tokens;
+}
+
+/**
+ * Recursive descent parser, one method per precedence level
+ */
+class Parser {
+	private index = 0;
+
+	constructor(private readonly tokens: Token[]) {}
+
+	parseExpression(): Node {
+		let node = this.parseTerm();
+		while (this.peekIs(ADDITIVE)) {
+			node = this.parseBinary(node, () => this.parseTerm());
+		}
+		return node;
+	}
+
+	expectEnd(): void {
+		const token = this.peek();
+		if (token.kind !== "end") {
+			throw new ExpressionSyntaxError(
+				token.position,
+				`unexpected "${token.text}"`,
+			);
+		}
+	}
+
+	private parseTerm(): Node {
+		let node = this.parseUnary();
+		while (this.peekIs(MULTIPLICATIVE)) {
+			node = this.parseBinary(node, () => this.parseUnary());
+		}
+		return node;
+	}
+
+	private parseUnary(): Node {
+		const token = this.peek();
+		if (this.peekIs(["+"])) {
+			this.next();
+			return this.parseUnary();
+		}
+		if (this.peekIs(MINUS_SIGNS)) {
+			this.next();
+			const input = this.parseUnary();
+			// A minus sign before a number is part of the number
+			if (input.kind === "number") {
+				return {
+					...input,
+					value: input.value.negated(),
+					start: token.position,
+				};
+			}
+			return this.apply("NEGATE", input, null, token.position);
+		}
+		return this.parsePower();
+	}
+
+	private parsePower(): Node {
+		const node = this.parsePostfix();
+		if (this.peekIs(["^"])) {
+			// Right-associative: 2^3^2 is 2^(3^2)
+			return this.parseBinary(node, () => this.parseUnary());
+		}
+		return node;
+	}
+
+	private parsePostfix(): Node {
+		let node = this.parsePrimary();
+		while (this.peekIs([SQUARE_SIGN])) {
+			const token = this.next();
+			node = this.apply("SQUARE", node, null, token.position);
+		}
+		return node;
+	}
+
+	private parsePrimary(): Node {
+		const token = this.next();
+
+		if (token.kind === "number") {
+			return {
+				kind: "number",
+				value: new Decimal(token.text),
+				start: token.position,
+				end: token.position + token.text.length,
+			};
+		}
+
+		if (token.kind === "symbol") {
+			if (token.text === "(") {
+				const inner = this.parseExpression();
+				this.expect(")");
+				return inner;
+			}
+			const bracket = BRACKETS[token.text];
+			if (bracket) {
+				const inner = this.parseExpression();
+				this.expect(bracket.close);
+				return this.apply(bracket.operator, inner, null, token.position);
+			}
+			if (token.text === ROOT_SIGN) {
+				return this.apply("SQRT", this.parsePostfix(), null, token.position);
+			}
+		}
+
+		if (token.kind === "name") {
+			if (token.text === "root") {
+				this.expect("(");
+				const input = this.parseExpression();
+				this.expect(",");
+				const degree = this.parseExpression();
+				this.expect(")");
+				return this.apply("NTH_ROOT", input, degree, token.position);
+			}
+			const operator = FUNCTIONS[token.text];
+			if (operator) {
+				this.expect("(");
+				const input = this.parseExpression();
+				this.expect(")");
+				return this.apply(operator, input, null, token.position);
+			}
+			throw new ExpressionSyntaxError(
+				token.position,
+				`unknown function "${token.text}"`,
+			);
+		}
+
+		throw new ExpressionSyntaxError(
+			token.position,
+			token.kind === "end"
+				? "unexpected end of expression"
+				: `unexpected "${token.text}"`,
+		);
+	}
+
+	/**
+	 * Parse the binary operator at the current token and its right side
+	 */
+	private parseBinary(left: Node, parseRight: () => Node): Node {
+		const token = this.next();
+		const type = BINARY_SYMBOLS[token.text];
+		if (!type) {
+			throw new ExpressionSyntaxError(
+				token.position,
+				`unexpected "${token.text}"`,
+			);
+		}
+		return this.apply(type, left, parseRight(), token.position);
+	}
+
+	private apply(
+		type: OperatorType,
+		input: Node,
+		operand: Node | null,
+		position: number,
+	): Node {
+		// Every token of the node has been read by now
+		const last = this.tokens[this.index - 1];
+		return {
+			kind: "apply",
+			operator: Operator.fromType(type),
+			input,
+			operand,
+			position,
+			start: Math.min(position, input.start),
+			end: last ? last.position + last.text.length : position,
+		};
+	}
+
+	private expect(text: string): void {
+		const token = this.next();
+		if (token.text !== text) {
+			throw new ExpressionSyntaxError(
+				token.position,
+				token.kind === "end"
+					? `expected "${text}" before the end`
+					: `expected "${text}" but found "${token.text}"`,
+			);
+		}
+	}
+
+	private peek(): Token {
+		// The end token is always last, so the index never runs past it
+		return this.tokens[Math.min(this.index, this.tokens.length - 1)] as Token;
+	}
+
+	private peekIs(texts: string[]): boolean {
+		const token = this.peek();
+		return token.kind !== "end" && texts.includes(token.text);
+	}
+
+	private next(): Token {
+		const token = this.peek();
+		this.index++;
+		return token;
+	}
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { NumericOverflowError } from "../errors";
+import {
+	DECIMAL_SCALE,
+	Decimal,
+	ensureStorable,
+	MAX_DECIMAL_MAGNITUDE,
+	roundToScale,
+	toDecimal,
+} from "./decimal";
+
+describe("Decimal Value Object", () => {
+	describe("toDecimal", () => {
+		it("should convert numbers through their shortest representation", () => {
+			expect(toDecimal(0.1).toString()).toBe("0.1");
+		});
+
+		it("should convert decimal strings exactly", () => {
+			expect(toDecimal("1234567890.0123456789").toString()).toBe(
+				"1234567890.0123456789",
+			);
+		});
+
+		it("should return an equal Decimal for Decimal input", () => {
+			const value = new Decimal("42.5");
+			expect(toDecimal(value).eq(value)).toBe(true);
+		});
+
+		it("should throw for invalid strings", () => {
+			expect(() => toDecimal("abc")).toThrow("Invalid decimal value: abc");
+		});
+	});
+
+	describe("toString", () => {
+		it("should never use exponential notation for small values", () => {
+			expect(new Decimal("0.0000000001").toString()).toBe("0.0000000001");
+		});
+
+		it("should never use exponential notation for large values", () => {
+			expect(new Decimal("1e25").toString()).toBe("10000000000000000000000000");
+		});
+
+		it("should drop trailing zeros from database values", () => {
+			expect(toDecimal("150.0000000000").toString()).toBe("150");
+		});
+	});
+
+	describe("roundToScale", () => {
+		it(`should round to ${DECIMAL_SCALE} fractional digits`, () => {
+			expect(roundToScale(new Decimal(1).dividedBy(3)).toString()).toBe(
+				"0.3333333333",
+			);
+		});
+
+		it("should round half up", () => {
+			expect(roundToScale(new Decimal("0.00000000005")).toString()).toBe(
+				"0.0000000001",
+			);
+			expect(roundToScale(new Decimal("-0.00000000005")).toString()).toBe(
+				"-0.0000000001",
+			);
+		});
+
+		it("should leave values within scale unchanged", () => {
+			expect(roundToScale(new Decimal("12.5")).toString()).toBe("12.5");
+		});
+	});
+
+	describe("ensureStorable", () => {
+		it("should accept the largest storable value", () => {
+			const value = new Decimal("-9999999999.9999999999");
+			expect(ensureStorable(value, "value").eq(value)).toBe(true);
+		});
+
+		it("should reject values at the magnitude bound", () => {
+			expect(() => ensureStorable(MAX_DECIMAL_MAGNITUDE, "value")).toThrow(
+				NumericOverflowError,
+			);
+		});
+
+		it("should reject extra decimal places unless rounding", () => {
+			const value = new Decimal("0.12345678905");
+			expect(() => ensureStorable(value, "operand")).toThrow(
+				"Operand 0.12345678905 has too many decimal places",
+			);
+			expect(ensureStorable(value, "result", { round: true }).toString()).toBe(
+				"0.1234567891",
+			);
+		});
+
+		it("should reject results that round up out of range", () => {
+			expect(() =>
+				ensureStorable(new Decimal("9999999999.99999999995"), "result", {
+					round: true,
+				}),
+			).toThrow("at most 10 integer digits are supported");
+		});
+
+		it("should reject non-finite values", () => {
+			expect(() =>
+				ensureStorable(new Decimal(Number.POSITIVE_INFINITY), "result", {
+					round: true,
+				}),
+			).toThrow("Result Infinity is out of range");
+		});
+	});
+});
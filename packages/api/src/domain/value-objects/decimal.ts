@@ -0,0 +1,109 @@
+/**
+ * Decimal Value Object
+ *
+ * Arbitrary-precision decimal type used for every calculation value.
+ * Avoids JavaScript float drift (e.g. 0.1 + 0.2) so that in-memory values
+ * match exactly what the numeric(20, 10) columns store.
+ */
+
+import DecimalJs from "decimal.js";
+import { type NumericField, NumericOverflowError } from "../errors";
+
+/**
+ * Total number of digits stored by the numeric(20, 10) columns
+ */
+export const DECIMAL_PRECISION = 20;
+
+/**
+ * Number of fractional digits stored by the numeric(20, 10) columns
+ */
+export const DECIMAL_SCALE = 10;
+
+/**
+ * Number of integer digits stored by the numeric(20, 10) columns
+ */
+export const DECIMAL_INTEGER_DIGITS = DECIMAL_PRECISION - DECIMAL_SCALE;
+
+/**
+ * Decimal constructor configured for the calculation domain.
+ * Precision is well above the 20 significant digits the database can hold,
+ * and exponential notation is disabled so toString() is always plain.
+ */
+export const Decimal = DecimalJs.clone({
+	precision: 64,
+	rounding: DecimalJs.ROUND_HALF_UP,
+	toExpNeg: -64,
+	toExpPos: 64,
+});
+export type Decimal = DecimalJs;
+
+/**
+ * Anything that can be converted into a Decimal without losing precision
+ * (numbers are converted through their shortest string representation)
+ */
+export type DecimalInput = Decimal | string | number;
+
+/**
+ * Convert an input into a Decimal
+ * @throws Error if the input is not a valid decimal number
+ */
+export function toDecimal(value: DecimalInput): Decimal {
+	try {
+		return new Decimal(value);
+	} catch {
+		throw new Error(`Invalid decimal value: ${value}`);
+	}
+}
+
+/**
+ * Round a value to the number of fractional digits the database stores
+ */
+export function roundToScale(value: Decimal): Decimal {
+	return value.toDecimalPlaces(DECIMAL_SCALE);
+}
+
+/**
+ * Exclusive upper bound on the magnitude of a storable value (10^10)
+ */
+export const MAX_DECIMAL_MAGNITUDE = new Decimal(10).pow(
+	DECIMAL_INTEGER_DIGITS,
+);
+
+const FIELD_LABELS: Record<NumericField, string> = {
+	value: "Value",
+	operand: "Operand",
+	result: "Result",
+};
+
+/**
+ * Ensure a value fits the numeric(20, 10) storage columns.
+ * With `round`, extra fractional digits are rounded away (used for computed
+ * results); otherwise they are rejected so user input is never altered.
+ * @throws NumericOverflowError if the value cannot be stored
+ */
+export function ensureStorable(
+	value: Decimal,
+	field: NumericField,
+	options: { round?: boolean } = {},
+): Decimal {
+	const label = FIELD_LABELS[field];
+
+	if (!options.round && value.decimalPlaces() > DECIMAL_SCALE) {
+		throw new NumericOverflowError(
+			field,
+			value.toString(),
+			`${label} ${value.toString()} has too many decimal places: at most ${DECIMAL_SCALE} are supported`,
+		);
+	}
+
+	const stored = options.round ? roundToScale(value) : value;
+	if (!stored.isFinite() || stored.abs().gte(MAX_DECIMAL_MAGNITUDE)) {
+		throw new NumericOverflowError(
+			field,
+			value.toString(),
+			`${label} ${value.toString()} is out of range: at most ${DECIMAL_INTEGER_DIGITS} integer digits are supported`,
+		);
+	}
+
+	return stored;
+}
@@ -1 +1,39 @@
-export { OPERATORS, Operator, type OperatorType } from "./operator";
+export { ArithmeticExpression } from "./arithmetic-expression";
+export {
+	DECIMAL_INTEGER_DIGITS,
+	DECIMAL_PRECISION,
+	DECIMAL_SCALE,
+	Decimal,
+	type DecimalInput,
+	ensureStorable,
+	MAX_DECIMAL_MAGNITUDE,
+	roundToScale,
+	toDecimal,
+} from "./decimal";
+export {
+	type ChainStep,
+	MAX_CHAIN_LENGTH,
+	OperationChain,
+} from "./operation-chain";
+export {
+	BINARY_OPERATORS,
+	type BinaryOperatorType,
+	isUnaryOperator,
+	OPERATORS,
+	Operator,
+	type OperatorType,
+	UNARY_OPERATORS,
+	type UnaryOperatorType,
+} from "./operator";
+export {
+	RootRules,
+	type RootRulesInput,
+	type RootRulesJSON,
+	type RulePosition,
+	type RuleSubtree,
+} from "./root-rules";
+export {
+	RootTarget,
+	type RootTargetInput,
+	type RootTargetJSON,
+} from "./root-target";
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { ExpressionSyntaxError } from "../errors";
+import { MAX_CHAIN_LENGTH, OperationChain } from "./operation-chain";
+
+const summarize = (chain: OperationChain) =>
+	chain.steps.map(({ operator, operand }) => [
+		operator.toString(),
+		operand?.toString() ?? null,
+	]);
+
+describe("OperationChain Value Object", () => {
+	describe("parse", () => {
+		it("should parse operator/operand pairs left to right", () => {
+			const chain = OperationChain.parse("+5 *2 -3 /4");
+
+			expect(summarize(chain)).toEqual([
+				["ADD", "5"],
+				["MULTIPLY", "2"],
+				["SUBTRACT", "3"],
+				["DIVIDE", "4"],
+			]);
+		});
+
+		it("should accept display symbols and words", () => {
+			const chain = OperationChain.parse("× 2 − 3 ÷ 4 mod 5 root 3 ⁿ√ 2");
+
+			expect(summarize(chain)).toEqual([
+				["MULTIPLY", "2"],
+				["SUBTRACT", "3"],
+				["DIVIDE", "4"],
+				["MODULO", "5"],
+				["NTH_ROOT", "3"],
+				["NTH_ROOT", "2"],
+			]);
+		});
+
+		it("should parse unary operators without an operand", () => {
+			const chain = OperationChain.parse("sqrt + 1 x² |x| 1/x NEG floor");
+
+			expect(summarize(chain)).toEqual([
+				["SQRT", null],
+				["ADD", "1"],
+				["SQUARE", null],
+				["ABS", null],
+				["RECIPROCAL", null],
+				["NEGATE", null],
+				["FLOOR", null],
+			]);
+		});
+
+		it("should read a signed number after a binary operator", () => {
+			const chain = OperationChain.parse("+ -3 --2.5 * +4");
+
+			expect(summarize(chain)).toEqual([
+				["ADD", "-3"],
+				["SUBTRACT", "-2.5"],
+				["MULTIPLY", "4"],
+			]);
+		});
+
+		it("should treat a sign after a unary operator as the next step", () => {
+			const chain = OperationChain.parse("√ -3");
+
+			expect(summarize(chain)).toEqual([
+				["SQRT", null],
+				["SUBTRACT", "3"],
+			]);
+		});
+
+		it("should reject a binary operator without an operand", () => {
+			expect(() => OperationChain.parse("+5 *")).toThrow(
+				new ExpressionSyntaxError(4, "× needs a number after it"),
+			);
+		});
+
+		it("should reject an operand after a unary operator", () => {
+			expect(() => OperationChain.parse("sqrt 4")).toThrow(
+				"Invalid expression at character 6: √ does not take an operand",
+			);
+		});
+
+		it("should reject unknown operators", () => {
+			expect(() => OperationChain.parse("+5 & 2")).toThrow(
+				"Invalid expression at character 4: expected an operator",
+			);
+			expect(() => OperationChain.parse("5")).toThrow(ExpressionSyntaxError);
+		});
+
+		it("should reject empty expressions", () => {
+			expect(() => OperationChain.parse("   ")).toThrow(
+				"expected at least one operation",
+			);
+		});
+
+		it("should reject chains longer than the limit", () => {
+			const expression = "+1 ".repeat(MAX_CHAIN_LENGTH + 1);
+
+			expect(() => OperationChain.parse(expression)).toThrow(
+				`at most ${MAX_CHAIN_LENGTH} operations can be chained`,
+			);
+			expect(
+				OperationChain.parse("+1 ".repeat(MAX_CHAIN_LENGTH)).steps,
+			).toHaveLength(MAX_CHAIN_LENGTH);
+		});
+	});
+
+	describe("toString", () => {
+		it("should use display symbols", () => {
+			expect(OperationChain.parse("+5 *2 -3 /4 sqrt").toString()).toBe(
+				"+ 5 × 2 − 3 ÷ 4 √",
+			);
+		});
+
+		it("should parse back to the same chain", () => {
+			const chain = OperationChain.parse("* -2 abs ^ 3 ceil % 7");
+
+			expect(summarize(OperationChain.parse(chain.toString()))).toEqual(
+				summarize(chain),
+			);
+		});
+	});
+});
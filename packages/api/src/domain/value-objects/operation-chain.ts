@@ -0,0 +1,133 @@
+/**
+ * Operation Chain Value Object
+ *
+ * A sequence of operations typed as one expression, applied left to right
+ * to a starting value, e.g. "+5 *2 -3 /4" or "× 2 − 3 √".
+ * Each step is an operator followed by its operand (binary operators) or
+ * by nothing (unary operators). Operators are written with either their
+ * plain symbol or their display symbol (see Operator).
+ */
+
+import { ExpressionSyntaxError } from "../errors";
+import { Decimal } from "./decimal";
+import { OPERATORS, Operator } from "./operator";
+
+/**
+ * Most operations a single chain may create
+ */
+export const MAX_CHAIN_LENGTH = 20;
+
+export interface ChainStep {
+	operator: Operator;
+	/** Null for unary operators */
+	operand: Decimal | null;
+}
+
+/**
+ * Every spelling of every operator, longest first so that e.g. "sqrt"
+ * wins over "sqr"
+ */
+const OPERATOR_TOKENS: readonly { text: string; operator: Operator }[] =
+	OPERATORS.flatMap((type) => {
+		const operator = Operator.fromType(type);
+		return [...new Set([operator.symbol, operator.displaySymbol])].map(
+			(text) => ({ text: text.toLowerCase(), operator }),
+		);
+	}).sort((a, b) => b.text.length - a.text.length);
+
+const SIGNED_NUMBER = /[-+]?\d+(?:\.\d+)?/y;
+const UNSIGNED_NUMBER = /\d+(?:\.\d+)?/y;
+const WHITESPACE = /\s*/y;
+
+export class OperationChain {
+	private constructor(readonly steps: readonly ChainStep[]) {}
+
+	/**
+	 * Parse a typed chain of operations
+	 * @throws ExpressionSyntaxError if the text is not a valid chain
+	 */
+	static parse(expression: string): OperationChain {
+		const steps: ChainStep[] = [];
+		let position = skipWhitespace(expression, 0);
+
+		while (position < expression.length) {
+			const token = matchOperator(expression, position);
+			if (!token) {
+				throw new ExpressionSyntaxError(position, "expected an operator");
+			}
+			const { operator } = token;
+			position = skipWhitespace(expression, position + token.text.length);
+
+			if (operator.isUnary) {
+				// "1/x" starts with a digit but is the next step, not an operand
+				if (
+					matchAt(UNSIGNED_NUMBER, expression, position) &&
+					!matchOperator(expression, position)
+				) {
+					throw new ExpressionSyntaxError(
+						position,
+						`${operator.displaySymbol} does not take an operand`,
+					);
+				}
+				steps.push({ operator, operand: null });
+				continue;
+			}
+
+			const operand = matchAt(SIGNED_NUMBER, expression, position);
+			if (!operand) {
+				throw new ExpressionSyntaxError(
+					position,
+					`${operator.displaySymbol} needs a number after it`,
+				);
+			}
+			steps.push({ operator, operand: new Decimal(operand) });
+			position = skipWhitespace(expression, position + operand.length);
+		}
+
+		if (steps.length === 0) {
+			throw new ExpressionSyntaxError(0, "expected at least one operation");
+		}
+		if (steps.length > MAX_CHAIN_LENGTH) {
+			throw new ExpressionSyntaxError(
+				0,
+				`at most ${MAX_CHAIN_LENGTH} operations can be chained`,
+			);
+		}
+
+		return new OperationChain(steps);
+	}
+
+	/**
+	 * Canonical form with display symbols, e.g. "+ 5 × 2 − 3 ÷ 4"
+	 */
+	toString(): string {
+		return this.steps
+			.map(({ operator, operand }) =>
+				operand === null
+					? operator.displaySymbol
+					: `${operator.displaySymbol} ${operand.toString()}`,
+			)
+			.join(" ");
+	}
+}
+
+function matchOperator(
+	expression: string,
+	position: number,
+): { text: string; operator: Operator } | undefined {
+	const rest = expression.slice(position).toLowerCase();
+	return OPERATOR_TOKENS.find(({ text }) => rest.startsWith(text));
+}
+
+function matchAt(
+	pattern: RegExp,
+	expression: string,
+	position: number,
+): string | null {
+	pattern.lastIndex = position;
+	return pattern.exec(expression)?.[0] ?? null;
+}
+
+function skipWhitespace(expression: string, position: number): number {
+	return position + (matchAt(WHITESPACE, expression, position)?.length ?? 0);
+}
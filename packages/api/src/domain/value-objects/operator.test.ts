@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { OPERATORS, Operator, type OperatorType } from "./operator";
+import { Decimal } from "./decimal";
+import {
+	isUnaryOperator,
+	OPERATORS,
+	Operator,
+	type OperatorType,
+	UNARY_OPERATORS,
+} from "./operator";
 
 describe("Operator Value Object", () => {
 	describe("create", () => {
@@ -23,9 +30,15 @@ describe("Operator Value Object", () => {
 			expect(operator.toString()).toBe("DIVIDE");
 		});
 
+		it("should create POWER, NTH_ROOT and MODULO operators from string", () => {
+			expect(Operator.create("POWER").toString()).toBe("POWER");
+			expect(Operator.create("NTH_ROOT").toString()).toBe("NTH_ROOT");
+			expect(Operator.create("MODULO").toString()).toBe("MODULO");
+		});
+
 		it("should throw an error for invalid operator", () => {
 			expect(() => Operator.create("INVALID")).toThrow(
-				"Invalid operator: INVALID. Must be one of: ADD, SUBTRACT, MULTIPLY, DIVIDE",
+				"Invalid operator: INVALID. Must be one of: ADD, SUBTRACT, MULTIPLY, DIVIDE, POWER, NTH_ROOT, MODULO, NEGATE, ABS, SQRT, SQUARE, RECIPROCAL, FLOOR, CEIL",
 			);
 		});
 
@@ -51,6 +64,16 @@ describe("Operator Value Object", () => {
 			["SUBTRACT", "-"],
 			["MULTIPLY", "*"],
 			["DIVIDE", "/"],
+			["POWER", "^"],
+			["NTH_ROOT", "root"],
+			["MODULO", "%"],
+			["NEGATE", "neg"],
+			["ABS", "abs"],
+			["SQRT", "sqrt"],
+			["SQUARE", "sqr"],
+			["RECIPROCAL", "recip"],
+			["FLOOR", "floor"],
+			["CEIL", "ceil"],
 		] as const)("%s should have symbol %s", (type, expectedSymbol) => {
 			const operator = Operator.fromType(type as OperatorType);
 			expect(operator.symbol).toBe(expectedSymbol);
@@ -77,6 +100,68 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("DIVIDE");
 			expect(operator.displaySymbol).toBe("\u00F7"); // division sign
 		});
+
+		it("should return caret for POWER", () => {
+			const operator = Operator.fromType("POWER");
+			expect(operator.displaySymbol).toBe("^");
+		});
+
+		it("should return n-th root sign for NTH_ROOT", () => {
+			const operator = Operator.fromType("NTH_ROOT");
+			expect(operator.displaySymbol).toBe("\u207F\u221A");
+		});
+
+		it("should return mod for MODULO", () => {
+			const operator = Operator.fromType("MODULO");
+			expect(operator.displaySymbol).toBe("mod");
+		});
+
+		it("should return square root sign for SQRT", () => {
+			const operator = Operator.fromType("SQRT");
+			expect(operator.displaySymbol).toBe("\u221A");
+		});
+
+		it("should return x squared for SQUARE", () => {
+			const operator = Operator.fromType("SQUARE");
+			expect(operator.displaySymbol).toBe("x\u00B2");
+		});
+	});
+
+	describe("format", () => {
+		it("should place a binary operator between both sides", () => {
+			expect(Operator.fromType("MULTIPLY").format("(100 + 50)", "2")).toBe(
+				"(100 + 50) \u00D7 2",
+			);
+		});
+
+		it("should substitute the left side into templated unary symbols", () => {
+			expect(Operator.fromType("ABS").format("(-3)")).toBe("|(-3)|");
+			expect(Operator.fromType("SQUARE").format("(1 + 2)")).toBe(
+				"(1 + 2)\u00B2",
+			);
+		});
+
+		it("should prefix other unary symbols", () => {
+			expect(Operator.fromType("SQRT").format("9")).toBe("\u221A9");
+		});
+
+		it("should throw when a binary operator has no operand", () => {
+			expect(() => Operator.fromType("ADD").format("1")).toThrow(
+				"ADD requires an operand",
+			);
+		});
+	});
+
+	describe("isUnary", () => {
+		it.each(UNARY_OPERATORS)("%s should be unary", (type) => {
+			expect(Operator.fromType(type).isUnary).toBe(true);
+			expect(isUnaryOperator(type)).toBe(true);
+		});
+
+		it("should be false for binary operators", () => {
+			expect(Operator.fromType("ADD").isUnary).toBe(false);
+			expect(isUnaryOperator("NTH_ROOT")).toBe(false);
+		});
 	});
 
 	describe("calculate", () => {
@@ -84,23 +169,23 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("ADD");
 
 			it("should add two positive numbers", () => {
-				expect(operator.calculate(5, 3)).toBe(8);
+				expect(operator.calculate(5, 3).toString()).toBe("8");
 			});
 
 			it("should add positive and negative numbers", () => {
-				expect(operator.calculate(5, -3)).toBe(2);
+				expect(operator.calculate(5, -3).toString()).toBe("2");
 			});
 
 			it("should add two negative numbers", () => {
-				expect(operator.calculate(-5, -3)).toBe(-8);
+				expect(operator.calculate(-5, -3).toString()).toBe("-8");
 			});
 
 			it("should add zero", () => {
-				expect(operator.calculate(5, 0)).toBe(5);
+				expect(operator.calculate(5, 0).toString()).toBe("5");
 			});
 
 			it("should handle decimal numbers", () => {
-				expect(operator.calculate(1.5, 2.5)).toBe(4);
+				expect(operator.calculate(1.5, 2.5).toString()).toBe("4");
 			});
 		});
 
@@ -108,23 +193,23 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("SUBTRACT");
 
 			it("should subtract two positive numbers", () => {
-				expect(operator.calculate(5, 3)).toBe(2);
+				expect(operator.calculate(5, 3).toString()).toBe("2");
 			});
 
 			it("should subtract negative from positive", () => {
-				expect(operator.calculate(5, -3)).toBe(8);
+				expect(operator.calculate(5, -3).toString()).toBe("8");
 			});
 
 			it("should subtract positive from negative", () => {
-				expect(operator.calculate(-5, 3)).toBe(-8);
+				expect(operator.calculate(-5, 3).toString()).toBe("-8");
 			});
 
 			it("should subtract zero", () => {
-				expect(operator.calculate(5, 0)).toBe(5);
+				expect(operator.calculate(5, 0).toString()).toBe("5");
 			});
 
 			it("should handle decimal numbers", () => {
-				expect(operator.calculate(5.5, 2.5)).toBe(3);
+				expect(operator.calculate(5.5, 2.5).toString()).toBe("3");
 			});
 		});
 
@@ -132,23 +217,23 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("MULTIPLY");
 
 			it("should multiply two positive numbers", () => {
-				expect(operator.calculate(5, 3)).toBe(15);
+				expect(operator.calculate(5, 3).toString()).toBe("15");
 			});
 
 			it("should multiply positive and negative numbers", () => {
-				expect(operator.calculate(5, -3)).toBe(-15);
+				expect(operator.calculate(5, -3).toString()).toBe("-15");
 			});
 
 			it("should multiply two negative numbers", () => {
-				expect(operator.calculate(-5, -3)).toBe(15);
+				expect(operator.calculate(-5, -3).toString()).toBe("15");
 			});
 
 			it("should multiply by zero", () => {
-				expect(operator.calculate(5, 0)).toBe(0);
+				expect(operator.calculate(5, 0).toString()).toBe("0");
 			});
 
 			it("should handle decimal numbers", () => {
-				expect(operator.calculate(2.5, 4)).toBe(10);
+				expect(operator.calculate(2.5, 4).toString()).toBe("10");
 			});
 		});
 
@@ -156,19 +241,19 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("DIVIDE");
 
 			it("should divide two positive numbers", () => {
-				expect(operator.calculate(6, 3)).toBe(2);
+				expect(operator.calculate(6, 3).toString()).toBe("2");
 			});
 
 			it("should divide positive by negative", () => {
-				expect(operator.calculate(6, -3)).toBe(-2);
+				expect(operator.calculate(6, -3).toString()).toBe("-2");
 			});
 
 			it("should divide negative by positive", () => {
-				expect(operator.calculate(-6, 3)).toBe(-2);
+				expect(operator.calculate(-6, 3).toString()).toBe("-2");
 			});
 
 			it("should divide two negative numbers", () => {
-				expect(operator.calculate(-6, -3)).toBe(2);
+				expect(operator.calculate(-6, -3).toString()).toBe("2");
 			});
 
 			it("should throw an error when dividing by zero", () => {
@@ -178,13 +263,149 @@ describe("Operator Value Object", () => {
 			});
 
 			it("should handle decimal results", () => {
-				expect(operator.calculate(5, 2)).toBe(2.5);
+				expect(operator.calculate(5, 2).toString()).toBe("2.5");
 			});
 
 			it("should handle zero as dividend", () => {
-				expect(operator.calculate(0, 5)).toBe(0);
+				expect(operator.calculate(0, 5).toString()).toBe("0");
 			});
 		});
+
+		describe("POWER", () => {
+			const operator = Operator.fromType("POWER");
+
+			it("should raise to a positive integer power", () => {
+				expect(operator.calculate(2, 10).toString()).toBe("1024");
+			});
+
+			it("should raise a negative number to an integer power", () => {
+				expect(operator.calculate(-2, 3).toString()).toBe("-8");
+			});
+
+			it("should handle negative exponents", () => {
+				expect(operator.calculate(2, -2).toString()).toBe("0.25");
+			});
+
+			it("should handle fractional exponents of positive numbers", () => {
+				expect(operator.calculate(9, 0.5).toString()).toBe("3");
+			});
+
+			it("should throw for a non-integer power of a negative number", () => {
+				expect(() => operator.calculate(-8, 0.5)).toThrow(
+					"Non-integer power of a negative number is not allowed",
+				);
+			});
+
+			it("should throw for a negative power of zero", () => {
+				expect(() => operator.calculate(0, -1)).toThrow(
+					"Negative power of zero is not allowed",
+				);
+			});
+
+			it("should raise to large powers without losing precision", () => {
+				expect(operator.calculate(10, 30).toString()).toBe(
+					"1000000000000000000000000000000",
+				);
+			});
+
+			it("should throw when the result is not finite", () => {
+				expect(() => operator.calculate(10, "1e16")).toThrow(
+					"Non-finite result is not allowed",
+				);
+			});
+		});
+
+		describe("NTH_ROOT", () => {
+			const operator = Operator.fromType("NTH_ROOT");
+
+			it("should take the square root", () => {
+				expect(operator.calculate(16, 2).toString()).toBe("4");
+			});
+
+			it("should take the cube root", () => {
+				expect(operator.calculate(27, 3).toString()).toBe("3");
+			});
+
+			it("should take an odd root of a negative number", () => {
+				expect(operator.calculate(-27, 3).toString()).toBe("-3");
+			});
+
+			it("should throw for an even root of a negative number", () => {
+				expect(() => operator.calculate(-16, 2)).toThrow(
+					"Even root of a negative number is not allowed",
+				);
+			});
+
+			it.each([0, -2, 2.5])("should throw for root degree %s", (degree) => {
+				expect(() => operator.calculate(16, degree)).toThrow(
+					"Non-integer or non-positive root degree is not allowed",
+				);
+			});
+		});
+
+		describe("MODULO", () => {
+			const operator = Operator.fromType("MODULO");
+
+			it("should return the remainder", () => {
+				expect(operator.calculate(10, 3).toString()).toBe("1");
+			});
+
+			it("should keep the sign of the dividend", () => {
+				expect(operator.calculate(-10, 3).toString()).toBe("-1");
+			});
+
+			it("should handle decimal operands", () => {
+				expect(operator.calculate(5.5, 2).toString()).toBe("1.5");
+			});
+
+			it("should throw an error for modulo by zero", () => {
+				expect(() => operator.calculate(5, 0)).toThrow(
+					"Modulo by zero is not allowed",
+				);
+			});
+		});
+
+		describe("unary operators", () => {
+			it.each([
+				["NEGATE", "5", "-5"],
+				["NEGATE", "-2.5", "2.5"],
+				["ABS", "-7.25", "7.25"],
+				["SQRT", "144", "12"],
+				["SQUARE", "-1.5", "2.25"],
+				["RECIPROCAL", "4", "0.25"],
+				["FLOOR", "-2.5", "-3"],
+				["CEIL", "-2.5", "-2"],
+				["FLOOR", "2.5", "2"],
+				["CEIL", "2.5", "3"],
+			] as const)("%s of %s should be %s", (type, left, expected) => {
+				const operator = Operator.fromType(type);
+				expect(operator.calculate(left).toString()).toBe(expected);
+			});
+
+			it("should throw for the square root of a negative number", () => {
+				expect(() => Operator.fromType("SQRT").calculate(-4)).toThrow(
+					"Square root of a negative number is not allowed",
+				);
+			});
+
+			it("should throw for the reciprocal of zero", () => {
+				expect(() => Operator.fromType("RECIPROCAL").calculate(0)).toThrow(
+					"Reciprocal of zero is not allowed",
+				);
+			});
+
+			it("should throw when given an operand", () => {
+				expect(() => Operator.fromType("ABS").calculate(5, 2)).toThrow(
+					"An operand for a unary operator is not allowed",
+				);
+			});
+		});
+
+		it("should throw when a binary operator is missing its operand", () => {
+			expect(() => Operator.fromType("ADD").calculate(5)).toThrow(
+				"A missing operand is not allowed",
+			);
+		});
 	});
 
 	describe("isValidWith", () => {
@@ -219,6 +440,55 @@ describe("Operator Value Object", () => {
 			const operator = Operator.fromType("DIVIDE");
 			expect(operator.isValidWith(0)).toBe(false);
 		});
+
+		it("should return false for MODULO with zero operand", () => {
+			const operator = Operator.fromType("MODULO");
+			expect(operator.isValidWith(0)).toBe(false);
+			expect(operator.isValidWith(3)).toBe(true);
+		});
+
+		it("should validate NTH_ROOT degree without a left value", () => {
+			const operator = Operator.fromType("NTH_ROOT");
+			expect(operator.isValidWith(2)).toBe(true);
+			expect(operator.isValidWith(0)).toBe(false);
+			expect(operator.isValidWith(1.5)).toBe(false);
+		});
+
+		it("should check NTH_ROOT against the left value when given", () => {
+			const operator = Operator.fromType("NTH_ROOT");
+			expect(operator.isValidWith(2, -4)).toBe(false);
+			expect(operator.isValidWith(3, -8)).toBe(true);
+		});
+
+		it("should check POWER against the left value when given", () => {
+			const operator = Operator.fromType("POWER");
+			expect(operator.isValidWith(0.5)).toBe(true);
+			expect(operator.isValidWith(0.5, -4)).toBe(false);
+			expect(operator.isValidWith(-1, 0)).toBe(false);
+			expect(operator.isValidWith(2, -4)).toBe(true);
+		});
+	});
+
+	describe("getValidationError", () => {
+		it("should return null for a valid operation", () => {
+			expect(Operator.fromType("ADD").getValidationError(5, 1)).toBeNull();
+		});
+
+		it.each([
+			["DIVIDE", 0, 5, "division by zero"],
+			["MODULO", 0, 5, "modulo by zero"],
+			["NTH_ROOT", 2, -9, "even root of a negative number"],
+			["NTH_ROOT", 0, 9, "non-integer or non-positive root degree"],
+			["POWER", 0.5, -9, "non-integer power of a negative number"],
+			["POWER", -2, 0, "negative power of zero"],
+			["ADD", null, 1, "a missing operand"],
+			["SQRT", 2, 9, "an operand for a unary operator"],
+			["SQRT", null, -9, "square root of a negative number"],
+			["RECIPROCAL", null, 0, "reciprocal of zero"],
+		] as const)("%s with operand %s on %s should report %s", (type, operand, left, reason) => {
+			const operator = Operator.fromType(type);
+			expect(operator.getValidationError(operand, left)).toBe(reason);
+		});
 	});
 
 	describe("equals", () => {
@@ -245,13 +515,32 @@ describe("Operator Value Object", () => {
 		it("should handle very large numbers", () => {
 			const add = Operator.fromType("ADD");
 			const result = add.calculate(Number.MAX_SAFE_INTEGER, 1);
-			expect(result).toBe(Number.MAX_SAFE_INTEGER + 1);
+			expect(result.toString()).toBe("9007199254740992");
 		});
 
 		it("should handle very small numbers", () => {
 			const multiply = Operator.fromType("MULTIPLY");
 			const result = multiply.calculate(0.1, 0.2);
-			expect(result).toBeCloseTo(0.02);
+			expect(result.toString()).toBe("0.02");
+		});
+
+		it("should add decimals without floating point drift", () => {
+			const add = Operator.fromType("ADD");
+			expect(add.calculate(0.1, 0.2).toString()).toBe("0.3");
+			expect(add.calculate("0.1", "0.2").toString()).toBe("0.3");
+		});
+
+		it("should keep full precision for large decimal strings", () => {
+			const add = Operator.fromType("ADD");
+			const result = add.calculate("1234567890.1234567891", "0.0000000009");
+			expect(result.toString()).toBe("1234567890.12345679");
+		});
+
+		it("should accept Decimal instances", () => {
+			const divide = Operator.fromType("DIVIDE");
+			const result = divide.calculate(new Decimal(1), new Decimal(4));
+			expect(result).toBeInstanceOf(Decimal);
+			expect(result.toString()).toBe("0.25");
 		});
 	});
 });
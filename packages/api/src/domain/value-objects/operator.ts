@@ -3,11 +3,45 @@
  *
  * Encapsulates the mathematical operation type and its behavior.
  * Immutable - once created, cannot be changed.
+ *
+ * Binary operators combine the parent value with an operand.
+ * Unary operators only transform the parent value and take no operand.
  */
 
-export const OPERATORS = ["ADD", "SUBTRACT", "MULTIPLY", "DIVIDE"] as const;
+import { Decimal, type DecimalInput, toDecimal } from "./decimal";
+
+export const BINARY_OPERATORS = [
+	"ADD",
+	"SUBTRACT",
+	"MULTIPLY",
+	"DIVIDE",
+	"POWER",
+	"NTH_ROOT",
+	"MODULO",
+] as const;
+export type BinaryOperatorType = (typeof BINARY_OPERATORS)[number];
+
+export const UNARY_OPERATORS = [
+	"NEGATE",
+	"ABS",
+	"SQRT",
+	"SQUARE",
+	"RECIPROCAL",
+	"FLOOR",
+	"CEIL",
+] as const;
+export type UnaryOperatorType = (typeof UNARY_OPERATORS)[number];
+
+export const OPERATORS = [...BINARY_OPERATORS, ...UNARY_OPERATORS] as const;
 export type OperatorType = (typeof OPERATORS)[number];
 
+/**
+ * Check whether an operator type takes no operand
+ */
+export function isUnaryOperator(type: OperatorType): type is UnaryOperatorType {
+	return (UNARY_OPERATORS as readonly OperatorType[]).includes(type);
+}
+
 export class Operator {
 	private constructor(private readonly value: OperatorType) {}
 
@@ -31,6 +65,13 @@ export class Operator {
 		return new Operator(type);
 	}
 
+	/**
+	 * Whether this operator takes no operand
+	 */
+	get isUnary(): boolean {
+		return isUnaryOperator(this.value);
+	}
+
 	/**
 	 * Get the mathematical symbol for display
 	 */
@@ -40,6 +81,16 @@ export class Operator {
 			SUBTRACT: "-",
 			MULTIPLY: "*",
 			DIVIDE: "/",
+			POWER: "^",
+			NTH_ROOT: "root",
+			MODULO: "%",
+			NEGATE: "neg",
+			ABS: "abs",
+			SQRT: "sqrt",
+			SQUARE: "sqr",
+			RECIPROCAL: "recip",
+			FLOOR: "floor",
+			CEIL: "ceil",
 		};
 		return symbols[this.value];
 	}
@@ -53,38 +104,128 @@ export class Operator {
 			SUBTRACT: "\u2212", // minus sign
 			MULTIPLY: "\u00D7", // multiplication sign
 			DIVIDE: "\u00F7", // division sign
+			POWER: "^",
+			NTH_ROOT: "\u207F\u221A", // superscript n + square root sign
+			MODULO: "mod",
+			NEGATE: "\u00B1", // plus-minus sign
+			ABS: "|x|",
+			SQRT: "\u221A", // square root sign
+			SQUARE: "x\u00B2", // superscript two
+			RECIPROCAL: "1/x",
+			FLOOR: "\u230Ax\u230B", // floor brackets
+			CEIL: "\u2308x\u2309", // ceiling brackets
 		};
 		return symbols[this.value];
 	}
 
 	/**
-	 * Perform the calculation
-	 * @throws Error if dividing by zero
+	 * Format this operation applied to `left` with display symbols, e.g.
+	 * "100 × 2", "√9" or "|x|" with `left` in place of x. Both sides
+	 * are used as given, so callers parenthesize compound expressions.
+	 * @throws Error if a binary operator is given no operand
 	 */
-	calculate(left: number, right: number): number {
-		switch (this.value) {
-			case "ADD":
-				return left + right;
-			case "SUBTRACT":
-				return left - right;
-			case "MULTIPLY":
-				return left * right;
-			case "DIVIDE":
-				if (right === 0) {
-					throw new Error("Division by zero is not allowed");
-				}
-				return left / right;
+	format(left: string, operand: string | null = null): string {
+		const symbol = this.displaySymbol;
+		if (!this.isUnary) {
+			if (operand === null) {
+				throw new Error(`${this.value} requires an operand`);
+			}
+			return `${left} ${symbol} ${operand}`;
 		}
+		return symbol.includes("x") ? symbol.replace("x", left) : symbol + left;
 	}
 
 	/**
-	 * Check if this operation with the given operand would be valid
+	 * Perform the calculation.
+	 * Unary operators ignore the right-hand value and expect it to be null.
+	 * @throws Error if the operation is not defined for the given values
+	 * (e.g. dividing by zero or taking an even root of a negative number)
 	 */
-	isValidWith(operand: number): boolean {
-		if (this.value === "DIVIDE" && operand === 0) {
-			return false;
+	calculate(left: DecimalInput, right: DecimalInput | null = null): Decimal {
+		const leftValue = toDecimal(left);
+		const rightValue = right === null ? null : toDecimal(right);
+
+		const error = this.getValidationError(rightValue, leftValue);
+		if (error) {
+			throw new Error(`${capitalize(error)} is not allowed`);
+		}
+
+		const result =
+			rightValue === null
+				? this.applyUnary(leftValue)
+				: this.apply(leftValue, rightValue);
+		if (!result.isFinite()) {
+			throw new Error("Non-finite result is not allowed");
+		}
+		return result;
+	}
+
+	/**
+	 * Check if this operation with the given operand would be valid.
+	 * When the left-hand value is known, rules depending on it are checked too.
+	 */
+	isValidWith(operand: DecimalInput | null, left?: DecimalInput): boolean {
+		return this.getValidationError(operand, left) === null;
+	}
+
+	/**
+	 * Get the reason this operation would be invalid, or null if it is valid.
+	 * Rules that depend on the left-hand value are skipped when it is omitted.
+	 */
+	getValidationError(
+		operand: DecimalInput | null,
+		left?: DecimalInput,
+	): string | null {
+		const leftValue = left === undefined ? undefined : toDecimal(left);
+
+		if (this.isUnary) {
+			if (operand !== null) {
+				return "an operand for a unary operator";
+			}
+			switch (this.value) {
+				case "SQRT":
+					return leftValue?.isNegative()
+						? "square root of a negative number"
+						: null;
+				case "RECIPROCAL":
+					return leftValue?.isZero() ? "reciprocal of zero" : null;
+				default:
+					return null;
+			}
+		}
+
+		if (operand === null) {
+			return "a missing operand";
+		}
+		const operandValue = toDecimal(operand);
+
+		switch (this.value) {
+			case "DIVIDE":
+				return operandValue.isZero() ? "division by zero" : null;
+			case "MODULO":
+				return operandValue.isZero() ? "modulo by zero" : null;
+			case "NTH_ROOT":
+				if (!operandValue.isInteger() || operandValue.lte(0)) {
+					return "non-integer or non-positive root degree";
+				}
+				if (leftValue?.isNegative() && operandValue.mod(2).isZero()) {
+					return "even root of a negative number";
+				}
+				return null;
+			case "POWER":
+				if (leftValue === undefined) {
+					return null;
+				}
+				if (leftValue.isNegative() && !operandValue.isInteger()) {
+					return "non-integer power of a negative number";
+				}
+				if (leftValue.isZero() && operandValue.isNegative()) {
+					return "negative power of zero";
+				}
+				return null;
+			default:
+				return null;
 		}
-		return true;
 	}
 
 	/**
@@ -100,4 +241,66 @@ export class Operator {
 	equals(other: Operator): boolean {
 		return this.value === other.value;
 	}
+
+	private apply(left: Decimal, right: Decimal): Decimal {
+		switch (this.value) {
+			case "ADD":
+				return left.plus(right);
+			case "SUBTRACT":
+				return left.minus(right);
+			case "MULTIPLY":
+				return left.times(right);
+			case "DIVIDE":
+				return left.dividedBy(right);
+			case "POWER":
+				return left.pow(right);
+			case "NTH_ROOT":
+				return nthRoot(left, right);
+			case "MODULO":
+				// Truncated remainder - the result takes the sign of the dividend
+				return left.mod(right);
+			default:
+				throw new Error(`${this.value} does not take an operand`);
+		}
+	}
+
+	private applyUnary(value: Decimal): Decimal {
+		switch (this.value) {
+			case "NEGATE":
+				return value.negated();
+			case "ABS":
+				return value.abs();
+			case "SQRT":
+				return value.sqrt();
+			case "SQUARE":
+				return value.times(value);
+			case "RECIPROCAL":
+				return new Decimal(1).dividedBy(value);
+			case "FLOOR":
+				return value.floor();
+			case "CEIL":
+				return value.ceil();
+			default:
+				throw new Error(`${this.value} requires an operand`);
+		}
+	}
+}
+
+/**
+ * Real n-th root. Square and cube roots use the correctly rounded
+ * implementations; odd roots of negative numbers are -(|x|^(1/n)).
+ */
+function nthRoot(value: Decimal, degree: Decimal): Decimal {
+	if (degree.eq(2)) {
+		return value.sqrt();
+	}
+	if (degree.eq(3)) {
+		return value.cbrt();
+	}
+	const root = value.abs().pow(new Decimal(1).dividedBy(degree));
+	return value.isNegative() ? root.negated() : root;
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
 }
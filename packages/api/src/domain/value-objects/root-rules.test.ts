@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import {
+	InvalidRulesError,
+	NumericOverflowError,
+	RuleViolationError,
+} from "../errors";
+import { Decimal } from "./decimal";
+import { Operator, type OperatorType } from "./operator";
+import { RootRules, type RuleSubtree } from "./root-rules";
+
+const step = (operator: OperatorType, operand: number | null = null) => ({
+	operator: Operator.fromType(operator),
+	operand: operand === null ? null : new Decimal(operand),
+});
+
+/** A direct reply to a root without replies */
+const first = { depth: 1, replyCount: 0 };
+
+const violatedRule = (check: () => void) => {
+	try {
+		check();
+	} catch (error) {
+		expect(error).toBeInstanceOf(RuleViolationError);
+		return (error as RuleViolationError).rule;
+	}
+	return null;
+};
+
+describe("RootRules Value Object", () => {
+	describe("create", () => {
+		it("should leave unset rules empty", () => {
+			expect(RootRules.create({}).toJSON()).toEqual({
+				allowedOperators: null,
+				minOperand: null,
+				maxOperand: null,
+				integerOperands: false,
+				maxDepth: null,
+				maxFanOut: null,
+			});
+		});
+
+		it("should round-trip through the serialized form", () => {
+			const rules = RootRules.create({
+				allowedOperators: ["MULTIPLY", "DIVIDE", "MULTIPLY"],
+				minOperand: 1,
+				maxOperand: "10",
+				integerOperands: true,
+				maxDepth: 5,
+				maxFanOut: 2,
+			});
+
+			expect(rules.toJSON()).toEqual({
+				allowedOperators: ["MULTIPLY", "DIVIDE"],
+				minOperand: "1",
+				maxOperand: "10",
+				integerOperands: true,
+				maxDepth: 5,
+				maxFanOut: 2,
+			});
+			expect(RootRules.fromJSON(rules.toJSON()).toJSON()).toEqual(
+				rules.toJSON(),
+			);
+		});
+
+		it("should reject rules that contradict themselves", () => {
+			expect(() => RootRules.create({ allowedOperators: [] })).toThrow(
+				InvalidRulesError,
+			);
+			expect(() => RootRules.create({ minOperand: 5, maxOperand: 1 })).toThrow(
+				"Invalid rules: the smallest operand cannot be larger than the largest",
+			);
+			expect(() => RootRules.create({ maxDepth: 0 })).toThrow(
+				InvalidRulesError,
+			);
+			expect(() => RootRules.create({ maxFanOut: 1.5 })).toThrow(
+				InvalidRulesError,
+			);
+		});
+
+		it("should reject bounds that cannot be stored", () => {
+			expect(() => RootRules.create({ maxOperand: "1e12" })).toThrow(
+				NumericOverflowError,
+			);
+		});
+	});
+
+	describe("check", () => {
+		const rules = RootRules.create({
+			allowedOperators: ["MULTIPLY", "DIVIDE", "SQUARE"],
+			minOperand: 1,
+			maxOperand: 10,
+			integerOperands: true,
+			maxDepth: 3,
+			maxFanOut: 2,
+		});
+
+		it("should accept operations following every rule", () => {
+			expect(() =>
+				rules.check([step("MULTIPLY", 10), step("SQUARE"), step("DIVIDE", 1)], {
+					depth: 1,
+					replyCount: 1,
+				}),
+			).not.toThrow();
+		});
+
+		it("should name the rule that was broken", () => {
+			expect(violatedRule(() => rules.check([step("ADD", 2)], first))).toBe(
+				"allowedOperators",
+			);
+			expect(
+				violatedRule(() => rules.check([step("MULTIPLY", 11)], first)),
+			).toBe("operandRange");
+			expect(
+				violatedRule(() => rules.check([step("MULTIPLY", 0)], first)),
+			).toBe("operandRange");
+			expect(
+				violatedRule(() => rules.check([step("MULTIPLY", 2.5)], first)),
+			).toBe("integerOperands");
+			expect(
+				violatedRule(() =>
+					rules.check([step("MULTIPLY", 2)], { depth: 1, replyCount: 2 }),
+				),
+			).toBe("maxFanOut");
+		});
+
+		it("should check every step of a chain at its own depth", () => {
+			expect(
+				violatedRule(() =>
+					rules.check([step("MULTIPLY", 2), step("MULTIPLY", 3)], {
+						depth: 3,
+						replyCount: 0,
+					}),
+				),
+			).toBe("maxDepth");
+			expect(() =>
+				rules.check([step("MULTIPLY", 2)], { depth: 3, replyCount: 0 }),
+			).not.toThrow();
+		});
+
+		it("should describe the allowed operand range", () => {
+			expect(() =>
+				RootRules.create({ minOperand: 1 }).check([step("ADD", 0)], first),
+			).toThrow("Operands in this tree must be at least 1");
+			expect(() => rules.check([step("DIVIDE", 20)], first)).toThrow(
+				"Operands in this tree must be between 1 and 10",
+			);
+		});
+	});
+
+	describe("checkSubtree", () => {
+		const rules = RootRules.create({
+			allowedOperators: ["MULTIPLY", "SQUARE"],
+			maxDepth: 3,
+			maxFanOut: 2,
+		});
+		const node = (
+			operator: OperatorType,
+			children: RuleSubtree[] = [],
+		): RuleSubtree => ({
+			...step(operator, operator === "MULTIPLY" ? 2 : null),
+			children,
+		});
+
+		it("should check every reply below the moved operation", () => {
+			const moved = node("MULTIPLY", [node("SQUARE", [node("MULTIPLY")])]);
+
+			expect(() => rules.checkSubtree(moved, first)).not.toThrow();
+			expect(
+				violatedRule(() =>
+					rules.checkSubtree(moved, { depth: 2, replyCount: 0 }),
+				),
+			).toBe("maxDepth");
+			expect(
+				violatedRule(() =>
+					rules.checkSubtree(node("MULTIPLY", [node("ADD")]), first),
+				),
+			).toBe("allowedOperators");
+		});
+
+		it("should limit the replies to the new parent and within the subtree", () => {
+			expect(
+				violatedRule(() =>
+					rules.checkSubtree(node("SQUARE"), { depth: 1, replyCount: 2 }),
+				),
+			).toBe("maxFanOut");
+			expect(
+				violatedRule(() =>
+					rules.checkSubtree(
+						node("SQUARE", [node("SQUARE"), node("SQUARE"), node("SQUARE")]),
+						first,
+					),
+				),
+			).toBe("maxFanOut");
+		});
+	});
+
+	describe("allows", () => {
+		it("should allow every operator unless they are restricted", () => {
+			expect(RootRules.create({}).allows("POWER")).toBe(true);
+			expect(
+				RootRules.create({ allowedOperators: ["ADD"] }).allows("POWER"),
+			).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,255 @@
+/**
+ * Root Rules Value Object
+ *
+ * Constraints a root's author sets on every operation in the tree, to run
+ * structured puzzles such as "only × and ÷, whole numbers from 1 to 10,
+ * at most 5 steps". Each rule is optional; unset rules allow anything.
+ * Immutable - set once when the root is created.
+ */
+
+import { InvalidRulesError, RuleViolationError } from "../errors";
+import {
+	type Decimal,
+	type DecimalInput,
+	ensureStorable,
+	toDecimal,
+} from "./decimal";
+import { OPERATORS, type Operator, type OperatorType } from "./operator";
+
+export interface RootRulesInput {
+	/** Operators that may be used */
+	allowedOperators?: readonly OperatorType[];
+	/** Inclusive bounds on the operands of binary operators */
+	minOperand?: DecimalInput;
+	maxOperand?: DecimalInput;
+	/** Operands must be whole numbers */
+	integerOperands?: boolean;
+	/** Most levels of operations below the root (direct replies are 1) */
+	maxDepth?: number;
+	/** Most direct replies to the root or to any one operation */
+	maxFanOut?: number;
+}
+
+/**
+ * Serialized form - unset rules are null, bounds are strings to preserve
+ * precision
+ */
+export type RootRulesJSON = {
+	allowedOperators: OperatorType[] | null;
+	minOperand: string | null;
+	maxOperand: string | null;
+	integerOperands: boolean;
+	maxDepth: number | null;
+	maxFanOut: number | null;
+};
+
+/**
+ * Where new operations are added: how deep the first one is and how many
+ * replies its parent already has
+ */
+export interface RulePosition {
+	depth: number;
+	replyCount: number;
+}
+
+/**
+ * An operation together with the replies below it
+ */
+export interface RuleSubtree {
+	operator: Operator;
+	operand: Decimal | null;
+	children: readonly RuleSubtree[];
+}
+
+export class RootRules {
+	private constructor(
+		readonly allowedOperators: readonly OperatorType[] | null,
+		readonly minOperand: Decimal | null,
+		readonly maxOperand: Decimal | null,
+		readonly integerOperands: boolean,
+		readonly maxDepth: number | null,
+		readonly maxFanOut: number | null,
+	) {}
+
+	/**
+	 * Create rules from the author's input
+	 * @throws InvalidRulesError if the rules contradict themselves
+	 * @throws NumericOverflowError if an operand bound cannot be stored
+	 */
+	static create(input: RootRulesInput): RootRules {
+		const allowedOperators = input.allowedOperators
+			? [...new Set(input.allowedOperators)]
+			: null;
+		if (allowedOperators?.length === 0) {
+			throw new InvalidRulesError("at least one operator must be allowed");
+		}
+		for (const operator of allowedOperators ?? []) {
+			if (!OPERATORS.includes(operator)) {
+				throw new InvalidRulesError(`unknown operator ${operator}`);
+			}
+		}
+
+		const minOperand = RootRules.validateBound(input.minOperand);
+		const maxOperand = RootRules.validateBound(input.maxOperand);
+		if (minOperand && maxOperand && minOperand.gt(maxOperand)) {
+			throw new InvalidRulesError(
+				"the smallest operand cannot be larger than the largest",
+			);
+		}
+
+		return new RootRules(
+			allowedOperators,
+			minOperand,
+			maxOperand,
+			input.integerOperands ?? false,
+			RootRules.validateLimit(input.maxDepth, "maximum depth"),
+			RootRules.validateLimit(input.maxFanOut, "maximum number of replies"),
+		);
+	}
+
+	/**
+	 * Reconstitute from the serialized form (no validation)
+	 */
+	static fromJSON(json: RootRulesJSON): RootRules {
+		return new RootRules(
+			json.allowedOperators,
+			json.minOperand === null ? null : toDecimal(json.minOperand),
+			json.maxOperand === null ? null : toDecimal(json.maxOperand),
+			json.integerOperands,
+			json.maxDepth,
+			json.maxFanOut,
+		);
+	}
+
+	/**
+	 * Whether the operator may be used in the tree
+	 */
+	allows(operator: OperatorType): boolean {
+		return this.allowedOperators?.includes(operator) ?? true;
+	}
+
+	/**
+	 * Check operations about to be added as a chain, each replying to the
+	 * previous one, the first at the given position
+	 * @throws RuleViolationError for the first rule one of them breaks
+	 */
+	check(
+		operations: readonly { operator: Operator; operand: Decimal | null }[],
+		position: RulePosition,
+	): void {
+		if (this.maxFanOut !== null && position.replyCount >= this.maxFanOut) {
+			throw new RuleViolationError(
+				"maxFanOut",
+				`Each node in this tree can have at most ${this.maxFanOut} ${this.maxFanOut === 1 ? "reply" : "replies"}`,
+			);
+		}
+
+		operations.forEach((operation, index) => {
+			if (this.maxDepth !== null && position.depth + index > this.maxDepth) {
+				throw new RuleViolationError(
+					"maxDepth",
+					`Operations in this tree can be at most ${this.maxDepth} ${this.maxDepth === 1 ? "level" : "levels"} deep`,
+				);
+			}
+			this.checkOperation(operation);
+		});
+	}
+
+	/**
+	 * Check an operation moved to the given position together with the
+	 * replies it brings along, each at its own depth and none with more
+	 * replies than allowed
+	 * @throws RuleViolationError for the first rule one of them breaks
+	 */
+	checkSubtree(operation: RuleSubtree, position: RulePosition): void {
+		this.check([operation], position);
+		operation.children.forEach((child, index) => {
+			this.checkSubtree(child, {
+				depth: position.depth + 1,
+				replyCount: index,
+			});
+		});
+	}
+
+	/**
+	 * Check the operator and operand of an operation, wherever it is
+	 * @throws RuleViolationError for the first rule it breaks
+	 */
+	checkOperation({
+		operator,
+		operand,
+	}: {
+		operator: Operator;
+		operand: Decimal | null;
+	}): void {
+		if (!this.allows(operator.toString())) {
+			throw new RuleViolationError(
+				"allowedOperators",
+				`${operator.displaySymbol} is not allowed in this tree`,
+			);
+		}
+		if (operand !== null) {
+			this.checkOperand(operand);
+		}
+	}
+
+	private checkOperand(operand: Decimal): void {
+		const { minOperand: min, maxOperand: max } = this;
+		if ((min && operand.lt(min)) || (max && operand.gt(max))) {
+			const range =
+				min && max
+					? `between ${min.toString()} and ${max.toString()}`
+					: min
+						? `at least ${min.toString()}`
+						: `at most ${max?.toString()}`;
+			throw new RuleViolationError(
+				"operandRange",
+				`Operands in this tree must be ${range}`,
+			);
+		}
+		if (this.integerOperands && !operand.isInteger()) {
+			throw new RuleViolationError(
+				"integerOperands",
+				"Operands in this tree must be whole numbers",
+			);
+		}
+	}
+
+	private static validateBound(
+		input: DecimalInput | undefined,
+	): Decimal | null {
+		if (input === undefined) {
+			return null;
+		}
+		return ensureStorable(toDecimal(input), "operand");
+	}
+
+	private static validateLimit(
+		input: number | undefined,
+		label: string,
+	): number | null {
+		if (input === undefined) {
+			return null;
+		}
+		if (!Number.isInteger(input) || input < 1) {
+			throw new InvalidRulesError(
+				`the ${label} must be a positive whole number`,
+			);
+		}
+		return input;
+	}
+
+	/**
+	 * Convert to plain object for serialization
+	 */
+	toJSON(): RootRulesJSON {
+		return {
+			allowedOperators: this.allowedOperators && [...this.allowedOperators],
+			minOperand: this.minOperand?.toString() ?? null,
+			maxOperand: this.maxOperand?.toString() ?? null,
+			integerOperands: this.integerOperands,
+			maxDepth: this.maxDepth,
+			maxFanOut: this.maxFanOut,
+		};
+	}
+}
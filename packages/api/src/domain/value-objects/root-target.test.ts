@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { InvalidTargetError, NumericOverflowError } from "../errors";
+import { Decimal } from "./decimal";
+import { RootTarget } from "./root-target";
+
+describe("RootTarget Value Object", () => {
+	describe("create", () => {
+		it("should require an exact result unless a tolerance is given", () => {
+			expect(RootTarget.create({ value: 100 }).toJSON()).toEqual({
+				value: "100",
+				tolerance: "0",
+			});
+			expect(
+				RootTarget.create({ value: "33.3", tolerance: 0.05 }).toJSON(),
+			).toEqual({ value: "33.3", tolerance: "0.05" });
+		});
+
+		it("should round-trip through the serialized form", () => {
+			const target = RootTarget.create({ value: -12, tolerance: "0.001" });
+
+			expect(RootTarget.fromJSON(target.toJSON()).toJSON()).toEqual(
+				target.toJSON(),
+			);
+		});
+
+		it("should reject a negative tolerance", () => {
+			expect(() => RootTarget.create({ value: 100, tolerance: -1 })).toThrow(
+				InvalidTargetError,
+			);
+			expect(() => RootTarget.create({ value: 100, tolerance: -1 })).toThrow(
+				"Invalid target: the tolerance cannot be negative",
+			);
+		});
+
+		it("should reject targets that cannot be stored", () => {
+			expect(() => RootTarget.create({ value: "1e12" })).toThrow(
+				NumericOverflowError,
+			);
+		});
+	});
+
+	describe("isReachedBy", () => {
+		it("should only accept the exact target without a tolerance", () => {
+			const target = RootTarget.create({ value: 100 });
+
+			expect(target.isReachedBy(new Decimal("100.0000000000"))).toBe(true);
+			expect(target.isReachedBy(new Decimal("100.0000000001"))).toBe(false);
+		});
+
+		it("should accept results within the tolerance on either side", () => {
+			const target = RootTarget.create({ value: 100, tolerance: "0.5" });
+
+			expect(target.isReachedBy(new Decimal("99.5"))).toBe(true);
+			expect(target.isReachedBy(new Decimal("100.5"))).toBe(true);
+			expect(target.isReachedBy(new Decimal("100.51"))).toBe(false);
+		});
+	});
+});
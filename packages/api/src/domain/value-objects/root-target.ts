@@ -0,0 +1,77 @@
+/**
+ * Root Target Value Object
+ *
+ * The number a root's author challenges others to reach from the starting
+ * number ("start from 7, reach 100"). An operation solves the challenge when
+ * its result is within the tolerance of the target.
+ * Immutable - set once when the root is created.
+ */
+
+import { InvalidTargetError } from "../errors";
+import {
+	type Decimal,
+	type DecimalInput,
+	ensureStorable,
+	toDecimal,
+} from "./decimal";
+
+export interface RootTargetInput {
+	value: DecimalInput;
+	/** Largest accepted distance from the target (exact by default) */
+	tolerance?: DecimalInput;
+}
+
+/**
+ * Serialized form - decimals are strings to preserve precision
+ */
+export interface RootTargetJSON {
+	value: string;
+	tolerance: string;
+}
+
+export class RootTarget {
+	private constructor(
+		readonly value: Decimal,
+		readonly tolerance: Decimal,
+	) {}
+
+	/**
+	 * Create a target from the author's input
+	 * @throws InvalidTargetError if the tolerance is negative
+	 * @throws NumericOverflowError if the target or tolerance cannot be stored
+	 */
+	static create(input: RootTargetInput): RootTarget {
+		const tolerance = ensureStorable(toDecimal(input.tolerance ?? 0), "value");
+		if (tolerance.lt(0)) {
+			throw new InvalidTargetError("the tolerance cannot be negative");
+		}
+		return new RootTarget(
+			ensureStorable(toDecimal(input.value), "value"),
+			tolerance,
+		);
+	}
+
+	/**
+	 * Reconstitute from the serialized form (no validation)
+	 */
+	static fromJSON(json: RootTargetJSON): RootTarget {
+		return new RootTarget(toDecimal(json.value), toDecimal(json.tolerance));
+	}
+
+	/**
+	 * Whether a result is close enough to the target to solve the challenge
+	 */
+	isReachedBy(result: Decimal): boolean {
+		return result.minus(this.value).abs().lte(this.tolerance);
+	}
+
+	/**
+	 * Convert to plain object for serialization
+	 */
+	toJSON(): RootTargetJSON {
+		return {
+			value: this.value.toString(),
+			tolerance: this.tolerance.toString(),
+		};
+	}
+}
@@ -1,10 +1,85 @@
 import { ORPCError, os } from "@orpc/server";
 
 import type { Context } from "./context";
+import {
+	ConflictError,
+	DomainError,
+	ExpressionSyntaxError,
+	ForbiddenError,
+	NotFoundError,
+	NumericOverflowError,
+	RuleViolationError,
+	SubtreeRecalculationError,
+} from "./domain";
 
 export const o = os.$context<Context>();
 
-export const publicProcedure = o;
+/**
+ * Maps domain rule violations to client errors (400, or 403/404/409 for
+ * permission, lookup and conflicting-state failures).
+ * Anything else is left untouched and surfaces as a 500.
+ */
+const mapDomainErrors = o.middleware(async ({ next }) => {
+	try {
+		return await next();
+	} catch (error) {
+		if (error instanceof NumericOverflowError) {
+			throw new ORPCError("BAD_REQUEST", {
+				message: error.message,
+				data: { field: error.field, value: error.value },
+				cause: error,
+			});
+		}
+		if (error instanceof SubtreeRecalculationError) {
+			throw new ORPCError("BAD_REQUEST", {
+				message: error.message,
+				data: { operationId: error.operationId },
+				cause: error,
+			});
+		}
+		if (error instanceof ExpressionSyntaxError) {
+			throw new ORPCError("BAD_REQUEST", {
+				message: error.message,
+				data: { position: error.position },
+				cause: error,
+			});
+		}
+		if (error instanceof RuleViolationError) {
+			throw new ORPCError("BAD_REQUEST", {
+				message: error.message,
+				data: { rule: error.rule },
+				cause: error,
+			});
+		}
+		if (error instanceof NotFoundError) {
+			throw new ORPCError("NOT_FOUND", {
+				message: error.message,
+				cause: error,
+			});
+		}
+		if (error instanceof ForbiddenError) {
+			throw new ORPCError("FORBIDDEN", {
+				message: error.message,
+				cause: error,
+			});
+		}
+		if (error instanceof ConflictError) {
+			throw new ORPCError("CONFLICT", {
+				message: error.message,
+				cause: error,
+			});
+		}
+		if (error instanceof DomainError) {
+			throw new ORPCError("BAD_REQUEST", {
+				message: error.message,
+				cause: error,
+			});
+		}
+		throw error;
+	}
+});
+
+export const publicProcedure = o.use(mapDomainErrors);
 
 const requireAuth = o.middleware(async ({ context, next }) => {
 	if (!context.session?.user) {
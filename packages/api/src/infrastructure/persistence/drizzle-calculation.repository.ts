@@ -8,19 +8,63 @@
 import type { Database, Transaction } from "@ellty-second-round/db";
 import {
 	calculationOperation,
+	calculationRevision,
 	calculationRoot,
 	user,
 } from "@ellty-second-round/db/schema";
-import { desc, eq } from "drizzle-orm";
+import {
+	and,
+	asc,
+	type Column,
+	count,
+	countDistinct,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	like,
+	lt,
+	lte,
+	ne,
+	notExists,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 import {
+	type CalculationNodeKind,
 	CalculationOperation,
+	CalculationRevision,
 	CalculationRoot,
+	DECIMAL_SCALE,
+	type DecimalRange,
+	type FindRootsPageOptions,
 	type ICalculationRepository,
+	type NodeCursor,
+	type NodeSnapshot,
+	NotFoundError,
+	type OperatorType,
+	type RevisionAction,
+	RootRules,
+	type RootRulesJSON,
+	type RootSort,
+	type RootStats,
+	type RootSummary,
+	RootTarget,
+	type SearchHit,
+	type SearchNodesOptions,
+	type SolutionCandidate,
+	toDecimal,
 } from "../../domain";
 
 type DbClient = Database | Transaction;
 
+/** The user who first reached a root's target */
+const solver = alias(user, "solver");
+
 export class DrizzleCalculationRepository implements ICalculationRepository {
 	constructor(private readonly dbClient: DbClient) {}
 
@@ -36,11 +80,22 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				value: calculationRoot.value,
 				userId: calculationRoot.userId,
 				username: user.username,
+				forkedFromRootId: calculationRoot.forkedFromRootId,
+				forkedFromOperationId: calculationRoot.forkedFromOperationId,
+				rules: calculationRoot.rules,
+				target: calculationRoot.target,
+				targetTolerance: calculationRoot.targetTolerance,
+				solvedBy: calculationRoot.solvedBy,
+				solverUsername: solver.username,
+				solvedAt: calculationRoot.solvedAt,
+				firstSolutionId: calculationRoot.firstSolutionId,
+				shortestSolutionPath: calculationRoot.shortestSolutionPath,
 				createdAt: calculationRoot.createdAt,
 				updatedAt: calculationRoot.updatedAt,
 			})
 			.from(calculationRoot)
 			.leftJoin(user, eq(calculationRoot.userId, user.id))
+			.leftJoin(solver, eq(calculationRoot.solvedBy, solver.id))
 			.orderBy(desc(calculationRoot.createdAt));
 
 		// Fetch all operations
@@ -51,7 +106,10 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				parentOperationId: calculationOperation.parentOperationId,
 				operator: calculationOperation.operator,
 				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
 				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
 				userId: calculationOperation.userId,
 				username: user.username,
 				createdAt: calculationOperation.createdAt,
@@ -65,6 +123,127 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 		return this.buildTrees(rootRows, operationRows);
 	}
 
+	async findRootsPage(options: FindRootsPageOptions): Promise<RootSummary[]> {
+		const { sort, filters = {}, after, limit, previewSize } = options;
+		const { column, descending } = ROOT_SORT_ORDERS[sort];
+		const comesAfter = descending ? lt : gt;
+
+		const conditions = [
+			filters.username === undefined
+				? undefined
+				: eq(user.username, filters.username),
+			filters.minValue === undefined
+				? undefined
+				: gte(calculationRoot.value, filters.minValue.toString()),
+			filters.maxValue === undefined
+				? undefined
+				: lte(calculationRoot.value, filters.maxValue.toString()),
+			filters.createdAfter === undefined
+				? undefined
+				: gte(calculationRoot.createdAt, filters.createdAfter),
+			filters.createdBefore === undefined
+				? undefined
+				: lt(calculationRoot.createdAt, filters.createdBefore),
+			filters.withoutReplies
+				? eq(calculationRoot.operationCount, 0)
+				: undefined,
+			after
+				? or(
+						comesAfter(column, after.sortValue),
+						and(
+							eq(column, after.sortValue),
+							comesAfter(calculationRoot.id, after.id),
+						),
+					)
+				: undefined,
+		];
+
+		const rootRows = await this.dbClient
+			.select({
+				id: calculationRoot.id,
+				value: calculationRoot.value,
+				userId: calculationRoot.userId,
+				username: user.username,
+				forkedFromRootId: calculationRoot.forkedFromRootId,
+				forkedFromOperationId: calculationRoot.forkedFromOperationId,
+				rules: calculationRoot.rules,
+				target: calculationRoot.target,
+				targetTolerance: calculationRoot.targetTolerance,
+				solvedBy: calculationRoot.solvedBy,
+				solverUsername: solver.username,
+				solvedAt: calculationRoot.solvedAt,
+				firstSolutionId: calculationRoot.firstSolutionId,
+				shortestSolutionPath: calculationRoot.shortestSolutionPath,
+				operationCount: calculationRoot.operationCount,
+				treeDepth: calculationRoot.treeDepth,
+				lastActivityAt: calculationRoot.lastActivityAt,
+				createdAt: calculationRoot.createdAt,
+				updatedAt: calculationRoot.updatedAt,
+			})
+			.from(calculationRoot)
+			.leftJoin(user, eq(calculationRoot.userId, user.id))
+			.leftJoin(solver, eq(calculationRoot.solvedBy, solver.id))
+			.where(and(...conditions))
+			.orderBy(
+				...(descending
+					? [desc(column), desc(calculationRoot.id)]
+					: [asc(column), asc(calculationRoot.id)]),
+			)
+			.limit(limit);
+
+		if (rootRows.length === 0) {
+			return [];
+		}
+		const rootIds = rootRows.map((row) => row.id);
+
+		// Number each root's direct operations so only the first few are kept
+		const rankedOps = this.dbClient
+			.select({
+				id: calculationOperation.id,
+				parentRootId: calculationOperation.parentRootId,
+				parentOperationId: calculationOperation.parentOperationId,
+				operator: calculationOperation.operator,
+				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
+				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
+				userId: calculationOperation.userId,
+				username: user.username,
+				createdAt: calculationOperation.createdAt,
+				updatedAt: calculationOperation.updatedAt,
+				position:
+					sql<number>`row_number() over (partition by ${calculationOperation.parentRootId} order by ${calculationOperation.createdAt}, ${calculationOperation.id})`.as(
+						"position",
+					),
+			})
+			.from(calculationOperation)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(inArray(calculationOperation.parentRootId, rootIds))
+			.as("ranked_ops");
+
+		const previewRows = await this.dbClient
+			.select()
+			.from(rankedOps)
+			.where(lte(rankedOps.position, previewSize))
+			.orderBy(rankedOps.createdAt);
+
+		return rootRows.map((rootRow) => {
+			const root = this.mapToRootEntity(rootRow);
+			root.setOperations(
+				previewRows
+					.filter((op) => op.parentRootId === root.id)
+					.map((op) => this.mapToOperationEntity(op)),
+			);
+			return {
+				root,
+				operationCount: rootRow.operationCount,
+				treeDepth: rootRow.treeDepth,
+				lastActivityAt: rootRow.lastActivityAt,
+			};
+		});
+	}
+
 	async findRootById(id: string): Promise<CalculationRoot | null> {
 		const rows = await this.dbClient
 			.select({
@@ -72,11 +251,22 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				value: calculationRoot.value,
 				userId: calculationRoot.userId,
 				username: user.username,
+				forkedFromRootId: calculationRoot.forkedFromRootId,
+				forkedFromOperationId: calculationRoot.forkedFromOperationId,
+				rules: calculationRoot.rules,
+				target: calculationRoot.target,
+				targetTolerance: calculationRoot.targetTolerance,
+				solvedBy: calculationRoot.solvedBy,
+				solverUsername: solver.username,
+				solvedAt: calculationRoot.solvedAt,
+				firstSolutionId: calculationRoot.firstSolutionId,
+				shortestSolutionPath: calculationRoot.shortestSolutionPath,
 				createdAt: calculationRoot.createdAt,
 				updatedAt: calculationRoot.updatedAt,
 			})
 			.from(calculationRoot)
 			.leftJoin(user, eq(calculationRoot.userId, user.id))
+			.leftJoin(solver, eq(calculationRoot.solvedBy, solver.id))
 			.where(eq(calculationRoot.id, id))
 			.limit(1);
 
@@ -92,6 +282,100 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 		return this.mapToRootEntity(row);
 	}
 
+	async findRootStats(rootId: string): Promise<RootStats | null> {
+		const rootRows = await this.dbClient
+			.select({
+				value: calculationRoot.value,
+				userId: calculationRoot.userId,
+				lastActivityAt: calculationRoot.lastActivityAt,
+			})
+			.from(calculationRoot)
+			.where(eq(calculationRoot.id, rootId))
+			.limit(1);
+		const root = rootRows[0];
+		if (!root) {
+			return null;
+		}
+
+		// The tree's operations, each flagged when it has no replies
+		const reply = alias(calculationOperation, "reply");
+		const treeOps = this.dbClient
+			.select({
+				depth: calculationOperation.depth,
+				result: calculationOperation.result,
+				isLeaf: sql<boolean>`${notExists(
+					this.dbClient
+						.select({ id: reply.id })
+						.from(reply)
+						.where(eq(reply.parentOperationId, calculationOperation.id)),
+				)}`.as("is_leaf"),
+			})
+			.from(calculationOperation)
+			.where(eq(calculationOperation.rootId, rootId))
+			.as("tree_ops");
+
+		const [summary] = await this.dbClient
+			.select({
+				operationCount: count(),
+				maxDepth: sql<number>`coalesce(max(${treeOps.depth}), 0)`.mapWith(
+					Number,
+				),
+				leafCount:
+					sql<number>`count(*) filter (where ${treeOps.isLeaf})`.mapWith(
+						Number,
+					),
+				minLeafResult: sql<
+					string | null
+				>`min(${treeOps.result}) filter (where ${treeOps.isLeaf})`,
+				maxLeafResult: sql<
+					string | null
+				>`max(${treeOps.result}) filter (where ${treeOps.isLeaf})`,
+				meanLeafResult: sql<
+					string | null
+				>`round(avg(${treeOps.result}) filter (where ${treeOps.isLeaf}), ${DECIMAL_SCALE})`,
+			})
+			.from(treeOps);
+
+		const operatorRows = await this.dbClient
+			.select({
+				operator: calculationOperation.operator,
+				count: count(),
+			})
+			.from(calculationOperation)
+			.where(eq(calculationOperation.rootId, rootId))
+			.groupBy(calculationOperation.operator);
+
+		// The root's author plus everyone else who replied in the tree
+		const [otherContributors] = await this.dbClient
+			.select({ count: countDistinct(calculationOperation.userId) })
+			.from(calculationOperation)
+			.where(
+				and(
+					eq(calculationOperation.rootId, rootId),
+					ne(calculationOperation.userId, root.userId),
+				),
+			);
+
+		// Without operations, the root is the only leaf
+		const hasOperations = !!summary && summary.operationCount > 0;
+		const leafResult = (value: string | null | undefined) =>
+			toDecimal(hasOperations && value ? value : root.value);
+
+		return {
+			nodeCount: (summary?.operationCount ?? 0) + 1,
+			maxDepth: summary?.maxDepth ?? 0,
+			leafCount: hasOperations ? (summary?.leafCount ?? 0) : 1,
+			minLeafResult: leafResult(summary?.minLeafResult),
+			maxLeafResult: leafResult(summary?.maxLeafResult),
+			meanLeafResult: leafResult(summary?.meanLeafResult),
+			operatorCounts: Object.fromEntries(
+				operatorRows.map((row) => [row.operator, row.count]),
+			),
+			contributorCount: (otherContributors?.count ?? 0) + 1,
+			lastActivityAt: root.lastActivityAt,
+		};
+	}
+
 	async findRootByIdWithOperations(
 		id: string,
 	): Promise<CalculationRoot | null> {
@@ -100,7 +384,7 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 			return null;
 		}
 
-		// Fetch all operations for this root (recursively)
+		// Fetch only this root's operations via the denormalized root_id
 		const operationRows = await this.dbClient
 			.select({
 				id: calculationOperation.id,
@@ -108,7 +392,10 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				parentOperationId: calculationOperation.parentOperationId,
 				operator: calculationOperation.operator,
 				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
 				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
 				userId: calculationOperation.userId,
 				username: user.username,
 				createdAt: calculationOperation.createdAt,
@@ -116,15 +403,13 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 			})
 			.from(calculationOperation)
 			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(eq(calculationOperation.rootId, id))
 			.orderBy(calculationOperation.createdAt);
 
-		// Filter to only operations in this root's tree
-		const relevantOps = this.filterOperationsForRoot(id, operationRows);
-
 		// Build operations tree
 		const directOps = this.buildOperationTree(
-			relevantOps.filter((op) => op.parentRootId === id),
-			relevantOps,
+			operationRows.filter((op) => op.parentRootId === id),
+			operationRows,
 		);
 
 		root.setOperations(directOps);
@@ -139,7 +424,10 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				parentOperationId: calculationOperation.parentOperationId,
 				operator: calculationOperation.operator,
 				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
 				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
 				userId: calculationOperation.userId,
 				username: user.username,
 				createdAt: calculationOperation.createdAt,
@@ -162,8 +450,56 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 		return this.mapToOperationEntity(row);
 	}
 
+	async findOperationWithDescendants(
+		id: string,
+	): Promise<CalculationOperation | null> {
+		const position = await this.findTreePosition(id);
+		if (!position) {
+			return null;
+		}
+
+		// The operation itself plus everything whose path starts with its path
+		const operationRows = await this.dbClient
+			.select({
+				id: calculationOperation.id,
+				parentRootId: calculationOperation.parentRootId,
+				parentOperationId: calculationOperation.parentOperationId,
+				operator: calculationOperation.operator,
+				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
+				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
+				userId: calculationOperation.userId,
+				username: user.username,
+				createdAt: calculationOperation.createdAt,
+				updatedAt: calculationOperation.updatedAt,
+			})
+			.from(calculationOperation)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(
+				and(
+					eq(calculationOperation.rootId, position.rootId),
+					or(
+						eq(calculationOperation.id, id),
+						like(calculationOperation.path, descendantPathPattern(position)),
+					),
+				),
+			)
+			.orderBy(calculationOperation.createdAt);
+
+		const operation = operationRows.find((op) => op.id === id);
+		if (!operation) {
+			return null;
+		}
+
+		const [entity] = this.buildOperationTree([operation], operationRows);
+		return entity ?? null;
+	}
+
 	async findOperationsByRootId(
 		rootId: string,
+		levels = 1,
 	): Promise<CalculationOperation[]> {
 		const rows = await this.dbClient
 			.select({
@@ -172,7 +508,10 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				parentOperationId: calculationOperation.parentOperationId,
 				operator: calculationOperation.operator,
 				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
 				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
 				userId: calculationOperation.userId,
 				username: user.username,
 				createdAt: calculationOperation.createdAt,
@@ -180,15 +519,132 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 			})
 			.from(calculationOperation)
 			.leftJoin(user, eq(calculationOperation.userId, user.id))
-			.where(eq(calculationOperation.parentRootId, rootId))
+			.where(
+				and(
+					eq(calculationOperation.rootId, rootId),
+					lte(calculationOperation.depth, levels),
+				),
+			)
 			.orderBy(calculationOperation.createdAt);
 
-		return rows.map((row) => this.mapToOperationEntity(row));
+		return this.buildOperationTree(
+			rows.filter((row) => row.parentRootId === rootId),
+			rows,
+		);
 	}
 
 	async findChildOperations(
 		parentOperationId: string,
+		levels = 1,
+	): Promise<CalculationOperation[]> {
+		const position = await this.findTreePosition(parentOperationId);
+		if (!position) {
+			return [];
+		}
+
+		const rows = await this.dbClient
+			.select({
+				id: calculationOperation.id,
+				parentRootId: calculationOperation.parentRootId,
+				parentOperationId: calculationOperation.parentOperationId,
+				operator: calculationOperation.operator,
+				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
+				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
+				userId: calculationOperation.userId,
+				username: user.username,
+				createdAt: calculationOperation.createdAt,
+				updatedAt: calculationOperation.updatedAt,
+			})
+			.from(calculationOperation)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(
+				and(
+					eq(calculationOperation.rootId, position.rootId),
+					like(calculationOperation.path, descendantPathPattern(position)),
+					lte(calculationOperation.depth, position.depth + levels),
+				),
+			)
+			.orderBy(calculationOperation.createdAt);
+
+		return this.buildOperationTree(
+			rows.filter((row) => row.parentOperationId === parentOperationId),
+			rows,
+		);
+	}
+
+	async findAncestors(operationId: string): Promise<CalculationOperation[]> {
+		const position = await this.findTreePosition(operationId);
+		if (!position) {
+			return [];
+		}
+
+		// The path lists every ancestor's ID, outermost first
+		const ancestorIds = position.path.split(PATH_SEPARATOR).slice(0, -1);
+		if (ancestorIds.length === 0) {
+			return [];
+		}
+
+		const rows = await this.dbClient
+			.select({
+				id: calculationOperation.id,
+				parentRootId: calculationOperation.parentRootId,
+				parentOperationId: calculationOperation.parentOperationId,
+				operator: calculationOperation.operator,
+				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
+				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
+				userId: calculationOperation.userId,
+				username: user.username,
+				createdAt: calculationOperation.createdAt,
+				updatedAt: calculationOperation.updatedAt,
+			})
+			.from(calculationOperation)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(inArray(calculationOperation.id, ancestorIds))
+			.orderBy(calculationOperation.depth);
+
+		return rows.map((row) => this.mapToOperationEntity(row));
+	}
+
+	async findSolutionCandidates(rootId: string): Promise<SolutionCandidate[]> {
+		const rows = await this.dbClient
+			.select({
+				path: calculationOperation.path,
+				userId: calculationOperation.userId,
+				username: user.username,
+				reachedTargetAt: calculationOperation.reachedTargetAt,
+				updatedAt: calculationOperation.updatedAt,
+			})
+			.from(calculationOperation)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(
+				and(
+					eq(calculationOperation.rootId, rootId),
+					eq(calculationOperation.solvesTarget, true),
+				),
+			)
+			.orderBy(calculationOperation.reachedTargetAt, calculationOperation.id);
+
+		return rows.map((row) => ({
+			path: row.path.split("/"),
+			userId: row.userId,
+			username: row.username ?? undefined,
+			reachedAt: row.reachedTargetAt ?? row.updatedAt,
+		}));
+	}
+
+	async findReferencingOperations(
+		nodeIds: string[],
 	): Promise<CalculationOperation[]> {
+		if (nodeIds.length === 0) {
+			return [];
+		}
+
 		const rows = await this.dbClient
 			.select({
 				id: calculationOperation.id,
@@ -196,7 +652,10 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 				parentOperationId: calculationOperation.parentOperationId,
 				operator: calculationOperation.operator,
 				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
 				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
 				userId: calculationOperation.userId,
 				username: user.username,
 				createdAt: calculationOperation.createdAt,
@@ -204,12 +663,266 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 			})
 			.from(calculationOperation)
 			.leftJoin(user, eq(calculationOperation.userId, user.id))
-			.where(eq(calculationOperation.parentOperationId, parentOperationId))
+			.where(
+				or(
+					inArray(calculationOperation.operandRootId, nodeIds),
+					inArray(calculationOperation.operandOperationId, nodeIds),
+				),
+			)
 			.orderBy(calculationOperation.createdAt);
 
 		return rows.map((row) => this.mapToOperationEntity(row));
 	}
 
+	async searchNodes(options: SearchNodesOptions): Promise<SearchHit[]> {
+		const { criteria, after, limit } = options;
+
+		// Roots have no operand or operator, so those criteria rule them out
+		const rootRows =
+			criteria.operand || criteria.operators?.length
+				? []
+				: await this.dbClient
+						.select({
+							id: calculationRoot.id,
+							value: calculationRoot.value,
+							userId: calculationRoot.userId,
+							username: user.username,
+							forkedFromRootId: calculationRoot.forkedFromRootId,
+							forkedFromOperationId: calculationRoot.forkedFromOperationId,
+							rules: calculationRoot.rules,
+							target: calculationRoot.target,
+							targetTolerance: calculationRoot.targetTolerance,
+							solvedBy: calculationRoot.solvedBy,
+							solverUsername: solver.username,
+							solvedAt: calculationRoot.solvedAt,
+							firstSolutionId: calculationRoot.firstSolutionId,
+							shortestSolutionPath: calculationRoot.shortestSolutionPath,
+							createdAt: calculationRoot.createdAt,
+							updatedAt: calculationRoot.updatedAt,
+						})
+						.from(calculationRoot)
+						.leftJoin(user, eq(calculationRoot.userId, user.id))
+						.leftJoin(solver, eq(calculationRoot.solvedBy, solver.id))
+						.where(
+							and(
+								withinRange(calculationRoot.value, criteria.result),
+								withinRange(calculationRoot.value, criteria.rootValue),
+								criteria.username === undefined
+									? undefined
+									: eq(user.username, criteria.username),
+								after
+									? olderThan(
+											calculationRoot.createdAt,
+											calculationRoot.id,
+											after,
+										)
+									: undefined,
+							),
+						)
+						.orderBy(desc(calculationRoot.createdAt), desc(calculationRoot.id))
+						.limit(limit);
+
+		const operationRows = await this.dbClient
+			.select({
+				id: calculationOperation.id,
+				parentRootId: calculationOperation.parentRootId,
+				parentOperationId: calculationOperation.parentOperationId,
+				rootId: calculationOperation.rootId,
+				path: calculationOperation.path,
+				operator: calculationOperation.operator,
+				operand: calculationOperation.operand,
+				operandRootId: calculationOperation.operandRootId,
+				operandOperationId: calculationOperation.operandOperationId,
+				result: calculationOperation.result,
+				solvesTarget: calculationOperation.solvesTarget,
+				userId: calculationOperation.userId,
+				username: user.username,
+				createdAt: calculationOperation.createdAt,
+				updatedAt: calculationOperation.updatedAt,
+			})
+			.from(calculationOperation)
+			.innerJoin(
+				calculationRoot,
+				eq(calculationOperation.rootId, calculationRoot.id),
+			)
+			.leftJoin(user, eq(calculationOperation.userId, user.id))
+			.where(
+				and(
+					withinRange(calculationOperation.result, criteria.result),
+					withinRange(calculationOperation.operand, criteria.operand),
+					withinRange(calculationRoot.value, criteria.rootValue),
+					criteria.operators?.length
+						? inArray(calculationOperation.operator, criteria.operators)
+						: undefined,
+					criteria.username === undefined
+						? undefined
+						: eq(user.username, criteria.username),
+					after
+						? olderThan(
+								calculationOperation.createdAt,
+								calculationOperation.id,
+								after,
+							)
+						: undefined,
+				),
+			)
+			.orderBy(
+				desc(calculationOperation.createdAt),
+				desc(calculationOperation.id),
+			)
+			.limit(limit);
+
+		// Load the roots and ancestors of the matched operations in one
+		// query each; the paths list every ancestor's ID
+		const ancestorIdsByOperation = new Map(
+			operationRows.map((row) => [
+				row.id,
+				row.path.split(PATH_SEPARATOR).slice(0, -1),
+			]),
+		);
+		const rootIds = [...new Set(operationRows.map((row) => row.rootId))];
+		const ancestorIds = [
+			...new Set([...ancestorIdsByOperation.values()].flat()),
+		];
+
+		const treeRootRows =
+			rootIds.length === 0
+				? []
+				: await this.dbClient
+						.select({
+							id: calculationRoot.id,
+							value: calculationRoot.value,
+							userId: calculationRoot.userId,
+							username: user.username,
+							forkedFromRootId: calculationRoot.forkedFromRootId,
+							forkedFromOperationId: calculationRoot.forkedFromOperationId,
+							rules: calculationRoot.rules,
+							target: calculationRoot.target,
+							targetTolerance: calculationRoot.targetTolerance,
+							solvedBy: calculationRoot.solvedBy,
+							solverUsername: solver.username,
+							solvedAt: calculationRoot.solvedAt,
+							firstSolutionId: calculationRoot.firstSolutionId,
+							shortestSolutionPath: calculationRoot.shortestSolutionPath,
+							createdAt: calculationRoot.createdAt,
+							updatedAt: calculationRoot.updatedAt,
+						})
+						.from(calculationRoot)
+						.leftJoin(user, eq(calculationRoot.userId, user.id))
+						.leftJoin(solver, eq(calculationRoot.solvedBy, solver.id))
+						.where(inArray(calculationRoot.id, rootIds));
+		const ancestorRows =
+			ancestorIds.length === 0
+				? []
+				: await this.dbClient
+						.select({
+							id: calculationOperation.id,
+							parentRootId: calculationOperation.parentRootId,
+							parentOperationId: calculationOperation.parentOperationId,
+							operator: calculationOperation.operator,
+							operand: calculationOperation.operand,
+							operandRootId: calculationOperation.operandRootId,
+							operandOperationId: calculationOperation.operandOperationId,
+							result: calculationOperation.result,
+							solvesTarget: calculationOperation.solvesTarget,
+							userId: calculationOperation.userId,
+							username: user.username,
+							createdAt: calculationOperation.createdAt,
+							updatedAt: calculationOperation.updatedAt,
+						})
+						.from(calculationOperation)
+						.leftJoin(user, eq(calculationOperation.userId, user.id))
+						.where(inArray(calculationOperation.id, ancestorIds));
+
+		const rootsById = new Map(
+			treeRootRows.map((row) => [row.id, this.mapToRootEntity(row)]),
+		);
+		const ancestorsById = new Map(
+			ancestorRows.map((row) => [row.id, this.mapToOperationEntity(row)]),
+		);
+
+		const hits: SearchHit[] = rootRows.map((row) => ({
+			kind: "root",
+			node: this.mapToRootEntity(row),
+		}));
+		for (const row of operationRows) {
+			const root = rootsById.get(row.rootId);
+			if (!root) {
+				continue;
+			}
+			hits.push({
+				kind: "operation",
+				node: this.mapToOperationEntity(row),
+				root,
+				ancestors: (ancestorIdsByOperation.get(row.id) ?? []).flatMap(
+					(id) => ancestorsById.get(id) ?? [],
+				),
+			});
+		}
+
+		// Merge the two newest-first lists and keep the first `limit`
+		return hits
+			.sort(
+				(a, b) =>
+					b.node.createdAt.getTime() - a.node.createdAt.getTime() ||
+					(a.node.id < b.node.id ? 1 : a.node.id > b.node.id ? -1 : 0),
+			)
+			.slice(0, limit);
+	}
+
+	async findRevisions(nodeId: string): Promise<CalculationRevision[]> {
+		const rows = await this.dbClient
+			.select({
+				id: calculationRevision.id,
+				nodeId: calculationRevision.nodeId,
+				nodeKind: calculationRevision.nodeKind,
+				rootId: calculationRevision.rootId,
+				action: calculationRevision.action,
+				before: calculationRevision.before,
+				after: calculationRevision.after,
+				userId: calculationRevision.userId,
+				username: user.username,
+				createdAt: calculationRevision.createdAt,
+			})
+			.from(calculationRevision)
+			.leftJoin(user, eq(calculationRevision.userId, user.id))
+			.where(eq(calculationRevision.nodeId, nodeId))
+			.orderBy(
+				desc(calculationRevision.createdAt),
+				desc(calculationRevision.id),
+			);
+
+		return rows.map((row) => this.mapToRevisionEntity(row));
+	}
+
+	async findTreeRevisions(rootId: string): Promise<CalculationRevision[]> {
+		// Nodes that were ever in the tree, including those since moved away
+		const treeNodeIds = this.dbClient
+			.selectDistinct({ nodeId: calculationRevision.nodeId })
+			.from(calculationRevision)
+			.where(eq(calculationRevision.rootId, rootId));
+
+		const rows = await this.dbClient
+			.select({
+				id: calculationRevision.id,
+				nodeId: calculationRevision.nodeId,
+				nodeKind: calculationRevision.nodeKind,
+				rootId: calculationRevision.rootId,
+				action: calculationRevision.action,
+				before: calculationRevision.before,
+				after: calculationRevision.after,
+				userId: calculationRevision.userId,
+				username: user.username,
+				createdAt: calculationRevision.createdAt,
+			})
+			.from(calculationRevision)
+			.leftJoin(user, eq(calculationRevision.userId, user.id))
+			.where(inArray(calculationRevision.nodeId, treeNodeIds))
+			.orderBy(calculationRevision.createdAt, calculationRevision.id);
+
+		return rows.map((row) => this.mapToRevisionEntity(row));
+	}
+
 	// ==========================================
 	// Command Methods
 	// ==========================================
@@ -219,35 +932,211 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 			id: root.id,
 			value: root.value.toString(),
 			userId: root.userId,
+			forkedFromRootId: root.forkedFromRootId,
+			forkedFromOperationId: root.forkedFromOperationId,
+			rules: root.rules?.toJSON() ?? null,
+			target: root.target?.value.toString() ?? null,
+			targetTolerance: root.target?.tolerance.toString() ?? null,
+			lastActivityAt: root.updatedAt,
 			createdAt: root.createdAt,
 			updatedAt: root.updatedAt,
 		});
 	}
 
 	async saveOperation(operation: CalculationOperation): Promise<void> {
+		const position = await this.resolveTreePosition(operation);
+
 		await this.dbClient.insert(calculationOperation).values({
 			id: operation.id,
 			parentRootId: operation.parentRootId,
 			parentOperationId: operation.parentOperationId,
+			rootId: position.rootId,
+			depth: position.depth,
+			path: position.path,
 			operator: operation.operator.toString(),
-			operand: operation.operand.toString(),
+			operand: operation.operand?.toString() ?? null,
+			operandRootId: operation.operandRootId,
+			operandOperationId: operation.operandOperationId,
 			result: operation.result.toString(),
+			solvesTarget: operation.solvesTarget,
 			userId: operation.userId,
 			createdAt: operation.createdAt,
 			updatedAt: operation.updatedAt,
 		});
+		await this.refreshTreeStats(position.rootId);
+	}
+
+	async updateRoot(root: CalculationRoot): Promise<void> {
+		await this.dbClient
+			.update(calculationRoot)
+			.set({
+				value: root.value.toString(),
+				updatedAt: root.updatedAt,
+			})
+			.where(eq(calculationRoot.id, root.id));
+		await this.refreshTreeStats(root.id);
+	}
+
+	async updateOperations(operations: CalculationOperation[]): Promise<void> {
+		if (operations.length === 0) {
+			return;
+		}
+
+		// One UPDATE ... FROM (VALUES ...) joined on id, instead of one per node
+		const rows = sql.join(
+			operations.map(
+				(operation) =>
+					sql`(${operation.id}, ${operation.operator.toString()}::operator, ${operation.operand?.toString() ?? null}::numeric, ${operation.operandRootId}::text, ${operation.operandOperationId}::text, ${operation.result.toString()}::numeric, ${operation.updatedAt.toISOString()}::timestamp)`,
+			),
+			sql`, `,
+		);
+
+		await this.dbClient.execute(sql`
+			update ${calculationOperation}
+			set operator = v.operator,
+				operand = v.operand,
+				operand_root_id = v.operand_root_id,
+				operand_operation_id = v.operand_operation_id,
+				result = v.result,
+				updated_at = v.updated_at
+			from (values ${rows}) as v(id, operator, operand, operand_root_id, operand_operation_id, result, updated_at)
+			where ${calculationOperation.id} = v.id
+		`);
+
+		const trees = await this.dbClient
+			.selectDistinct({ rootId: calculationOperation.rootId })
+			.from(calculationOperation)
+			.where(
+				inArray(
+					calculationOperation.id,
+					operations.map((operation) => operation.id),
+				),
+			);
+		for (const { rootId } of trees) {
+			await this.refreshTreeStats(rootId);
+		}
+	}
+
+	async updateSolvesTarget(operations: CalculationOperation[]): Promise<void> {
+		const ids = (solvesTarget: boolean) =>
+			operations
+				.filter((operation) => operation.solvesTarget === solvesTarget)
+				.map((operation) => operation.id);
+
+		for (const solvesTarget of [true, false]) {
+			const operationIds = ids(solvesTarget);
+			if (operationIds.length > 0) {
+				await this.dbClient
+					.update(calculationOperation)
+					// Flagging is not an edit, so the edit time is kept. Only
+					// operations whose flag changes are written, so the time an
+					// operation reached the target survives recomputes.
+					.set({
+						solvesTarget,
+						reachedTargetAt: solvesTarget ? new Date() : null,
+						updatedAt: sql`${calculationOperation.updatedAt}`,
+					})
+					.where(
+						and(
+							inArray(calculationOperation.id, operationIds),
+							ne(calculationOperation.solvesTarget, solvesTarget),
+						),
+					);
+			}
+		}
+	}
+
+	async updateRootSolution(root: CalculationRoot): Promise<void> {
+		await this.dbClient
+			.update(calculationRoot)
+			.set({
+				solvedBy: root.solution?.solvedBy ?? null,
+				solvedAt: root.solution?.solvedAt ?? null,
+				firstSolutionId: root.solution?.firstOperationId ?? null,
+				shortestSolutionPath: root.solution?.shortestPath.join("/") ?? null,
+				updatedAt: root.updatedAt,
+			})
+			.where(eq(calculationRoot.id, root.id));
+	}
+
+	async moveOperation(operation: CalculationOperation): Promise<void> {
+		const from = await this.findTreePosition(operation.id);
+		if (!from) {
+			throw new Error(`Operation not found: ${operation.id}`);
+		}
+		const to = await this.resolveTreePosition(operation);
+
+		await this.dbClient
+			.update(calculationOperation)
+			.set({
+				parentRootId: operation.parentRootId,
+				parentOperationId: operation.parentOperationId,
+			})
+			.where(eq(calculationOperation.id, operation.id));
+
+		// Re-anchor the whole subtree: swap the moved node's path prefix and
+		// shift every depth by the same amount
+		await this.dbClient
+			.update(calculationOperation)
+			.set({
+				rootId: to.rootId,
+				depth: sql`${calculationOperation.depth} + ${to.depth - from.depth}`,
+				path: sql`${to.path} || substr(${calculationOperation.path}, ${from.path.length + 1})`,
+			})
+			.where(
+				and(
+					eq(calculationOperation.rootId, from.rootId),
+					or(
+						eq(calculationOperation.id, operation.id),
+						like(calculationOperation.path, descendantPathPattern(from)),
+					),
+				),
+			);
+
+		await this.refreshTreeStats(from.rootId);
+		if (to.rootId !== from.rootId) {
+			await this.refreshTreeStats(to.rootId);
+		}
 	}
 
 	async deleteRoot(id: string): Promise<void> {
+		// Operations are removed by the parent_root_id/parent_operation_id
+		// cascading foreign keys
 		await this.dbClient
 			.delete(calculationRoot)
 			.where(eq(calculationRoot.id, id));
 	}
 
 	async deleteOperation(id: string): Promise<void> {
+		const position = await this.findTreePosition(id);
+
+		// Replies are removed by the parent_operation_id cascading foreign key
 		await this.dbClient
 			.delete(calculationOperation)
 			.where(eq(calculationOperation.id, id));
+
+		if (position) {
+			await this.refreshTreeStats(position.rootId);
+		}
+	}
+
+	async saveRevisions(revisions: CalculationRevision[]): Promise<void> {
+		// Batched to stay under the bind parameter limit for large trees
+		for (let i = 0; i < revisions.length; i += REVISION_BATCH_SIZE) {
+			await this.dbClient.insert(calculationRevision).values(
+				revisions.slice(i, i + REVISION_BATCH_SIZE).map((revision) => ({
+					id: revision.id,
+					nodeId: revision.nodeId,
+					nodeKind: revision.nodeKind,
+					rootId: revision.rootId,
+					action: revision.action,
+					before: revision.before,
+					after: revision.after,
+					userId: revision.userId,
+					createdAt: revision.createdAt,
+				})),
+			);
+		}
 	}
 
 	// ==========================================
@@ -317,56 +1206,117 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 		});
 	}
 
-	private filterOperationsForRoot(
-		rootId: string,
-		allOps: OperationRow[],
-	): OperationRow[] {
-		// Build set of all operation IDs that belong to this root
-		const belongsToRoot = new Set<string>();
+	private async findTreePosition(id: string): Promise<TreePosition | null> {
+		const rows = await this.dbClient
+			.select({
+				rootId: calculationOperation.rootId,
+				depth: calculationOperation.depth,
+				path: calculationOperation.path,
+			})
+			.from(calculationOperation)
+			.where(eq(calculationOperation.id, id))
+			.limit(1);
 
-		// First pass: add direct children of root
-		for (const op of allOps) {
-			if (op.parentRootId === rootId) {
-				belongsToRoot.add(op.id);
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * Work out where a new operation sits in its tree from its parent
+	 */
+	private async resolveTreePosition(
+		operation: CalculationOperation,
+	): Promise<TreePosition> {
+		if (operation.parentOperationId) {
+			const parent = await this.findTreePosition(operation.parentOperationId);
+			if (!parent) {
+				throw new NotFoundError("operation", operation.parentOperationId);
 			}
+			return {
+				rootId: parent.rootId,
+				depth: parent.depth + 1,
+				path: `${parent.path}${PATH_SEPARATOR}${operation.id}`,
+			};
 		}
 
-		// Multiple passes to find nested children
-		let foundNew = true;
-		while (foundNew) {
-			foundNew = false;
-			for (const op of allOps) {
-				if (op.parentOperationId && belongsToRoot.has(op.parentOperationId)) {
-					if (!belongsToRoot.has(op.id)) {
-						belongsToRoot.add(op.id);
-						foundNew = true;
-					}
-				}
-			}
+		if (!operation.parentRootId) {
+			throw new Error(`Operation ${operation.id} has no parent`);
 		}
+		return { rootId: operation.parentRootId, depth: 1, path: operation.id };
+	}
 
-		return allOps.filter((op) => belongsToRoot.has(op.id));
+	/**
+	 * Recompute a root's denormalized tree statistics from its operations
+	 */
+	private async refreshTreeStats(rootId: string): Promise<void> {
+		await this.dbClient.execute(sql`
+			update ${calculationRoot}
+			set operation_count = s.operation_count,
+				tree_depth = s.tree_depth,
+				last_activity_at = greatest(${calculationRoot.updatedAt}, s.last_operation_at)
+			from (
+				select count(*)::int as operation_count,
+					coalesce(max(${calculationOperation.depth}), 0) as tree_depth,
+					max(${calculationOperation.updatedAt}) as last_operation_at
+				from ${calculationOperation}
+				where ${calculationOperation.rootId} = ${rootId}
+			) as s
+			where ${calculationRoot.id} = ${rootId}
+		`);
 	}
 
 	private mapToRootEntity(row: RootRow): CalculationRoot {
 		return CalculationRoot.fromPersistence({
 			id: row.id,
-			value: Number.parseFloat(row.value),
+			value: toDecimal(row.value),
 			userId: row.userId,
 			username: row.username ?? undefined,
+			forkedFromRootId: row.forkedFromRootId,
+			forkedFromOperationId: row.forkedFromOperationId,
+			rules: row.rules && RootRules.fromJSON(row.rules as RootRulesJSON),
+			target:
+				row.target === null
+					? null
+					: RootTarget.fromJSON({
+							value: row.target,
+							tolerance: row.targetTolerance ?? "0",
+						}),
+			// The solver or first solving operation may have been removed by a
+			// cascading delete outside of the service
+			solution:
+				row.solvedAt && row.solvedBy && row.firstSolutionId
+					? {
+							solvedBy: row.solvedBy,
+							solvedByUsername: row.solverUsername ?? undefined,
+							solvedAt: row.solvedAt,
+							firstOperationId: row.firstSolutionId,
+							shortestPath: row.shortestSolutionPath?.split("/") ?? [],
+						}
+					: null,
 			createdAt: row.createdAt,
 			updatedAt: row.updatedAt,
 		});
 	}
 
+	private mapToRevisionEntity(row: RevisionRow): CalculationRevision {
+		return CalculationRevision.fromPersistence({
+			...row,
+			before: row.before as NodeSnapshot | null,
+			after: row.after as NodeSnapshot | null,
+			username: row.username ?? undefined,
+		});
+	}
+
 	private mapToOperationEntity(row: OperationRow): CalculationOperation {
 		return CalculationOperation.fromPersistence({
 			id: row.id,
 			parentRootId: row.parentRootId,
 			parentOperationId: row.parentOperationId,
 			operator: row.operator,
-			operand: Number.parseFloat(row.operand),
-			result: Number.parseFloat(row.result),
+			operand: row.operand === null ? null : toDecimal(row.operand),
+			operandRootId: row.operandRootId,
+			operandOperationId: row.operandOperationId,
+			result: toDecimal(row.result),
+			solvesTarget: row.solvesTarget,
 			userId: row.userId,
 			username: row.username ?? undefined,
 			createdAt: row.createdAt,
@@ -375,12 +1325,86 @@ export class DrizzleCalculationRepository implements ICalculationRepository {
 	}
 }
 
+/**
+ * Column each feed order sorts on, and whether it sorts descending
+ */
+const ROOT_SORT_ORDERS: Record<
+	RootSort,
+	{ column: Column; descending: boolean }
+> = {
+	newest: { column: calculationRoot.createdAt, descending: true },
+	oldest: { column: calculationRoot.createdAt, descending: false },
+	most_operations: {
+		column: calculationRoot.operationCount,
+		descending: true,
+	},
+	deepest: { column: calculationRoot.treeDepth, descending: true },
+	recently_active: {
+		column: calculationRoot.lastActivityAt,
+		descending: true,
+	},
+	largest_value: { column: calculationRoot.value, descending: true },
+	smallest_value: { column: calculationRoot.value, descending: false },
+};
+
+const PATH_SEPARATOR = "/";
+
+/**
+ * Revisions inserted per statement (9 bind parameters each)
+ */
+const REVISION_BATCH_SIZE = 1000;
+
+/**
+ * Condition keeping a decimal column within a range (undefined for no range)
+ */
+function withinRange(
+	column: Column,
+	range: DecimalRange | undefined,
+): SQL | undefined {
+	return and(
+		range?.min === undefined ? undefined : gte(column, range.min.toString()),
+		range?.max === undefined ? undefined : lte(column, range.max.toString()),
+	);
+}
+
+/**
+ * Condition matching rows after the cursor in newest-first order
+ */
+function olderThan(
+	createdAt: Column,
+	id: Column,
+	cursor: NodeCursor,
+): SQL | undefined {
+	return or(
+		lt(createdAt, cursor.createdAt),
+		and(eq(createdAt, cursor.createdAt), lt(id, cursor.id)),
+	);
+}
+
+/**
+ * LIKE pattern matching the paths of every operation below the given one
+ */
+function descendantPathPattern(position: TreePosition): string {
+	const escaped = position.path.replace(/[\\%_]/g, "\\$&");
+	return `${escaped}${PATH_SEPARATOR}%`;
+}
+
 // Type definitions for query results
 interface RootRow {
 	id: string;
 	value: string;
 	userId: string;
 	username: string | null;
+	forkedFromRootId: string | null;
+	forkedFromOperationId: string | null;
+	rules: Record<string, unknown> | null;
+	target: string | null;
+	targetTolerance: string | null;
+	solvedBy: string | null;
+	solverUsername: string | null;
+	solvedAt: Date | null;
+	firstSolutionId: string | null;
+	shortestSolutionPath: string | null;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -389,11 +1413,33 @@ interface OperationRow {
 	id: string;
 	parentRootId: string | null;
 	parentOperationId: string | null;
-	operator: "ADD" | "SUBTRACT" | "MULTIPLY" | "DIVIDE";
-	operand: string;
+	operator: OperatorType;
+	operand: string | null;
+	operandRootId: string | null;
+	operandOperationId: string | null;
 	result: string;
+	solvesTarget: boolean;
 	userId: string;
 	username: string | null;
 	createdAt: Date;
 	updatedAt: Date;
 }
+
+interface RevisionRow {
+	id: string;
+	nodeId: string;
+	nodeKind: CalculationNodeKind;
+	rootId: string | null;
+	action: RevisionAction;
+	before: Record<string, string | null> | null;
+	after: Record<string, string | null> | null;
+	userId: string;
+	username: string | null;
+	createdAt: Date;
+}
+
+interface TreePosition {
+	rootId: string;
+	depth: number;
+	path: string;
+}
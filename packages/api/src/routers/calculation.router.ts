@@ -6,26 +6,239 @@
  */
 
 import { z } from "zod";
-import { OPERATORS } from "../domain";
+import {
+	OPERATORS,
+	operationPathToJSON,
+	ROOT_SORTS,
+	rootPageToJSON,
+	rootStatsToJSON,
+	searchPageToJSON,
+	subtreeToJSON,
+} from "../domain";
 import { protectedProcedure, publicProcedure } from "../index";
 
 // ==========================================
 // Input Schemas
 // ==========================================
 
+/**
+ * Decimal input - accepts a finite number or a plain decimal string.
+ * Strings are preferred by clients as they carry the exact value.
+ */
+const decimalSchema = z.union([
+	z.number().finite(),
+	z
+		.string()
+		.trim()
+		.regex(/^[-+]?\d+(\.\d+)?$/, "Must be a decimal number"),
+]);
+
+/**
+ * Rules for the operations of a new tree - every rule is optional; the
+ * domain rejects contradictory ones
+ */
+const rootRulesSchema = z.object({
+	allowedOperators: z.array(z.enum(OPERATORS)).min(1).optional(),
+	minOperand: decimalSchema.optional(),
+	maxOperand: decimalSchema.optional(),
+	integerOperands: z.boolean().optional(),
+	maxDepth: z.number().int().positive().optional(),
+	maxFanOut: z.number().int().positive().optional(),
+});
+
+/**
+ * Number to reach from the starting number - a result within the tolerance
+ * of it solves the challenge
+ */
+const rootTargetSchema = z.object({
+	value: decimalSchema,
+	tolerance: decimalSchema.optional(),
+});
+
 const createRootSchema = z.object({
-	value: z.number().finite(),
+	value: decimalSchema,
+	rules: rootRulesSchema.optional(),
+	target: rootTargetSchema.optional(),
+});
+
+/**
+ * A literal operand, or the root or operation whose current result is
+ * used as the operand - at most one of the three
+ */
+const operandFields = {
+	// Unary operators take no operand; the domain rejects mismatches
+	operand: decimalSchema.nullish(),
+	operandRootId: z.string().uuid().optional(),
+	operandOperationId: z.string().uuid().optional(),
+};
+
+const hasAtMostOneOperand = (input: {
+	operand?: unknown;
+	operandRootId?: string;
+	operandOperationId?: string;
+}) =>
+	[
+		input.operand ?? undefined,
+		input.operandRootId,
+		input.operandOperationId,
+	].filter((value) => value !== undefined).length <= 1;
+
+const atMostOneOperandMessage = {
+	message:
+		"Specify at most one of operand, operandRootId and operandOperationId",
+};
+
+const createOperationSchema = z
+	.object({
+		parentRootId: z.string().uuid().optional(),
+		parentOperationId: z.string().uuid().optional(),
+		operator: z.enum(OPERATORS),
+		...operandFields,
+	})
+	.refine(hasAtMostOneOperand, atMostOneOperandMessage);
+
+/** Longest expression accepted, well above MAX_CHAIN_LENGTH steps */
+const MAX_CHAIN_EXPRESSION_LENGTH = 1000;
+
+const chainSchema = z
+	.object({
+		parentRootId: z.string().uuid().optional(),
+		parentOperationId: z.string().uuid().optional(),
+		// Parsed by the domain, which reports where it fails
+		expression: z.string().trim().min(1).max(MAX_CHAIN_EXPRESSION_LENGTH),
+	})
+	.refine((input) => !input.parentRootId !== !input.parentOperationId, {
+		message: "Must specify either parentRootId or parentOperationId",
+	});
+
+const importExpressionSchema = z.object({
+	// Parsed by the domain, which reports where and why it fails
+	expression: z.string().trim().min(1).max(MAX_CHAIN_EXPRESSION_LENGTH),
+});
+
+const forkFromNodeSchema = z.object({
+	operationId: z.string().uuid(),
+	includeDescendants: z.boolean().optional(),
+	keepAuthors: z.boolean().optional(),
+});
+
+const updateRootValueSchema = z.object({
+	id: z.string().uuid(),
+	value: decimalSchema,
+});
+
+const updateOperationSchema = z
+	.object({
+		id: z.string().uuid(),
+		operator: z.enum(OPERATORS).optional(),
+		...operandFields,
+	})
+	.refine(
+		(input) =>
+			input.operator !== undefined ||
+			input.operand !== undefined ||
+			input.operandRootId !== undefined ||
+			input.operandOperationId !== undefined,
+		{
+			message: "Must specify an operator or operand to change",
+		},
+	)
+	.refine(hasAtMostOneOperand, atMostOneOperandMessage);
+
+const moveOperationSchema = z
+	.object({
+		id: z.string().uuid(),
+		parentRootId: z.string().uuid().optional(),
+		parentOperationId: z.string().uuid().optional(),
+	})
+	.refine((input) => !input.parentRootId !== !input.parentOperationId, {
+		message: "Must specify either parentRootId or parentOperationId",
+	});
+
+/** Largest page of the root feed a client may request */
+const MAX_ROOT_PAGE_SIZE = 50;
+
+const listRootsSchema = z.object({
+	cursor: z.string().min(1).optional(),
+	limit: z.number().int().min(1).max(MAX_ROOT_PAGE_SIZE).optional(),
+	sort: z.enum(ROOT_SORTS).optional(),
+	// Filters - every given filter must match
+	username: z.string().trim().min(1).optional(),
+	minValue: decimalSchema.optional(),
+	maxValue: decimalSchema.optional(),
+	createdAfter: z.coerce.date().optional(),
+	createdBefore: z.coerce.date().optional(),
+	withoutReplies: z.boolean().optional(),
 });
 
-const createOperationSchema = z.object({
-	parentRootId: z.string().uuid().optional(),
-	parentOperationId: z.string().uuid().optional(),
-	operator: z.enum(OPERATORS),
-	operand: z.number().finite(),
+/** Largest page of search results a client may request */
+const MAX_SEARCH_PAGE_SIZE = 50;
+
+const decimalRangeSchema = z
+	.object({
+		equals: decimalSchema.optional(),
+		min: decimalSchema.optional(),
+		max: decimalSchema.optional(),
+	})
+	.refine(
+		(range) =>
+			range.equals === undefined ||
+			(range.min === undefined && range.max === undefined),
+		{
+			message: "Use either equals or min/max",
+		},
+	);
+
+const searchSchema = z
+	.object({
+		result: decimalRangeSchema.optional(),
+		operand: decimalRangeSchema.optional(),
+		rootValue: decimalRangeSchema.optional(),
+		operators: z.array(z.enum(OPERATORS)).min(1).optional(),
+		username: z.string().trim().min(1).optional(),
+		cursor: z.string().min(1).optional(),
+		limit: z.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).optional(),
+	})
+	.refine(
+		(input) =>
+			input.result !== undefined ||
+			input.operand !== undefined ||
+			input.rootValue !== undefined ||
+			input.operators !== undefined ||
+			input.username !== undefined,
+		{
+			message: "Must specify at least one search criterion",
+		},
+	);
+
+/** Deepest subtree a client may request in one call */
+const MAX_SUBTREE_DEPTH = 10;
+
+const getSubtreeSchema = z.object({
+	nodeId: z.string().uuid(),
+	depth: z.number().int().min(1).max(MAX_SUBTREE_DEPTH).optional(),
 });
 
 const getRootByIdSchema = z.object({
 	id: z.string().uuid(),
+	// Rebuild the tree as it was at this moment
+	asOf: z.coerce.date().optional(),
+});
+
+const getPathSchema = z.object({
+	operationId: z.string().uuid(),
+});
+
+const getHistorySchema = z.object({
+	nodeId: z.string().uuid(),
+});
+
+const getRootStatsSchema = z.object({
+	rootId: z.string().uuid(),
+});
+
+const deleteSchema = z.object({
+	id: z.string().uuid(),
 });
 
 // ==========================================
@@ -36,6 +249,7 @@ export const calculationRouter = {
 	/**
 	 * Get the full calculation tree (all roots with their operations)
 	 * Public endpoint - anyone can view calculations
+	 * @deprecated Loads every root at once; use listRoots and getRootById
 	 */
 	getFullTree: publicProcedure.handler(async ({ context }) => {
 		const trees = await context.calculationService.getFullTree();
@@ -43,18 +257,102 @@ export const calculationRouter = {
 	}),
 
 	/**
-	 * Get a single root by ID with its operation tree
+	 * Get a page of roots in the chosen order (newest first by default),
+	 * optionally filtered, with tree statistics and a preview of each root's
+	 * first direct operations. Pass `nextCursor` from the response as
+	 * `cursor`, with the same order and filters, to fetch the following page.
+	 * Public endpoint - anyone can view calculations
+	 */
+	listRoots: publicProcedure
+		.input(listRootsSchema)
+		.handler(async ({ input, context }) => {
+			const page = await context.calculationService.listRoots(input);
+			return rootPageToJSON(page);
+		}),
+
+	/**
+	 * Search roots and operations across all trees by value, operand,
+	 * root value, operator and author (newest first). Each hit carries its
+	 * root and ancestors so clients can link to it and show its path.
+	 * Public endpoint - anyone can view calculations
+	 */
+	search: publicProcedure
+		.input(searchSchema)
+		.handler(async ({ input, context }) => {
+			const page = await context.calculationService.search(input);
+			return searchPageToJSON(page);
+		}),
+
+	/**
+	 * Get a single root by ID with its operation tree, optionally as it
+	 * was at `asOf`
 	 * Public endpoint - anyone can view calculations
 	 */
 	getRootById: publicProcedure
 		.input(getRootByIdSchema)
 		.handler(async ({ input, context }) => {
-			const root = await context.calculationService.getRootById(input.id);
+			const root = await context.calculationService.getRootById(
+				input.id,
+				input.asOf,
+			);
 			return root?.toJSON() ?? null;
 		}),
 
 	/**
-	 * Create a new calculation root (starting number)
+	 * Get the replies below a root or operation down to `depth` levels
+	 * (3 by default). Every returned operation carries `childCount`, so
+	 * operations on the last level with unloaded replies can be fetched
+	 * with another call.
+	 * Public endpoint - anyone can view calculations
+	 */
+	getSubtree: publicProcedure
+		.input(getSubtreeSchema)
+		.handler(async ({ input, context }) => {
+			const subtree = await context.calculationService.getSubtree(input);
+			return subtreeToJSON(subtree);
+		}),
+
+	/**
+	 * Get the chain from an operation's root down to the operation and the
+	 * fully parenthesized expression it computes, e.g. "((100 + 50) × 2) − 30"
+	 * Public endpoint - anyone can view calculations
+	 */
+	getPath: publicProcedure
+		.input(getPathSchema)
+		.handler(async ({ input, context }) => {
+			const path = await context.calculationService.getPath(input.operationId);
+			return operationPathToJSON(path);
+		}),
+
+	/**
+	 * Get the recorded changes to a root or operation, newest first: who
+	 * made each one, when, and the node's values before and after
+	 * Public endpoint - anyone can view calculations
+	 */
+	getHistory: publicProcedure
+		.input(getHistorySchema)
+		.handler(async ({ input, context }) => {
+			const revisions = await context.calculationService.getHistory(
+				input.nodeId,
+			);
+			return revisions.map((revision) => revision.toJSON());
+		}),
+
+	/**
+	 * Get statistics for one root's tree: node count, depth, leaf results,
+	 * operator usage, contributors and last activity
+	 * Public endpoint - anyone can view calculations
+	 */
+	getRootStats: publicProcedure
+		.input(getRootStatsSchema)
+		.handler(async ({ input, context }) => {
+			const stats = await context.calculationService.getRootStats(input.rootId);
+			return rootStatsToJSON(stats);
+		}),
+
+	/**
+	 * Create a new calculation root (starting number), optionally with
+	 * rules every operation in its tree must follow and a target to reach
 	 * Protected endpoint - requires authentication
 	 */
 	createRoot: protectedProcedure
@@ -62,6 +360,8 @@ export const calculationRouter = {
 		.handler(async ({ input, context }) => {
 			const root = await context.calculationService.createRoot({
 				value: input.value,
+				rules: input.rules,
+				target: input.target,
 				userId: context.session.user.id,
 				username: context.session.user.name ?? undefined,
 			});
@@ -69,7 +369,9 @@ export const calculationRouter = {
 		}),
 
 	/**
-	 * Create a new calculation operation (reply to root or another operation)
+	 * Create a new calculation operation (reply to root or another operation).
+	 * The operand may reference another root or operation's result, which
+	 * is then kept up to date when that node changes.
 	 * Protected endpoint - requires authentication
 	 */
 	createOperation: protectedProcedure
@@ -92,9 +394,154 @@ export const calculationRouter = {
 				parentOperationId: input.parentOperationId,
 				operator: input.operator,
 				operand: input.operand,
+				operandRootId: input.operandRootId,
+				operandOperationId: input.operandOperationId,
+				userId: context.session.user.id,
+				username: context.session.user.name ?? undefined,
+			});
+			return operation.toJSON();
+		}),
+
+	/**
+	 * Import an arithmetic expression such as "(100 + 50) * 2 - 30" as a new
+	 * root with a chain of operations, in one transaction. Expressions that
+	 * cannot be applied left to right are rejected with the reason.
+	 * Protected endpoint - requires authentication
+	 */
+	importExpression: protectedProcedure
+		.input(importExpressionSchema)
+		.handler(async ({ input, context }) => {
+			const root = await context.calculationService.importExpression({
+				expression: input.expression,
 				userId: context.session.user.id,
 				username: context.session.user.name ?? undefined,
 			});
+			return root.toJSON();
+		}),
+
+	/**
+	 * Start a new root from an operation's result, recording where it was
+	 * forked from. `includeDescendants` also copies the operation's replies
+	 * (recomputed from the new root); `keepAuthors` keeps their original
+	 * authors instead of making the caller the author of every copy.
+	 * Protected endpoint - requires authentication
+	 */
+	forkFromNode: protectedProcedure
+		.input(forkFromNodeSchema)
+		.handler(async ({ input, context }) => {
+			const root = await context.calculationService.forkFromNode({
+				...input,
+				userId: context.session.user.id,
+				username: context.session.user.name ?? undefined,
+			});
+			return root.toJSON();
+		}),
+
+	/**
+	 * Compute the operations a typed chain (e.g. "+5 *2 -3 /4") would
+	 * create below a root or operation, without saving them
+	 * Public endpoint - anyone can preview
+	 */
+	previewChain: publicProcedure
+		.input(chainSchema)
+		.handler(async ({ input, context }) => {
+			const operations = await context.calculationService.previewChain(input);
+			return operations.map((operation) => operation.toJSON());
+		}),
+
+	/**
+	 * Create a chain of operations from a typed expression (e.g.
+	 * "+5 *2 -3 /4"), each replying to the previous one, in one transaction
+	 * Protected endpoint - requires authentication
+	 */
+	createChain: protectedProcedure
+		.input(chainSchema)
+		.handler(async ({ input, context }) => {
+			const operations = await context.calculationService.createChain({
+				...input,
+				userId: context.session.user.id,
+				username: context.session.user.name ?? undefined,
+			});
+			return operations.map((operation) => operation.toJSON());
+		}),
+
+	/**
+	 * Change the starting number of a root and recompute its whole tree
+	 * Protected endpoint - only the author can edit
+	 */
+	updateRootValue: protectedProcedure
+		.input(updateRootValueSchema)
+		.handler(async ({ input, context }) => {
+			const root = await context.calculationService.updateRootValue({
+				id: input.id,
+				value: input.value,
+				userId: context.session.user.id,
+			});
+			return root.toJSON();
+		}),
+
+	/**
+	 * Edit the operator/operand of an operation and recompute its subtree
+	 * and the operations referencing any of it
+	 * Protected endpoint - only the author can edit
+	 */
+	updateOperation: protectedProcedure
+		.input(updateOperationSchema)
+		.handler(async ({ input, context }) => {
+			const operation = await context.calculationService.updateOperation({
+				id: input.id,
+				operator: input.operator,
+				operand: input.operand,
+				operandRootId: input.operandRootId,
+				operandOperationId: input.operandOperationId,
+				userId: context.session.user.id,
+			});
 			return operation.toJSON();
 		}),
+
+	/**
+	 * Move an operation and its replies below another root or operation
+	 * and recompute them against the new parent
+	 * Protected endpoint - author or admin only
+	 */
+	moveOperation: protectedProcedure
+		.input(moveOperationSchema)
+		.handler(async ({ input, context }) => {
+			const operation = await context.calculationService.moveOperation({
+				...input,
+				userId: context.session.user.id,
+				isAdmin: context.session.user.role === "admin",
+			});
+			return operation.toJSON();
+		}),
+
+	/**
+	 * Delete a root and its whole operation tree
+	 * Protected endpoint - author (when nobody else replied) or admin only
+	 */
+	deleteRoot: protectedProcedure
+		.input(deleteSchema)
+		.handler(async ({ input, context }) => {
+			await context.calculationService.deleteRoot({
+				id: input.id,
+				userId: context.session.user.id,
+				isAdmin: context.session.user.role === "admin",
+			});
+			return { id: input.id };
+		}),
+
+	/**
+	 * Delete an operation and all of its replies
+	 * Protected endpoint - author (when nobody else replied) or admin only
+	 */
+	deleteOperation: protectedProcedure
+		.input(deleteSchema)
+		.handler(async ({ input, context }) => {
+			await context.calculationService.deleteOperation({
+				id: input.id,
+				userId: context.session.user.id,
+				isAdmin: context.session.user.role === "admin",
+			});
+			return { id: input.id };
+		}),
 };
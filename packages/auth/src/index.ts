@@ -19,6 +19,17 @@ export function createAuth(db: Database) {
 		emailAndPassword: {
 			enabled: true,
 		},
+		user: {
+			additionalFields: {
+				// Not settable on sign-up - admins are promoted in the database
+				role: {
+					type: "string",
+					required: false,
+					defaultValue: "user",
+					input: false,
+				},
+			},
+		},
 		// uncomment cookieCache setting when ready to deploy to Cloudflare using *.workers.dev domains
 		// session: {
 		//   cookieCache: {
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."operator" ADD VALUE 'POWER';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'NTH_ROOT';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'MODULO';
\ No newline at end of file
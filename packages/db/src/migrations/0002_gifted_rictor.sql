@@ -0,0 +1,8 @@
+ALTER TYPE "public"."operator" ADD VALUE 'NEGATE';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'ABS';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'SQRT';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'SQUARE';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'RECIPROCAL';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'FLOOR';--> statement-breakpoint
+ALTER TYPE "public"."operator" ADD VALUE 'CEIL';--> statement-breakpoint
+ALTER TABLE "calculation_operation" ALTER COLUMN "operand" DROP NOT NULL;
\ No newline at end of file
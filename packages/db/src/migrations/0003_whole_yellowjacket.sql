@@ -0,0 +1 @@
+ALTER TABLE "user" ADD COLUMN "role" text DEFAULT 'user' NOT NULL;
\ No newline at end of file
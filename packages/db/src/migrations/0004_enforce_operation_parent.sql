@@ -0,0 +1,8 @@
+-- Repair existing data so the constraints below can be added:
+-- operations with both parents keep the operation parent when it exists, otherwise the root;
+-- operations with no parent or a missing parent operation are deleted with all their replies.
+UPDATE "calculation_operation" o SET "parent_root_id" = NULL WHERE o."parent_root_id" IS NOT NULL AND o."parent_operation_id" IS NOT NULL AND EXISTS (SELECT 1 FROM "calculation_operation" p WHERE p."id" = o."parent_operation_id");--> statement-breakpoint
+UPDATE "calculation_operation" SET "parent_operation_id" = NULL WHERE "parent_root_id" IS NOT NULL AND "parent_operation_id" IS NOT NULL;--> statement-breakpoint
+WITH RECURSIVE orphaned AS (SELECT o."id" FROM "calculation_operation" o WHERE (o."parent_root_id" IS NULL AND o."parent_operation_id" IS NULL) OR (o."parent_operation_id" IS NOT NULL AND NOT EXISTS (SELECT 1 FROM "calculation_operation" p WHERE p."id" = o."parent_operation_id")) UNION SELECT c."id" FROM "calculation_operation" c JOIN orphaned ON c."parent_operation_id" = orphaned."id") DELETE FROM "calculation_operation" WHERE "id" IN (SELECT "id" FROM orphaned);--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_parent_operation_id_calculation_operation_id_fk" FOREIGN KEY ("parent_operation_id") REFERENCES "public"."calculation_operation"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_exactly_one_parent" CHECK (num_nonnulls("calculation_operation"."parent_root_id", "calculation_operation"."parent_operation_id") = 1);
\ No newline at end of file
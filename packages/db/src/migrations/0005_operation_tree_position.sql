@@ -0,0 +1,11 @@
+ALTER TABLE "calculation_operation" ADD COLUMN "root_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD COLUMN "depth" integer;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD COLUMN "path" text;--> statement-breakpoint
+-- Backfill the tree position of existing operations by walking down from each root's direct replies
+WITH RECURSIVE tree AS (SELECT o."id", o."parent_root_id" AS "root_id", 1 AS "depth", o."id" AS "path" FROM "calculation_operation" o WHERE o."parent_root_id" IS NOT NULL UNION ALL SELECT c."id", tree."root_id", tree."depth" + 1, tree."path" || '/' || c."id" FROM "calculation_operation" c JOIN tree ON c."parent_operation_id" = tree."id") UPDATE "calculation_operation" o SET "root_id" = tree."root_id", "depth" = tree."depth", "path" = tree."path" FROM tree WHERE o."id" = tree."id";--> statement-breakpoint
+ALTER TABLE "calculation_operation" ALTER COLUMN "root_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ALTER COLUMN "depth" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ALTER COLUMN "path" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_root_id_calculation_root_id_fk" FOREIGN KEY ("root_id") REFERENCES "public"."calculation_root"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calculation_operation_root_id_depth_idx" ON "calculation_operation" USING btree ("root_id","depth");--> statement-breakpoint
+CREATE INDEX "calculation_operation_path_idx" ON "calculation_operation" USING btree ("path" text_pattern_ops);
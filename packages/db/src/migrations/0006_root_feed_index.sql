@@ -0,0 +1,2 @@
+DROP INDEX "calculation_root_created_at_idx";--> statement-breakpoint
+CREATE INDEX "calculation_root_created_at_id_idx" ON "calculation_root" USING btree ("created_at" DESC NULLS LAST,"id" DESC NULLS LAST);
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "calculation_root" ADD COLUMN "operation_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "tree_depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "last_activity_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Backfill the tree statistics of existing roots
+UPDATE "calculation_root" r SET "operation_count" = s."operation_count", "tree_depth" = s."tree_depth", "last_activity_at" = greatest(r."updated_at", s."last_operation_at") FROM (SELECT r2."id", count(o."id")::int AS "operation_count", coalesce(max(o."depth"), 0) AS "tree_depth", max(o."updated_at") AS "last_operation_at" FROM "calculation_root" r2 LEFT JOIN "calculation_operation" o ON o."root_id" = r2."id" GROUP BY r2."id") s WHERE r."id" = s."id";--> statement-breakpoint
+CREATE INDEX "calculation_root_value_id_idx" ON "calculation_root" USING btree ("value","id");--> statement-breakpoint
+CREATE INDEX "calculation_root_operation_count_id_idx" ON "calculation_root" USING btree ("operation_count" DESC NULLS LAST,"id" DESC NULLS LAST);--> statement-breakpoint
+CREATE INDEX "calculation_root_tree_depth_id_idx" ON "calculation_root" USING btree ("tree_depth" DESC NULLS LAST,"id" DESC NULLS LAST);--> statement-breakpoint
+CREATE INDEX "calculation_root_last_activity_at_id_idx" ON "calculation_root" USING btree ("last_activity_at" DESC NULLS LAST,"id" DESC NULLS LAST);
\ No newline at end of file
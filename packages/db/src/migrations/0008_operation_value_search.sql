@@ -0,0 +1,2 @@
+CREATE INDEX "calculation_operation_result_idx" ON "calculation_operation" USING btree ("result");--> statement-breakpoint
+CREATE INDEX "calculation_operation_operand_idx" ON "calculation_operation" USING btree ("operand");
\ No newline at end of file
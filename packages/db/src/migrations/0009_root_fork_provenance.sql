@@ -0,0 +1,6 @@
+ALTER TABLE "calculation_root" ADD COLUMN "forked_from_root_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "forked_from_operation_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD CONSTRAINT "calculation_root_forked_from_root_id_calculation_root_id_fk" FOREIGN KEY ("forked_from_root_id") REFERENCES "public"."calculation_root"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD CONSTRAINT "calculation_root_forked_from_operation_id_calculation_operation_id_fk" FOREIGN KEY ("forked_from_operation_id") REFERENCES "public"."calculation_operation"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calculation_root_forked_from_root_id_idx" ON "calculation_root" USING btree ("forked_from_root_id");--> statement-breakpoint
+CREATE INDEX "calculation_root_forked_from_operation_id_idx" ON "calculation_root" USING btree ("forked_from_operation_id");
\ No newline at end of file
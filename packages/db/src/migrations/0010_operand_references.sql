@@ -0,0 +1,7 @@
+ALTER TABLE "calculation_operation" ADD COLUMN "operand_root_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD COLUMN "operand_operation_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_operand_root_id_calculation_root_id_fk" FOREIGN KEY ("operand_root_id") REFERENCES "public"."calculation_root"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_operand_operation_id_calculation_operation_id_fk" FOREIGN KEY ("operand_operation_id") REFERENCES "public"."calculation_operation"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calculation_operation_operand_root_id_idx" ON "calculation_operation" USING btree ("operand_root_id");--> statement-breakpoint
+CREATE INDEX "calculation_operation_operand_operation_id_idx" ON "calculation_operation" USING btree ("operand_operation_id");--> statement-breakpoint
+ALTER TABLE "calculation_operation" ADD CONSTRAINT "calculation_operation_at_most_one_operand_reference" CHECK (num_nonnulls("calculation_operation"."operand_root_id", "calculation_operation"."operand_operation_id") <= 1);
\ No newline at end of file
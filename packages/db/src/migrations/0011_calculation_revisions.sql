@@ -0,0 +1,18 @@
+CREATE TYPE "public"."calculation_node_kind" AS ENUM('root', 'operation');--> statement-breakpoint
+CREATE TYPE "public"."revision_action" AS ENUM('create', 'update', 'delete');--> statement-breakpoint
+CREATE TABLE "calculation_revision" (
+	"id" text PRIMARY KEY NOT NULL,
+	"node_id" text NOT NULL,
+	"node_kind" "calculation_node_kind" NOT NULL,
+	"root_id" text,
+	"action" "revision_action" NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calculation_revision" ADD CONSTRAINT "calculation_revision_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calculation_revision_node_id_created_at_idx" ON "calculation_revision" USING btree ("node_id","created_at");--> statement-breakpoint
+CREATE INDEX "calculation_revision_root_id_created_at_idx" ON "calculation_revision" USING btree ("root_id","created_at");--> statement-breakpoint
+CREATE INDEX "calculation_revision_user_id_idx" ON "calculation_revision" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "calculation_root" ADD COLUMN "rules" jsonb;
\ No newline at end of file
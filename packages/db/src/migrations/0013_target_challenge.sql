@@ -0,0 +1,9 @@
+ALTER TABLE "calculation_operation" ADD COLUMN "solves_target" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "target" numeric(20, 10);--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "target_tolerance" numeric(20, 10);--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "solved_by" text;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "solved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "first_solution_id" text;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD COLUMN "shortest_solution_path" text;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD CONSTRAINT "calculation_root_solved_by_user_id_fk" FOREIGN KEY ("solved_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calculation_root" ADD CONSTRAINT "calculation_root_first_solution_id_calculation_operation_id_fk" FOREIGN KEY ("first_solution_id") REFERENCES "public"."calculation_operation"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
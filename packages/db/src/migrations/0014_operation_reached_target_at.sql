@@ -0,0 +1,3 @@
+ALTER TABLE "calculation_operation" ADD COLUMN "reached_target_at" timestamp;--> statement-breakpoint
+-- Backfill from the last edit, the best estimate of when existing solutions reached the target
+UPDATE "calculation_operation" SET "reached_target_at" = "updated_at" WHERE "solves_target";
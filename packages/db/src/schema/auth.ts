@@ -9,6 +9,8 @@ export const user = pgTable("user", {
 	username: text("username").notNull().unique(),
 	emailVerified: boolean("email_verified").default(false).notNull(),
 	image: text("image"),
+	// "admin" users may delete any calculation, including other users' replies
+	role: text("role").default("user").notNull(),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at")
 		.defaultNow()
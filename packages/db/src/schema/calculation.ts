@@ -1,6 +1,11 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
+	boolean,
+	check,
 	index,
+	integer,
+	jsonb,
 	numeric,
 	pgEnum,
 	pgTable,
@@ -19,6 +24,27 @@ export const operatorEnum = pgEnum("operator", [
 	"SUBTRACT",
 	"MULTIPLY",
 	"DIVIDE",
+	"POWER",
+	"NTH_ROOT",
+	"MODULO",
+	"NEGATE",
+	"ABS",
+	"SQRT",
+	"SQUARE",
+	"RECIPROCAL",
+	"FLOOR",
+	"CEIL",
+]);
+
+export const calculationNodeKindEnum = pgEnum("calculation_node_kind", [
+	"root",
+	"operation",
+]);
+
+export const revisionActionEnum = pgEnum("revision_action", [
+	"create",
+	"update",
+	"delete",
 ]);
 
 // ============================================
@@ -37,6 +63,43 @@ export const calculationRoot = pgTable(
 		userId: text("user_id")
 			.notNull()
 			.references(() => user.id, { onDelete: "cascade" }),
+		// Provenance of a root forked from an operation's result: the root and
+		// operation it was copied from (cleared if they are deleted later)
+		forkedFromRootId: text("forked_from_root_id").references(
+			(): AnyPgColumn => calculationRoot.id,
+			{ onDelete: "set null" },
+		),
+		forkedFromOperationId: text("forked_from_operation_id").references(
+			(): AnyPgColumn => calculationOperation.id,
+			{ onDelete: "set null" },
+		),
+		// Constraints the author set on the tree's operations (allowed
+		// operators, operand bounds, maximum depth and replies per node; see
+		// RootRules in the API), null if anything goes
+		rules: jsonb("rules").$type<Record<string, unknown>>(),
+		// Number others are challenged to reach from the starting number, and
+		// how far from it a result may be (null if the tree is not a challenge)
+		target: numeric("target", { precision: 20, scale: 10 }),
+		targetTolerance: numeric("target_tolerance", { precision: 20, scale: 10 }),
+		// Set once the target is reached: who reached it first and when, the
+		// operation that did, and the "/"-separated IDs from the root's direct
+		// reply down to the operation reaching it in the fewest steps
+		solvedBy: text("solved_by").references(() => user.id, {
+			onDelete: "set null",
+		}),
+		solvedAt: timestamp("solved_at"),
+		firstSolutionId: text("first_solution_id").references(
+			(): AnyPgColumn => calculationOperation.id,
+			{ onDelete: "set null" },
+		),
+		shortestSolutionPath: text("shortest_solution_path"),
+		// Denormalized tree statistics, refreshed whenever an operation in the
+		// tree is saved, updated or deleted, so the feed can sort on them:
+		// the number of operations, the depth of the deepest one, and the last
+		// time the root or any of its operations was created or edited
+		operationCount: integer("operation_count").default(0).notNull(),
+		treeDepth: integer("tree_depth").default(0).notNull(),
+		lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at")
 			.defaultNow()
@@ -45,7 +108,31 @@ export const calculationRoot = pgTable(
 	},
 	(table) => [
 		index("calculation_root_user_id_idx").on(table.userId),
-		index("calculation_root_created_at_idx").on(table.createdAt),
+		index("calculation_root_forked_from_root_id_idx").on(
+			table.forkedFromRootId,
+		),
+		index("calculation_root_forked_from_operation_id_idx").on(
+			table.forkedFromOperationId,
+		),
+		// One index per feed order (ties broken by ID); each also serves the
+		// reverse order, e.g. oldest first
+		index("calculation_root_created_at_id_idx").on(
+			table.createdAt.desc(),
+			table.id.desc(),
+		),
+		index("calculation_root_value_id_idx").on(table.value, table.id),
+		index("calculation_root_operation_count_id_idx").on(
+			table.operationCount.desc(),
+			table.id.desc(),
+		),
+		index("calculation_root_tree_depth_id_idx").on(
+			table.treeDepth.desc(),
+			table.id.desc(),
+		),
+		index("calculation_root_last_activity_at_id_idx").on(
+			table.lastActivityAt.desc(),
+			table.id.desc(),
+		),
 	],
 );
 
@@ -58,15 +145,44 @@ export const calculationOperation = pgTable(
 	"calculation_operation",
 	{
 		id: text("id").primaryKey(),
-		// Parent references - exactly one must be set
+		// Parent references - exactly one must be set (enforced by check below)
 		parentRootId: text("parent_root_id").references(() => calculationRoot.id, {
 			onDelete: "cascade",
 		}),
-		parentOperationId: text("parent_operation_id"),
+		// Deleting an operation deletes all of its replies
+		parentOperationId: text("parent_operation_id").references(
+			(): AnyPgColumn => calculationOperation.id,
+			{ onDelete: "cascade" },
+		),
+		// Denormalized tree position, set when the operation is saved:
+		// the root of its tree, its depth below the root (direct replies are 1)
+		// and the "/"-separated IDs of its ancestors followed by its own ID
+		rootId: text("root_id")
+			.notNull()
+			.references(() => calculationRoot.id, { onDelete: "cascade" }),
+		depth: integer("depth").notNull(),
+		path: text("path").notNull(),
 		// Operation data
 		operator: operatorEnum("operator").notNull(),
-		operand: numeric("operand", { precision: 20, scale: 10 }).notNull(),
+		// Null for unary operators, which take no operand
+		operand: numeric("operand", { precision: 20, scale: 10 }),
+		// Set when the operand is another node's result rather than a literal
+		// (at most one, enforced by check below). `operand` keeps the resolved
+		// value and stays as a plain number if the referenced node is deleted.
+		operandRootId: text("operand_root_id").references(
+			() => calculationRoot.id,
+			{ onDelete: "set null" },
+		),
+		operandOperationId: text("operand_operation_id").references(
+			(): AnyPgColumn => calculationOperation.id,
+			{ onDelete: "set null" },
+		),
 		result: numeric("result", { precision: 20, scale: 10 }).notNull(),
+		// The result reaches the target of the tree, if it has one
+		solvesTarget: boolean("solves_target").default(false).notNull(),
+		// When the result started reaching the target, kept across recomputes
+		// that leave it reaching it; null while it does not
+		reachedTargetAt: timestamp("reached_target_at"),
 		// Metadata
 		userId: text("user_id")
 			.notNull()
@@ -82,8 +198,68 @@ export const calculationOperation = pgTable(
 		index("calculation_operation_parent_operation_id_idx").on(
 			table.parentOperationId,
 		),
+		index("calculation_operation_root_id_depth_idx").on(
+			table.rootId,
+			table.depth,
+		),
+		// text_pattern_ops lets "path like 'prefix/%'" subtree lookups use the index
+		index("calculation_operation_path_idx").on(
+			table.path.op("text_pattern_ops"),
+		),
+		index("calculation_operation_operand_root_id_idx").on(table.operandRootId),
+		index("calculation_operation_operand_operation_id_idx").on(
+			table.operandOperationId,
+		),
 		index("calculation_operation_user_id_idx").on(table.userId),
 		index("calculation_operation_created_at_idx").on(table.createdAt),
+		// Exact and range searches on values
+		index("calculation_operation_result_idx").on(table.result),
+		index("calculation_operation_operand_idx").on(table.operand),
+		check(
+			"calculation_operation_exactly_one_parent",
+			sql`num_nonnulls(${table.parentRootId}, ${table.parentOperationId}) = 1`,
+		),
+		check(
+			"calculation_operation_at_most_one_operand_reference",
+			sql`num_nonnulls(${table.operandRootId}, ${table.operandOperationId}) <= 1`,
+		),
+	],
+);
+
+/**
+ * Calculation Revision - Append-only history of every change to a root or
+ * operation: who made it, when, and the node's values before and after.
+ * Node IDs are not foreign keys, so the history outlives deleted nodes.
+ */
+export const calculationRevision = pgTable(
+	"calculation_revision",
+	{
+		id: text("id").primaryKey(),
+		nodeId: text("node_id").notNull(),
+		nodeKind: calculationNodeKindEnum("node_kind").notNull(),
+		// Root of the node's tree when the change was made
+		rootId: text("root_id"),
+		action: revisionActionEnum("action").notNull(),
+		// The node's values (decimals as strings); null before a create and
+		// after a delete
+		before: jsonb("before").$type<Record<string, string | null>>(),
+		after: jsonb("after").$type<Record<string, string | null>>(),
+		// Who made the change (not necessarily the node's author)
+		userId: text("user_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("calculation_revision_node_id_created_at_idx").on(
+			table.nodeId,
+			table.createdAt,
+		),
+		index("calculation_revision_root_id_created_at_idx").on(
+			table.rootId,
+			table.createdAt,
+		),
+		index("calculation_revision_user_id_idx").on(table.userId),
 	],
 );
 
@@ -98,7 +274,12 @@ export const calculationRootRelations = relations(
 			fields: [calculationRoot.userId],
 			references: [user.id],
 		}),
-		operations: many(calculationOperation),
+		operations: many(calculationOperation, {
+			relationName: "parentRoot",
+		}),
+		treeOperations: many(calculationOperation, {
+			relationName: "root",
+		}),
 	}),
 );
 
@@ -112,6 +293,12 @@ export const calculationOperationRelations = relations(
 		parentRoot: one(calculationRoot, {
 			fields: [calculationOperation.parentRootId],
 			references: [calculationRoot.id],
+			relationName: "parentRoot",
+		}),
+		root: one(calculationRoot, {
+			fields: [calculationOperation.rootId],
+			references: [calculationRoot.id],
+			relationName: "root",
 		}),
 		parentOperation: one(calculationOperation, {
 			fields: [calculationOperation.parentOperationId],
@@ -124,6 +311,16 @@ export const calculationOperationRelations = relations(
 	}),
 );
 
+export const calculationRevisionRelations = relations(
+	calculationRevision,
+	({ one }) => ({
+		user: one(user, {
+			fields: [calculationRevision.userId],
+			references: [user.id],
+		}),
+	}),
+);
+
 // ============================================
 // Types
 // ============================================
@@ -136,4 +333,8 @@ export type CalculationOperationRecord =
 export type NewCalculationOperationRecord =
 	typeof calculationOperation.$inferInsert;
 
+export type CalculationRevisionRecord = typeof calculationRevision.$inferSelect;
+export type NewCalculationRevisionRecord =
+	typeof calculationRevision.$inferInsert;
+
 export type OperatorType = (typeof operatorEnum.enumValues)[number];
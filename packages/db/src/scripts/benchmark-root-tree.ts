@@ -0,0 +1,264 @@
+/**
+ * Benchmark Root Tree Loading
+ *
+ * Compares ways of loading a single root's operation tree:
+ * - legacy: select every operation, then filter to the root's tree in memory
+ *   with repeated passes (the original findRootByIdWithOperations)
+ * - cte: a recursive CTE that walks parent_operation_id from the root and
+ *   returns only that root's operations
+ * - root_id: an indexed lookup on the denormalized root_id column (what
+ *   findRootByIdWithOperations uses now)
+ *
+ * The dataset (100k operations by default, spread over many roots) is seeded
+ * inside a transaction that is rolled back afterwards, so the database is
+ * left unchanged.
+ *
+ * Usage: bun run src/scripts/benchmark-root-tree.ts [--operations=100000]
+ *   [--roots=1000] [--iterations=20]
+ */
+
+import dotenv from "dotenv";
+import { sql } from "drizzle-orm";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+
+dotenv.config({
+	path: "../../apps/server/.env",
+});
+
+const BENCH_PREFIX = "bench-";
+
+// Operations at these positions within a root reply to the root directly;
+// the rest reply to an earlier operation of the same root
+const DIRECT_REPLIES_PER_ROOT = 5;
+
+type Database = Pick<PostgresJsDatabase, "execute">;
+
+type OperationRow = {
+	id: string;
+	parentRootId: string | null;
+	parentOperationId: string | null;
+};
+
+function readOption(name: string, fallback: number): number {
+	const arg = process.argv.find((value) => value.startsWith(`--${name}=`));
+	if (!arg) {
+		return fallback;
+	}
+	const value = Number(arg.slice(name.length + 3));
+	if (!Number.isInteger(value) || value <= 0) {
+		throw new Error(`--${name} must be a positive integer`);
+	}
+	return value;
+}
+
+/**
+ * Insert one user, `roots` roots and `operations` operations spread evenly
+ * across them. Within a root, operation k replies to the root for the first
+ * few positions and otherwise to operation floor((k - 5) / 2), giving each
+ * root a branching tree several levels deep. The recursive CTE generates the
+ * trees top-down so each operation's depth and path can be filled in.
+ */
+async function seed(db: Database, roots: number, operations: number) {
+	const userId = `${BENCH_PREFIX}user`;
+
+	await db.execute(sql`
+		insert into "user" (id, name, display_username, email, username)
+		values (${userId}, 'Benchmark', 'Benchmark', 'bench@example.com', 'benchmark')
+	`);
+	await db.execute(sql`
+		insert into calculation_root (id, value, user_id)
+		select ${`${BENCH_PREFIX}root-`} || r, 1, ${userId}
+		from generate_series(0, ${roots - 1}) as r
+	`);
+	await db.execute(sql`
+		insert into calculation_operation
+			(id, parent_root_id, parent_operation_id, root_id, depth, path,
+				operator, operand, result, user_id)
+		with recursive seeded(r, k, parent_k, depth, path) as (
+			select r, k, null::int, 1, ${`${BENCH_PREFIX}op-`} || (k * ${roots} + r)
+			from generate_series(0, ${roots - 1}) as r
+			cross join generate_series(0, ${DIRECT_REPLIES_PER_ROOT - 1}) as k
+			where k * ${roots} + r < ${operations}
+			union all
+			select s.r, c.k, s.k, s.depth + 1,
+				s.path || '/' || ${`${BENCH_PREFIX}op-`} || (c.k * ${roots} + s.r)
+			from seeded s
+			cross join lateral (values
+				(2 * s.k + ${DIRECT_REPLIES_PER_ROOT}),
+				(2 * s.k + ${DIRECT_REPLIES_PER_ROOT} + 1)
+			) as c(k)
+			where c.k * ${roots} + s.r < ${operations}
+		)
+		select
+			${`${BENCH_PREFIX}op-`} || (k * ${roots} + r),
+			case when parent_k is null then ${`${BENCH_PREFIX}root-`} || r end,
+			case when parent_k is not null
+				then ${`${BENCH_PREFIX}op-`} || (parent_k * ${roots} + r) end,
+			${`${BENCH_PREFIX}root-`} || r, depth, path,
+			'ADD', 1, 1, ${userId}
+		from seeded
+	`);
+	await db.execute(sql`analyze calculation_root`);
+	await db.execute(sql`analyze calculation_operation`);
+}
+
+async function loadLegacy(db: Database, rootId: string) {
+	const allOps = await db.execute<OperationRow>(sql`
+		select
+			o.id,
+			o.parent_root_id as "parentRootId",
+			o.parent_operation_id as "parentOperationId",
+			o.operator, o.operand, o.result, o.created_at, u.username
+		from calculation_operation o
+		left join "user" u on u.id = o.user_id
+		order by o.created_at
+	`);
+
+	const belongsToRoot = new Set<string>();
+	for (const op of allOps) {
+		if (op.parentRootId === rootId) {
+			belongsToRoot.add(op.id);
+		}
+	}
+	let foundNew = true;
+	while (foundNew) {
+		foundNew = false;
+		for (const op of allOps) {
+			if (
+				op.parentOperationId &&
+				belongsToRoot.has(op.parentOperationId) &&
+				!belongsToRoot.has(op.id)
+			) {
+				belongsToRoot.add(op.id);
+				foundNew = true;
+			}
+		}
+	}
+	return allOps.filter((op) => belongsToRoot.has(op.id));
+}
+
+async function loadWithCte(db: Database, rootId: string) {
+	return db.execute<OperationRow>(sql`
+		select
+			o.id,
+			o.parent_root_id as "parentRootId",
+			o.parent_operation_id as "parentOperationId",
+			o.operator, o.operand, o.result, o.created_at, u.username
+		from calculation_operation o
+		left join "user" u on u.id = o.user_id
+		where o.id in (
+			with recursive tree(id) as (
+				select id from calculation_operation where parent_root_id = ${rootId}
+				union all
+				select c.id from calculation_operation c
+				join tree on c.parent_operation_id = tree.id
+			)
+			select id from tree
+		)
+		order by o.created_at
+	`);
+}
+
+async function loadByRootId(db: Database, rootId: string) {
+	return db.execute<OperationRow>(sql`
+		select
+			o.id,
+			o.parent_root_id as "parentRootId",
+			o.parent_operation_id as "parentOperationId",
+			o.operator, o.operand, o.result, o.created_at, u.username
+		from calculation_operation o
+		left join "user" u on u.id = o.user_id
+		where o.root_id = ${rootId}
+		order by o.created_at
+	`);
+}
+
+async function time(
+	iterations: number,
+	run: () => Promise<unknown>,
+): Promise<{ median: number; min: number; max: number }> {
+	// Warm up caches and the query plan before measuring
+	await run();
+
+	const samples: number[] = [];
+	for (let i = 0; i < iterations; i++) {
+		const start = performance.now();
+		await run();
+		samples.push(performance.now() - start);
+	}
+	samples.sort((a, b) => a - b);
+	return {
+		median: samples[Math.floor(samples.length / 2)] ?? 0,
+		min: samples[0] ?? 0,
+		max: samples[samples.length - 1] ?? 0,
+	};
+}
+
+function formatTiming(
+	label: string,
+	timing: { median: number; min: number; max: number },
+) {
+	return `${label.padEnd(8)} median ${timing.median.toFixed(2)} ms (min ${timing.min.toFixed(2)}, max ${timing.max.toFixed(2)})`;
+}
+
+class Rollback extends Error {}
+
+async function main() {
+	const url = process.env.DATABASE_URL;
+	if (!url) {
+		throw new Error("DATABASE_URL is not set");
+	}
+
+	const operations = readOption("operations", 100_000);
+	const roots = readOption("roots", 1_000);
+	const iterations = readOption("iterations", 20);
+
+	const client = postgres(url, { max: 1 });
+	const db = drizzle({ client });
+
+	try {
+		await db.transaction(async (tx) => {
+			console.log(`Seeding ${operations} operations across ${roots} roots...`);
+			await seed(tx, roots, operations);
+
+			const rootId = `${BENCH_PREFIX}root-0`;
+			const legacyRows = await loadLegacy(tx, rootId);
+			const cteRows = await loadWithCte(tx, rootId);
+			const rootIdRows = await loadByRootId(tx, rootId);
+			if (
+				legacyRows.length !== cteRows.length ||
+				legacyRows.length !== rootIdRows.length
+			) {
+				throw new Error(
+					`Row count mismatch: legacy ${legacyRows.length}, cte ${cteRows.length}, root_id ${rootIdRows.length}`,
+				);
+			}
+			console.log(`Root ${rootId} has ${cteRows.length} operations`);
+
+			const legacy = await time(iterations, () => loadLegacy(tx, rootId));
+			const cte = await time(iterations, () => loadWithCte(tx, rootId));
+			const byRootId = await time(iterations, () => loadByRootId(tx, rootId));
+
+			console.log(formatTiming("legacy", legacy));
+			console.log(formatTiming("cte", cte));
+			console.log(formatTiming("root_id", byRootId));
+			console.log(
+				`Speedup over legacy (median): cte ${(legacy.median / cte.median).toFixed(1)}x, root_id ${(legacy.median / byRootId.median).toFixed(1)}x`,
+			);
+
+			throw new Rollback();
+		});
+	} catch (error) {
+		if (!(error instanceof Rollback)) {
+			throw error;
+		}
+	} finally {
+		await client.end();
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Repair Orphaned Operations
+ *
+ * Reports (and with --fix, repairs) calculation operations that violate the
+ * parent constraints added in migration 0004:
+ * - operations with both a root and an operation parent keep only one
+ *   (the operation parent when it exists, otherwise the root)
+ * - operations with no parent, or whose parent operation no longer exists,
+ *   are deleted together with all of their replies
+ *
+ * Migration 0004 applies the same repair before adding the constraints, so
+ * this script is for inspecting data ahead of migrating.
+ *
+ * Usage: bun run src/scripts/repair-orphaned-operations.ts [--fix]
+ */
+
+import dotenv from "dotenv";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+
+dotenv.config({
+	path: "../../apps/server/.env",
+});
+
+const fix = process.argv.includes("--fix");
+
+/**
+ * Operations with no parent or a missing parent operation, plus every
+ * operation below them (none of these are reachable from a root)
+ */
+const orphanedOperations = sql`
+	with recursive orphaned as (
+		select o.id
+		from calculation_operation o
+		where (o.parent_root_id is null and o.parent_operation_id is null)
+			or (
+				o.parent_operation_id is not null
+				and not exists (
+					select 1 from calculation_operation p
+					where p.id = o.parent_operation_id
+				)
+			)
+		union
+		select c.id
+		from calculation_operation c
+		join orphaned on c.parent_operation_id = orphaned.id
+	)
+`;
+
+async function main() {
+	const url = process.env.DATABASE_URL;
+	if (!url) {
+		throw new Error("DATABASE_URL is not set");
+	}
+
+	const client = postgres(url, { max: 1 });
+	const db = drizzle({ client });
+
+	try {
+		const [bothParents] = await db.execute<{ count: number }>(sql`
+			select count(*)::int as count
+			from calculation_operation
+			where parent_root_id is not null and parent_operation_id is not null
+		`);
+		const orphans = await db.execute<{ id: string }>(sql`
+			${orphanedOperations}
+			select id from orphaned
+		`);
+
+		console.log(`Operations with both parents set: ${bothParents?.count ?? 0}`);
+		console.log(`Orphaned operations (including replies): ${orphans.length}`);
+		for (const orphan of orphans) {
+			console.log(`  - ${orphan.id}`);
+		}
+
+		if (!fix) {
+			console.log("Run with --fix to repair.");
+			return;
+		}
+
+		await db.transaction(async (tx) => {
+			await tx.execute(sql`
+				update calculation_operation o
+				set parent_root_id = null
+				where o.parent_root_id is not null
+					and o.parent_operation_id is not null
+					and exists (
+						select 1 from calculation_operation p
+						where p.id = o.parent_operation_id
+					)
+			`);
+			await tx.execute(sql`
+				update calculation_operation
+				set parent_operation_id = null
+				where parent_root_id is not null and parent_operation_id is not null
+			`);
+			await tx.execute(sql`
+				${orphanedOperations}
+				delete from calculation_operation
+				where id in (select id from orphaned)
+			`);
+		});
+
+		console.log("Repaired.");
+	} finally {
+		await client.end();
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});